@@ -0,0 +1,368 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import Link from 'next/link'
+import { AppSidebar } from '@/components/app-sidebar'
+import {
+  Breadcrumb,
+  BreadcrumbItem,
+  BreadcrumbLink,
+  BreadcrumbList,
+  BreadcrumbPage,
+  BreadcrumbSeparator,
+} from '@/components/ui/breadcrumb'
+import { Separator } from '@/components/ui/separator'
+import {
+  SidebarInset,
+  SidebarProvider,
+  SidebarTrigger,
+} from '@/components/ui/sidebar'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
+import { AlertTriangle, Building2, Clock, Info, Settings2, TrendingUp } from 'lucide-react'
+import { DataService } from '@/lib/data-service'
+import { GroupVelocity, PipelineAnalytics, PipelineSummary } from '@/lib/pipeline-analytics'
+import { PhaseCatalog } from '@/lib/phases'
+import { useCurrentUser } from '@/hooks/use-current-user'
+import { usePhases } from '@/hooks/use-phases'
+import { DataErrorAlert } from '@/components/data-error-alert'
+import { StallThresholdsDialog } from '@/components/stall-thresholds-dialog'
+
+function formatDays(days: number | null) {
+  if (days === null) return '—'
+  return `${days < 10 ? days.toFixed(1) : Math.round(days)}d`
+}
+
+function formatPercent(share: number | null) {
+  return share === null ? '—' : `${Math.round(share * 100)}%`
+}
+
+function FunnelTable({ summary, phases }: { summary: PipelineSummary; phases: PhaseCatalog }) {
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>Phase</TableHead>
+          <TableHead className="text-right">Reached</TableHead>
+          <TableHead className="text-right">To next phase</TableHead>
+          <TableHead className="text-right">Median time</TableHead>
+          <TableHead className="text-right">In phase now</TableHead>
+          <TableHead className="text-right">Stalled</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {summary.phases.map(stats => (
+          <TableRow key={stats.phase}>
+            <TableCell>
+              <Badge variant={phases.variant(stats.phase)}>{phases.label(stats.phase)}</Badge>
+            </TableCell>
+            <TableCell className="text-right">{stats.reached}</TableCell>
+            <TableCell className="text-right">{formatPercent(stats.conversion)}</TableCell>
+            <TableCell className="text-right">{formatDays(stats.medianDays)}</TableCell>
+            <TableCell className="text-right">{stats.current}</TableCell>
+            <TableCell className="text-right">
+              {stats.stalled > 0 ? <span className="text-amber-600 font-medium">{stats.stalled}</span> : 0}
+            </TableCell>
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  )
+}
+
+// Median days per phase for each region or broker
+function VelocityTable({ groups, label, phases }: { groups: GroupVelocity[]; label: string; phases: PhaseCatalog }) {
+  if (groups.length === 0) {
+    return <p className="text-sm text-muted-foreground">Not enough history yet.</p>
+  }
+
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>{label}</TableHead>
+          {phases.phases.map(phase => (
+            <TableHead key={phase.key} className="text-right">{phase.label}</TableHead>
+          ))}
+          <TableHead className="text-right">Stalled</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {groups.map(group => (
+          <TableRow key={group.key}>
+            <TableCell className="font-medium">{group.key}</TableCell>
+            {phases.phases.map(phase => (
+              <TableCell key={phase.key} className="text-right">{formatDays(group.medianDays[phase.key] ?? null)}</TableCell>
+            ))}
+            <TableCell className="text-right">{group.stalled}</TableCell>
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  )
+}
+
+export default function AnalyticsPage() {
+  const { can } = useCurrentUser()
+  const loadedPhases = usePhases()
+  // Replaces the loaded catalog once stall limits are saved here
+  const [savedPhases, setSavedPhases] = useState<PhaseCatalog | null>(null)
+  const phases = savedPhases ?? loadedPhases
+  const [analytics, setAnalytics] = useState<PipelineAnalytics | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [loadError, setLoadError] = useState<unknown>(null)
+  const [selectedMarketId, setSelectedMarketId] = useState('all')
+  const [isThresholdsOpen, setIsThresholdsOpen] = useState(false)
+
+  const fetchAnalytics = useCallback(async () => {
+    setLoading(true)
+    try {
+      const data = await DataService.getPipelineAnalytics()
+      setAnalytics(data)
+      setLoadError(null)
+    } catch (error) {
+      setLoadError(error)
+    } finally {
+      setLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    fetchAnalytics()
+  }, [fetchAnalytics])
+
+  if (loading && !analytics) {
+    return (
+      <SidebarProvider>
+        <AppSidebar />
+        <SidebarInset>
+          <div className="flex items-center justify-center h-screen">
+            <div className="text-lg">Loading analytics...</div>
+          </div>
+        </SidebarInset>
+      </SidebarProvider>
+    )
+  }
+
+  const marketNames = Object.fromEntries((analytics?.markets || []).map(market => [market.marketId, market.marketName]))
+  const selectedSummary = selectedMarketId === 'all'
+    ? analytics?.portfolio
+    : analytics?.markets.find(market => market.marketId === selectedMarketId)
+
+  return (
+    <SidebarProvider>
+      <AppSidebar />
+      <SidebarInset>
+        <header className="flex h-16 shrink-0 items-center gap-2 transition-[width,height] ease-linear group-has-data-[collapsible=icon]/sidebar-wrapper:h-12">
+          <div className="flex items-center gap-2 px-4">
+            <SidebarTrigger className="-ml-1" />
+            <Separator
+              orientation="vertical"
+              className="mr-2 data-[orientation=vertical]:h-4"
+            />
+            <Breadcrumb>
+              <BreadcrumbList>
+                <BreadcrumbItem>
+                  <BreadcrumbLink href="/dashboard">Dashboard</BreadcrumbLink>
+                </BreadcrumbItem>
+                <BreadcrumbSeparator />
+                <BreadcrumbItem>
+                  <BreadcrumbPage>Analytics</BreadcrumbPage>
+                </BreadcrumbItem>
+              </BreadcrumbList>
+            </Breadcrumb>
+          </div>
+          {can('markets:manage') && (
+            <div className="ml-auto px-4">
+              <Button variant="outline" size="sm" onClick={() => setIsThresholdsOpen(true)}>
+                <Settings2 className="h-4 w-4" />
+                Stall limits
+              </Button>
+            </div>
+          )}
+        </header>
+        <div className="flex flex-1 flex-col gap-4 p-4 pt-0">
+          {loadError !== null && (
+            <DataErrorAlert error={loadError} title="Couldn't load analytics" onRetry={fetchAnalytics} />
+          )}
+
+          {analytics && (
+            <>
+              {analytics.portfolio.estimated && (
+                <Alert>
+                  <Info />
+                  <AlertTitle>Some timelines are estimated</AlertTitle>
+                  <AlertDescription>
+                    Properties added before phase changes were recorded are timed from their created and last-edited dates and the market&apos;s weekly updates.
+                  </AlertDescription>
+                </Alert>
+              )}
+
+              <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-4">
+                <Card>
+                  <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+                    <CardTitle className="text-sm font-medium">Properties</CardTitle>
+                    <Building2 className="h-4 w-4 text-muted-foreground" />
+                  </CardHeader>
+                  <CardContent>
+                    <div className="text-2xl font-bold">{analytics.portfolio.properties}</div>
+                    <p className="text-xs text-muted-foreground">Across {analytics.markets.length} markets</p>
+                  </CardContent>
+                </Card>
+                <Card>
+                  <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+                    <CardTitle className="text-sm font-medium">Median time to close</CardTitle>
+                    <Clock className="h-4 w-4 text-muted-foreground" />
+                  </CardHeader>
+                  <CardContent>
+                    <div className="text-2xl font-bold">{formatDays(analytics.portfolio.medianDaysToClose)}</div>
+                    <p className="text-xs text-muted-foreground">From first phase to {phases.label(phases.phases[phases.phases.length - 1]?.key)}</p>
+                  </CardContent>
+                </Card>
+                <Card>
+                  <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+                    <CardTitle className="text-sm font-medium">Closed</CardTitle>
+                    <TrendingUp className="h-4 w-4 text-muted-foreground" />
+                  </CardHeader>
+                  <CardContent>
+                    <div className="text-2xl font-bold">
+                      {analytics.portfolio.phases[analytics.portfolio.phases.length - 1]?.reached ?? 0}
+                    </div>
+                    <p className="text-xs text-muted-foreground">Properties that reached the end of the pipeline</p>
+                  </CardContent>
+                </Card>
+                <Card>
+                  <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+                    <CardTitle className="text-sm font-medium">Stalled deals</CardTitle>
+                    <AlertTriangle className="h-4 w-4 text-muted-foreground" />
+                  </CardHeader>
+                  <CardContent>
+                    <div className="text-2xl font-bold">{analytics.portfolio.stalled}</div>
+                    <p className="text-xs text-muted-foreground">Over their phase&apos;s stall limit</p>
+                  </CardContent>
+                </Card>
+              </div>
+
+              {analytics.stalled.length > 0 && (
+                <Alert className="border-amber-300 bg-amber-50 text-amber-900">
+                  <AlertTriangle />
+                  <AlertTitle>{analytics.stalled.length} stalled {analytics.stalled.length === 1 ? 'deal' : 'deals'}</AlertTitle>
+                  <AlertDescription>
+                    <ul className="space-y-1">
+                      {analytics.stalled.map(deal => (
+                        <li key={deal.propertyId}>
+                          <Link href={`/properties/${deal.propertyId}`} className="font-medium hover:underline">
+                            {deal.propertyName}
+                          </Link>
+                          {' '}({marketNames[deal.marketId] || 'Unknown market'}) has been in {phases.label(deal.phase)} for{' '}
+                          {deal.days} days, against a limit of {deal.limitDays}
+                        </li>
+                      ))}
+                    </ul>
+                  </AlertDescription>
+                </Alert>
+              )}
+
+              <Card>
+                <CardHeader className="flex flex-row items-start justify-between gap-4 space-y-0">
+                  <div className="space-y-1.5">
+                    <CardTitle>Funnel</CardTitle>
+                    <CardDescription>How far deals get and how long they spend in each phase</CardDescription>
+                  </div>
+                  <Select value={selectedMarketId} onValueChange={setSelectedMarketId}>
+                    <SelectTrigger className="w-56">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="all">All markets</SelectItem>
+                      {analytics.markets.map(market => (
+                        <SelectItem key={market.marketId} value={market.marketId}>{market.marketName}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </CardHeader>
+                <CardContent>
+                  {selectedSummary && selectedSummary.properties > 0 ? (
+                    <FunnelTable summary={selectedSummary} phases={phases} />
+                  ) : (
+                    <p className="text-sm text-muted-foreground">No properties in this market yet.</p>
+                  )}
+                </CardContent>
+              </Card>
+
+              <Card>
+                <CardHeader>
+                  <CardTitle>Markets</CardTitle>
+                  <CardDescription>Pipeline health by market</CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Market</TableHead>
+                        <TableHead>Region</TableHead>
+                        <TableHead className="text-right">Properties</TableHead>
+                        <TableHead className="text-right">Closed</TableHead>
+                        <TableHead className="text-right">Median time to close</TableHead>
+                        <TableHead className="text-right">Stalled</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {analytics.markets.map(market => (
+                        <TableRow key={market.marketId}>
+                          <TableCell className="font-medium">
+                            <Link href={`/markets/${market.marketId}`} className="hover:underline">{market.marketName}</Link>
+                          </TableCell>
+                          <TableCell className="text-muted-foreground">{market.region}</TableCell>
+                          <TableCell className="text-right">{market.properties}</TableCell>
+                          <TableCell className="text-right">{market.phases[market.phases.length - 1]?.reached ?? 0}</TableCell>
+                          <TableCell className="text-right">{formatDays(market.medianDaysToClose)}</TableCell>
+                          <TableCell className="text-right">{market.stalled}</TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </CardContent>
+              </Card>
+
+              <div className="grid gap-4 xl:grid-cols-2">
+                <Card>
+                  <CardHeader>
+                    <CardTitle>By region</CardTitle>
+                    <CardDescription>Median days in each phase, grouped by the states a market covers</CardDescription>
+                  </CardHeader>
+                  <CardContent>
+                    <VelocityTable groups={analytics.regions} label="Region" phases={phases} />
+                  </CardContent>
+                </Card>
+                <Card>
+                  <CardHeader>
+                    <CardTitle>By broker</CardTitle>
+                    <CardDescription>Median days in each phase, by who moved the deal into it</CardDescription>
+                  </CardHeader>
+                  <CardContent>
+                    <VelocityTable groups={analytics.brokers} label="Broker" phases={phases} />
+                  </CardContent>
+                </Card>
+              </div>
+            </>
+          )}
+        </div>
+
+        <StallThresholdsDialog
+          open={isThresholdsOpen}
+          onOpenChange={setIsThresholdsOpen}
+          phases={phases}
+          onSaved={(saved) => {
+            setSavedPhases(saved)
+            fetchAnalytics()
+          }}
+        />
+      </SidebarInset>
+    </SidebarProvider>
+  )
+}
@@ -0,0 +1,26 @@
+import { describe, expect, it } from 'vitest'
+import { NextRequest } from 'next/server'
+import { GET } from './route'
+
+// No url, so each request is counted and then refused without fetching anything
+function request(forwardedFor: string) {
+  return new NextRequest('https://portal.test/api/image-proxy', {
+    headers: { 'x-forwarded-for': forwardedFor },
+  })
+}
+
+describe('GET /api/image-proxy', () => {
+  it('answers 429 once a client uses up its requests, however it varies the hops it sends', async () => {
+    for (let index = 0; index < 60; index++) {
+      const response = await GET(request(`198.51.100.${index}, 203.0.113.9`))
+      expect(response.status).toBe(400)
+    }
+
+    const limited = await GET(request('198.51.100.200, 203.0.113.9'))
+    expect(limited.status).toBe(429)
+    expect(Number(limited.headers.get('retry-after'))).toBeGreaterThan(0)
+
+    // Another client behind the same proxy is counted on its own
+    expect((await GET(request('203.0.113.10'))).status).toBe(400)
+  })
+})
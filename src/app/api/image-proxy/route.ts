@@ -1,38 +1,54 @@
 import { NextRequest, NextResponse } from 'next/server'
+import { config } from '@/lib/config'
+import { fetchImage, ImageProxyError } from '@/lib/image-proxy'
+import { RateLimiter } from '@/lib/rate-limit'
+
+// Uses node:http and node:dns
+export const runtime = 'nodejs'
+
+// Requests per client IP per minute
+const limiter = new RateLimiter(60, 60 * 1000)
+
+// Each proxy appends the address it received the request from, so only the
+// last X-Forwarded-For entry, added by the hosting proxy, can be trusted.
+// Earlier entries are whatever the client sent.
+function clientKey(request: NextRequest) {
+  return request.headers.get('x-forwarded-for')?.split(',').pop()?.trim()
+    || request.headers.get('x-real-ip')
+    || 'unknown'
+}
 
 export async function GET(request: NextRequest) {
-  const { searchParams } = new URL(request.url)
-  const imageUrl = searchParams.get('url')
+  const limit = limiter.check(clientKey(request))
+  if (!limit.allowed) {
+    return NextResponse.json(
+      { error: 'Too many image requests, try again shortly' },
+      { status: 429, headers: { 'Retry-After': String(limit.retryAfterSeconds) } }
+    )
+  }
 
+  const imageUrl = request.nextUrl.searchParams.get('url')
   if (!imageUrl) {
     return NextResponse.json({ error: 'No URL provided' }, { status: 400 })
   }
 
   try {
-    const response = await fetch(imageUrl, {
-      headers: {
-        'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/91.0.4472.124 Safari/537.36',
-        'Accept': 'image/*',
-        'Referer': 'https://www.google.com/',
-      },
-    })
-
-    if (!response.ok) {
-      throw new Error(`Failed to fetch image: ${response.status}`)
-    }
-
-    const imageBuffer = await response.arrayBuffer()
-    const contentType = response.headers.get('content-type') || 'image/jpeg'
+    const image = await fetchImage(imageUrl, { allowedHosts: config.imageProxy.allowedHosts })
 
-    return new NextResponse(imageBuffer, {
+    return new NextResponse(new Uint8Array(image.body), {
       headers: {
-        'Content-Type': contentType,
-        'Cache-Control': 'public, max-age=31536000',
-        'Access-Control-Allow-Origin': '*',
+        'Content-Type': image.contentType,
+        'Content-Length': String(image.body.length),
+        'Cache-Control': 'public, max-age=86400',
+        'X-Content-Type-Options': 'nosniff',
+        'Content-Security-Policy': 'default-src \'none\'; sandbox',
       },
     })
   } catch (error) {
+    if (error instanceof ImageProxyError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
     console.error('Error proxying image:', error)
-    return NextResponse.json({ error: 'Failed to fetch image' }, { status: 500 })
+    return NextResponse.json({ error: 'Failed to fetch image' }, { status: 502 })
   }
 }
@@ -0,0 +1,60 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { NextRequest } from 'next/server'
+
+// Stands in for Supabase Auth: records the code and answers with the test's error, if any
+const auth = vi.hoisted(() => ({
+  exchangedCodes: [] as string[],
+  error: null as { message: string } | null,
+}))
+
+vi.mock('@/lib/supabase-server', () => ({
+  createServerSupabaseClient: async () => ({
+    auth: {
+      exchangeCodeForSession: async (code: string) => {
+        auth.exchangedCodes.push(code)
+        return { data: {}, error: auth.error }
+      },
+    },
+  }),
+}))
+
+const { GET } = await import('./route')
+
+function callback(query: string) {
+  return GET(new NextRequest(`https://portal.test/auth/callback${query}`))
+}
+
+describe('GET /auth/callback', () => {
+  beforeEach(() => {
+    auth.exchangedCodes = []
+    auth.error = null
+  })
+
+  it('exchanges the code and continues to the requested page', async () => {
+    const response = await callback('?code=abc&next=%2Fmarkets%2F42')
+
+    expect(auth.exchangedCodes).toEqual(['abc'])
+    expect(response.headers.get('location')).toBe('https://portal.test/markets/42')
+  })
+
+  it('continues to the dashboard when next would leave the app', async () => {
+    const response = await callback('?code=abc&next=%2F%5Cevil.com')
+
+    expect(response.headers.get('location')).toBe('https://portal.test/dashboard')
+  })
+
+  it('sends expired or reused links back to login', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+    auth.error = { message: 'invalid flow state' }
+    const response = await callback('?code=abc&next=%2Fmap')
+
+    expect(response.headers.get('location')).toBe('https://portal.test/login?error=link_invalid')
+  })
+
+  it('sends links without a code back to login', async () => {
+    const response = await callback('?next=%2Fmap')
+
+    expect(auth.exchangedCodes).toEqual([])
+    expect(response.headers.get('location')).toBe('https://portal.test/login?error=link_invalid')
+  })
+})
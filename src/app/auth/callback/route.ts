@@ -0,0 +1,23 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createServerSupabaseClient } from '@/lib/supabase-server'
+import { LOGIN_ROUTE, safeRedirectPath } from '@/lib/auth-routes'
+
+// Magic links land here with a PKCE code that is exchanged for a session cookie
+export async function GET(request: NextRequest) {
+  const { searchParams, origin } = new URL(request.url)
+  const code = searchParams.get('code')
+  const next = safeRedirectPath(searchParams.get('next'))
+
+  if (code) {
+    const supabase = await createServerSupabaseClient()
+    const { error } = await supabase.auth.exchangeCodeForSession(code)
+
+    if (!error) {
+      return NextResponse.redirect(`${origin}${next}`)
+    }
+
+    console.error('Error exchanging auth code:', error)
+  }
+
+  return NextResponse.redirect(`${origin}${LOGIN_ROUTE}?error=link_invalid`)
+}
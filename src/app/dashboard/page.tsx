@@ -1,6 +1,6 @@
 'use client'
 
-import { useEffect, useState, useRef } from 'react'
+import { useEffect, useMemo, useState, useRef } from 'react'
 import { AppSidebar } from '@/components/app-sidebar'
 import {
   Breadcrumb,
@@ -18,20 +18,17 @@ import {
 } from '@/components/ui/sidebar'
 import { DataService } from '@/lib/data-service'
 import { Property, Market } from '@/lib/supabase'
+import { MapEngine, MapScene, isMapped } from '@/lib/map-engine'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
 import { Badge } from '@/components/ui/badge'
 import { Button } from '@/components/ui/button'
 import { Building2, MapPin, Globe } from 'lucide-react'
-import mapboxgl from 'mapbox-gl'
-import 'mapbox-gl/dist/mapbox-gl.css'
+import { usePhases } from '@/hooks/use-phases'
+import { MapSetupNotice, MapView } from '@/components/map-view'
+import { MapPhaseLegend, togglePhase } from '@/components/map-phase-legend'
+import { UnmappedPropertiesNotice } from '@/components/unmapped-properties-notice'
 
-// Ensure Mapbox CSS is loaded
-if (typeof window !== 'undefined') {
-  console.log('Mapbox CSS loaded, mapboxgl version:', mapboxgl.version)
-}
-
-// Set your Mapbox access token here
-mapboxgl.accessToken = process.env.NEXT_PUBLIC_MAPBOX_ACCESS_TOKEN || '';
+const US_VIEW = { center: [-98.5795, 39.8283] as [number, number], zoom: 3.5 }
 
 interface DashboardStats {
   totalMarkets: number
@@ -66,9 +63,13 @@ export default function Page() {
   const [selectedMarket, setSelectedMarket] = useState<string | null>(null)
 
   const [loading, setLoading] = useState(true)
-  const mapContainer = useRef<HTMLDivElement>(null)
-  const map = useRef<mapboxgl.Map | null>(null)
-  const [mapLoaded, setMapLoaded] = useState(false)
+  const map = useRef<MapEngine | null>(null)
+  const phases = usePhases()
+  const [hiddenPhases, setHiddenPhases] = useState<ReadonlySet<string>>(new Set())
+
+  const scene = useMemo<MapScene>(() => ({
+    properties: { items: dashboardData.allProperties, phases, hiddenPhases, popups: true }
+  }), [dashboardData.allProperties, phases, hiddenPhases])
 
   useEffect(() => {
     const fetchData = async () => {
@@ -102,17 +103,12 @@ export default function Page() {
     
     for (const market of markets) {
       const marketProperties = allProperties.filter(p => p.market_id === market.id)
-      const validProperties = marketProperties.filter(p => 
-        typeof p.lat === 'number' && 
-        typeof p.lng === 'number' && 
-        !isNaN(p.lat) && 
-        !isNaN(p.lng)
-      )
+      const validProperties = marketProperties.filter(isMapped)
       
       if (validProperties.length > 0) {
         // Calculate center from valid properties
-        const lat = validProperties.reduce((sum, p) => sum + p.lat!, 0) / validProperties.length
-        const lng = validProperties.reduce((sum, p) => sum + p.lng!, 0) / validProperties.length
+        const lat = validProperties.reduce((sum, p) => sum + p.lat, 0) / validProperties.length
+        const lng = validProperties.reduce((sum, p) => sum + p.lng, 0) / validProperties.length
         
         // Adjust zoom based on number of valid properties
         let zoom = 10
@@ -141,12 +137,7 @@ export default function Page() {
     const market = marketCenters.find(m => m.id === marketId)
     if (market && map.current) {
       setSelectedMarket(marketId)
-      map.current.flyTo({
-        center: [market.lng, market.lat],
-        zoom: market.zoom,
-        duration: 2000,
-        essential: true
-      })
+      map.current.flyTo([market.lng, market.lat], market.zoom)
     }
   }
 
@@ -154,159 +145,8 @@ export default function Page() {
   const resetView = () => {
     if (map.current) {
       setSelectedMarket(null)
-      map.current.flyTo({
-        center: [-98.5795, 39.8283], // Center of US
-        zoom: 3.5, // Original zoom level
-        duration: 2000,
-        essential: true
-      })
-    }
-  }
-
-  useEffect(() => {
-    // Wait for stats to load and DOM to be ready
-    if (loading || !mapContainer.current) {
-      return
-    }
-
-    // Prevent multiple initializations
-    if (map.current) {
-      console.log('Map already exists, skipping initialization')
-      return
-    }
-
-    console.log('Mapbox access token:', mapboxgl.accessToken)
-    console.log('Token length:', mapboxgl.accessToken?.length)
-
-    if (!mapboxgl.accessToken) {
-      console.error('Mapbox access token is not set. Please set NEXT_PUBLIC_MAPBOX_ACCESS_TOKEN in your .env file.')
-      return
-    }
-
-    if (mapboxgl.accessToken === 'YOUR_MAPBOX_ACCESS_TOKEN_HERE') {
-      console.error('Please replace the placeholder token with your actual Mapbox access token')
-      return
-    }
-
-    const container = mapContainer.current
-    if (!container) {
-      console.error('Map container not found')
-      return
-    }
-
-    console.log('Initializing map with container:', container)
-    console.log('Container dimensions:', container.offsetWidth, 'x', container.offsetHeight)
-
-    try {
-      map.current = new mapboxgl.Map({
-        container: container,
-        style: 'mapbox://styles/mapbox/streets-v12', // Standard street style
-        center: [-98.5795, 39.8283], // Center of US
-        zoom: 3.5, // Zoomed in on US
-        preserveDrawingBuffer: true, // Prevent map from disappearing
-        antialias: true, // Improve rendering quality
-      })
-
-      console.log('Map initialized successfully')
-      
-      // Add event listeners
-      map.current.on('load', () => {
-        console.log('Map loaded successfully')
-        setMapLoaded(true)
-        if (map.current) {
-          map.current.resize()
-          addMarkersToMap()
-        }
-      })
-
-      map.current.on('error', (e) => {
-        console.error('Map error:', e)
-      })
-
-      // Handle map resizing when the container changes size (e.g., sidebar collapse/expand)
-      const resizeObserver = new ResizeObserver(() => {
-        if (map.current && map.current.isStyleLoaded()) {
-          console.log('Resizing map due to container change')
-          map.current.resize()
-        }
-      })
-
-      resizeObserver.observe(container)
-
-      // Store the resize observer for cleanup
-      const cleanup = () => {
-        if (map.current) {
-          console.log('Cleaning up map')
-          map.current.remove()
-          map.current = null
-        }
-        resizeObserver.unobserve(container)
-        resizeObserver.disconnect()
-      }
-
-      // Cleanup function
-      return cleanup
-    } catch (error) {
-      console.error('Error initializing map:', error)
-      return
-    }
-  }, [loading]) // Add loading dependency to ensure DOM is ready
-
-  // Add markers when stats data becomes available
-  useEffect(() => {
-    if (mapLoaded && dashboardData.allProperties && map.current) {
-      addMarkersToMap()
-    }
-  }, [mapLoaded, dashboardData.allProperties])
-
-  const addMarkersToMap = () => {
-    if (!map.current || !mapLoaded || !dashboardData.allProperties) {
-      console.log('addMarkersToMap early return:', {
-        hasMap: !!map.current,
-        mapLoaded,
-        hasStats: !!dashboardData.stats,
-        hasAllProperties: !!dashboardData.allProperties,
-        allPropertiesCount: dashboardData.allProperties?.length
-      })
-      return
+      map.current.flyTo(US_VIEW.center, US_VIEW.zoom)
     }
-
-    console.log('Adding markers to dashboard map:', dashboardData.allProperties.length, 'properties')
-    console.log('Properties with coordinates:', dashboardData.allProperties.filter(p => p.lat && p.lng).length)
-    
-    // Add property markers
-    dashboardData.allProperties.forEach((property) => {
-      if (property.lat && property.lng && map.current) {
-        // Create property marker
-        const markerEl = document.createElement('div')
-        markerEl.className = 'property-marker'
-        markerEl.style.width = '16px'
-        markerEl.style.height = '16px'
-        markerEl.style.borderRadius = '50%'
-        markerEl.style.backgroundColor = '#3b82f6'
-        markerEl.style.border = '2px solid white'
-        markerEl.style.cursor = 'pointer'
-        markerEl.style.boxShadow = '0 2px 4px rgba(0,0,0,0.3)'
-
-        // Create popup for property
-        const popup = new mapboxgl.Popup({ offset: 25 }).setHTML(`
-          <div class="p-2">
-            <h3 class="font-semibold text-sm">${property.title || property.address_line || 'Untitled Property'}</h3>
-            <p class="text-xs text-gray-600">${property.city}, ${property.state}</p>
-            ${property.base_rent_psf ? `<p class="text-xs text-gray-600">$${property.base_rent_psf}/sq ft</p>` : ''}
-            <p class="text-xs text-gray-500">Phase: ${property.phase}</p>
-          </div>
-        `)
-
-        // Add marker to map
-        new mapboxgl.Marker(markerEl)
-          .setLngLat([property.lng, property.lat])
-          .setPopup(popup)
-          .addTo(map.current)
-      }
-    })
-
-    console.log(`Added ${dashboardData.allProperties.filter(p => p.lat && p.lng).length} property markers to the map`)
   }
 
   if (loading) {
@@ -374,6 +214,7 @@ export default function Page() {
                 <Globe className="h-5 w-5" />
                 Geographic Overview
               </CardTitle>
+              <UnmappedPropertiesNotice properties={dashboardData.allProperties} />
               <div className="flex flex-wrap gap-2 mt-2">
                 <Button
                   variant={selectedMarket === null ? "default" : "outline"}
@@ -402,28 +243,23 @@ export default function Page() {
               </div>
             </CardHeader>
             <CardContent>
-              <div className="flex-1 min-h-0 rounded-lg overflow-hidden border bg-gray-50">
-                <div ref={mapContainer} className="w-full h-96" />
-                {(!mapboxgl.accessToken || mapboxgl.accessToken === 'YOUR_MAPBOX_ACCESS_TOKEN_HERE') && !mapLoaded ? (
-                  <div className="absolute inset-0 flex items-center justify-center bg-gray-100">
-                    <div className="text-center p-6">
-                      <Globe className="h-12 w-12 mx-auto mb-4 text-gray-400" />
-                      <h3 className="text-lg font-medium text-gray-900 mb-2">Map Not Available</h3>
-                      <p className="text-gray-600 mb-4">
-                        {!mapboxgl.accessToken 
-                          ? 'Mapbox access token is not configured.'
-                          : 'Please set your Mapbox access token in .env.local'
-                        }
-                      </p>
-                      <div className="bg-yellow-50 border border-yellow-200 rounded-md p-3 text-sm text-yellow-800">
-                        <p className="font-medium">Setup Required:</p>
-                        <p>1. Get your token from <a href="https://account.mapbox.com/access-tokens/" target="_blank" rel="noopener noreferrer" className="underline">Mapbox</a></p>
-                        <p>2. Add to .env.local: NEXT_PUBLIC_MAPBOX_ACCESS_TOKEN=your_token_here</p>
-                        <p>3. Restart the development server</p>
-                      </div>
-                    </div>
-                  </div>
-                ) : null}
+              <div className="relative flex-1 min-h-0 rounded-lg overflow-hidden border bg-gray-50">
+                <MapView
+                  scene={scene}
+                  cluster
+                  initialView={US_VIEW}
+                  onReady={(engine) => { map.current = engine }}
+                  className="w-full h-96"
+                  fallback={<div className="relative h-96"><MapSetupNotice /></div>}
+                >
+                  <MapPhaseLegend
+                    properties={dashboardData.allProperties}
+                    phases={phases}
+                    hiddenPhases={hiddenPhases}
+                    onToggle={(phaseKey) => setHiddenPhases(current => togglePhase(current, phaseKey))}
+                    className="absolute bottom-8 left-3 w-52"
+                  />
+                </MapView>
               </div>
             </CardContent>
           </Card>
@@ -0,0 +1,429 @@
+'use client'
+
+import React, { useMemo, useState } from 'react'
+import { useRouter } from 'next/navigation'
+import Link from 'next/link'
+import { AppSidebar } from '@/components/app-sidebar'
+import {
+  Breadcrumb,
+  BreadcrumbItem,
+  BreadcrumbLink,
+  BreadcrumbList,
+  BreadcrumbPage,
+  BreadcrumbSeparator,
+} from '@/components/ui/breadcrumb'
+import { Separator } from '@/components/ui/separator'
+import {
+  SidebarInset,
+  SidebarProvider,
+  SidebarTrigger,
+} from '@/components/ui/sidebar'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
+import { AlertTriangle, Download, Trophy, X } from 'lucide-react'
+import { toast } from 'sonner'
+import { DataService } from '@/lib/data-service'
+import { describeError } from '@/lib/errors'
+import { Market, Property } from '@/lib/supabase'
+import {
+  calculateOccupancyCost,
+  DEFAULT_LEASE_TERMS,
+  formatCost,
+  LeaseTerms,
+  MAX_COMPARE,
+  MIN_COMPARE,
+  rankOccupancyCosts,
+  SCORECARD_METRICS,
+} from '@/lib/occupancy-cost'
+import { exportComparisonPdf } from '@/lib/comparison-pdf'
+import { useCurrentUser } from '@/hooks/use-current-user'
+import { usePhases } from '@/hooks/use-phases'
+import { DataErrorAlert } from '@/components/data-error-alert'
+
+const TERM_FIELDS: { key: keyof LeaseTerms; label: string; suffix: string; step: number }[] = [
+  { key: 'termYears', label: 'Term', suffix: 'years', step: 1 },
+  { key: 'escalationPct', label: 'Escalation', suffix: '% / year', step: 0.5 },
+  { key: 'tiAllowancePsf', label: 'TI allowance', suffix: '$/SF', step: 1 },
+  { key: 'freeRentMonths', label: 'Free rent', suffix: 'months', step: 1 },
+]
+
+function siteName(property: Property) {
+  return property.title || property.address_line || 'Untitled Property'
+}
+
+export default function ComparePage({
+  params,
+  searchParams,
+}: {
+  params: Promise<{ id: string }>
+  searchParams: Promise<{ ids?: string }>
+}) {
+  const router = useRouter()
+  const { can } = useCurrentUser()
+  const phases = usePhases()
+  const [market, setMarket] = useState<Market | null>(null)
+  const [properties, setProperties] = useState<Property[]>([])
+  const [selectedIds, setSelectedIds] = useState<string[]>([])
+  // Lease terms per property, as offered by each landlord
+  const [terms, setTerms] = useState<Record<string, LeaseTerms>>({})
+  const [loading, setLoading] = useState(true)
+  const [loadError, setLoadError] = useState<unknown>(null)
+  const [reloadKey, setReloadKey] = useState(0)
+  const [isExporting, setIsExporting] = useState(false)
+
+  React.useEffect(() => {
+    let cancelled = false
+
+    async function loadData() {
+      setLoading(true)
+      try {
+        const { id } = await params
+        const [marketData, propertiesData] = await Promise.all([
+          DataService.getMarket(id),
+          DataService.getPropertiesByMarket(id)
+        ])
+        if (cancelled) return
+
+        setMarket(marketData)
+        setProperties(propertiesData)
+        setLoadError(null)
+      } catch (error) {
+        if (!cancelled) setLoadError(error)
+      } finally {
+        if (!cancelled) setLoading(false)
+      }
+    }
+
+    loadData()
+    return () => {
+      cancelled = true
+    }
+  }, [params, reloadKey])
+
+  // The selection lives in the URL; IDs not in this market are dropped below
+  React.useEffect(() => {
+    searchParams.then(({ ids }) => {
+      setSelectedIds((ids || '').split(',').filter(Boolean).slice(0, MAX_COMPARE))
+    })
+  }, [searchParams])
+
+  const sites = useMemo(() => {
+    const selected = selectedIds.flatMap(id => properties.find(p => p.id === id) ?? [])
+    const costed = selected.map(property => {
+      const propertyTerms = terms[property.id] ?? DEFAULT_LEASE_TERMS
+      return { property, terms: propertyTerms, cost: calculateOccupancyCost(property, propertyTerms) }
+    })
+    const scorecard = rankOccupancyCosts(costed.map(site => ({ propertyId: site.property.id, cost: site.cost })))
+
+    return costed.map(site => ({
+      ...site,
+      phaseLabel: phases.label(site.property.phase),
+      scorecard: scorecard.find(entry => entry.propertyId === site.property.id)
+    }))
+  }, [selectedIds, properties, terms, phases])
+
+  // Keep the URL in step so the comparison can be bookmarked or shared
+  const updateSelection = (ids: string[]) => {
+    setSelectedIds(ids)
+    if (market) {
+      router.replace(`/markets/${market.id}/compare?ids=${ids.join(',')}`, { scroll: false })
+    }
+  }
+
+  const updateTerms = (propertyId: string, key: keyof LeaseTerms, value: string) => {
+    setTerms(current => ({
+      ...current,
+      [propertyId]: { ...(current[propertyId] ?? DEFAULT_LEASE_TERMS), [key]: value === '' ? 0 : Number(value) }
+    }))
+  }
+
+  const handleExport = async () => {
+    if (!market) return
+
+    setIsExporting(true)
+    try {
+      await exportComparisonPdf({ marketName: market.name, sites })
+    } catch (error) {
+      toast.error('Comparison not exported', { description: describeError(error) })
+    } finally {
+      setIsExporting(false)
+    }
+  }
+
+  if (loading) {
+    return (
+      <SidebarProvider>
+        <AppSidebar />
+        <SidebarInset>
+          <div className="flex items-center justify-center h-screen">
+            <div className="text-lg">Loading comparison...</div>
+          </div>
+        </SidebarInset>
+      </SidebarProvider>
+    )
+  }
+
+  const available = properties.filter(p => !selectedIds.includes(p.id))
+  const leader = sites.find(site => site.cost.complete && site.scorecard?.overallRank === 1)
+
+  return (
+    <SidebarProvider>
+      <AppSidebar />
+      <SidebarInset>
+        <header className="flex h-16 shrink-0 items-center gap-2 transition-[width,height] ease-linear group-has-data-[collapsible=icon]/sidebar-wrapper:h-12">
+          <div className="flex items-center gap-2 px-4">
+            <SidebarTrigger className="-ml-1" />
+            <Separator
+              orientation="vertical"
+              className="mr-2 data-[orientation=vertical]:h-4"
+            />
+            <Breadcrumb>
+              <BreadcrumbList>
+                <BreadcrumbItem>
+                  <BreadcrumbLink href="/markets">Markets</BreadcrumbLink>
+                </BreadcrumbItem>
+                <BreadcrumbSeparator />
+                <BreadcrumbItem>
+                  <BreadcrumbLink href={market ? `/markets/${market.id}` : '/markets'}>{market?.name || 'Market'}</BreadcrumbLink>
+                </BreadcrumbItem>
+                <BreadcrumbSeparator />
+                <BreadcrumbItem>
+                  <BreadcrumbPage>Compare</BreadcrumbPage>
+                </BreadcrumbItem>
+              </BreadcrumbList>
+            </Breadcrumb>
+          </div>
+          <div className="ml-auto px-4 flex items-center gap-2">
+            <Select
+              value=""
+              onValueChange={(id) => updateSelection([...selectedIds, id])}
+              disabled={selectedIds.length >= MAX_COMPARE || available.length === 0}
+            >
+              <SelectTrigger className="w-56">
+                <SelectValue placeholder={selectedIds.length >= MAX_COMPARE ? `Up to ${MAX_COMPARE} properties` : 'Add a property'} />
+              </SelectTrigger>
+              <SelectContent>
+                {available.map(property => (
+                  <SelectItem key={property.id} value={property.id}>{siteName(property)}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button
+              size="sm"
+              onClick={handleExport}
+              disabled={isExporting || sites.length < MIN_COMPARE || !can('financials:view')}
+            >
+              <Download className="h-4 w-4 mr-1" />
+              {isExporting ? 'Exporting...' : 'Export PDF'}
+            </Button>
+          </div>
+        </header>
+        <div className="flex flex-1 flex-col gap-4 p-4 pt-0">
+          {loadError !== null && (
+            <DataErrorAlert error={loadError} title="Couldn't load properties" onRetry={() => setReloadKey(key => key + 1)} />
+          )}
+
+          {!can('financials:view') ? (
+            <Alert>
+              <AlertTriangle />
+              <AlertTitle>Occupancy costs aren&apos;t available</AlertTitle>
+              <AlertDescription>Your role doesn&apos;t include access to rent and expense figures.</AlertDescription>
+            </Alert>
+          ) : sites.length < MIN_COMPARE ? (
+            <Card>
+              <CardContent className="py-12 text-center text-muted-foreground">
+                Choose at least {MIN_COMPARE} properties to compare, from the market&apos;s list or map or with &quot;Add a property&quot; above.
+              </CardContent>
+            </Card>
+          ) : (
+            <>
+              {leader && (
+                <Alert>
+                  <Trophy />
+                  <AlertTitle>{siteName(leader.property)} ranks first</AlertTitle>
+                  <AlertDescription>
+                    {formatCost(leader.cost.effectiveAnnualPsf, { perSqft: true })} a year in effective rent and{' '}
+                    {formatCost(leader.cost.netTermCost)} over a {leader.terms.termYears}-year term, after free rent and TI.
+                  </AlertDescription>
+                </Alert>
+              )}
+
+              <Card>
+                <CardHeader>
+                  <CardTitle>Occupancy cost comparison</CardTitle>
+                  <CardDescription>
+                    Enter each landlord&apos;s lease terms. Base rent escalates yearly; expenses are held at today&apos;s rate.
+                  </CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead className="w-44" />
+                        {sites.map(({ property }) => (
+                          <TableHead key={property.id} className="align-top py-2">
+                            <div className="flex items-start justify-between gap-2">
+                              <Link href={`/properties/${property.id}`} className="font-semibold text-foreground hover:underline">
+                                {siteName(property)}
+                              </Link>
+                              <button
+                                type="button"
+                                onClick={() => updateSelection(selectedIds.filter(id => id !== property.id))}
+                                className="text-muted-foreground hover:text-foreground"
+                                aria-label={`Remove ${siteName(property)}`}
+                              >
+                                <X className="h-4 w-4" />
+                              </button>
+                            </div>
+                          </TableHead>
+                        ))}
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      <TableRow>
+                        <TableCell className="text-muted-foreground">Phase</TableCell>
+                        {sites.map(({ property }) => (
+                          <TableCell key={property.id}>
+                            <Badge variant={phases.variant(property.phase)}>{phases.label(property.phase)}</Badge>
+                          </TableCell>
+                        ))}
+                      </TableRow>
+                      <TableRow>
+                        <TableCell className="text-muted-foreground">Size</TableCell>
+                        {sites.map(({ property, cost }) => (
+                          <TableCell key={property.id}>{cost.sizeSqft ? `${cost.sizeSqft.toLocaleString()} SF` : '—'}</TableCell>
+                        ))}
+                      </TableRow>
+                      <TableRow>
+                        <TableCell className="text-muted-foreground">Base rent + expenses</TableCell>
+                        {sites.map(({ property, cost }) => (
+                          <TableCell key={property.id}>{formatCost(cost.grossPsf, { perSqft: true })}</TableCell>
+                        ))}
+                      </TableRow>
+
+                      {TERM_FIELDS.map(field => (
+                        <TableRow key={field.key}>
+                          <TableCell className="text-muted-foreground">{field.label}</TableCell>
+                          {sites.map(({ property, terms: propertyTerms }) => (
+                            <TableCell key={property.id}>
+                              <div className="flex items-center gap-2">
+                                <Input
+                                  type="number"
+                                  min={0}
+                                  step={field.step}
+                                  value={propertyTerms[field.key]}
+                                  onChange={(e) => updateTerms(property.id, field.key, e.target.value)}
+                                  className="h-8 w-20"
+                                  aria-label={`${field.label} for ${siteName(property)}`}
+                                />
+                                <span className="text-xs text-muted-foreground whitespace-nowrap">{field.suffix}</span>
+                              </div>
+                            </TableCell>
+                          ))}
+                        </TableRow>
+                      ))}
+
+                      <TableRow>
+                        <TableCell className="text-muted-foreground">Annual, year one</TableCell>
+                        {sites.map(({ property, cost }) => (
+                          <TableCell key={property.id}>{formatCost(cost.annualTotal)}</TableCell>
+                        ))}
+                      </TableRow>
+                      <TableRow>
+                        <TableCell className="text-muted-foreground">Monthly, year one</TableCell>
+                        {sites.map(({ property, cost }) => (
+                          <TableCell key={property.id}>{formatCost(cost.monthlyTotal)}</TableCell>
+                        ))}
+                      </TableRow>
+                      <TableRow>
+                        <TableCell className="text-muted-foreground">Rent in final year</TableCell>
+                        {sites.map(({ property, cost }) => (
+                          <TableCell key={property.id}>{formatCost(cost.years[cost.years.length - 1]?.total ?? 0)}</TableCell>
+                        ))}
+                      </TableRow>
+                      <TableRow>
+                        <TableCell className="text-muted-foreground">Free rent and TI</TableCell>
+                        {sites.map(({ property, cost }) => (
+                          <TableCell key={property.id}>{formatCost(cost.freeRentValue + cost.tiAllowance)}</TableCell>
+                        ))}
+                      </TableRow>
+                      <TableRow>
+                        <TableCell className="font-medium">Net cost over term</TableCell>
+                        {sites.map(({ property, cost }) => (
+                          <TableCell key={property.id} className="font-medium">{formatCost(cost.netTermCost)}</TableCell>
+                        ))}
+                      </TableRow>
+                      <TableRow>
+                        <TableCell className="font-medium">Effective rent</TableCell>
+                        {sites.map(({ property, cost }) => (
+                          <TableCell key={property.id} className="font-medium">{formatCost(cost.effectiveAnnualPsf, { perSqft: true })}</TableCell>
+                        ))}
+                      </TableRow>
+                      <TableRow>
+                        <TableCell className="text-muted-foreground">Effective monthly</TableCell>
+                        {sites.map(({ property, cost }) => (
+                          <TableCell key={property.id}>{formatCost(cost.effectiveMonthly)}</TableCell>
+                        ))}
+                      </TableRow>
+                    </TableBody>
+                  </Table>
+                </CardContent>
+              </Card>
+
+              <Card>
+                <CardHeader>
+                  <CardTitle>Scorecard</CardTitle>
+                  <CardDescription>
+                    Rank on each measure, 1 being best. Measures are per square foot per year, so sites of different
+                    sizes and terms compare fairly. The overall rank weighs them equally.
+                  </CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead className="w-44" />
+                        {sites.map(({ property }) => (
+                          <TableHead key={property.id}>{siteName(property)}</TableHead>
+                        ))}
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {SCORECARD_METRICS.map(metric => (
+                        <TableRow key={metric.key}>
+                          <TableCell className="text-muted-foreground">{metric.label}</TableCell>
+                          {sites.map(({ property, cost, scorecard }) => (
+                            <TableCell key={property.id}>
+                              {cost.complete && scorecard ? `#${scorecard.ranks[metric.key]}` : '—'}
+                            </TableCell>
+                          ))}
+                        </TableRow>
+                      ))}
+                      <TableRow>
+                        <TableCell className="font-medium">Overall</TableCell>
+                        {sites.map(({ property, cost, scorecard }) => (
+                          <TableCell key={property.id}>
+                            {cost.complete && scorecard ? (
+                              <Badge variant={scorecard.overallRank === 1 ? 'default' : 'outline'}>#{scorecard.overallRank}</Badge>
+                            ) : (
+                              <span className="text-xs text-muted-foreground">Missing size or rent</span>
+                            )}
+                          </TableCell>
+                        ))}
+                      </TableRow>
+                    </TableBody>
+                  </Table>
+                </CardContent>
+              </Card>
+            </>
+          )}
+        </div>
+      </SidebarInset>
+    </SidebarProvider>
+  )
+}
@@ -1,6 +1,6 @@
 'use client'
 
-import { notFound } from 'next/navigation'
+import { notFound, useRouter } from 'next/navigation'
 import React, { useState, useMemo, useRef } from 'react'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import { Badge } from '@/components/ui/badge'
@@ -18,65 +18,38 @@ import { DataService } from '@/lib/data-service'
 import { SidebarInset, SidebarProvider } from '@/components/ui/sidebar'
 import { AppSidebar } from '@/components/app-sidebar'
 import { MarketMap } from '@/components/market-map'
-import { supabase, Property } from '@/lib/supabase'
-import { MapPin, Building2, DollarSign, ThumbsUp, ThumbsDown, Filter, Calendar, FileText, Download, X, File, Layout, Satellite, Map, MapPinned } from 'lucide-react'
+import { Market, Property, TerritoryPolygon } from '@/lib/supabase'
+import { PropertyInput } from '@/lib/repository'
+import { MapPin, Building2, DollarSign, ThumbsUp, ThumbsDown, Filter, Calendar, FileText, Download, X, File, Satellite, Map, MapPinned, Edit, Archive, ArchiveRestore, Trash2, History, AlertTriangle, Plus, Scale, Radar } from 'lucide-react'
 import { MapListToggle } from '@/components/map-list-toggle'
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog'
 import { DataTable } from '@/components/ui/data-table'
 import { createPropertyColumns } from '../columns'
+import { useCurrentUser } from '@/hooks/use-current-user'
+import { usePhases } from '@/hooks/use-phases'
+import { DataErrorAlert } from '@/components/data-error-alert'
+import { MarketFormDialog } from '@/components/market-form-dialog'
+import { TerritoryHistoryDialog } from '@/components/territory-history-dialog'
+import { TerritoryConflictsList } from '@/components/territory-conflicts-list'
+import { UnmappedPropertiesNotice } from '@/components/unmapped-properties-notice'
+import { TradeAreaPanel } from '@/components/trade-area-panel'
+import { DocumentLibrary } from '@/components/document-library'
+import { PdfViewerDialog } from '@/components/pdf-viewer-dialog'
+import { MapTradeArea } from '@/lib/map-engine'
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert'
+import { TerritoryConflicts, conflictsForMarket } from '@/lib/territory-conflicts'
+import { DeleteConfirmationModal } from '@/components/ui/delete-confirmation-modal'
+import { PropertyFormDialog } from '@/components/property-form-dialog'
+import { PENDING_PROPERTY_PREFIX, useOptimisticProperties } from '@/hooks/use-optimistic-properties'
+import { describeError, NotFoundError } from '@/lib/errors'
+import { MAX_COMPARE, MIN_COMPARE } from '@/lib/occupancy-cost'
+import { propertyMapNumbers } from '@/lib/market-updates'
+import { toast } from 'sonner'
 
-interface Market {
-  id: string
-  name: string
-  description: string
-  created_at: string
-  updated_at: string
-  client_id: string | null
-  territory_polygon?: {
-    id: string
-    type: string
-    geometry: {
-      type: string
-      coordinates: number[][][]
-    }
-    properties: Record<string, unknown>
-  }
-}
-
-interface Client {
-  id: string
-  name: string
-}
-
-
-
-async function getMarket(id: string): Promise<Market | null> {
-  const { data, error } = await supabase
-    .from('markets')
-    .select('*')
-    .eq('id', id)
-    .single()
-
-  if (error || !data) {
-    return null
-  }
-
-  return data
-}
-
-async function getClient(id: string): Promise<Client | null> {
-  const { data, error } = await supabase
-    .from('clients')
-    .select('id, name')
-    .eq('id', id)
-    .single()
-
-  if (error || !data) {
-    return null
-  }
-
-  return data
+async function getMarket(id: string): Promise<Market> {
+  // Goes through DataService so franchisees only reach their linked markets
+  return await DataService.getMarket(id)
 }
 
 async function getMarketProperties(marketId: string): Promise<Property[]> {
@@ -84,13 +57,18 @@ async function getMarketProperties(marketId: string): Promise<Property[]> {
 }
 
 export default function MarketPage({ params }: { params: Promise<{ id: string }> }) {
+  const router = useRouter()
+  const { can } = useCurrentUser()
+  const phases = usePhases()
   const [selectedPropertyId, setSelectedPropertyId] = useState<string | null>(null)
   const [hoveredPropertyId, setHoveredPropertyId] = useState<string | null>(null)
   const [isSatelliteView, setIsSatelliteView] = useState(false)
   const [showTerritory, setShowTerritory] = useState(false)
   const [market, setMarket] = useState<Market | null>(null)
-  const [properties, setProperties] = useState<Property[]>([])
+  const { properties, setServerProperties, createProperty, updateProperty, deleteProperty, restoreProperty } = useOptimisticProperties()
   const [loading, setLoading] = useState(true)
+  const [loadError, setLoadError] = useState<unknown>(null)
+  const [reloadKey, setReloadKey] = useState(0)
   const [isUpdating, setIsUpdating] = useState(false)
   const [selectedPhase, setSelectedPhase] = useState<string>('all')
   const [isModalOpen, setIsModalOpen] = useState(false)
@@ -99,13 +77,27 @@ export default function MarketPage({ params }: { params: Promise<{ id: string }>
   const [pdfUrl, setPdfUrl] = useState<string | null>(null)
   const [pdfTitle, setPdfTitle] = useState<string>('')
   const [view, setView] = useState<'map' | 'list'>('map')
+  const [marketFormOpen, setMarketFormOpen] = useState(false)
+  const [deleteModalOpen, setDeleteModalOpen] = useState(false)
+  const [isChangingMarket, setIsChangingMarket] = useState(false)
+  const [territoryHistoryOpen, setTerritoryHistoryOpen] = useState(false)
+  const [conflicts, setConflicts] = useState<TerritoryConflicts | null>(null)
+  const [conflictMarketNames, setConflictMarketNames] = useState<Record<string, string>>({})
+  const [propertyFormOpen, setPropertyFormOpen] = useState(false)
+  const [editingProperty, setEditingProperty] = useState<Property | null>(null)
+  const [propertyDraft, setPropertyDraft] = useState<PropertyInput | null>(null)
+  // Properties picked for the side-by-side cost comparison
+  const [compareIds, setCompareIds] = useState<string[]>([])
+  // Trade-area panel for the selected property, and what it draws on the map
+  const [showTradeArea, setShowTradeArea] = useState(false)
+  const [tradeArea, setTradeArea] = useState<MapTradeArea | null>(null)
+  const [documentsOpen, setDocumentsOpen] = useState(false)
   const propertiesListRef = useRef<HTMLDivElement>(null)
 
-  // Get unique phases from properties
+  // Get unique phases from properties, in pipeline order
   const availablePhases = useMemo(() => {
-    const phases = [...new Set(properties.map(p => p.phase))].sort()
-    return phases
-  }, [properties])
+    return [...new Set(properties.map(p => p.phase))].sort(phases.compare)
+  }, [properties, phases])
 
   // Filter properties based on selected phase
   const filteredProperties = useMemo(() => {
@@ -115,14 +107,8 @@ export default function MarketPage({ params }: { params: Promise<{ id: string }>
     return properties.filter(property => property.phase === selectedPhase)
   }, [properties, selectedPhase])
 
-  // Create property numbers mapping for demo purposes
-  const propertyNumbers = useMemo(() => {
-    const numbers: Record<string, number> = {}
-    filteredProperties.forEach((property, index) => {
-      numbers[property.id] = index + 1
-    })
-    return numbers
-  }, [filteredProperties])
+  // Map labels, the same numbers updates use to refer to sites
+  const propertyNumbers = useMemo(() => propertyMapNumbers(properties), [properties])
 
   // Load data on component mount
   React.useEffect(() => {
@@ -130,67 +116,167 @@ export default function MarketPage({ params }: { params: Promise<{ id: string }>
       try {
         const resolvedParams = await params
         const marketData = await getMarket(resolvedParams.id)
-        
-        if (!marketData) {
-          notFound()
-        }
-        
         const propertiesData = await getMarketProperties(marketData.id)
         
         setMarket(marketData)
-        setProperties(propertiesData)
+        setServerProperties(propertiesData)
+        setLoadError(null)
       } catch (error) {
-        console.error('Error loading market data:', error)
-        notFound()
+        setLoadError(error)
       } finally {
         setLoading(false)
       }
     }
     
     loadData()
-  }, [params])
+  }, [params, reloadKey, setServerProperties])
 
   // Set up realtime subscription for properties changes
   React.useEffect(() => {
     if (!market?.id) return
 
-    const channel = supabase
-      .channel(`properties-${market.id}`)
-      .on(
-        'postgres_changes',
-        {
-          event: '*',
-          schema: 'public',
-          table: 'properties',
-          filter: `market_id=eq.${market.id}`
-        },
-        async (payload) => {
-          console.log('Property change detected:', payload)
-          
-          try {
-            setIsUpdating(true)
-            
-            // Refresh properties data when changes occur
-            const updatedProperties = await getMarketProperties(market.id)
-            setProperties(updatedProperties)
-            
-            // If a property was deleted and it was selected, clear selection
-            if (payload.eventType === 'DELETE' && selectedPropertyId === (payload as { old_record?: { id: string } }).old_record?.id) {
-              setSelectedPropertyId(null)
-            }
-          } catch (error) {
-            console.error('Error handling property change:', error)
-          } finally {
-            setIsUpdating(false)
-          }
+    return DataService.subscribe('properties', async (change) => {
+      try {
+        setIsUpdating(true)
+        
+        // Refresh properties data when changes occur
+        const updatedProperties = await getMarketProperties(market.id)
+        setServerProperties(updatedProperties)
+        
+        // If a property was deleted and it was selected, clear selection
+        if (change.eventType === 'DELETE' && selectedPropertyId === change.oldId) {
+          setSelectedPropertyId(null)
         }
-      )
-      .subscribe()
+      } catch (error) {
+        toast.error('Couldn\'t refresh properties', { description: describeError(error) })
+      } finally {
+        setIsUpdating(false)
+      }
+    }, { marketId: market.id })
+  }, [market?.id, selectedPropertyId, setServerProperties])
+
+  // Territory conflicts involve neighbouring markets, so they are worked out across the whole client
+  React.useEffect(() => {
+    if (!market?.id) return
+
+    let cancelled = false
+
+    Promise.all([DataService.getTerritoryConflicts(), DataService.getMarkets()])
+      .then(([allConflicts, markets]) => {
+        if (cancelled) return
+        setConflicts(conflictsForMarket(allConflicts, market.id))
+        setConflictMarketNames(Object.fromEntries(markets.map(m => [m.id, m.name])))
+      })
+      .catch(error => {
+        // The page is still usable without them
+        if (!cancelled) console.warn('Error checking territory conflicts:', error)
+      })
 
     return () => {
-      supabase.removeChannel(channel)
+      cancelled = true
     }
-  }, [market?.id, selectedPropertyId])
+  }, [market?.id, market?.territory_polygon, properties])
+
+  const handleToggleArchived = async () => {
+    if (!market) return
+
+    setIsChangingMarket(true)
+    try {
+      const updated = market.archived_at
+        ? await DataService.restoreMarket(market.id)
+        : await DataService.archiveMarket(market.id)
+      setMarket(updated)
+      toast.success(updated.archived_at ? `${updated.name} archived` : `${updated.name} restored`)
+    } catch (error) {
+      toast.error(market.archived_at ? 'Market not restored' : 'Market not archived', {
+        description: describeError(error)
+      })
+    } finally {
+      setIsChangingMarket(false)
+    }
+  }
+
+  // Rethrows so MarketMap stays in edit mode when the save fails
+  const handleSaveTerritory = async (polygon: TerritoryPolygon) => {
+    if (!market) return
+
+    try {
+      const updated = await DataService.saveTerritoryPolygon(market.id, polygon)
+      setMarket(updated)
+      setShowTerritory(true)
+      toast.success('Territory saved')
+    } catch (error) {
+      toast.error('Territory not saved', { description: describeError(error) })
+      throw error
+    }
+  }
+
+  const openPropertyForm = (property: Property | null, draft: PropertyInput | null = null) => {
+    setEditingProperty(property)
+    setPropertyDraft(draft)
+    setPropertyFormOpen(true)
+  }
+
+  // The form closes as soon as it's submitted; the change shows optimistically
+  // and a failed save offers to reopen the form with what was typed
+  const handleSubmitProperty = async (input: PropertyInput, { phaseReason }: { phaseReason: string | null }) => {
+    const editing = editingProperty
+
+    try {
+      if (editing) {
+        const saved = await updateProperty(editing.id, input, { phaseReason })
+        setModalProperty(current => (current?.id === saved.id ? saved : current))
+        toast.success('Property saved')
+      } else {
+        await createProperty(input)
+        toast.success('Property added')
+      }
+    } catch (error) {
+      toast.error(editing ? 'Property not saved' : 'Property not added', {
+        description: describeError(error),
+        action: { label: 'Edit again', onClick: () => openPropertyForm(editing, input) }
+      })
+    }
+  }
+
+  const handleDeleteProperty = async (property: Property) => {
+    setIsModalOpen(false)
+    setModalProperty(null)
+    if (selectedPropertyId === property.id) setSelectedPropertyId(null)
+
+    const name = property.title || property.address_line || 'Property'
+    try {
+      await deleteProperty(property.id)
+      toast(`${name} deleted`, {
+        action: {
+          label: 'Undo',
+          onClick: () => {
+            restoreProperty(property.id).catch(error => {
+              toast.error('Property not restored', { description: describeError(error) })
+            })
+          }
+        }
+      })
+    } catch (error) {
+      toast.error('Property not deleted', { description: describeError(error) })
+    }
+  }
+
+  const handleDeleteMarket = async () => {
+    if (!market) return
+
+    setIsChangingMarket(true)
+    try {
+      await DataService.deleteMarket(market.id)
+      toast.success(`${market.name} deleted`)
+      router.push('/markets')
+    } catch (error) {
+      toast.error('Market not deleted', { description: describeError(error) })
+      setIsChangingMarket(false)
+    } finally {
+      setDeleteModalOpen(false)
+    }
+  }
 
   if (loading) {
     return (
@@ -208,6 +294,30 @@ export default function MarketPage({ params }: { params: Promise<{ id: string }>
     )
   }
 
+  if (loadError instanceof NotFoundError) {
+    notFound()
+  }
+
+  if (loadError !== null) {
+    return (
+      <SidebarProvider>
+        <AppSidebar />
+        <SidebarInset>
+          <div className="p-4 md:p-6">
+            <DataErrorAlert
+              error={loadError}
+              title="Couldn't load market"
+              onRetry={() => {
+                setLoading(true)
+                setReloadKey(key => key + 1)
+              }}
+            />
+          </div>
+        </SidebarInset>
+      </SidebarProvider>
+    )
+  }
+
   if (!market) {
     notFound()
   }
@@ -232,34 +342,6 @@ export default function MarketPage({ params }: { params: Promise<{ id: string }>
     return new Intl.NumberFormat('en-US').format(num)
   }
 
-  const getPhaseLabel = (phase: string) => {
-    switch (phase) {
-      case 'site_selection': return 'Site Selection'
-      case 'under_contract': return 'Under Contract'
-      case 'due_diligence': return 'Due Diligence'
-      case 'closing': return 'Closing'
-      case 'closed': return 'Closed'
-      case 'owned': return 'Owned'
-      case 'leased': return 'Leased'
-      case 'sold': return 'Sold'
-      default: return phase
-    }
-  }
-
-  const getPhaseVariant = (phase: string) => {
-    switch (phase) {
-      case 'site_selection': return 'outline'
-      case 'under_contract': return 'secondary'
-      case 'due_diligence': return 'default'
-      case 'closing': return 'default'
-      case 'closed': return 'secondary'
-      case 'owned': return 'default'
-      case 'leased': return 'outline'
-      case 'sold': return 'secondary'
-      default: return 'default'
-    }
-  }
-
   const scrollToProperty = (propertyId: string) => {
     if (propertiesListRef.current) {
       const propertyElement = propertiesListRef.current.querySelector(`[data-property-id="${propertyId}"]`)
@@ -273,6 +355,8 @@ export default function MarketPage({ params }: { params: Promise<{ id: string }>
     }
   }
 
+  const selectedProperty = properties.find(property => property.id === selectedPropertyId) ?? null
+
   const handlePropertySelect = (propertyId: string) => {
     if (propertyId === '') {
       // Clear selection when clicking on empty map area
@@ -288,6 +372,20 @@ export default function MarketPage({ params }: { params: Promise<{ id: string }>
     setIsModalOpen(true)
   }
 
+  const toggleCompare = (propertyId: string) => {
+    if (compareIds.includes(propertyId)) {
+      setCompareIds(compareIds.filter(id => id !== propertyId))
+    } else if (compareIds.length >= MAX_COMPARE) {
+      toast.error(`Compare up to ${MAX_COMPARE} properties at a time`)
+    } else {
+      setCompareIds([...compareIds, propertyId])
+    }
+  }
+
+  const openComparison = () => {
+    if (market) router.push(`/markets/${market.id}/compare?ids=${compareIds.join(',')}`)
+  }
+
   const closeModal = () => {
     setIsModalOpen(false)
     setModalProperty(null)
@@ -344,10 +442,63 @@ export default function MarketPage({ params }: { params: Promise<{ id: string }>
           {/* Header */}
           <div className="flex items-center justify-between p-4 md:p-6 border-b">
             <div>
-              <h1 className="text-3xl font-bold tracking-tight">{market.name}</h1>
+              <div className="flex items-center gap-3">
+                <h1 className="text-3xl font-bold tracking-tight">{market.name}</h1>
+                {market.archived_at && (
+                  <Badge variant="secondary">Archived</Badge>
+                )}
+              </div>
               <p className="text-muted-foreground">Market Overview</p>
             </div>
             <div className="flex items-center gap-4">
+              {can('markets:manage') && (
+                <div className="flex items-center gap-2">
+                  <Button variant="outline" size="sm" onClick={() => setMarketFormOpen(true)} disabled={isChangingMarket}>
+                    <Edit className="h-4 w-4 mr-1" />
+                    Edit market
+                  </Button>
+                  <Button variant="outline" size="sm" onClick={handleToggleArchived} disabled={isChangingMarket}>
+                    {market.archived_at ? (
+                      <>
+                        <ArchiveRestore className="h-4 w-4 mr-1" />
+                        Restore
+                      </>
+                    ) : (
+                      <>
+                        <Archive className="h-4 w-4 mr-1" />
+                        Archive
+                      </>
+                    )}
+                  </Button>
+                  {market.archived_at && (
+                    <Button variant="outline" size="sm" onClick={() => setDeleteModalOpen(true)} disabled={isChangingMarket}>
+                      <Trash2 className="h-4 w-4 mr-1" />
+                      Delete
+                    </Button>
+                  )}
+                </div>
+              )}
+              <Button variant="outline" size="sm" onClick={() => setDocumentsOpen(true)}>
+                <FileText className="h-4 w-4 mr-1" />
+                Documents
+              </Button>
+              {can('properties:edit') && (
+                <Button size="sm" onClick={() => openPropertyForm(null)}>
+                  <Plus className="h-4 w-4 mr-1" />
+                  Add property
+                </Button>
+              )}
+              {can('financials:view') && compareIds.length > 0 && (
+                <div className="flex items-center gap-1">
+                  <Button size="sm" variant="outline" onClick={openComparison} disabled={compareIds.length < MIN_COMPARE}>
+                    <Scale className="h-4 w-4 mr-1" />
+                    Compare ({compareIds.length})
+                  </Button>
+                  <Button size="sm" variant="ghost" onClick={() => setCompareIds([])} aria-label="Clear comparison">
+                    <X className="h-4 w-4" />
+                  </Button>
+                </div>
+              )}
               <MapListToggle view={view} onViewChange={setView} />
               <div className="flex items-center gap-2">
                 <Badge variant="outline" className="text-sm">
@@ -365,8 +516,31 @@ export default function MarketPage({ params }: { params: Promise<{ id: string }>
             </div>
           </div>
 
+          {conflicts && (conflicts.overlaps.length > 0 || conflicts.encroachments.length > 0) && (
+            <div className="px-4 pt-4 md:px-6">
+              <Alert>
+                <AlertTriangle />
+                <AlertTitle>Territory conflicts</AlertTitle>
+                <AlertDescription>
+                  <TerritoryConflictsList
+                    conflicts={conflicts}
+                    marketNames={conflictMarketNames}
+                    onPropertyClick={(propertyId) => {
+                      if (properties.some(p => p.id === propertyId)) {
+                        handlePropertySelect(propertyId)
+                      } else {
+                        router.push(`/properties/${propertyId}`)
+                      }
+                    }}
+                  />
+                </AlertDescription>
+              </Alert>
+            </div>
+          )}
+
           {/* Main Content Area */}
-          {properties.length > 0 ? (
+          {/* Managers get the map even with no properties, to draw the territory */}
+          {properties.length > 0 || can('markets:manage') ? (
             view === 'map' ? (
               /* Map View Layout */
               <div className="flex-1 flex gap-6 p-4 md:p-6 min-h-0">
@@ -401,7 +575,7 @@ export default function MarketPage({ params }: { params: Promise<{ id: string }>
                               const count = properties.filter(p => p.phase === phase).length
                               return (
                                 <SelectItem key={phase} value={phase}>
-                                  {getPhaseLabel(phase)} ({count})
+                                  {phases.label(phase)} ({count})
                                 </SelectItem>
                               )
                             })}
@@ -412,7 +586,7 @@ export default function MarketPage({ params }: { params: Promise<{ id: string }>
                     <CardContent className="flex-1 overflow-y-auto min-h-0">
                       <div ref={propertiesListRef} className="space-y-3">
                         {filteredProperties.length > 0 ? (
-                          filteredProperties.map((property, index) => (
+                          filteredProperties.map((property) => (
                           <div
                             key={property.id}
                             data-property-id={property.id}
@@ -443,7 +617,7 @@ export default function MarketPage({ params }: { params: Promise<{ id: string }>
                                 
                                 {/* Property Number Badge */}
                                 <div className="absolute top-2 left-2 text-white text-xs font-bold rounded-full w-6 h-6 flex items-center justify-center shadow-lg" style={{ backgroundColor: '#637484' }}>
-                                  {index + 1}
+                                  {propertyNumbers[property.id]}
                                 </div>
                               </div>
 
@@ -472,13 +646,29 @@ export default function MarketPage({ params }: { params: Promise<{ id: string }>
                                 </p>
                                 
                                 {/* Base rent + expenses */}
-                                <p className="text-xs font-medium text-gray-900 whitespace-nowrap">
-                                  {formatCurrency(property.base_rent_psf || 0)}/SF
-                                  {property.expenses_psf && ` + ${formatCurrency(property.expenses_psf)}/SF`}
-                                </p>
+                                {can('financials:view') && (
+                                  <p className="text-xs font-medium text-gray-900 whitespace-nowrap">
+                                    {formatCurrency(property.base_rent_psf || 0)}/SF
+                                    {property.expenses_psf && ` + ${formatCurrency(property.expenses_psf)}/SF`}
+                                  </p>
+                                )}
                               </div>
                             </div>
                             
+                            {can('financials:view') && !property.id.startsWith(PENDING_PROPERTY_PREFIX) && (
+                              <label
+                                className="absolute top-2 right-2 flex items-center gap-1 rounded bg-white/90 px-1.5 py-0.5 text-xs text-gray-600 shadow-sm"
+                                onClick={(e) => e.stopPropagation()}
+                              >
+                                <input
+                                  type="checkbox"
+                                  checked={compareIds.includes(property.id)}
+                                  onChange={() => toggleCompare(property.id)}
+                                />
+                                Compare
+                              </label>
+                            )}
+
                             {/* Selection indicator */}
                             {selectedPropertyId === property.id && (
                               <div className="absolute top-0 left-0 w-1 h-full bg-blue-500"></div>
@@ -514,6 +704,7 @@ export default function MarketPage({ params }: { params: Promise<{ id: string }>
                           <MapPin className="h-5 w-5" />
                           Market Location Map
                         </CardTitle>
+                        <UnmappedPropertiesNotice properties={filteredProperties} />
                         <div className="flex items-center gap-2">
                           {market?.territory_polygon && (
                             <Button
@@ -526,6 +717,28 @@ export default function MarketPage({ params }: { params: Promise<{ id: string }>
                               {showTerritory ? 'Hide Territory' : 'Show Territory'}
                             </Button>
                           )}
+                          {selectedProperty && !selectedProperty.id.startsWith(PENDING_PROPERTY_PREFIX) && (
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={() => setShowTradeArea(!showTradeArea)}
+                              className="flex items-center gap-2"
+                            >
+                              <Radar className="h-4 w-4" />
+                              {showTradeArea ? 'Hide Trade Area' : 'Trade Area'}
+                            </Button>
+                          )}
+                          {can('markets:manage') && (
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={() => setTerritoryHistoryOpen(true)}
+                              className="flex items-center gap-2"
+                            >
+                              <History className="h-4 w-4" />
+                              History
+                            </Button>
+                          )}
                           <Button
                             variant="outline"
                             size="sm"
@@ -547,7 +760,7 @@ export default function MarketPage({ params }: { params: Promise<{ id: string }>
                         </div>
                       </div>
                     </CardHeader>
-                    <CardContent className="flex-1 p-0 min-h-0">
+                    <CardContent className="relative flex-1 p-0 min-h-0">
                       <MarketMap 
                         properties={filteredProperties} 
                         marketName={market.name}
@@ -557,16 +770,21 @@ export default function MarketPage({ params }: { params: Promise<{ id: string }>
                         isSatelliteView={isSatelliteView}
                         propertyNumbers={propertyNumbers}
                         onPropertySelect={handlePropertySelect}
-                        territoryPolygon={market.territory_polygon as {
-                          type: 'Feature'
-                          geometry: {
-                            type: 'Polygon'
-                            coordinates: number[][][]
-                          }
-                          properties: Record<string, unknown>
-                        }}
+                        territoryPolygon={market.territory_polygon}
                         showTerritory={showTerritory}
+                        onTerritorySave={can('markets:manage') ? handleSaveTerritory : undefined}
+                        conflictAreas={conflicts?.overlaps.map(overlap => overlap.area)}
+                        tradeArea={showTradeArea ? tradeArea : null}
                       />
+                      {showTradeArea && selectedProperty && !selectedProperty.id.startsWith(PENDING_PROPERTY_PREFIX) && (
+                        <TradeAreaPanel
+                          marketId={market.id}
+                          property={selectedProperty}
+                          onChange={setTradeArea}
+                          onClose={() => setShowTradeArea(false)}
+                          className="absolute bottom-3 right-3 w-96 max-h-[70%] overflow-y-auto"
+                        />
+                      )}
                     </CardContent>
                   </Card>
                 </div>
@@ -603,7 +821,7 @@ export default function MarketPage({ params }: { params: Promise<{ id: string }>
                             const count = properties.filter(p => p.phase === phase).length
                             return (
                               <SelectItem key={phase} value={phase}>
-                                {getPhaseLabel(phase)} ({count})
+                                {phases.label(phase)} ({count})
                               </SelectItem>
                             )
                           })}
@@ -614,7 +832,7 @@ export default function MarketPage({ params }: { params: Promise<{ id: string }>
                   <CardContent className="flex-1 min-h-0 overflow-hidden">
                     <div className="h-full overflow-y-auto">
                       <DataTable 
-                        columns={createPropertyColumns(handleViewDetails)} 
+                        columns={createPropertyColumns(handleViewDetails, { showFinancials: can('financials:view'), phases })} 
                         data={filteredProperties} 
                         searchKey="title"
                         searchPlaceholder="Search properties..."
@@ -690,7 +908,7 @@ export default function MarketPage({ params }: { params: Promise<{ id: string }>
                       {modalProperty.size_sqft && (
                         <span>{formatNumber(modalProperty.size_sqft)} sq ft</span>
                       )}
-                      {modalProperty.base_rent_psf && (
+                      {can('financials:view') && modalProperty.base_rent_psf && (
                         <span>
                           {formatCurrency(modalProperty.base_rent_psf)}/sq ft
                           {modalProperty.expenses_psf && ` + ${formatCurrency(modalProperty.expenses_psf)} expenses`}
@@ -698,27 +916,31 @@ export default function MarketPage({ params }: { params: Promise<{ id: string }>
                       )}
                     </div>
                     <Badge 
-                      variant={getPhaseVariant(modalProperty.phase)}
+                      variant={phases.variant(modalProperty.phase)}
                       className="text-xs font-medium"
                     >
-                      {getPhaseLabel(modalProperty.phase)}
+                      {phases.label(modalProperty.phase)}
                     </Badge>
-                  </div>
-                </div>
-
-                {/* Marketing Material */}
-                <div>
-                  <div className="space-y-2">
-                    <div 
-                      className="flex items-center gap-2 text-sm transition-colors cursor-pointer"
-                      style={{ color: '#637484' }}
-                      onMouseEnter={(e) => e.currentTarget.style.color = '#4a5a6b'}
-                      onMouseLeave={(e) => e.currentTarget.style.color = '#637484'}
-                      onClick={() => handlePdfClick('https://arfhkkmrmjworxfilslg.supabase.co/storage/v1/object/public/property-flyers/ce359af4-f81b-4cf2-afe2-2937882816fe_1758134374147.pdf', 'Marketing Material')}
-                    >
-                      <FileText className="h-4 w-4" />
-                      <span>Marketing Material</span>
-                    </div>
+                    {can('financials:view') && !modalProperty.id.startsWith(PENDING_PROPERTY_PREFIX) && (
+                      <div className="pt-1">
+                        <Button variant="outline" size="sm" onClick={() => toggleCompare(modalProperty.id)}>
+                          <Scale className="h-4 w-4 mr-1" />
+                          {compareIds.includes(modalProperty.id) ? 'Remove from comparison' : 'Add to comparison'}
+                        </Button>
+                      </div>
+                    )}
+                    {can('properties:edit') && !modalProperty.id.startsWith(PENDING_PROPERTY_PREFIX) && (
+                      <div className="flex items-center gap-2 pt-1">
+                        <Button variant="outline" size="sm" onClick={() => openPropertyForm(modalProperty)}>
+                          <Edit className="h-4 w-4 mr-1" />
+                          Edit
+                        </Button>
+                        <Button variant="outline" size="sm" onClick={() => handleDeleteProperty(modalProperty)}>
+                          <Trash2 className="h-4 w-4 mr-1" />
+                          Delete
+                        </Button>
+                      </div>
+                    )}
                   </div>
                 </div>
 
@@ -739,70 +961,9 @@ export default function MarketPage({ params }: { params: Promise<{ id: string }>
                 </div>
 
                 {/* Documents */}
-                <div>
-                  <div className="grid grid-cols-3 gap-4">
-                    {/* Space Docs */}
-                    <div>
-                      <h4 className="text-sm font-medium text-gray-700 mb-2">Space Docs</h4>
-                      <div className="space-y-1">
-                        <div 
-                          className="flex items-center gap-2 text-sm transition-colors cursor-pointer"
-                      style={{ color: '#637484' }}
-                      onMouseEnter={(e) => e.currentTarget.style.color = '#4a5a6b'}
-                      onMouseLeave={(e) => e.currentTarget.style.color = '#637484'}
-                          onClick={() => handlePdfClick('https://arfhkkmrmjworxfilslg.supabase.co/storage/v1/object/public/property-flyers/ce359af4-f81b-4cf2-afe2-2937882816fe_1758135645050.pdf', 'As Builts')}
-                        >
-                          <Layout className="h-4 w-4" />
-                          <span>As Builts</span>
-                        </div>
-                      </div>
-                    </div>
-
-                    {/* Demographics */}
-                    <div>
-                      <h4 className="text-sm font-medium text-gray-700 mb-2">Demographics</h4>
-                      <div className="space-y-1">
-                        <div 
-                          className="flex items-center gap-2 text-sm transition-colors cursor-pointer"
-                      style={{ color: '#637484' }}
-                      onMouseEnter={(e) => e.currentTarget.style.color = '#4a5a6b'}
-                      onMouseLeave={(e) => e.currentTarget.style.color = '#637484'}
-                          onClick={() => handlePdfClick('https://arfhkkmrmjworxfilslg.supabase.co/storage/v1/object/public/property-flyers/ce359af4-f81b-4cf2-afe2-2937882816fe_1758135150124.pdf', 'Demographic Report')}
-                        >
-                          <FileText className="h-4 w-4" />
-                          <span>Demographic Report</span>
-                        </div>
-                        <div 
-                          className="flex items-center gap-2 text-sm transition-colors cursor-pointer"
-                      style={{ color: '#637484' }}
-                      onMouseEnter={(e) => e.currentTarget.style.color = '#4a5a6b'}
-                      onMouseLeave={(e) => e.currentTarget.style.color = '#637484'}
-                          onClick={() => handlePdfClick('https://arfhkkmrmjworxfilslg.supabase.co/storage/v1/object/public/property-flyers/ce359af4-f81b-4cf2-afe2-2937882816fe_1758140730215.pdf', 'Placer.ai Report')}
-                        >
-                          <FileText className="h-4 w-4" />
-                          <span>Placer.ai Report</span>
-                        </div>
-                      </div>
-                    </div>
-
-                    {/* Deal Docs */}
-                    <div>
-                      <h4 className="text-sm font-medium text-gray-700 mb-2">Deal Docs</h4>
-                      <div className="space-y-1">
-                        <div 
-                          className="flex items-center gap-2 text-sm transition-colors cursor-pointer"
-                      style={{ color: '#637484' }}
-                      onMouseEnter={(e) => e.currentTarget.style.color = '#4a5a6b'}
-                      onMouseLeave={(e) => e.currentTarget.style.color = '#637484'}
-                          onClick={() => handlePdfClick('https://arfhkkmrmjworxfilslg.supabase.co/storage/v1/object/public/property-flyers/ce359af4-f81b-4cf2-afe2-2937882816fe_1758135364242.pdf', 'LOI Template')}
-                        >
-                          <FileText className="h-4 w-4" />
-                          <span>LOI Template</span>
-                        </div>
-                      </div>
-                    </div>
-                  </div>
-                </div>
+                {!modalProperty.id.startsWith(PENDING_PROPERTY_PREFIX) && (
+                  <DocumentLibrary marketId={modalProperty.market_id} propertyId={modalProperty.id} onView={handlePdfClick} />
+                )}
               </div>
 
               {/* Right Column - Mapbox Map */}
@@ -817,7 +978,7 @@ export default function MarketPage({ params }: { params: Promise<{ id: string }>
                       marketName={market?.name || ''}
                       className="h-full w-full"
                       highlightedPropertyId={modalProperty.id}
-                      propertyNumbers={{ [modalProperty.id]: 1 }}
+                      propertyNumbers={{ [modalProperty.id]: propertyNumbers[modalProperty.id] ?? 1 }}
                       onPropertySelect={() => {}}
                     />
                   </div>
@@ -828,25 +989,67 @@ export default function MarketPage({ params }: { params: Promise<{ id: string }>
         </DialogContent>
       </Dialog>
 
-      {/* PDF Modal */}
-      <Dialog open={pdfModalOpen} onOpenChange={setPdfModalOpen}>
-        <DialogContent className="max-w-6xl max-h-[90vh] p-0">
-          <DialogHeader className="p-4 border-b">
-            <DialogTitle>{pdfTitle || 'Document'}</DialogTitle>
+      {/* Market documents */}
+      <Dialog open={documentsOpen} onOpenChange={setDocumentsOpen}>
+        <DialogContent className="max-w-3xl">
+          <DialogHeader>
+            <DialogTitle>{market?.name} documents</DialogTitle>
           </DialogHeader>
-          <div className="flex-1 p-4">
-            {pdfUrl && (
-              <iframe
-                src={`${pdfUrl}#toolbar=1&navpanes=1&scrollbar=1`}
-                className="w-full h-[70vh] border-0 rounded-lg"
-                title="Marketing Material PDF"
-                allowFullScreen
-              />
-            )}
-          </div>
+          {market && (
+            <DocumentLibrary
+              marketId={market.id}
+              onView={(url, title) => {
+                setDocumentsOpen(false)
+                handlePdfClick(url, title)
+              }}
+            />
+          )}
         </DialogContent>
       </Dialog>
 
+      <PdfViewerDialog
+        open={pdfModalOpen}
+        onOpenChange={(open) => (open ? setPdfModalOpen(true) : closePdfModal())}
+        url={pdfUrl}
+        title={pdfTitle}
+      />
+
+      <MarketFormDialog
+        open={marketFormOpen}
+        onOpenChange={setMarketFormOpen}
+        market={market}
+        onSaved={setMarket}
+      />
+
+      <PropertyFormDialog
+        open={propertyFormOpen}
+        onOpenChange={setPropertyFormOpen}
+        marketId={market.id}
+        property={editingProperty}
+        draft={propertyDraft}
+        onSubmit={handleSubmitProperty}
+      />
+
+      <TerritoryHistoryDialog
+        open={territoryHistoryOpen}
+        onOpenChange={setTerritoryHistoryOpen}
+        market={market}
+        canRevert={can('markets:manage')}
+        onReverted={(updated) => {
+          setMarket(updated)
+          setShowTerritory(true)
+        }}
+      />
+
+      <DeleteConfirmationModal
+        isOpen={deleteModalOpen}
+        onClose={() => setDeleteModalOpen(false)}
+        onConfirm={handleDeleteMarket}
+        title="Delete market"
+        description="This permanently removes the market with its properties and updates. It cannot be undone."
+        itemName={market.name}
+        isLoading={isChangingMarket}
+      />
     </div>
   )
 }
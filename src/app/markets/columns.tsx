@@ -5,6 +5,7 @@ import { ArrowUpDown } from "lucide-react"
 import { Button } from "@/components/ui/button"
 import { Badge } from "@/components/ui/badge"
 import { Property, Market } from "@/lib/supabase"
+import { DEFAULT_PHASE_CATALOG, PhaseCatalog } from "@/lib/phases"
 
 interface MarketWithDetails extends Market {
   propertyCount: number
@@ -23,7 +24,10 @@ interface MarketWithDetails extends Market {
   }
 }
 
-export const createPropertyColumns = (onViewDetails: (property: Property) => void): ColumnDef<Property>[] => [
+export const createPropertyColumns = (
+  onViewDetails: (property: Property) => void,
+  { showFinancials = true, phases = DEFAULT_PHASE_CATALOG }: { showFinancials?: boolean; phases?: PhaseCatalog } = {}
+): ColumnDef<Property>[] => [
   {
     accessorKey: "title",
     header: ({ column }) => {
@@ -122,7 +126,7 @@ export const createPropertyColumns = (onViewDetails: (property: Property) => voi
     },
     size: 100,
   },
-  {
+  ...(showFinancials ? [{
     accessorKey: "base_rent_psf",
     header: ({ column }) => {
       return (
@@ -152,7 +156,7 @@ export const createPropertyColumns = (onViewDetails: (property: Property) => voi
       )
     },
     size: 150,
-  },
+  } satisfies ColumnDef<Property>] : []),
   {
     accessorKey: "phase",
     header: ({ column }) => {
@@ -169,46 +173,19 @@ export const createPropertyColumns = (onViewDetails: (property: Property) => voi
     },
     cell: ({ row }) => {
       const phase = row.getValue("phase") as string
-      
-      const getPhaseLabel = (phase: string) => {
-        switch (phase) {
-          case 'site_selection': return 'Site Selection'
-          case 'under_contract': return 'Under Contract'
-          case 'due_diligence': return 'Due Diligence'
-          case 'closing': return 'Closing'
-          case 'closed': return 'Closed'
-          case 'owned': return 'Owned'
-          case 'leased': return 'Leased'
-          case 'sold': return 'Sold'
-          default: return phase
-        }
-      }
 
-      const getPhaseVariant = (phase: string) => {
-        switch (phase) {
-          case 'site_selection': return 'outline'
-          case 'under_contract': return 'secondary'
-          case 'due_diligence': return 'default'
-          case 'closing': return 'default'
-          case 'closed': return 'secondary'
-          case 'owned': return 'default'
-          case 'leased': return 'outline'
-          case 'sold': return 'secondary'
-          default: return 'default'
-        }
-      }
-      
       return (
         <div className="w-32">
           <Badge 
-            variant={getPhaseVariant(phase)}
+            variant={phases.variant(phase)}
             className="text-xs font-medium"
           >
-            {getPhaseLabel(phase)}
+            {phases.label(phase)}
           </Badge>
         </div>
       )
     },
+    sortingFn: (rowA, rowB) => phases.compare(rowA.getValue("phase"), rowB.getValue("phase")),
     size: 150,
   },
   {
@@ -234,7 +211,10 @@ export const createPropertyColumns = (onViewDetails: (property: Property) => voi
   },
 ]
 
-export const createColumns = (handleViewUpdates: (marketId: string) => void): ColumnDef<MarketWithDetails>[] => [
+export const createColumns = (
+  handleViewUpdates: (marketId: string) => void,
+  { phases = DEFAULT_PHASE_CATALOG }: { phases?: PhaseCatalog } = {}
+): ColumnDef<MarketWithDetails>[] => [
   {
     accessorKey: "name",
     header: ({ column }) => {
@@ -250,8 +230,13 @@ export const createColumns = (handleViewUpdates: (marketId: string) => void): Co
     },
     cell: ({ row }) => {
       return (
-        <div className="font-medium max-w-[120px] truncate" title={row.getValue("name")}>
-          {row.getValue("name")}
+        <div className="flex items-center gap-2">
+          <div className="font-medium max-w-[120px] truncate" title={row.getValue("name")}>
+            {row.getValue("name")}
+          </div>
+          {row.original.archived_at && (
+            <Badge variant="outline" className="text-xs">Archived</Badge>
+          )}
         </div>
       )
     },
@@ -338,21 +323,21 @@ export const createColumns = (handleViewUpdates: (marketId: string) => void): Co
       )
     },
     cell: ({ row }) => {
-      const phases = row.getValue("phases") as string[]
-      if (!phases || phases.length === 0) {
+      const marketPhases = row.getValue("phases") as string[]
+      if (!marketPhases || marketPhases.length === 0) {
         return <div className="text-sm text-muted-foreground">No phases</div>
       }
       
       return (
         <div className="flex flex-wrap gap-1">
-          {phases.slice(0, 2).map((phase, index) => (
-            <Badge key={index} variant="outline" className="text-xs">
-              {phase}
+          {marketPhases.slice(0, 2).map((phase, index) => (
+            <Badge key={index} variant={phases.variant(phase)} className="text-xs">
+              {phases.label(phase)}
             </Badge>
           ))}
-          {phases.length > 2 && (
+          {marketPhases.length > 2 && (
             <Badge variant="outline" className="text-xs">
-              +{phases.length - 2} more
+              +{marketPhases.length - 2} more
             </Badge>
           )}
         </div>
@@ -361,28 +346,13 @@ export const createColumns = (handleViewUpdates: (marketId: string) => void): Co
     sortingFn: (rowA, rowB) => {
       const phasesA = rowA.getValue("phases") as string[]
       const phasesB = rowB.getValue("phases") as string[]
-      
-      // Define phase order for consistent sorting
-      const phaseOrder = ['intro', 'site_selection', 'loi', 'lease', 'closed']
-      
-      const getPhasePriority = (phases: string[]) => {
-        if (!phases || phases.length === 0) return 999 // No phases go to end
-        
-        // Find the highest priority phase
-        let highestPriority = 999
-        for (const phase of phases) {
-          const index = phaseOrder.indexOf(phase.toLowerCase())
-          if (index !== -1 && index < highestPriority) {
-            highestPriority = index
-          }
-        }
-        return highestPriority
-      }
-      
-      const priorityA = getPhasePriority(phasesA)
-      const priorityB = getPhasePriority(phasesB)
-      
-      return priorityA - priorityB
+
+      // Earliest phase in pipeline order; markets with no phases go to the end
+      const earliestA = phasesA?.length ? [...phasesA].sort(phases.compare)[0] : null
+      const earliestB = phasesB?.length ? [...phasesB].sort(phases.compare)[0] : null
+      if (!earliestA || !earliestB) return earliestA ? -1 : earliestB ? 1 : 0
+
+      return phases.compare(earliestA, earliestB)
     },
   },
   {
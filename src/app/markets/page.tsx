@@ -19,54 +19,60 @@ import {
   SidebarTrigger,
 } from '@/components/ui/sidebar'
 import { DataService } from '@/lib/data-service'
-import { Market, MarketUpdate, Property, supabase } from '@/lib/supabase'
+import { MarketUpdate, MarketWithDetails, Property, UpdateAuthor } from '@/lib/supabase'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
 import { Badge } from '@/components/ui/badge'
 import { Button } from '@/components/ui/button'
-import { MapPin, Building2, User, Users, MessageSquare, Edit, Trash2, X, Filter, ChevronRight, ChevronDown, ExternalLink, FileText, Image } from 'lucide-react'
+import { MapPin, Building2, User, Users, MessageSquare, X, Filter, ChevronRight, ChevronDown, FileText, Image, Plus, Archive, Upload } from 'lucide-react'
 import { ViewToggle } from '@/components/view-toggle'
 import { DataTable } from '@/components/ui/data-table'
 import { createColumns } from './columns'
 import { MarketUpdateForm } from '@/components/market-update-form'
 import { MarketMap } from '@/components/market-map'
+import { MarketFormDialog } from '@/components/market-form-dialog'
+import { MarketUpdateImportDialog } from '@/components/market-update-import-dialog'
 import { Sheet, SheetContent, SheetHeader, SheetTitle, SheetDescription } from '@/components/ui/sheet'
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
 import { Input } from '@/components/ui/input'
-
-interface MarketWithDetails extends Market {
-  propertyCount: number
-  phases: string[]
-  franchisees: Array<{
-    id: string
-    full_name: string | null
-    email: string | null
-    phone: string | null
-    avatar_url: string | null
-    status: string | null
-  }>
-  latestUpdate?: {
-    message: string
-    created_at: string
-  }
-}
+import { useCurrentUser } from '@/hooks/use-current-user'
+import { usePhases } from '@/hooks/use-phases'
+import { DataErrorAlert } from '@/components/data-error-alert'
+import { PropertyBrochureLink } from '@/components/property-brochure-link'
+import { MarketUpdateThread } from '@/components/market-update-thread'
+import { groupUpdateThreads, propertyMapNumbers } from '@/lib/market-updates'
+import { describeError } from '@/lib/errors'
+import { toast } from 'sonner'
 
 // Remove the old ChatMessage interface since we'll use MarketUpdate from Supabase
 
-export default function MarketsPage() {
+export default function MarketsPage({
+  searchParams,
+}: {
+  searchParams: Promise<{ updates?: string }>
+}) {
   const router = useRouter()
+  const { can } = useCurrentUser()
+  const phases = usePhases()
   const [markets, setMarkets] = useState<MarketWithDetails[]>([])
   const [loading, setLoading] = useState(true)
+  const [loadError, setLoadError] = useState<unknown>(null)
+  const [updatesError, setUpdatesError] = useState<unknown>(null)
   const [view, setView] = useState<'cards' | 'table'>('table')
   const [updatesModalOpen, setUpdatesModalOpen] = useState(false)
   const [selectedMarketForUpdates, setSelectedMarketForUpdates] = useState<MarketWithDetails | null>(null)
   const [marketUpdates, setMarketUpdates] = useState<MarketUpdate[]>([])
   const [editingUpdate, setEditingUpdate] = useState<MarketUpdate | null>(null)
+  // People linked to the selected market, who can be @mentioned
+  const [marketPeople, setMarketPeople] = useState<UpdateAuthor[]>([])
   const [phaseFilter, setPhaseFilter] = useState<string>('all')
   const [searchTerm, setSearchTerm] = useState('')
   const [showDetails, setShowDetails] = useState(false)
   const [marketProperties, setMarketProperties] = useState<Property[]>([])
   const [highlightedPropertyId, setHighlightedPropertyId] = useState<string | null>(null)
   const [expandedProperties, setExpandedProperties] = useState<Set<string>>(new Set())
+  const [showArchived, setShowArchived] = useState(false)
+  const [importOpen, setImportOpen] = useState(false)
+  const [marketFormOpen, setMarketFormOpen] = useState(false)
   const marketDetailsTriggerRef = useRef<HTMLButtonElement>(null)
 
   const handleViewUpdates = useCallback(async (marketId: string) => {
@@ -81,8 +87,8 @@ export default function MarketsPage() {
         const properties = await DataService.getPropertiesByMarket(marketId)
         setMarketProperties(properties)
       } catch (error) {
-        console.error('Error fetching market properties:', error)
         setMarketProperties([])
+        toast.error('Couldn\'t load properties for this market', { description: describeError(error) })
       }
     }
   }, [markets])
@@ -107,6 +113,15 @@ export default function MarketsPage() {
     setHighlightedPropertyId(propertyId || null)
   }, [])
 
+  // "#3" in an update: open the details beside the thread and show the site on the map
+  const handleReferencedPropertyClick = useCallback((property: Property) => {
+    setShowDetails(true)
+    setHighlightedPropertyId(property.id)
+  }, [])
+
+  // Labels on the map match the numbers updates refer to
+  const marketPropertyNumbers = useMemo(() => propertyMapNumbers(marketProperties), [marketProperties])
+
   const togglePropertyExpansion = useCallback((propertyId: string) => {
     setExpandedProperties(prev => {
       const newSet = new Set(prev)
@@ -119,59 +134,11 @@ export default function MarketsPage() {
     })
   }, [])
 
-  // Define all possible phases for the filter dropdown in specific order
+  // The client's phases plus any others markets still use, in pipeline order
   const allPhases = useMemo(() => {
-    const standardPhases = ['intro', 'site_selection', 'loi', 'lease', 'closed']
-    const marketPhases = new Set<string>()
-    
-    // Collect unique phases from markets, normalizing case
-    markets.forEach(market => {
-      market.phases.forEach(phase => {
-        if (phase && phase.trim()) {
-          marketPhases.add(phase.toLowerCase().trim())
-        }
-      })
-    })
-    
-    // Combine standard phases with any additional phases found in markets
-    // Use Set to ensure no duplicates
-    const allUniquePhases = new Set([...standardPhases, ...Array.from(marketPhases)])
-    
-    // Sort phases according to the specific order requested
-    const phaseOrder = ['intro', 'site_selection', 'loi', 'lease', 'closed']
-    return Array.from(allUniquePhases).sort((a, b) => {
-      const indexA = phaseOrder.indexOf(a)
-      const indexB = phaseOrder.indexOf(b)
-      
-      // If both phases are in the predefined order, sort by that order
-      if (indexA !== -1 && indexB !== -1) {
-        return indexA - indexB
-      }
-      
-      // If only one is in the predefined order, prioritize it
-      if (indexA !== -1) return -1
-      if (indexB !== -1) return 1
-      
-      // If neither is in the predefined order, sort alphabetically
-      return a.localeCompare(b)
-    })
-  }, [markets])
-
-  // Function to normalize phase display text
-  const normalizePhaseText = (phase: string): string => {
-    if (!phase) return phase
-    
-    // Handle special case for LOI
-    if (phase.toLowerCase() === 'loi') {
-      return 'LOI'
-    }
-    
-    // Replace underscores with spaces and capitalize each word
-    return phase
-      .split('_')
-      .map(word => word.charAt(0).toUpperCase() + word.slice(1).toLowerCase())
-      .join(' ')
-  }
+    const marketPhases = markets.flatMap(market => market.phases.filter(phase => phase?.trim()).map(phase => phase.toLowerCase().trim()))
+    return [...new Set([...phases.phases.map(phase => phase.key), ...marketPhases])].sort(phases.compare)
+  }, [markets, phases])
 
   // Filter markets based on selected phase and search term
   const filteredMarkets = useMemo(() => {
@@ -200,8 +167,9 @@ export default function MarketsPage() {
     try {
       const updates = await DataService.getMarketUpdates()
       setMarketUpdates(updates)
+      setUpdatesError(null)
     } catch (error) {
-      console.error('Error fetching market updates:', error)
+      setUpdatesError(error)
     }
   }
 
@@ -219,34 +187,78 @@ export default function MarketsPage() {
   }
 
   const handleDeleteUpdate = async (updateId: string) => {
-    if (window.confirm('Are you sure you want to delete this message?')) {
+    // Deleting leaves a tombstone in the thread that an admin can restore
+    if (window.confirm('Delete this message? The thread will show that it was deleted.')) {
       try {
         await DataService.deleteMarketUpdate(updateId)
         // The realtime subscription will handle the UI update
       } catch (error) {
-        console.error('Error deleting market update:', error)
+        toast.error('Message not deleted', { description: describeError(error) })
       }
     }
   }
 
-  useEffect(() => {
-    const fetchData = async () => {
-      try {
-        const [marketsWithDetails] = await Promise.all([
-          DataService.getMarketsWithDetails(),
-          fetchMarketUpdates()
-        ])
-        setMarkets(marketsWithDetails)
-      } catch (error) {
-        console.error('Error fetching data:', error)
-      } finally {
-        setLoading(false)
-      }
+  const fetchData = useCallback(async () => {
+    setLoading(true)
+    try {
+      const [marketsWithDetails] = await Promise.all([
+        DataService.getMarketsWithDetails({ includeArchived: showArchived }),
+        fetchMarketUpdates()
+      ])
+      setMarkets(marketsWithDetails)
+      setLoadError(null)
+    } catch (error) {
+      setLoadError(error)
+    } finally {
+      setLoading(false)
     }
+  }, [showArchived])
 
+  useEffect(() => {
     fetchData()
+  }, [fetchData])
+
+  // Keep the updates thread live while the panel is open
+  useEffect(() => {
+    const unsubscribers = [
+      DataService.subscribe('market_updates', () => fetchMarketUpdates()),
+      DataService.subscribe('market_update_reactions', () => fetchMarketUpdates())
+    ]
+    return () => unsubscribers.forEach(unsubscribe => unsubscribe())
   }, [])
 
+  const selectedMarketId = selectedMarketForUpdates?.id
+  useEffect(() => {
+    if (!selectedMarketId) return
+
+    let cancelled = false
+    DataService.getMarketUsers(selectedMarketId)
+      .then(people => {
+        if (!cancelled) setMarketPeople(people)
+      })
+      .catch(error => {
+        // Mentions are an extra; the thread still works without them
+        console.warn('Error loading market users:', error)
+        if (!cancelled) setMarketPeople([])
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [selectedMarketId])
+
+  // Notifications link here with ?updates=<market id> to open that market's
+  // thread, once per navigation
+  const openedFromParams = useRef<Promise<{ updates?: string }> | null>(null)
+  useEffect(() => {
+    if (markets.length === 0 || openedFromParams.current === searchParams) return
+    openedFromParams.current = searchParams
+
+    searchParams.then(({ updates }) => {
+      if (updates) handleViewUpdates(updates)
+    })
+  }, [markets, searchParams, handleViewUpdates])
+
   // Reset details view when panel closes
   useEffect(() => {
     if (!updatesModalOpen) {
@@ -294,16 +306,43 @@ export default function MarketsPage() {
             </Breadcrumb>
           </div>
           <div className="ml-auto px-4 flex items-center gap-4">
+            {can('updates:post') && (
+              <Button size="sm" variant="outline" onClick={() => setImportOpen(true)}>
+                <Upload className="h-4 w-4 mr-1" />
+                Import updates
+              </Button>
+            )}
+            {can('markets:manage') && (
+              <Button size="sm" onClick={() => setMarketFormOpen(true)}>
+                <Plus className="h-4 w-4 mr-1" />
+                Add market
+              </Button>
+            )}
             <ViewToggle view={view} onViewChange={setView} />
           </div>
         </header>
         <div className="flex flex-1 flex-col gap-4 p-4 pt-0">
+          {loadError !== null && (
+            <DataErrorAlert error={loadError} title="Couldn't load markets" onRetry={fetchData} />
+          )}
           <Card>
-            <CardHeader>
-              <CardTitle>All Markets</CardTitle>
-              <CardDescription>
-                {filteredMarkets.length} markets in the system
-              </CardDescription>
+            <CardHeader className="flex flex-row items-start justify-between">
+              <div className="space-y-1.5">
+                <CardTitle>All Markets</CardTitle>
+                <CardDescription>
+                  {filteredMarkets.length} markets in the system
+                </CardDescription>
+              </div>
+              {can('markets:manage') && (
+                <Button
+                  variant={showArchived ? 'secondary' : 'outline'}
+                  size="sm"
+                  onClick={() => setShowArchived(!showArchived)}
+                >
+                  <Archive className="h-4 w-4 mr-1" />
+                  {showArchived ? 'Hide archived' : 'Show archived'}
+                </Button>
+              )}
             </CardHeader>
             <CardContent>
               {/* Filters and Search */}
@@ -321,7 +360,7 @@ export default function MarketsPage() {
                       <SelectItem value="all">All Phases</SelectItem>
                       {allPhases.map((phase) => (
                         <SelectItem key={phase} value={phase}>
-                          {normalizePhaseText(phase)}
+                          {phases.label(phase)}
                         </SelectItem>
                       ))}
                     </SelectContent>
@@ -350,11 +389,16 @@ export default function MarketsPage() {
                       >
                         <CardHeader className="pb-2">
                           <div className="flex items-center justify-between">
-                            <CardTitle className="text-lg">{market.name}</CardTitle>
+                            <CardTitle className="text-lg flex items-center gap-2">
+                              {market.name}
+                              {market.archived_at && (
+                                <Badge variant="outline" className="text-xs">Archived</Badge>
+                              )}
+                            </CardTitle>
                             {/* Phase Tag */}
                             {market.phases.length > 0 && (
                               <span className="inline-flex items-center px-2 py-1 rounded-full text-xs font-medium" style={{ backgroundColor: '#e8ecf0', color: '#637484' }}>
-                                {normalizePhaseText(market.phases[0])}
+                                {phases.label(market.phases[0])}
                               </span>
                             )}
                           </div>
@@ -440,7 +484,7 @@ export default function MarketsPage() {
                 </>
               ) : (
                 <DataTable 
-                  columns={createColumns(handleViewUpdates)} 
+                  columns={createColumns(handleViewUpdates, { phases })} 
                   data={filteredMarkets} 
                   searchKey="name"
                   searchPlaceholder="Filter markets by name..."
@@ -521,10 +565,7 @@ export default function MarketsPage() {
                           properties={marketProperties}
                           marketName={selectedMarketForUpdates?.name || 'Market'}
                           highlightedPropertyId={highlightedPropertyId}
-                          propertyNumbers={marketProperties.reduce((acc, property, index) => {
-                            acc[property.id] = index + 1
-                            return acc
-                          }, {} as Record<string, number>)}
+                          propertyNumbers={marketPropertyNumbers}
                           onPropertyClick={handlePropertyClick}
                           className="w-full h-full"
                         />
@@ -539,7 +580,7 @@ export default function MarketsPage() {
                           </div>
                         ) : (
                           <div className="space-y-2">
-                            {marketProperties.map((property, index) => {
+                            {marketProperties.map((property) => {
                               const isHighlighted = highlightedPropertyId === property.id
                               const isExpanded = expandedProperties.has(property.id)
                               const hasRentData = (property.base_rent_psf || 0) > 0 || (property.expenses_psf || 0) > 0
@@ -562,7 +603,7 @@ export default function MarketsPage() {
                                     <div className="flex items-center gap-3 flex-1 min-w-0">
                                       {/* Property Number Badge */}
                                       <div className="text-white text-xs font-bold rounded-full w-6 h-6 flex items-center justify-center shadow-sm flex-shrink-0" style={{ backgroundColor: '#637484' }}>
-                                        {index + 1}
+                                        {marketPropertyNumbers[property.id]}
                                       </div>
                                       <div className="flex-1 min-w-0">
                                         <div className="font-medium text-sm truncate">
@@ -631,19 +672,7 @@ export default function MarketsPage() {
                                         {/* Marketing Materials and Notes */}
                                         <div className="flex-1 min-w-0">
                                           <div className="space-y-3">
-                                            {/* View Brochure Button */}
-                                            <a 
-                                              href="https://arfhkkmrmjworxfilslg.supabase.co/storage/v1/object/public/property-flyers/ce359af4-f81b-4cf2-afe2-2937882816fe_1758134374147.pdf"
-                                              target="_blank"
-                                              rel="noopener noreferrer"
-                                              className="inline-flex items-center gap-2 text-xs transition-colors"
-                                              style={{ color: '#637484' }}
-                                              onMouseEnter={(e) => e.currentTarget.style.color = '#4a5a6b'}
-                                              onMouseLeave={(e) => e.currentTarget.style.color = '#637484'}
-                                            >
-                                              <ExternalLink className="h-3 w-3" />
-                                              <span>View Brochure</span>
-                                            </a>
+                                            <PropertyBrochureLink property={property} />
 
                                             {/* Notes */}
                                             {property.notes && (
@@ -692,6 +721,14 @@ export default function MarketsPage() {
                       </Button>
                     )}
                   </div>
+                  {updatesError !== null && (
+                    <DataErrorAlert
+                      error={updatesError}
+                      title="Couldn't load updates"
+                      onRetry={fetchMarketUpdates}
+                      className="mb-4"
+                    />
+                  )}
                   {selectedMarketForUpdates && (() => {
                     const filteredUpdates = marketUpdates.filter(msg => msg.market_id === selectedMarketForUpdates.id)
                     return filteredUpdates.length === 0 ? (
@@ -702,38 +739,35 @@ export default function MarketsPage() {
                       </div>
                     ) : (
                       <div className="space-y-4 max-h-[calc(100vh-200px)] overflow-y-auto">
-                        {filteredUpdates.map((message) => {
-                          const isOrgAdmins = message.author === 'Org Admins'
-
-                          return (
-                            <div key={message.id} className="group transition-all duration-500">
-                              <div className="flex items-start gap-3">
-                                <div 
-                                  className="w-8 h-8 rounded-full flex items-center justify-center text-xs font-medium flex-shrink-0"
-                                  style={isOrgAdmins ? { backgroundColor: '#e8ecf0', color: '#637484' } : { backgroundColor: '#f3f4f6', color: '#374151' }}
-                                >
-                                  {isOrgAdmins ? 'OA' : 'MP'}
-                                </div>
-                                <div className="flex-1 min-w-0">
-                                  <div className="flex items-center gap-2 mb-1">
-                                    <span className="text-sm font-medium text-gray-900">
-                                      {message.author}
-                                    </span>
-                                    <span className="text-xs text-gray-500">
-                                      {new Date(message.created_at).toLocaleDateString()}
-                                    </span>
-                                  </div>
-                                  <p className="text-sm text-gray-700 leading-relaxed">
-                                    {message.message}
-                                  </p>
-                                </div>
-                              </div>
-                            </div>
-                          )
-                        })}
+                        {groupUpdateThreads(filteredUpdates).map(thread => (
+                          <MarketUpdateThread
+                            key={thread.update.id}
+                            thread={thread}
+                            people={marketPeople}
+                            properties={marketProperties}
+                            onPropertyClick={handleReferencedPropertyClick}
+                            onEdit={handleEditUpdate}
+                            onDelete={handleDeleteUpdate}
+                          />
+                        ))}
                       </div>
                     )
                   })()}
+
+                  {/* Anyone can edit their own replies; only posters start new updates */}
+                  {selectedMarketForUpdates && (can('updates:post') || editingUpdate) && (
+                    <div className="mt-4 pt-4 border-t">
+                      <MarketUpdateForm
+                        marketId={selectedMarketForUpdates.id}
+                        marketName={selectedMarketForUpdates.name}
+                        onUpdate={handleUpdateMarketUpdates}
+                        editingUpdate={editingUpdate}
+                        onCancelEdit={handleCancelEdit}
+                        people={marketPeople}
+                        isCompact
+                      />
+                    </div>
+                  )}
                 </div>
 
               </div>
@@ -741,7 +775,18 @@ export default function MarketsPage() {
           </SheetContent>
         </Sheet>
 
-
+        <MarketFormDialog
+          open={marketFormOpen}
+          onOpenChange={setMarketFormOpen}
+          onSaved={() => fetchData()}
+        />
+
+        <MarketUpdateImportDialog
+          open={importOpen}
+          onOpenChange={setImportOpen}
+          markets={markets}
+          onImported={() => fetchData()}
+        />
       </SidebarInset>
     </SidebarProvider>
   )
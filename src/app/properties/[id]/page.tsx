@@ -1,9 +1,10 @@
 'use client'
 
-import { notFound } from 'next/navigation'
+import { notFound, useRouter } from 'next/navigation'
 import React, { useState, useEffect } from 'react'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
 import { Separator } from '@/components/ui/separator'
 import { 
   Breadcrumb, 
@@ -16,8 +17,21 @@ import {
 import { SidebarInset, SidebarProvider } from '@/components/ui/sidebar'
 import { AppSidebar } from '@/components/app-sidebar'
 import { MarketMap } from '@/components/market-map'
-import { supabase, Property } from '@/lib/supabase'
-import { MapPin, Building2 } from 'lucide-react'
+import { Property } from '@/lib/supabase'
+import { MapPin, Building2, Edit, Trash2, History } from 'lucide-react'
+import { DataService } from '@/lib/data-service'
+import { useCurrentUser } from '@/hooks/use-current-user'
+import { usePhases } from '@/hooks/use-phases'
+import { DataErrorAlert } from '@/components/data-error-alert'
+import { describeError, NotFoundError } from '@/lib/errors'
+import { PropertyInput } from '@/lib/repository'
+import { PropertyFormDialog } from '@/components/property-form-dialog'
+import { PropertyPhaseDialog } from '@/components/property-phase-dialog'
+import { OccupancyCostCalculator } from '@/components/occupancy-cost-calculator'
+import { DocumentLibrary } from '@/components/document-library'
+import { PropertyUpdates } from '@/components/property-updates'
+import { PdfViewerDialog } from '@/components/pdf-viewer-dialog'
+import { toast } from 'sonner'
 
 
 
@@ -28,42 +42,34 @@ interface Market {
 
 
 
-async function getProperty(id: string): Promise<Property | null> {
-  const { data, error } = await supabase
-    .from('properties')
-    .select('*')
-    .eq('id', id)
-    .single()
-
-  if (error || !data) {
-    return null
-  }
-
-  return data
+async function getProperty(id: string): Promise<Property> {
+  // Goes through DataService so franchisees only reach properties in their markets
+  return await DataService.getProperty(id)
 }
 
-async function getMarket(id: string): Promise<Market | null> {
-  const { data, error } = await supabase
-    .from('markets')
-    .select('id, name')
-    .eq('id', id)
-    .single()
-
-  if (error || !data) {
-    return null
-  }
-
-  return data
+async function getMarket(id: string): Promise<Market> {
+  return await DataService.getMarket(id)
 }
 
 
 
 export default function PropertyPage({ params }: { params: Promise<{ id: string }> }) {
+  const { can } = useCurrentUser()
+  const phases = usePhases()
+  const router = useRouter()
   const [property, setProperty] = useState<Property | null>(null)
   const [market, setMarket] = useState<Market | null>(null)
   const [enlargedImage, setEnlargedImage] = useState<string | null>(null)
+  const [propertyFormOpen, setPropertyFormOpen] = useState(false)
+  const [propertyDraft, setPropertyDraft] = useState<PropertyInput | null>(null)
+  const [isDeleting, setIsDeleting] = useState(false)
+  const [phaseDialogOpen, setPhaseDialogOpen] = useState(false)
+  // Document open in the viewer
+  const [viewing, setViewing] = useState<{ url: string; title: string } | null>(null)
 
   const [loading, setLoading] = useState(true)
+  const [loadError, setLoadError] = useState<unknown>(null)
+  const [reloadKey, setReloadKey] = useState(0)
 
   // Load data on component mount
   useEffect(() => {
@@ -71,25 +77,68 @@ export default function PropertyPage({ params }: { params: Promise<{ id: string
       try {
         const resolvedParams = await params
         const propertyData = await getProperty(resolvedParams.id)
-        
-        if (!propertyData) {
-          notFound()
-        }
-        
         const marketData = propertyData.market_id ? await getMarket(propertyData.market_id) : null
         
         setProperty(propertyData)
         setMarket(marketData)
+        setLoadError(null)
       } catch (error) {
-        console.error('Error loading property data:', error)
-        notFound()
+        setLoadError(error)
       } finally {
         setLoading(false)
       }
     }
     
     loadData()
-  }, [params])
+  }, [params, reloadKey])
+
+  // Show the edit straight away and put the old values back if the save fails
+  const handleSubmitProperty = async (input: PropertyInput, { phaseReason }: { phaseReason: string | null }) => {
+    if (!property) return
+
+    const previous = property
+    setProperty({ ...property, ...input })
+
+    try {
+      setProperty(await DataService.updateProperty(previous.id, input, { phaseReason }))
+      toast.success('Property saved')
+    } catch (error) {
+      setProperty(previous)
+      toast.error('Property not saved', {
+        description: describeError(error),
+        action: {
+          label: 'Edit again',
+          onClick: () => {
+            setPropertyDraft(input)
+            setPropertyFormOpen(true)
+          }
+        }
+      })
+    }
+  }
+
+  const handleDeleteProperty = async () => {
+    if (!property) return
+
+    setIsDeleting(true)
+    try {
+      await DataService.deleteProperty(property.id)
+      toast(`${property.title || property.address_line || 'Property'} deleted`, {
+        action: {
+          label: 'Undo',
+          onClick: () => {
+            DataService.restoreProperty(property.id)
+              .then(() => router.push(`/properties/${property.id}`))
+              .catch(error => toast.error('Property not restored', { description: describeError(error) }))
+          }
+        }
+      })
+      router.push(property.market_id ? `/markets/${property.market_id}` : '/properties')
+    } catch (error) {
+      toast.error('Property not deleted', { description: describeError(error) })
+      setIsDeleting(false)
+    }
+  }
 
   if (loading) {
     return (
@@ -107,6 +156,30 @@ export default function PropertyPage({ params }: { params: Promise<{ id: string
     )
   }
 
+  if (loadError instanceof NotFoundError) {
+    notFound()
+  }
+
+  if (loadError !== null) {
+    return (
+      <SidebarProvider>
+        <AppSidebar />
+        <SidebarInset>
+          <div className="p-4 md:p-6">
+            <DataErrorAlert
+              error={loadError}
+              title="Couldn't load property"
+              onRetry={() => {
+                setLoading(true)
+                setReloadKey(key => key + 1)
+              }}
+            />
+          </div>
+        </SidebarInset>
+      </SidebarProvider>
+    )
+  }
+
   if (!property) {
     notFound()
   }
@@ -127,34 +200,6 @@ export default function PropertyPage({ params }: { params: Promise<{ id: string
     }).format(amount)
   }
 
-  const getPhaseLabel = (phase: string) => {
-    switch (phase) {
-      case 'site_selection': return 'Site Selection'
-      case 'under_contract': return 'Under Contract'
-      case 'due_diligence': return 'Due Diligence'
-      case 'closing': return 'Closing'
-      case 'closed': return 'Closed'
-      case 'owned': return 'Owned'
-      case 'leased': return 'Leased'
-      case 'sold': return 'Sold'
-      default: return phase
-    }
-  }
-
-  const getPhaseVariant = (phase: string) => {
-    switch (phase) {
-      case 'site_selection': return 'outline'
-      case 'under_contract': return 'secondary'
-      case 'due_diligence': return 'default'
-      case 'closing': return 'default'
-      case 'closed': return 'secondary'
-      case 'owned': return 'default'
-      case 'leased': return 'outline'
-      case 'sold': return 'secondary'
-      default: return 'default'
-    }
-  }
-
   return (
     <SidebarProvider>
       <AppSidebar />
@@ -190,8 +235,32 @@ export default function PropertyPage({ params }: { params: Promise<{ id: string
               <p className="text-muted-foreground">Property Details</p>
             </div>
             <div className="ml-auto flex items-center gap-2">
-              <Badge variant={getPhaseVariant(property.phase)}>
-                {getPhaseLabel(property.phase)}
+              {can('properties:edit') && (
+                <>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => {
+                      setPropertyDraft(null)
+                      setPropertyFormOpen(true)
+                    }}
+                    disabled={isDeleting}
+                  >
+                    <Edit className="h-4 w-4 mr-1" />
+                    Edit
+                  </Button>
+                  <Button variant="outline" size="sm" onClick={handleDeleteProperty} disabled={isDeleting}>
+                    <Trash2 className="h-4 w-4 mr-1" />
+                    Delete
+                  </Button>
+                </>
+              )}
+              <Button variant="outline" size="sm" onClick={() => setPhaseDialogOpen(true)}>
+                <History className="h-4 w-4 mr-1" />
+                Phase history
+              </Button>
+              <Badge variant={phases.variant(property.phase)}>
+                {phases.label(property.phase)}
               </Badge>
             </div>
           </div>
@@ -258,25 +327,30 @@ export default function PropertyPage({ params }: { params: Promise<{ id: string
                       <p className="text-sm">{property.size_sqft.toLocaleString()} sq ft</p>
                     </div>
                   )}
-                  {property.base_rent_psf && (
+                  {can('financials:view') && property.base_rent_psf && (
                     <div>
                       <label className="text-sm font-medium text-muted-foreground">Base Rent</label>
                       <p className="text-sm">{formatCurrency(property.base_rent_psf)} per sq ft</p>
                     </div>
                   )}
-                  {property.expenses_psf && (
+                  {can('financials:view') && property.expenses_psf && (
                     <div>
                       <label className="text-sm font-medium text-muted-foreground">Expenses</label>
                       <p className="text-sm">{formatCurrency(property.expenses_psf)} per sq ft</p>
                     </div>
                   )}
+                  {can('financials:view') && (
+                    <div className="space-y-2">
+                      <label className="text-sm font-medium text-muted-foreground">Occupancy Cost</label>
+                      <OccupancyCostCalculator property={property} />
+                    </div>
+                  )}
 
                   
                   <div>
                     <label className="text-sm font-medium text-muted-foreground">About the Space</label>
-                    <p className="text-xs text-muted-foreground">
-                      Modern retail space with high ceilings, natural light, and flexible layout. 
-                      Located in prime commercial district with excellent foot traffic.
+                    <p className="text-xs text-muted-foreground whitespace-pre-wrap">
+                      {property.notes || 'No additional information available for this space.'}
                     </p>
                   </div>
                   
@@ -288,35 +362,9 @@ export default function PropertyPage({ params }: { params: Promise<{ id: string
                     </p>
                   </div>
                   
-                  <div>
-                    <label className="text-sm font-medium text-muted-foreground">Documents</label>
-                    <div className="text-xs space-y-1">
-                      <a 
-                        href="#" 
-                        className="block text-foreground hover:text-muted-foreground"
-                      >
-                        📄 Lease Agreement.pdf
-                      </a>
-                      <a 
-                        href="#" 
-                        className="block text-foreground hover:text-muted-foreground"
-                      >
-                        📄 Property Survey.pdf
-                      </a>
-                      <a 
-                        href="#" 
-                        className="block text-foreground hover:text-muted-foreground"
-                      >
-                        📄 Floor Plan.pdf
-                      </a>
-                      <a 
-                        href="#" 
-                        className="block text-foreground hover:text-muted-foreground"
-                      >
-                        📄 Inspection Report.pdf
-                      </a>
-                    </div>
-                  </div>
+                  <DocumentLibrary marketId={property.market_id} propertyId={property.id} onView={(url, title) => setViewing({ url, title })} />
+
+                  <PropertyUpdates property={property} />
                   
 
                 </CardContent>
@@ -347,6 +395,32 @@ export default function PropertyPage({ params }: { params: Promise<{ id: string
         </div>
       </SidebarInset>
 
+      {property.market_id && (
+        <PropertyFormDialog
+          open={propertyFormOpen}
+          onOpenChange={setPropertyFormOpen}
+          marketId={property.market_id}
+          property={property}
+          draft={propertyDraft}
+          onSubmit={handleSubmitProperty}
+        />
+      )}
+
+      <PdfViewerDialog
+        open={!!viewing}
+        onOpenChange={(open) => !open && setViewing(null)}
+        url={viewing?.url ?? null}
+        title={viewing?.title ?? ''}
+      />
+
+      <PropertyPhaseDialog
+        open={phaseDialogOpen}
+        onOpenChange={setPhaseDialogOpen}
+        property={property}
+        canChange={can('properties:edit')}
+        onChanged={setProperty}
+      />
+
       {/* Enlarged Image Modal */}
       {enlargedImage && (
         <div 
@@ -0,0 +1,249 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import Link from 'next/link'
+import { AppSidebar } from '@/components/app-sidebar'
+import {
+  Breadcrumb,
+  BreadcrumbItem,
+  BreadcrumbLink,
+  BreadcrumbList,
+  BreadcrumbPage,
+  BreadcrumbSeparator,
+} from '@/components/ui/breadcrumb'
+import { Separator } from '@/components/ui/separator'
+import {
+  SidebarInset,
+  SidebarProvider,
+  SidebarTrigger,
+} from '@/components/ui/sidebar'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { MapPinOff, MapPinned, RefreshCw } from 'lucide-react'
+import { toast } from 'sonner'
+import { DataService } from '@/lib/data-service'
+import { describeError } from '@/lib/errors'
+import { formatAddress, needsGeocodeAttention } from '@/lib/geocoding'
+import { Property } from '@/lib/supabase'
+import { DataErrorAlert } from '@/components/data-error-alert'
+import { PinPlacementMap } from '@/components/pin-placement-map'
+
+function describeStatus(property: Property) {
+  if (property.geocode_status === 'low_confidence') {
+    const confidence = property.geocode_confidence != null ? ` (${Math.round(property.geocode_confidence * 100)}%)` : ''
+    return { label: `Rough match${confidence}`, variant: 'secondary' as const }
+  }
+  if (property.geocode_status === 'failed') {
+    return { label: 'Address not found', variant: 'destructive' as const }
+  }
+  return { label: 'Not on the map', variant: 'outline' as const }
+}
+
+export default function NeedsAttentionPage() {
+  const [properties, setProperties] = useState<Property[]>([])
+  const [loading, setLoading] = useState(true)
+  const [loadError, setLoadError] = useState<unknown>(null)
+  const [selectedId, setSelectedId] = useState<string | null>(null)
+  // Pin being placed for the selected property, not yet saved
+  const [pin, setPin] = useState<{ lat: number; lng: number } | null>(null)
+  const [busyId, setBusyId] = useState<string | null>(null)
+
+  const fetchProperties = useCallback(async () => {
+    setLoading(true)
+    try {
+      const data = await DataService.getPropertiesNeedingAttention()
+      setProperties(data)
+      setLoadError(null)
+    } catch (error) {
+      setLoadError(error)
+    } finally {
+      setLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    fetchProperties()
+  }, [fetchProperties])
+
+  const selected = properties.find(p => p.id === selectedId) ?? null
+
+  const selectProperty = (property: Property) => {
+    setSelectedId(property.id)
+    setPin(property.lat != null && property.lng != null ? { lat: property.lat, lng: property.lng } : null)
+  }
+
+  // Fixed properties drop off the list
+  const applyResult = (updated: Property) => {
+    const stillNeedsAttention = needsGeocodeAttention(updated)
+    setProperties(current => stillNeedsAttention
+      ? current.map(p => (p.id === updated.id ? updated : p))
+      : current.filter(p => p.id !== updated.id))
+    if (!stillNeedsAttention && selectedId === updated.id) {
+      setSelectedId(null)
+      setPin(null)
+    }
+  }
+
+  const handleRetry = async (property: Property) => {
+    setBusyId(property.id)
+    try {
+      const updated = await DataService.geocodeProperty(property.id)
+      applyResult(updated)
+      if (updated.geocode_status === 'matched') {
+        toast.success('Address found')
+      } else {
+        toast.error('Still no good match', { description: 'Place the pin on the map instead.' })
+      }
+    } catch (error) {
+      toast.error('Couldn\'t look up the address', { description: describeError(error) })
+    } finally {
+      setBusyId(null)
+    }
+  }
+
+  const handleSavePin = async () => {
+    if (!selected || !pin) return
+
+    setBusyId(selected.id)
+    try {
+      const updated = await DataService.placePropertyPin(selected.id, pin.lat, pin.lng)
+      applyResult(updated)
+      toast.success('Pin saved')
+    } catch (error) {
+      toast.error('Pin not saved', { description: describeError(error) })
+    } finally {
+      setBusyId(null)
+    }
+  }
+
+  if (loading) {
+    return (
+      <SidebarProvider>
+        <AppSidebar />
+        <SidebarInset>
+          <div className="flex items-center justify-center h-screen">
+            <div className="text-lg">Loading properties...</div>
+          </div>
+        </SidebarInset>
+      </SidebarProvider>
+    )
+  }
+
+  return (
+    <SidebarProvider>
+      <AppSidebar />
+      <SidebarInset>
+        <header className="flex h-16 shrink-0 items-center gap-2 transition-[width,height] ease-linear group-has-data-[collapsible=icon]/sidebar-wrapper:h-12">
+          <div className="flex items-center gap-2 px-4">
+            <SidebarTrigger className="-ml-1" />
+            <Separator
+              orientation="vertical"
+              className="mr-2 data-[orientation=vertical]:h-4"
+            />
+            <Breadcrumb>
+              <BreadcrumbList>
+                <BreadcrumbItem>
+                  <BreadcrumbLink href="/properties">Properties</BreadcrumbLink>
+                </BreadcrumbItem>
+                <BreadcrumbSeparator />
+                <BreadcrumbItem>
+                  <BreadcrumbPage>Needs Attention</BreadcrumbPage>
+                </BreadcrumbItem>
+              </BreadcrumbList>
+            </Breadcrumb>
+          </div>
+        </header>
+        <div className="flex flex-1 flex-col gap-4 p-4 pt-0 min-h-0">
+          {loadError !== null && (
+            <DataErrorAlert error={loadError} title="Couldn't load properties" onRetry={fetchProperties} />
+          )}
+
+          <div className="flex flex-1 gap-4 min-h-[500px]">
+            <Card className="w-96 flex-shrink-0 flex flex-col">
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <MapPinOff className="h-5 w-5" />
+                  Locations to check
+                </CardTitle>
+                <CardDescription>
+                  {properties.length === 0
+                    ? 'Every property is on the map.'
+                    : `${properties.length} ${properties.length === 1 ? 'property is' : 'properties are'} missing from the map or only roughly placed.`}
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="flex-1 overflow-y-auto space-y-2">
+                {properties.map(property => {
+                  const status = describeStatus(property)
+                  return (
+                    <div
+                      key={property.id}
+                      className={`rounded-lg border p-3 text-sm cursor-pointer transition-colors ${
+                        selectedId === property.id ? 'border-blue-300 bg-blue-50/50' : 'hover:bg-muted/50'
+                      }`}
+                      onClick={() => selectProperty(property)}
+                    >
+                      <div className="flex items-start justify-between gap-2">
+                        <Link
+                          href={`/properties/${property.id}`}
+                          className="font-medium hover:underline"
+                          onClick={(e) => e.stopPropagation()}
+                        >
+                          {property.title || property.address_line || 'Untitled Property'}
+                        </Link>
+                        <Badge variant={status.variant} className="shrink-0">{status.label}</Badge>
+                      </div>
+                      <p className="text-xs text-muted-foreground mt-1">{formatAddress(property) || 'No address'}</p>
+                      <div className="flex justify-end pt-2">
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={(e) => {
+                            e.stopPropagation()
+                            handleRetry(property)
+                          }}
+                          disabled={busyId === property.id}
+                        >
+                          <RefreshCw className="h-3 w-3 mr-1" />
+                          Look up again
+                        </Button>
+                      </div>
+                    </div>
+                  )
+                })}
+              </CardContent>
+            </Card>
+
+            <Card className="flex-1 flex flex-col">
+              <CardHeader className="flex flex-row items-center justify-between space-y-0">
+                <div className="space-y-1.5">
+                  <CardTitle className="flex items-center gap-2">
+                    <MapPinned className="h-5 w-5" />
+                    {selected ? selected.title || selected.address_line || 'Untitled Property' : 'Place a pin'}
+                  </CardTitle>
+                  <CardDescription>
+                    {selected
+                      ? 'Click the map or drag the pin to where the property is, then save.'
+                      : 'Choose a property from the list.'}
+                  </CardDescription>
+                </div>
+                <Button size="sm" onClick={handleSavePin} disabled={!selected || !pin || busyId === selected.id}>
+                  {selected && busyId === selected.id ? 'Saving...' : 'Save pin'}
+                </Button>
+              </CardHeader>
+              <CardContent className="flex-1 p-0 min-h-0">
+                <PinPlacementMap
+                  value={selected ? pin : null}
+                  onChange={(position) => {
+                    if (selected) setPin(position)
+                  }}
+                  className="h-full w-full min-h-[400px] rounded-b-lg"
+                />
+              </CardContent>
+            </Card>
+          </div>
+        </div>
+      </SidebarInset>
+    </SidebarProvider>
+  )
+}
@@ -1,6 +1,6 @@
 'use client'
 
-import { useEffect, useState } from 'react'
+import { useCallback, useEffect, useState } from 'react'
 import { useRouter } from 'next/navigation'
 import { AppSidebar } from '@/components/app-sidebar'
 import {
@@ -26,27 +26,35 @@ import { MapPin, Building2, DollarSign, Eye } from 'lucide-react'
 import { ViewToggle } from '@/components/view-toggle'
 import { DataTable } from '@/components/ui/data-table'
 import { columns } from './columns'
+import { useCurrentUser } from '@/hooks/use-current-user'
+import { usePhases } from '@/hooks/use-phases'
+import { DataErrorAlert } from '@/components/data-error-alert'
 
 export default function PropertiesPage() {
   const router = useRouter()
+  const { can } = useCurrentUser()
+  const phases = usePhases()
   const [properties, setProperties] = useState<Property[]>([])
   const [loading, setLoading] = useState(true)
+  const [loadError, setLoadError] = useState<unknown>(null)
   const [view, setView] = useState<'cards' | 'table'>('cards')
 
-  useEffect(() => {
-    const fetchProperties = async () => {
-      try {
-        const data = await DataService.getProperties()
-        setProperties(data)
-      } catch (error) {
-        console.error('Error fetching properties:', error)
-      } finally {
-        setLoading(false)
-      }
+  const fetchProperties = useCallback(async () => {
+    setLoading(true)
+    try {
+      const data = await DataService.getProperties()
+      setProperties(data)
+      setLoadError(null)
+    } catch (error) {
+      setLoadError(error)
+    } finally {
+      setLoading(false)
     }
+  }, [])
 
+  useEffect(() => {
     fetchProperties()
-  }, [])
+  }, [fetchProperties])
 
 
 
@@ -91,6 +99,9 @@ export default function PropertiesPage() {
           </div>
         </header>
         <div className="flex flex-1 flex-col gap-4 p-4 pt-0">
+          {loadError !== null && (
+            <DataErrorAlert error={loadError} title="Couldn't load properties" onRetry={fetchProperties} />
+          )}
           <Card>
             <CardHeader>
               <CardTitle>All Properties</CardTitle>
@@ -109,7 +120,7 @@ export default function PropertiesPage() {
                             <CardTitle className="text-lg">
                               {property.title || property.address_line || 'Untitled Property'}
                             </CardTitle>
-                            <Badge variant="secondary">{property.phase}</Badge>
+                            <Badge variant={phases.variant(property.phase)}>{phases.label(property.phase)}</Badge>
                           </div>
                         </CardHeader>
                         <CardContent className="space-y-3">
@@ -127,7 +138,7 @@ export default function PropertiesPage() {
                             </div>
                           )}
                           
-                          {property.base_rent_psf && (
+                          {can('financials:view') && property.base_rent_psf && (
                             <div className="flex items-center gap-2 text-sm text-muted-foreground">
                               <DollarSign className="h-4 w-4" />
                               <span>${property.base_rent_psf}/sq ft</span>
@@ -163,7 +174,7 @@ export default function PropertiesPage() {
                               ) : (
                   <div className="w-full overflow-hidden">
                     <DataTable 
-                      columns={columns} 
+                      columns={can('financials:view') ? columns : columns.filter(column => !('accessorKey' in column) || column.accessorKey !== 'base_rent_psf')} 
                       data={properties} 
                       searchKey="title"
                       searchPlaceholder="Filter properties by title..."
@@ -1,38 +1,24 @@
 "use client"
 
 import type * as React from "react"
-import { MapPin, GalleryVerticalEnd } from "lucide-react"
+import { MapPin, Building2, Globe, BarChart3, MessageSquare } from "lucide-react"
 
 import { NavMain } from "@/components/nav-main"
+import { NavNotifications } from "@/components/nav-notifications"
 import { NavUser } from "@/components/nav-user"
-import { Sidebar, SidebarContent, SidebarFooter, SidebarHeader, SidebarRail, SidebarMenu, SidebarMenuItem, SidebarMenuButton } from "@/components/ui/sidebar"
+import { TeamSwitcher } from "@/components/team-switcher"
+import { useCurrentUser } from "@/hooks/use-current-user"
+import { Permission, ROLE_LABELS, ROLE_PORTAL_NAMES } from "@/lib/roles"
+import { config } from "@/lib/config"
+import { Sidebar, SidebarContent, SidebarFooter, SidebarHeader, SidebarRail } from "@/components/ui/sidebar"
+
+type NavItem = React.ComponentProps<typeof NavMain>["items"][number] & {
+  permission?: Permission
+  enabled?: boolean
+}
 
 const data = {
-  user: {
-    name: "Demo Franchisor",
-    email: "admin@demofranchise.com",
-    avatar: "/avatars/shadcn.jpg",
-  },
-  teams: [
-    {
-      name: "Demo Franchise Co",
-      logo: GalleryVerticalEnd,
-      plan: "Franchisor Portal",
-    },
-  ],
   navMain: [
-    // {
-    //   title: "Properties",
-    //   url: "/properties",
-    //   icon: Building2,
-    //   isActive: true,
-    //   items: [
-    //     {
-    //       title: "All Properties",
-    //       url: "/properties",
-    //     },
-    //   ],
-    // },
     {
       title: "Markets",
       url: "/markets",
@@ -45,64 +31,92 @@ const data = {
         },
       ],
     },
-
-    // {
-    //   title: "Map",
-    //   url: "/map",
-    //   icon: Globe,
-    //   isActive: true,
-    //   items: [
-    //     {
-    //       title: "Interactive Map",
-    //       url: "/map",
-    //     },
-    //   ],
-    // },
-    // {
-    //   title: "Chat",
-    //   url: "/chat",
-    //   icon: MessageSquare,
-    //   isActive: true,
-    //   items: [
-    //     {
-    //       title: "All Chat",
-    //       url: "/chat",
-    //     },
-    //     {
-    //       title: "Weekly Updates",
-    //       url: "/chat/weekly-updates",
-    //     },
-    //   ],
-    // },
-  ],
+    {
+      title: "Properties",
+      url: "/properties",
+      icon: Building2,
+      isActive: true,
+      permission: "properties:edit",
+      items: [
+        {
+          title: "All Properties",
+          url: "/properties",
+        },
+        {
+          title: "Needs Attention",
+          url: "/properties/needs-attention",
+        },
+      ],
+    },
+    {
+      title: "Map",
+      url: "/map",
+      icon: Globe,
+      isActive: true,
+      permission: "markets:view_all",
+      items: [
+        {
+          title: "Interactive Map",
+          url: "/map",
+        },
+      ],
+    },
+    {
+      title: "Analytics",
+      url: "/analytics",
+      icon: BarChart3,
+      isActive: true,
+      permission: "analytics:view",
+      items: [
+        {
+          title: "Pipeline Velocity",
+          url: "/analytics",
+        },
+      ],
+    },
+    {
+      title: "Chat",
+      url: "/chat",
+      icon: MessageSquare,
+      isActive: true,
+      enabled: config.features.chat,
+      items: [
+        {
+          title: "All Chat",
+          url: "/chat",
+        },
+        {
+          title: "Weekly Updates",
+          url: "/chat/weekly-updates",
+        },
+      ],
+    },
+  ] as NavItem[],
 }
 
 export function AppSidebar({ ...props }: React.ComponentProps<typeof Sidebar>) {
+  const { user, role, can } = useCurrentUser()
+  const navUser = {
+    name: user?.full_name || user?.email || "Signed out",
+    email: role ? `${user?.email || ""} · ${ROLE_LABELS[role]}` : user?.email || "",
+    avatar: user?.avatar_url || "",
+  }
+  // Hide sections that are switched off or the current role has no access to
+  const navItems = data.navMain.filter(item =>
+    item.enabled !== false && (!item.permission || can(item.permission))
+  )
+
   return (
     <Sidebar collapsible="icon" {...props} suppressHydrationWarning>
       <SidebarHeader>
-        <SidebarMenu>
-          <SidebarMenuItem>
-            <SidebarMenuButton
-              size="lg"
-              className="cursor-default"
-            >
-              <div className="bg-sidebar-primary text-sidebar-primary-foreground flex aspect-square size-8 items-center justify-center rounded-lg">
-                <GalleryVerticalEnd className="size-4" />
-              </div>
-              <div className="grid flex-1 text-left text-sm leading-tight">
-                <span className="truncate font-medium">Demo Franchise Co</span>
-                <span className="truncate text-xs">Franchisor Portal</span>
-              </div>
-            </SidebarMenuButton>
-          </SidebarMenuItem>
-        </SidebarMenu>
+        <TeamSwitcher plan={role ? ROLE_PORTAL_NAMES[role] : "Portal"} />
       </SidebarHeader>
       <SidebarContent>
-        <NavMain items={data.navMain} />
+        <NavMain items={navItems} />
       </SidebarContent>
       <SidebarFooter>
-        <NavUser user={data.user} />
+        <NavNotifications />
+        <NavUser user={navUser} />
       </SidebarFooter>
       <SidebarRail />
     </Sidebar>
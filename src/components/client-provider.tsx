@@ -0,0 +1,184 @@
+"use client"
+
+import * as React from "react"
+import { usePathname } from "next/navigation"
+import { Building2 } from "lucide-react"
+import { DataService } from "@/lib/data-service"
+import { Client } from "@/lib/supabase"
+import { isProtectedRoute } from "@/lib/auth-routes"
+import { config } from "@/lib/config"
+import { useSession } from "@/hooks/use-session"
+import { DataErrorAlert } from "@/components/data-error-alert"
+
+// Query param and storage key that carry the active client across reloads
+export const CLIENT_PARAM = "client"
+const STORAGE_KEY = "activeClientId"
+
+interface ClientContextValue {
+  clients: Client[]
+  activeClient: Client | null
+  setActiveClient: (clientId: string) => void
+  loading: boolean
+}
+
+const ClientContext = React.createContext<ClientContextValue | null>(null)
+
+export function useActiveClient() {
+  const context = React.useContext(ClientContext)
+  if (!context) {
+    throw new Error("useActiveClient must be used within a ClientProvider.")
+  }
+
+  return context
+}
+
+function readClientFromUrl(): string | null {
+  return new URLSearchParams(window.location.search).get(CLIENT_PARAM)
+}
+
+// Mirror the active client into the URL without triggering a navigation
+function writeClientToUrl(clientId: string) {
+  const url = new URL(window.location.href)
+  if (url.searchParams.get(CLIENT_PARAM) === clientId) return
+
+  url.searchParams.set(CLIENT_PARAM, clientId)
+  window.history.replaceState(window.history.state, "", url)
+}
+
+export function ClientProvider({ children }: { children: React.ReactNode }) {
+  const pathname = usePathname()
+  const { user, loading: sessionLoading } = useSession()
+  const userId = user?.id ?? null
+  const [clients, setClients] = React.useState<Client[]>([])
+  const [activeClientId, setActiveClientId] = React.useState<string | null>(null)
+  const [loading, setLoading] = React.useState(true)
+  const [loadError, setLoadError] = React.useState<unknown>(null)
+  const [reloadKey, setReloadKey] = React.useState(0)
+  // The client last put in the URL, so only a URL that changed since (a link or back/forward) switches clients
+  const writtenClientId = React.useRef<string | null>(null)
+
+  // Load memberships whenever the signed-in user changes
+  React.useEffect(() => {
+    if (sessionLoading) return
+
+    if (!userId) {
+      DataService.setActiveClientId(null)
+      setClients([])
+      setActiveClientId(null)
+      setLoading(false)
+      return
+    }
+
+    let cancelled = false
+    setLoading(true)
+
+    DataService.getClientsForCurrentUser()
+      .then(memberships => {
+        if (cancelled) return
+
+        // URL wins over the stored choice, then the configured default; all must be a real membership
+        const requested = [readClientFromUrl(), window.localStorage.getItem(STORAGE_KEY), config.defaultClientId]
+        const initial = requested.find(id => id && memberships.some(c => c.id === id)) || memberships[0]?.id || null
+
+        DataService.setActiveClientId(initial)
+        setClients(memberships)
+        setActiveClientId(initial)
+        setLoadError(null)
+      })
+      .catch(error => {
+        if (!cancelled) setLoadError(error)
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false)
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [userId, sessionLoading, reloadKey])
+
+  // Persist the choice and keep it in the URL as the user navigates
+  React.useEffect(() => {
+    if (!activeClientId) return
+
+    // A link carrying another client the user belongs to switches to it
+    const requested = readClientFromUrl()
+    if (
+      requested &&
+      requested !== activeClientId &&
+      requested !== writtenClientId.current &&
+      clients.some(c => c.id === requested)
+    ) {
+      writtenClientId.current = requested
+      window.localStorage.setItem(STORAGE_KEY, requested)
+      DataService.setActiveClientId(requested)
+      setActiveClientId(requested)
+      return
+    }
+
+    window.localStorage.setItem(STORAGE_KEY, activeClientId)
+    writeClientToUrl(activeClientId)
+    writtenClientId.current = activeClientId
+  }, [activeClientId, pathname, clients])
+
+  const setActiveClient = React.useCallback((clientId: string) => {
+    if (!clients.some(c => c.id === clientId)) return
+
+    // Update the URL first so the sync above doesn't read the old client back
+    window.localStorage.setItem(STORAGE_KEY, clientId)
+    writeClientToUrl(clientId)
+    writtenClientId.current = clientId
+    DataService.setActiveClientId(clientId)
+    setActiveClientId(clientId)
+  }, [clients])
+
+  const value = React.useMemo<ClientContextValue>(() => ({
+    clients,
+    activeClient: clients.find(c => c.id === activeClientId) || null,
+    setActiveClient,
+    loading,
+  }), [clients, activeClientId, setActiveClient, loading])
+
+  const needsClient = isProtectedRoute(pathname)
+
+  let content: React.ReactNode = children
+  if (needsClient && loading) {
+    content = (
+      <div className="flex items-center justify-center h-screen">
+        <div className="text-lg">Loading portal...</div>
+      </div>
+    )
+  } else if (needsClient && loadError !== null) {
+    content = (
+      <div className="flex min-h-svh items-center justify-center p-6">
+        <DataErrorAlert
+          error={loadError}
+          title="Couldn't load your clients"
+          onRetry={() => setReloadKey(key => key + 1)}
+          className="max-w-md"
+        />
+      </div>
+    )
+  } else if (needsClient && !activeClientId) {
+    content = (
+      <div className="flex min-h-svh items-center justify-center p-6">
+        <div className="text-center max-w-sm">
+          <Building2 className="mx-auto h-12 w-12 text-muted-foreground" />
+          <h3 className="mt-4 text-lg font-medium">No client access</h3>
+          <p className="mt-2 text-muted-foreground">
+            Your account isn&apos;t linked to any franchise brand yet. Ask a franchisor admin to add you.
+          </p>
+        </div>
+      </div>
+    )
+  } else if (needsClient) {
+    // Remount the page when the client changes so every query reloads for the new client
+    content = <React.Fragment key={activeClientId}>{children}</React.Fragment>
+  }
+
+  return (
+    <ClientContext.Provider value={value}>
+      {content}
+    </ClientContext.Provider>
+  )
+}
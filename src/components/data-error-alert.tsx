@@ -0,0 +1,32 @@
+'use client'
+
+import { AlertCircle, RefreshCw } from 'lucide-react'
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert'
+import { Button } from '@/components/ui/button'
+import { describeError } from '@/lib/errors'
+
+interface DataErrorAlertProps {
+  error: unknown
+  title?: string
+  onRetry?: () => void
+  className?: string
+}
+
+// Inline banner for a failed load, with an optional retry action
+export function DataErrorAlert({ error, title = 'Couldn\'t load data', onRetry, className }: DataErrorAlertProps) {
+  return (
+    <Alert variant="destructive" className={className}>
+      <AlertCircle />
+      <AlertTitle>{title}</AlertTitle>
+      <AlertDescription>
+        <p>{describeError(error)}</p>
+        {onRetry && (
+          <Button variant="outline" size="sm" onClick={onRetry} className="mt-1">
+            <RefreshCw className="h-3 w-3" />
+            Try again
+          </Button>
+        )}
+      </AlertDescription>
+    </Alert>
+  )
+}
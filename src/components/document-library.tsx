@@ -0,0 +1,239 @@
+'use client'
+
+import React, { useEffect, useRef, useState } from 'react'
+import { FileText, History, Loader2, MoreHorizontal, Trash2, Upload } from 'lucide-react'
+import { toast } from 'sonner'
+import { Button } from '@/components/ui/button'
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu'
+import { DataErrorAlert } from '@/components/data-error-alert'
+import { DocumentUploadDialog } from '@/components/document-upload-dialog'
+import { DataService } from '@/lib/data-service'
+import { describeError } from '@/lib/errors'
+import { DocumentVersion, DocumentWithVersions } from '@/lib/supabase'
+import { DOCUMENT_CATEGORIES, DOCUMENT_CONTENT_TYPES, DOCUMENT_GROUPS, formatFileSize, sortDocuments } from '@/lib/documents'
+import { useCurrentUser } from '@/hooks/use-current-user'
+
+interface DocumentLibraryProps {
+  marketId: string
+  // Shows this property's documents alongside the market-wide ones
+  propertyId?: string | null
+  // Opens a file in the viewer
+  onView: (url: string, title: string) => void
+  className?: string
+}
+
+function formatDate(date: string) {
+  return new Date(date).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' })
+}
+
+// A market's or property's documents grouped by category, newest version
+// first, with uploads, new versions and removal for people who manage them
+export function DocumentLibrary({ marketId, propertyId, onView, className = '' }: DocumentLibraryProps) {
+  const { can } = useCurrentUser()
+  const [documents, setDocuments] = useState<DocumentWithVersions[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<unknown>(null)
+  const [reloadKey, setReloadKey] = useState(0)
+  const [uploadOpen, setUploadOpen] = useState(false)
+  const [historyId, setHistoryId] = useState<string | null>(null)
+  // Document (and its file input) getting a new version
+  const [versionTarget, setVersionTarget] = useState<DocumentWithVersions | null>(null)
+  const [uploadingId, setUploadingId] = useState<string | null>(null)
+  const versionInput = useRef<HTMLInputElement>(null)
+  const canManage = can('documents:manage')
+
+  useEffect(() => {
+    let cancelled = false
+    setLoading(true)
+    DataService.getDocuments(marketId, { propertyId: propertyId ?? undefined })
+      .then(result => {
+        if (cancelled) return
+        setDocuments(result)
+        setError(null)
+      })
+      .catch(loadError => {
+        if (cancelled) return
+        console.error('Error loading documents:', loadError)
+        setError(loadError)
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false)
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [marketId, propertyId, reloadKey])
+
+  const openVersion = async (document: DocumentWithVersions, version: DocumentVersion) => {
+    try {
+      const url = await DataService.getDocumentUrl(document, version)
+      const label = version === document.versions[0] ? document.title : `${document.title} (version ${version.version})`
+      onView(url, label)
+    } catch (openError) {
+      toast.error('Document not opened', { description: describeError(openError) })
+    }
+  }
+
+  const startNewVersion = (document: DocumentWithVersions) => {
+    setVersionTarget(document)
+    versionInput.current?.click()
+  }
+
+  const handleVersionFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    // Cleared so picking the same file again still fires a change
+    e.target.value = ''
+    if (!file || !versionTarget) return
+
+    const document = versionTarget
+    setUploadingId(document.id)
+    try {
+      const version = await DataService.uploadDocumentVersion(document, file)
+      setDocuments(current => current.map(d => (d.id === document.id ? { ...d, versions: [version, ...d.versions] } : d)))
+      toast.success(`${document.title} updated to version ${version.version}`)
+    } catch (uploadError) {
+      toast.error('New version not uploaded', { description: describeError(uploadError) })
+    } finally {
+      setUploadingId(null)
+      setVersionTarget(null)
+    }
+  }
+
+  const handleRemove = async (document: DocumentWithVersions) => {
+    try {
+      await DataService.removeDocument(document)
+      setDocuments(current => current.filter(d => d.id !== document.id))
+      toast(`${document.title} removed`, {
+        action: {
+          label: 'Undo',
+          onClick: () => {
+            DataService.restoreDocument(document)
+              .then(() => setDocuments(current => sortDocuments([...current, document])))
+              .catch(restoreError => {
+                toast.error('Document not restored', { description: describeError(restoreError) })
+              })
+          }
+        }
+      })
+    } catch (removeError) {
+      toast.error('Document not removed', { description: describeError(removeError) })
+    }
+  }
+
+  const groups = DOCUMENT_GROUPS
+    .map(group => ({ group, documents: documents.filter(d => DOCUMENT_CATEGORIES[d.category].group === group) }))
+    .filter(entry => entry.documents.length > 0)
+
+  return (
+    <div className={`@container space-y-3 ${className}`}>
+      <div className="flex items-center justify-between">
+        <h4 className="text-sm font-medium text-gray-700">Documents</h4>
+        <div className="flex items-center gap-2">
+          {loading && <Loader2 className="h-4 w-4 animate-spin text-gray-400" />}
+          {canManage && (
+            <Button type="button" variant="outline" size="sm" onClick={() => setUploadOpen(true)}>
+              <Upload className="h-4 w-4 mr-1" />
+              Upload
+            </Button>
+          )}
+        </div>
+      </div>
+
+      {error ? (
+        <DataErrorAlert error={error} title="Couldn't load documents" onRetry={() => setReloadKey(key => key + 1)} />
+      ) : !loading && groups.length === 0 ? (
+        <p className="text-sm text-gray-500 italic">No documents yet.</p>
+      ) : (
+        <div className="grid grid-cols-1 gap-4 @md:grid-cols-3">
+          {groups.map(({ group, documents: groupDocuments }) => (
+            <div key={group}>
+              <h4 className="text-sm font-medium text-gray-700 mb-2">{group}</h4>
+              <div className="space-y-1">
+                {groupDocuments.map(document => {
+                  const latest = document.versions[0]
+                  return (
+                    <div key={document.id}>
+                      <div className="flex items-center gap-1">
+                        <button
+                          type="button"
+                          className="flex min-w-0 items-center gap-2 text-left text-sm text-[#637484] transition-colors hover:text-[#4a5a6b] disabled:opacity-50"
+                          onClick={() => latest && openVersion(document, latest)}
+                          disabled={!latest}
+                          title={latest ? `${latest.file_name}, ${formatFileSize(latest.size_bytes)}` : undefined}
+                        >
+                          {uploadingId === document.id
+                            ? <Loader2 className="h-4 w-4 shrink-0 animate-spin" />
+                            : <FileText className="h-4 w-4 shrink-0" />}
+                          <span className="truncate">{document.title}</span>
+                        </button>
+                        {document.versions.length > 1 && (
+                          <span className="text-xs text-gray-400">v{latest.version}</span>
+                        )}
+                        {propertyId && document.property_id === null && (
+                          <span className="text-xs text-gray-400">market</span>
+                        )}
+                        <DropdownMenu>
+                          <DropdownMenuTrigger asChild>
+                            <Button type="button" variant="ghost" size="sm" className="ml-auto h-6 w-6 p-0" title="Document options">
+                              <MoreHorizontal className="h-4 w-4" />
+                            </Button>
+                          </DropdownMenuTrigger>
+                          <DropdownMenuContent align="end">
+                            <DropdownMenuItem onClick={() => setHistoryId(historyId === document.id ? null : document.id)}>
+                              <History className="h-4 w-4" />
+                              {historyId === document.id ? 'Hide versions' : 'Versions'}
+                            </DropdownMenuItem>
+                            {canManage && (
+                              <>
+                                <DropdownMenuItem onClick={() => startNewVersion(document)}>
+                                  <Upload className="h-4 w-4" />
+                                  Upload new version
+                                </DropdownMenuItem>
+                                <DropdownMenuItem onClick={() => handleRemove(document)}>
+                                  <Trash2 className="h-4 w-4" />
+                                  Remove
+                                </DropdownMenuItem>
+                              </>
+                            )}
+                          </DropdownMenuContent>
+                        </DropdownMenu>
+                      </div>
+                      {historyId === document.id && (
+                        <ul className="ml-6 mt-1 space-y-0.5 text-xs text-gray-500">
+                          {document.versions.map(version => (
+                            <li key={version.id}>
+                              <button type="button" className="hover:underline" onClick={() => openVersion(document, version)}>
+                                Version {version.version}
+                              </button>
+                              {' '}· {formatDate(version.created_at)}
+                              {version.uploaded_by_name ? ` · ${version.uploaded_by_name}` : ''}
+                            </li>
+                          ))}
+                        </ul>
+                      )}
+                    </div>
+                  )
+                })}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <input ref={versionInput} type="file" accept={DOCUMENT_CONTENT_TYPES.join(',')} className="hidden" onChange={handleVersionFile} />
+      <DocumentUploadDialog
+        open={uploadOpen}
+        onOpenChange={setUploadOpen}
+        marketId={marketId}
+        propertyId={propertyId}
+        onUploaded={document => setDocuments(current => sortDocuments([...current, document]))}
+      />
+    </div>
+  )
+}
@@ -0,0 +1,137 @@
+'use client'
+
+import React, { useEffect, useState } from 'react'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { toast } from 'sonner'
+import { DataService } from '@/lib/data-service'
+import { describeError } from '@/lib/errors'
+import { DocumentCategory, DocumentWithVersions } from '@/lib/supabase'
+import { DOCUMENT_CATEGORIES, DOCUMENT_CONTENT_TYPES, documentFileProblem, MAX_DOCUMENT_TITLE_LENGTH, titleFromFileName } from '@/lib/documents'
+
+interface DocumentUploadDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  marketId: string
+  // Offers filing the document under this property instead of the whole market
+  propertyId?: string | null
+  onUploaded: (document: DocumentWithVersions) => void
+}
+
+// Adds a document to a market's library
+export function DocumentUploadDialog({ open, onOpenChange, marketId, propertyId, onUploaded }: DocumentUploadDialogProps) {
+  const [file, setFile] = useState<File | null>(null)
+  const [title, setTitle] = useState('')
+  const [category, setCategory] = useState<DocumentCategory>('marketing')
+  const [forProperty, setForProperty] = useState(true)
+  const [isSaving, setIsSaving] = useState(false)
+
+  useEffect(() => {
+    if (open) {
+      setFile(null)
+      setTitle('')
+      setCategory('marketing')
+      setForProperty(true)
+    }
+  }, [open])
+
+  const problem = file ? documentFileProblem(file) : null
+
+  const handleFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const picked = e.target.files?.[0] ?? null
+    setFile(picked)
+    if (picked && !title.trim()) setTitle(titleFromFileName(picked.name))
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!file) return
+    setIsSaving(true)
+
+    try {
+      const document = await DataService.uploadDocument({
+        marketId,
+        propertyId: propertyId && forProperty ? propertyId : null,
+        category,
+        title
+      }, file)
+      toast.success(`${document.title} uploaded`)
+      onUploaded(document)
+      onOpenChange(false)
+    } catch (error) {
+      toast.error('Document not uploaded', { description: describeError(error) })
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={isSaving ? undefined : onOpenChange}>
+      <DialogContent className="sm:max-w-[480px]">
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <DialogHeader>
+            <DialogTitle>Upload document</DialogTitle>
+            <DialogDescription>PDF, PNG or JPEG. To replace a document, upload a new version of it instead.</DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-2">
+            <Label htmlFor="document-file">File</Label>
+            <Input id="document-file" type="file" accept={DOCUMENT_CONTENT_TYPES.join(',')} onChange={handleFile} disabled={isSaving} />
+            {problem && <p className="text-xs text-red-600">{problem}</p>}
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="document-title">Title</Label>
+            <Input
+              id="document-title"
+              value={title}
+              maxLength={MAX_DOCUMENT_TITLE_LENGTH}
+              onChange={(e) => setTitle(e.target.value)}
+              disabled={isSaving}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="document-category">Category</Label>
+            <Select value={category} onValueChange={(value) => setCategory(value as DocumentCategory)} disabled={isSaving}>
+              <SelectTrigger id="document-category" className="w-full">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(DOCUMENT_CATEGORIES) as DocumentCategory[]).map(key => (
+                  <SelectItem key={key} value={key}>{DOCUMENT_CATEGORIES[key].label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {propertyId && (
+            <label className="flex items-center gap-2 text-sm">
+              <input type="checkbox" checked={!forProperty} onChange={(e) => setForProperty(!e.target.checked)} disabled={isSaving} />
+              For the whole market, not just this property
+            </label>
+          )}
+
+          <DialogFooter className="gap-2 sm:gap-0">
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)} disabled={isSaving}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isSaving || !file || !!problem || !title.trim()}>
+              {isSaving ? 'Uploading...' : 'Upload'}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  )
+}
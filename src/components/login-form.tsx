@@ -1,8 +1,10 @@
 'use client'
 
 import { useState } from "react"
-import { useRouter } from "next/navigation"
+import { useRouter, useSearchParams } from "next/navigation"
 import { cn } from "@/lib/utils"
+import { AuthService } from "@/lib/auth"
+import { safeRedirectPath } from "@/lib/auth-routes"
 import { Button } from "@/components/ui/button"
 import {
   Card,
@@ -14,15 +16,25 @@ import {
 import { Input } from "@/components/ui/input"
 import { Label } from "@/components/ui/label"
 
+const CALLBACK_ERRORS: Record<string, string> = {
+  link_invalid: 'That sign-in link is invalid or has expired. Request a new one.'
+}
+
 export function LoginForm({
   className,
   ...props
 }: React.ComponentProps<"div">) {
   const router = useRouter()
-  const [loading, setLoading] = useState(false)
+  const searchParams = useSearchParams()
+  const redirectTo = safeRedirectPath(searchParams.get('redirectTo'))
+  const [loading, setLoading] = useState<'password' | 'magic-link' | null>(null)
+  const [error, setError] = useState<string | null>(
+    CALLBACK_ERRORS[searchParams.get('error') || ''] || null
+  )
+  const [magicLinkSentTo, setMagicLinkSentTo] = useState<string | null>(null)
   const [formData, setFormData] = useState({
-    email: 'demo@example.com',
-    password: 'demo123'
+    email: '',
+    password: ''
   })
 
   const handleChange = (field: string, value: string) => {
@@ -31,78 +43,110 @@ export function LoginForm({
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault()
-    setLoading(true)
-    
-    // Simulate login delay for demo purposes
-    setTimeout(() => {
-      setLoading(false)
-      // Redirect to dashboard after successful login
-      router.push('/dashboard')
-    }, 1000)
+    setLoading('password')
+    setError(null)
+
+    const { error } = await AuthService.signInWithPassword(formData.email, formData.password)
+
+    if (error) {
+      setError(error)
+      setLoading(null)
+      return
+    }
+
+    // Refresh so middleware sees the new session cookie
+    router.replace(redirectTo)
+    router.refresh()
   }
 
-  const handleQuickLogin = () => {
-    setLoading(true)
-    // Immediate login for demo purposes
-    setTimeout(() => {
-      setLoading(false)
-      router.push('/dashboard')
-    }, 500)
+  const handleMagicLink = async () => {
+    if (!formData.email) {
+      setError('Enter your email to receive a sign-in link.')
+      return
+    }
+
+    setLoading('magic-link')
+    setError(null)
+
+    const { error } = await AuthService.signInWithMagicLink(formData.email, redirectTo)
+
+    if (error) {
+      setError(error)
+    } else {
+      setMagicLinkSentTo(formData.email)
+    }
+    setLoading(null)
   }
 
   return (
     <div className={cn("flex flex-col gap-6", className)} {...props}>
       <Card>
         <CardHeader>
-          <CardTitle>Demo Portal</CardTitle>
+          <CardTitle>Sign in</CardTitle>
           <CardDescription>
-            Corporate and Franchisor Views - Use any credentials or click Quick Login
+            Corporate and Franchisor Views - sign in with your portal account
           </CardDescription>
         </CardHeader>
         <CardContent>
-          <form onSubmit={handleSubmit}>
-            <div className="flex flex-col gap-6">
-              <div className="grid gap-3">
-                <Label htmlFor="email">Email</Label>
-                <Input
-                  id="email"
-                  type="email"
-                  value={formData.email}
-                  onChange={(e) => handleChange('email', e.target.value)}
-                  placeholder="Enter your email"
-                  required
-                />
-              </div>
-              <div className="grid gap-3">
-                <Label htmlFor="password">Password</Label>
-                <Input 
-                  id="password" 
-                  type="password" 
-                  value={formData.password}
-                  onChange={(e) => handleChange('password', e.target.value)}
-                  placeholder="Enter your password"
-                  required 
-                />
-              </div>
-              <div className="flex flex-col gap-3">
-                <Button type="submit" className="w-full" disabled={loading}>
-                  {loading ? 'Logging in...' : 'Login'}
-                </Button>
-                <Button 
-                  type="button" 
-                  variant="outline" 
-                  className="w-full" 
-                  onClick={handleQuickLogin}
-                  disabled={loading}
-                >
-                  {loading ? 'Logging in...' : 'Quick Login (Demo)'}
-                </Button>
-              </div>
-            </div>
-            <div className="mt-4 text-center text-sm text-muted-foreground">
-              Demo Application - No real authentication required
+          {magicLinkSentTo ? (
+            <div className="flex flex-col gap-4 text-sm">
+              <p>
+                We sent a sign-in link to <span className="font-medium">{magicLinkSentTo}</span>.
+                Open it on this device to continue.
+              </p>
+              <Button variant="outline" onClick={() => setMagicLinkSentTo(null)}>
+                Use a different email
+              </Button>
             </div>
-          </form>
+          ) : (
+            <form onSubmit={handleSubmit}>
+              <div className="flex flex-col gap-6">
+                <div className="grid gap-3">
+                  <Label htmlFor="email">Email</Label>
+                  <Input
+                    id="email"
+                    type="email"
+                    autoComplete="email"
+                    value={formData.email}
+                    onChange={(e) => handleChange('email', e.target.value)}
+                    placeholder="Enter your email"
+                    required
+                  />
+                </div>
+                <div className="grid gap-3">
+                  <Label htmlFor="password">Password</Label>
+                  <Input
+                    id="password"
+                    type="password"
+                    autoComplete="current-password"
+                    value={formData.password}
+                    onChange={(e) => handleChange('password', e.target.value)}
+                    placeholder="Enter your password"
+                    required
+                  />
+                </div>
+                {error && (
+                  <p className="text-sm text-destructive" role="alert">
+                    {error}
+                  </p>
+                )}
+                <div className="flex flex-col gap-3">
+                  <Button type="submit" className="w-full" disabled={loading !== null}>
+                    {loading === 'password' ? 'Signing in...' : 'Sign in'}
+                  </Button>
+                  <Button
+                    type="button"
+                    variant="outline"
+                    className="w-full"
+                    onClick={handleMagicLink}
+                    disabled={loading !== null}
+                  >
+                    {loading === 'magic-link' ? 'Sending link...' : 'Email me a sign-in link'}
+                  </Button>
+                </div>
+              </div>
+            </form>
+          )}
         </CardContent>
       </Card>
     </div>
@@ -0,0 +1,73 @@
+'use client'
+
+import { isMapped, propertyPhaseKey } from '@/lib/map-engine'
+import { PhaseCatalog } from '@/lib/phases'
+import { Property } from '@/lib/supabase'
+
+interface MapPhaseLegendProps {
+  properties: Property[]
+  phases: PhaseCatalog
+  hiddenPhases: ReadonlySet<string>
+  onToggle: (phaseKey: string) => void
+  // Colours the map uses on top of phases, e.g. flagged properties
+  extras?: { label: string; color: string }[]
+  className?: string
+}
+
+// What the dots on a property map mean, with a toggle per phase
+export function MapPhaseLegend({ properties, phases, hiddenPhases, onToggle, extras = [], className = '' }: MapPhaseLegendProps) {
+  const counts = new Map<string, number>()
+  for (const property of properties.filter(isMapped)) {
+    const key = propertyPhaseKey(property, phases)
+    counts.set(key, (counts.get(key) ?? 0) + 1)
+  }
+
+  // The pipeline's phases in order, then any others properties are in
+  const keys = [
+    ...phases.phases.map(phase => phase.key),
+    ...[...counts.keys()].filter(key => !phases.isDefined(key)).sort()
+  ]
+
+  return (
+    <div className={`rounded-lg border bg-white/95 p-3 text-xs shadow-sm space-y-1 ${className}`}>
+      <p className="font-medium text-muted-foreground">Phases</p>
+      {keys.map(key => {
+        const hidden = hiddenPhases.has(key)
+        return (
+          <button
+            key={key}
+            type="button"
+            aria-pressed={!hidden}
+            onClick={() => onToggle(key)}
+            className={`flex w-full items-center gap-2 rounded px-1 py-0.5 text-left hover:bg-muted ${hidden ? 'opacity-50' : ''}`}
+          >
+            <span
+              className="h-3 w-3 shrink-0 rounded-full border-2"
+              style={{ backgroundColor: hidden ? 'transparent' : phases.color(key), borderColor: phases.color(key) }}
+            />
+            <span className={`flex-1 ${hidden ? 'line-through' : ''}`}>{phases.label(key)}</span>
+            <span className="text-muted-foreground">{counts.get(key) ?? 0}</span>
+          </button>
+        )
+      })}
+      {extras.map(extra => (
+        <div key={extra.label} className="flex items-center gap-2 px-1 py-0.5">
+          <span className="h-3 w-3 shrink-0 rounded-full border border-white shadow" style={{ backgroundColor: extra.color }} />
+          <span>{extra.label}</span>
+        </div>
+      ))}
+      <p className="pt-1 text-muted-foreground">Larger dots are larger spaces. Click a cluster to see what&apos;s in it.</p>
+    </div>
+  )
+}
+
+// Adds or removes a phase from a set of hidden phases
+export function togglePhase(hiddenPhases: ReadonlySet<string>, phaseKey: string) {
+  const next = new Set(hiddenPhases)
+  if (next.has(phaseKey)) {
+    next.delete(phaseKey)
+  } else {
+    next.add(phaseKey)
+  }
+  return next
+}
@@ -0,0 +1,143 @@
+'use client'
+
+import { ReactNode, useEffect, useRef, useState } from 'react'
+import { Globe } from 'lucide-react'
+import 'mapbox-gl/dist/mapbox-gl.css'
+import {
+  LngLat,
+  MapEngine,
+  MapEngineHandlers,
+  MapRendererFactory,
+  MapScene
+} from '@/lib/map-engine'
+import { createMapboxRenderer, hasMapboxToken } from '@/lib/map-renderers/mapbox-renderer'
+
+interface MapViewProps extends MapEngineHandlers {
+  // What to show. Keep it memoized; the engine redraws what changed by reference.
+  scene: MapScene
+  initialView?: { center: LngLat; zoom: number }
+  // Group nearby properties into clusters. Read once, when the map is created.
+  cluster?: boolean
+  // Called once the map has loaded, e.g. to keep the engine for camera moves
+  onReady?: (engine: MapEngine) => void
+  // Defaults to Mapbox
+  createRenderer?: MapRendererFactory
+  // Shown instead of the map when there's no Mapbox token
+  fallback?: ReactNode
+  className?: string
+  // Overlays drawn over the map, e.g. a legend
+  children?: ReactNode
+}
+
+const US_VIEW = { center: [-98.5795, 39.8283] as LngLat, zoom: 4 }
+
+// A map driven by the shared map engine
+export function MapView({
+  scene,
+  initialView = US_VIEW,
+  cluster = false,
+  onReady,
+  createRenderer,
+  fallback,
+  className = '',
+  children,
+  ...handlers
+}: MapViewProps) {
+  const container = useRef<HTMLDivElement>(null)
+  const engine = useRef<MapEngine | null>(null)
+  const [isLoaded, setIsLoaded] = useState(false)
+  const available = Boolean(createRenderer) || hasMapboxToken()
+
+  // Settings read once, when the map is created
+  const setup = useRef({ scene, initialView, cluster, onReady, createRenderer })
+  const handlersRef = useRef<MapEngineHandlers>(handlers)
+  handlersRef.current = handlers
+
+  useEffect(() => {
+    if (!available || !container.current) return
+
+    const { scene, initialView, cluster, onReady, createRenderer = createMapboxRenderer } = setup.current
+    let instance: MapEngine
+    try {
+      const renderer = createRenderer({
+        container: container.current,
+        style: scene.style ?? 'streets',
+        center: initialView.center,
+        zoom: initialView.zoom,
+        cluster
+      })
+      // Handlers go through the ref so callers don't need to memoize them
+      instance = new MapEngine(renderer, {
+        onPropertyClick: id => handlersRef.current.onPropertyClick?.(id),
+        onPropertyHover: id => handlersRef.current.onPropertyHover?.(id),
+        onBackgroundClick: () => handlersRef.current.onBackgroundClick?.()
+      })
+    } catch (error) {
+      console.error('Error initializing map:', error)
+      return
+    }
+
+    engine.current = instance
+    instance.update(scene)
+    instance.start()
+      .then(() => {
+        if (engine.current !== instance) return
+        setIsLoaded(true)
+        onReady?.(instance)
+      })
+      .catch(error => console.error('Error loading map:', error))
+
+    return () => {
+      engine.current = null
+      instance.destroy()
+    }
+  }, [available])
+
+  useEffect(() => {
+    engine.current?.update(scene)
+  }, [scene])
+
+  if (!available) {
+    return fallback ?? (
+      <div className={`bg-gray-100 border border-gray-200 rounded-lg flex items-center justify-center ${className}`}>
+        <div className="text-center text-gray-500">
+          <div className="text-xs">Mapbox token not configured</div>
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <div className={`relative ${className}`}>
+      <div ref={container} className="w-full h-full rounded-[inherit]" style={{ minHeight: '200px' }} />
+      {children}
+      {!isLoaded && (
+        <div className="absolute inset-0 bg-gray-100 rounded-[inherit] flex items-center justify-center">
+          <div className="text-center text-gray-500">
+            <div className="animate-spin rounded-full h-4 w-4 border-b-2 mx-auto mb-1" style={{ borderBottomColor: '#637484' }}></div>
+            <div className="text-xs">Loading map...</div>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
+
+// Setup steps for a full-page map when there's no Mapbox token
+export function MapSetupNotice() {
+  return (
+    <div className="absolute inset-0 flex items-center justify-center bg-gray-100">
+      <div className="text-center p-6">
+        <Globe className="h-12 w-12 mx-auto mb-4 text-gray-400" />
+        <h3 className="text-lg font-medium text-gray-900 mb-2">Map Not Available</h3>
+        <p className="text-gray-600 mb-4">Mapbox access token is not configured.</p>
+        <div className="bg-yellow-50 border border-yellow-200 rounded-md p-3 text-sm text-yellow-800">
+          <p className="font-medium">Setup Required:</p>
+          <p>1. Get your token from <a href="https://account.mapbox.com/access-tokens/" target="_blank" rel="noopener noreferrer" className="underline">Mapbox</a></p>
+          <p>2. Add to .env.local: NEXT_PUBLIC_MAPBOX_ACCESS_TOKEN=your_token_here</p>
+          <p>3. Restart the development server</p>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,123 @@
+'use client'
+
+import React, { useEffect, useState } from 'react'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { TerritorySelector } from '@/components/ui/territory-selector'
+import { toast } from 'sonner'
+import { DataService } from '@/lib/data-service'
+import { describeError, ValidationError } from '@/lib/errors'
+import { Market, Territory } from '@/lib/supabase'
+
+interface MarketFormDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  // Market to edit; leave out to add a new one
+  market?: Market | null
+  onSaved: (market: Market) => void
+}
+
+export function MarketFormDialog({ open, onOpenChange, market, onSaved }: MarketFormDialogProps) {
+  const [name, setName] = useState('')
+  const [territory, setTerritory] = useState<Territory | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [isSaving, setIsSaving] = useState(false)
+  // Bumped on open so TerritorySelector, which keeps its own state, starts over
+  const [formKey, setFormKey] = useState(0)
+
+  // Start from the market's current values each time the dialog opens
+  useEffect(() => {
+    if (open) {
+      setName(market?.name || '')
+      setTerritory(market?.territory || null)
+      setError(null)
+      setFormKey(key => key + 1)
+    }
+  }, [open, market])
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setIsSaving(true)
+    setError(null)
+
+    try {
+      const saved = market
+        ? await DataService.updateMarket(market.id, { name, territory })
+        : await DataService.createMarket(name, territory)
+
+      toast.success(market ? 'Market updated' : `${saved.name} added`)
+      onSaved(saved)
+      onOpenChange(false)
+    } catch (error) {
+      // Name problems are shown next to the field; anything else gets a toast
+      if (error instanceof ValidationError) {
+        setError(describeError(error))
+      } else {
+        toast.error(market ? 'Market not saved' : 'Market not added', {
+          description: describeError(error)
+        })
+      }
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={isSaving ? undefined : onOpenChange}>
+      <DialogContent className="sm:max-w-[720px] max-h-[90vh] overflow-y-auto">
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <DialogHeader>
+            <DialogTitle>{market ? 'Edit market' : 'Add market'}</DialogTitle>
+            <DialogDescription>
+              {market
+                ? 'Rename the market or change the territory it covers.'
+                : 'Name the market and choose the states and counties it covers.'}
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-2">
+            <Label htmlFor="market-name">Name</Label>
+            <Input
+              id="market-name"
+              value={name}
+              onChange={(e) => {
+                setName(e.target.value)
+                setError(null)
+              }}
+              placeholder="e.g. Austin"
+              maxLength={100}
+              disabled={isSaving}
+              aria-invalid={!!error}
+              required
+            />
+            {error && <p className="text-sm text-destructive">{error}</p>}
+          </div>
+
+          <TerritorySelector
+            key={formKey}
+            value={territory || undefined}
+            onChange={setTerritory}
+          />
+
+          <DialogFooter className="gap-2 sm:gap-0">
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)} disabled={isSaving}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isSaving || !name.trim()}>
+              {isSaving ? 'Saving...' : market ? 'Save changes' : 'Add market'}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  )
+}
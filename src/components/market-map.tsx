@@ -1,11 +1,15 @@
 'use client'
 
-import { useEffect, useRef, useState } from 'react'
+import { useCallback, useMemo, useRef, useState } from 'react'
 import mapboxgl from 'mapbox-gl'
-import { Property } from '@/lib/supabase'
-
-// Set the Mapbox access token
-mapboxgl.accessToken = process.env.NEXT_PUBLIC_MAPBOX_ACCESS_TOKEN || ''
+import type { Feature, MultiPolygon, Polygon } from 'geojson'
+import { Property, TerritoryPolygon } from '@/lib/supabase'
+import { MapEngine, MapScene, MapTradeArea } from '@/lib/map-engine'
+import { MapboxRenderer } from '@/lib/map-renderers/mapbox-renderer'
+import { useTerritoryEditor } from '@/hooks/use-territory-editor'
+import { MapView } from '@/components/map-view'
+import { Button } from '@/components/ui/button'
+import { Pencil, Plus, Save, Undo2, X, Check, CircleDashed } from 'lucide-react'
 
 interface MarketMapProps {
   properties: Property[]
@@ -16,330 +20,154 @@ interface MarketMapProps {
   onPropertySelect?: (propertyId: string) => void
   isSatelliteView?: boolean
   propertyNumbers?: Record<string, number>
-  territoryPolygon?: {
-    type: 'Feature'
-    geometry: {
-      type: 'Polygon'
-      coordinates: number[][][]
-    }
-    properties: Record<string, unknown>
-  }
+  territoryPolygon?: TerritoryPolygon | null
   showTerritory?: boolean
+  // Shows the territory editor. Should throw if the save fails, so the edit is kept.
+  onTerritorySave?: (polygon: TerritoryPolygon) => Promise<void>
+  // Areas shared with other markets' territories, drawn in red with the territory
+  conflictAreas?: Feature<Polygon | MultiPolygon>[]
+  // Rings and points from the trade-area panel
+  tradeArea?: MapTradeArea | null
   className?: string
 }
 
+const NO_NUMBERS: Record<string, number> = {}
 
+// Numbered property dots for a market, with its territory and the territory editor
 export function MarketMap({ 
   properties, 
+  marketName,
   highlightedPropertyId, 
   hoveredPropertyId,
   onPropertyClick, 
   onPropertySelect,
   isSatelliteView = false,
-  propertyNumbers = {},
+  propertyNumbers = NO_NUMBERS,
   territoryPolygon,
   showTerritory = false,
+  onTerritorySave,
+  conflictAreas,
+  tradeArea,
   className = '' 
 }: MarketMapProps) {
-  const mapContainer = useRef<HTMLDivElement>(null)
   const map = useRef<mapboxgl.Map | null>(null)
-  const markers = useRef<mapboxgl.Marker[]>([])
   const [isLoaded, setIsLoaded] = useState(false)
+  const [isSavingTerritory, setIsSavingTerritory] = useState(false)
+  const territoryEditor = useTerritoryEditor(map, isLoaded)
+
+  // The editor draws its own copy of the territory while editing
+  const territoryShown = showTerritory && !territoryEditor.isEditing
+  const territories = useMemo(
+    () => (territoryShown && territoryPolygon ? [{ id: 'territory', name: marketName, polygon: territoryPolygon }] : undefined),
+    [territoryShown, territoryPolygon, marketName]
+  )
 
-
-  useEffect(() => {
-    if (!mapContainer.current || map.current) return
-
-    try {
-      // Initialize map with default style (will be changed later if needed)
-      map.current = new mapboxgl.Map({
-        container: mapContainer.current,
-        style: 'mapbox://styles/mapbox/streets-v12', // Default to streets
-        center: [-98.5795, 39.8283], // Center of US as default
-        zoom: 4,
-        attributionControl: false
-      })
-
-      map.current.on('load', () => {
-        setIsLoaded(true)
-        // Trigger resize after load to ensure proper sizing
-        setTimeout(() => {
-          if (map.current) {
-            map.current.resize()
-          }
-        }, 100)
-      })
-
-      map.current.on('error', (e) => {
-        console.warn('Map error:', e)
-      })
-
-    } catch (error) {
-      console.error('Error initializing map:', error)
-    }
-
-    return () => {
-      // Clear markers first
-      markers.current.forEach(marker => {
-        try {
-          marker.remove()
-        } catch (error) {
-          console.warn('Error removing marker:', error)
-        }
-      })
-      markers.current = []
-
-      // Then remove map
-      if (map.current) {
-        try {
-          map.current.remove()
-        } catch (error) {
-          console.warn('Error removing map:', error)
-        }
-        map.current = null
-      }
-    }
-  }, []) // Remove isSatelliteView from dependencies
-
-  // Add click handler separately to avoid reinitializing map
-  useEffect(() => {
-    if (!map.current || !isLoaded) return
-
-    const handleClick = (e: mapboxgl.MapMouseEvent) => {
-      if (!map.current) return
-      
-      // Check if click was on a marker (if so, don't unhighlight)
-      const features = map.current.queryRenderedFeatures(e.point, {
-        layers: []
-      })
-      
-      // If no features were clicked (empty space), unhighlight
-      if (features.length === 0) {
-        if (onPropertySelect) {
-          onPropertySelect('')
-        }
-        if (onPropertyClick) {
-          onPropertyClick('')
-        }
-      }
-    }
-
-    map.current.on('click', handleClick)
-
-    return () => {
-      if (map.current) {
-        map.current.off('click', handleClick)
-      }
-    }
-  }, [isLoaded, onPropertySelect, onPropertyClick])
-
-  useEffect(() => {
-    if (!map.current || !isLoaded || properties.length === 0) return
-
-    try {
-      // Clear existing markers safely
-      markers.current.forEach(marker => {
-        try {
-          marker.remove()
-        } catch (error) {
-          console.warn('Error removing marker:', error)
-        }
-      })
-      markers.current = []
-
-      // Calculate bounds from properties
-      const validProperties = properties.filter(p => p.lat && p.lng)
-      
-      if (validProperties.length === 0) return
-
-      const bounds = new mapboxgl.LngLatBounds()
-      
-      validProperties.forEach(property => {
-        if (property.lat && property.lng) {
-          const lngLat = [property.lng, property.lat] as [number, number]
-          bounds.extend(lngLat)
-
-          const isSelected = highlightedPropertyId === property.id
-          const isHovered = hoveredPropertyId === property.id
-          const propertyNumber = propertyNumbers[property.id] || '?'
-
-          // Create custom circle marker with highlighting and number
-          const markerEl = document.createElement('div')
-          markerEl.className = 'custom-marker'
-          markerEl.style.cssText = `
-            width: ${isSelected ? '32px' : '28px'};
-            height: ${isSelected ? '32px' : '28px'};
-            border-radius: 50%;
-            background-color: ${isSelected ? '#4a5a6b' : isHovered ? '#5a6a7b' : '#637484'};
-            border: ${isSelected ? '4px solid #fbbf24' : isHovered ? '3px solid #fbbf24' : '3px solid white'};
-            box-shadow: ${isSelected ? '0 0 0 4px rgba(251, 191, 36, 0.4), 0 4px 8px rgba(0,0,0,0.3)' : isHovered ? '0 0 0 2px rgba(251, 191, 36, 0.2), 0 2px 4px rgba(0,0,0,0.3)' : '0 2px 4px rgba(0,0,0,0.3)'};
-            cursor: pointer;
-            transition: all 0.3s ease;
-            z-index: ${isSelected ? '1000' : '1'};
-            display: flex;
-            align-items: center;
-            justify-content: center;
-            font-weight: bold;
-            font-size: ${isSelected ? '12px' : '10px'};
-            color: white;
-            text-shadow: 0 1px 2px rgba(0,0,0,0.5);
-          `
-          markerEl.textContent = propertyNumber.toString()
-
-          // Add click handler
-          markerEl.addEventListener('click', (e) => {
-            e.stopPropagation() // Prevent map click event
-            if (onPropertySelect) {
-              onPropertySelect(property.id)
-            }
-            if (onPropertyClick) {
-              onPropertyClick(property.id)
-            }
-          })
-
-          const marker = new mapboxgl.Marker(markerEl)
-            .setLngLat(lngLat)
-            .addTo(map.current!)
-          
-          // Store marker reference for cleanup
-          markers.current.push(marker)
-        }
-      })
-
-      // Fit map to bounds
-      if (validProperties.length > 1) {
-        map.current!.fitBounds(bounds, { 
-          padding: 20,
-          maxZoom: 12
-        })
-      } else if (validProperties.length === 1) {
-        const property = validProperties[0]
-        map.current!.setCenter([property.lng!, property.lat!])
-        map.current!.setZoom(10)
-      }
-    } catch (error) {
-      console.error('Error updating map markers:', error)
-    }
-  }, [properties, isLoaded, highlightedPropertyId, hoveredPropertyId, propertyNumbers, onPropertySelect, onPropertyClick])
-
-  // Resize map when container size changes
-  useEffect(() => {
-    if (!map.current || !isLoaded) return
-
-    const resizeObserver = new ResizeObserver(() => {
-      if (map.current) {
-        try {
-          map.current.resize()
-        } catch (error) {
-          console.warn('Error resizing map:', error)
-        }
-      }
-    })
-
-    if (mapContainer.current) {
-      resizeObserver.observe(mapContainer.current)
-    }
-
-    return () => {
-      resizeObserver.disconnect()
-    }
-  }, [isLoaded])
-
-  // Handle satellite view toggle
-  useEffect(() => {
-    if (!map.current || !isLoaded) return
-
-    try {
-      const newStyle = isSatelliteView ? 'mapbox://styles/mapbox/satellite-streets-v12' : 'mapbox://styles/mapbox/streets-v12'
-      
-      // Check if we need to change the style
-      const currentStyle = map.current!.getStyle()
-      if (currentStyle && currentStyle.name !== newStyle.split('/').pop()) {
-        map.current!.setStyle(newStyle)
-      }
-    } catch (error) {
-      console.warn('Error changing map style:', error)
-    }
-  }, [isSatelliteView, isLoaded])
-
-  // Handle territory polygon
-  useEffect(() => {
-    if (!map.current || !isLoaded || !territoryPolygon || !showTerritory) return
-
+  const scene = useMemo<MapScene>(() => ({
+    style: isSatelliteView ? 'satellite' : 'streets',
+    properties: { items: properties, numbers: propertyNumbers },
+    territories,
+    conflictAreas: territoryShown ? conflictAreas : undefined,
+    tradeArea,
+    highlightedId: highlightedPropertyId,
+    hoveredId: hoveredPropertyId,
+    fitToProperties: true
+  }), [isSatelliteView, properties, propertyNumbers, territories, territoryShown, conflictAreas, tradeArea, highlightedPropertyId, hoveredPropertyId])
+
+  // An empty id clears the selection, for clicks on empty map
+  const selectProperty = useCallback((propertyId: string) => {
+    onPropertySelect?.(propertyId)
+    onPropertyClick?.(propertyId)
+  }, [onPropertySelect, onPropertyClick])
+
+  const handleReady = useCallback((engine: MapEngine) => {
+    // The territory editor works on the Mapbox map directly
+    if (engine.renderer instanceof MapboxRenderer) map.current = engine.renderer.map
+    setIsLoaded(true)
+  }, [])
+
+  const handleSaveTerritory = async () => {
+    if (!onTerritorySave || !territoryEditor.polygon) return
+
+    setIsSavingTerritory(true)
     try {
-      // Add territory polygon to map
-      if (map.current!.getSource('territory')) {
-        map.current!.removeLayer('territory-fill')
-        map.current!.removeLayer('territory-stroke')
-        map.current!.removeSource('territory')
-      }
-
-      map.current!.addSource('territory', {
-        type: 'geojson',
-        data: territoryPolygon
-      })
-
-      map.current!.addLayer({
-        id: 'territory-fill',
-        type: 'fill',
-        source: 'territory',
-        paint: {
-          'fill-color': '#637484',
-          'fill-opacity': 0.1
-        }
-      })
-
-      map.current!.addLayer({
-        id: 'territory-stroke',
-        type: 'line',
-        source: 'territory',
-        paint: {
-          'line-color': '#637484',
-          'line-width': 2
-        }
-      })
-    } catch (error) {
-      console.warn('Error adding territory polygon:', error)
-    }
-
-    return () => {
-      if (map.current && map.current.getSource('territory')) {
-        try {
-          map.current!.removeLayer('territory-fill')
-          map.current!.removeLayer('territory-stroke')
-          map.current!.removeSource('territory')
-        } catch (error) {
-          console.warn('Error removing territory polygon:', error)
-        }
-      }
+      await onTerritorySave(territoryEditor.polygon)
+      territoryEditor.stop()
+    } catch {
+      // The caller reports the error; stay in edit mode so the drawing isn't lost
+    } finally {
+      setIsSavingTerritory(false)
     }
-  }, [territoryPolygon, showTerritory, isLoaded])
-
-  if (!process.env.NEXT_PUBLIC_MAPBOX_ACCESS_TOKEN) {
-    return (
-      <div className={`bg-gray-100 border border-gray-200 rounded-lg flex items-center justify-center ${className}`}>
-        <div className="text-center text-gray-500">
-          <div className="text-xs">Mapbox token not configured</div>
-        </div>
-      </div>
-    )
   }
 
   return (
-    <div className={`relative w-full h-full ${className}`}>
-      <div 
-        ref={mapContainer} 
-        className="w-full h-full rounded-lg"
-        style={{ minHeight: '200px' }}
-      />
-      {!isLoaded && (
-        <div className="absolute inset-0 bg-gray-100 rounded-lg flex items-center justify-center">
-          <div className="text-center text-gray-500">
-            <div className="animate-spin rounded-full h-4 w-4 border-b-2 mx-auto mb-1" style={{ borderBottomColor: '#637484' }}></div>
-            <div className="text-xs">Loading map...</div>
-          </div>
+    <MapView
+      scene={scene}
+      onReady={handleReady}
+      onPropertyClick={selectProperty}
+      onBackgroundClick={() => selectProperty('')}
+      className={`w-full h-full rounded-lg ${className}`}
+    >
+      {isLoaded && onTerritorySave && (
+        <div className="absolute top-2 left-2 max-w-xs rounded-lg border bg-white/95 p-2 shadow-sm space-y-2 text-sm">
+          {!territoryEditor.isEditing ? (
+            <Button type="button" size="sm" variant="outline" onClick={() => territoryEditor.start(territoryPolygon)}>
+              <Pencil className="h-4 w-4 mr-1" />
+              Edit territory
+            </Button>
+          ) : territoryEditor.drawing ? (
+            <>
+              <p className="text-xs text-muted-foreground">
+                {territoryEditor.drawing.kind === 'boundary' ? 'Drawing a new boundary. ' : 'Drawing a hole. '}
+                Click to place points; click the first point, double-click or press Enter to finish.
+              </p>
+              <div className="flex flex-wrap gap-1">
+                <Button type="button" size="sm" onClick={territoryEditor.finishDrawing} disabled={territoryEditor.drawing.points.length < 3}>
+                  <Check className="h-4 w-4 mr-1" />
+                  Finish
+                </Button>
+                <Button type="button" size="sm" variant="outline" onClick={territoryEditor.undoPoint} disabled={territoryEditor.drawing.points.length === 0}>
+                  <Undo2 className="h-4 w-4 mr-1" />
+                  Undo point
+                </Button>
+                <Button type="button" size="sm" variant="ghost" onClick={territoryEditor.cancelDrawing}>
+                  Cancel
+                </Button>
+              </div>
+            </>
+          ) : (
+            <>
+              <p className="text-xs text-muted-foreground">
+                Drag a point to move it, drag an edge midpoint to add one, right-click a point to remove it.
+              </p>
+              <div className="flex flex-wrap gap-1">
+                <Button type="button" size="sm" variant="outline" onClick={() => territoryEditor.startDrawing('boundary')}>
+                  <Plus className="h-4 w-4 mr-1" />
+                  New boundary
+                </Button>
+                <Button type="button" size="sm" variant="outline" onClick={() => territoryEditor.startDrawing('hole')} disabled={!territoryEditor.polygon}>
+                  <CircleDashed className="h-4 w-4 mr-1" />
+                  Add hole
+                </Button>
+              </div>
+              {territoryEditor.problems.length > 0 && (
+                <ul className="text-xs text-destructive list-disc pl-4">
+                  {territoryEditor.problems.map(problem => <li key={problem}>{problem}</li>)}
+                </ul>
+              )}
+              <div className="flex gap-1">
+                <Button type="button" size="sm" onClick={handleSaveTerritory} disabled={isSavingTerritory || territoryEditor.problems.length > 0}>
+                  <Save className="h-4 w-4 mr-1" />
+                  {isSavingTerritory ? 'Saving...' : 'Save territory'}
+                </Button>
+                <Button type="button" size="sm" variant="ghost" onClick={territoryEditor.stop} disabled={isSavingTerritory}>
+                  <X className="h-4 w-4 mr-1" />
+                  Discard
+                </Button>
+              </div>
+            </>
+          )}
         </div>
       )}
-    </div>
+    </MapView>
   )
-}
\ No newline at end of file
+}
@@ -1,13 +1,17 @@
 'use client'
 
-import React, { useState } from 'react'
+import React, { useRef, useState } from 'react'
 import { Button } from '@/components/ui/button'
-import { Textarea } from '@/components/ui/textarea'
 import { Label } from '@/components/ui/label'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
-import { MessageSquare, Plus, Edit, X } from 'lucide-react'
+import { MessageSquare, Plus, Edit, X, Paperclip } from 'lucide-react'
+import { toast } from 'sonner'
 import { DataService } from '@/lib/data-service'
-import { MarketUpdate } from '@/lib/supabase'
+import { describeError } from '@/lib/errors'
+import { MarketUpdate, UpdateAuthor } from '@/lib/supabase'
+import { MAX_UPDATE_ATTACHMENTS, mentionedUserIds, UPDATE_ATTACHMENT_CONTENT_TYPES, updateAttachmentProblem } from '@/lib/market-updates'
+import { formatFileSize } from '@/lib/documents'
+import { MentionTextarea } from '@/components/mention-textarea'
 
 interface MarketUpdateFormProps {
   marketId?: string
@@ -15,6 +19,10 @@ interface MarketUpdateFormProps {
   onUpdate: () => void
   editingUpdate?: MarketUpdate | null
   onCancelEdit?: () => void
+  // Posts a reply to this update instead of a new update
+  replyTo?: MarketUpdate | null
+  // People who can be @mentioned
+  people?: UpdateAuthor[]
   isCompact?: boolean
 }
 
@@ -24,10 +32,15 @@ export function MarketUpdateForm({
   onUpdate, 
   editingUpdate,
   onCancelEdit,
+  replyTo,
+  people = [],
   isCompact = false
 }: MarketUpdateFormProps) {
   const [message, setMessage] = useState(editingUpdate?.message || '')
   const [isSubmitting, setIsSubmitting] = useState(false)
+  // Attachments go with new updates and replies, not edits
+  const [files, setFiles] = useState<File[]>([])
+  const fileInput = useRef<HTMLInputElement>(null)
 
   // Update message when editingUpdate changes
   React.useEffect(() => {
@@ -42,19 +55,26 @@ export function MarketUpdateForm({
     setIsSubmitting(true)
     
     try {
+      const mentions = mentionedUserIds(message, people)
       if (editingUpdate) {
         // Update existing update
-        await DataService.updateMarketUpdate(editingUpdate.id, message)
+        await DataService.updateMarketUpdate(editingUpdate.id, message, mentions)
+      } else if (replyTo) {
+        await DataService.replyToMarketUpdate(replyTo, message, { mentions, files })
       } else {
         // Create new update
-        await DataService.createMarketUpdate(marketId, 'Merida Partners', message)
+        await DataService.createMarketUpdate(marketId, message, { mentions, files })
       }
       
       setMessage('')
+      setFiles([])
       onCancelEdit?.()
       // Note: onUpdate() not called since realtime will handle UI updates
     } catch (error) {
-      console.error('Error saving market update:', error)
+      // Keep the draft so the user can retry
+      toast.error(editingUpdate ? 'Update not saved' : 'Message not sent', {
+        description: describeError(error)
+      })
     } finally {
       setIsSubmitting(false)
     }
@@ -62,9 +82,74 @@ export function MarketUpdateForm({
 
   const handleCancel = () => {
     setMessage('')
+    setFiles([])
     onCancelEdit?.()
   }
 
+  const handleFiles = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const picked = Array.from(e.target.files || [])
+    // Cleared so picking the same file again still fires a change
+    e.target.value = ''
+
+    const accepted = picked.filter(file => {
+      const problem = updateAttachmentProblem(file)
+      if (problem) toast.error(`${file.name} not attached`, { description: problem })
+      return !problem
+    })
+    const next = [...files, ...accepted]
+    if (next.length > MAX_UPDATE_ATTACHMENTS) {
+      toast.error(`Attach at most ${MAX_UPDATE_ATTACHMENTS} files to an update`)
+    }
+    setFiles(next.slice(0, MAX_UPDATE_ATTACHMENTS))
+  }
+
+  const attachmentControls = !editingUpdate && (
+    <>
+      <input
+        ref={fileInput}
+        type="file"
+        multiple
+        accept={UPDATE_ATTACHMENT_CONTENT_TYPES.join(',')}
+        className="hidden"
+        onChange={handleFiles}
+      />
+      {files.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {files.map((file, index) => (
+            <span key={`${file.name}-${index}`} className="flex items-center gap-1 rounded border bg-gray-50 px-2 py-1 text-xs text-gray-600">
+              <Paperclip className="h-3 w-3" />
+              <span className="max-w-[160px] truncate">{file.name}</span>
+              <span className="text-gray-400">{formatFileSize(file.size)}</span>
+              <button
+                type="button"
+                onClick={() => setFiles(current => current.filter((_, i) => i !== index))}
+                className="text-gray-400 hover:text-gray-600"
+                title={`Remove ${file.name}`}
+                disabled={isSubmitting}
+              >
+                <X className="h-3 w-3" />
+              </button>
+            </span>
+          ))}
+        </div>
+      )}
+    </>
+  )
+
+  const attachButton = !editingUpdate && (
+    <Button
+      type="button"
+      variant="ghost"
+      size="sm"
+      onClick={() => fileInput.current?.click()}
+      disabled={isSubmitting || files.length >= MAX_UPDATE_ATTACHMENTS}
+      title="Attach photos or files"
+      className="px-2"
+    >
+      <Paperclip className="h-4 w-4" />
+    </Button>
+  )
+
   if (isCompact) {
     return (
       <form onSubmit={handleSubmit} className="space-y-3">
@@ -85,10 +170,11 @@ export function MarketUpdateForm({
         
         <div className="flex gap-3">
           <div className="flex-1">
-            <Textarea
+            <MentionTextarea
               value={message}
-              onChange={(e) => setMessage(e.target.value)}
-              placeholder={editingUpdate ? "Edit your message..." : "Type your message..."}
+              onValueChange={setMessage}
+              people={people}
+              placeholder={editingUpdate ? "Edit your message..." : replyTo ? "Write a reply..." : "Type your message..."}
               className="min-h-[40px] max-h-[100px] resize-none border-gray-300 focus:ring-1"
               style={{ 
                 '--tw-ring-color': '#637484',
@@ -115,14 +201,16 @@ export function MarketUpdateForm({
             />
           </div>
           
+          {attachButton}
           <Button 
             type="submit" 
             disabled={isSubmitting || !message.trim()}
             className="px-4 py-2"
           >
-            {isSubmitting ? 'Sending...' : 'Send'}
+            {isSubmitting ? 'Sending...' : replyTo && !editingUpdate ? 'Reply' : 'Send'}
           </Button>
         </div>
+        {attachmentControls}
       </form>
     )
   }
@@ -148,16 +236,18 @@ export function MarketUpdateForm({
         <form onSubmit={handleSubmit} className="space-y-4">
           <div className="space-y-2">
             <Label htmlFor="message">Message</Label>
-            <Textarea
+            <MentionTextarea
               id="message"
               value={message}
-              onChange={(e) => setMessage(e.target.value)}
+              onValueChange={setMessage}
+              people={people}
               placeholder="Enter your market update..."
               className="min-h-[100px]"
               disabled={isSubmitting}
               required
             />
           </div>
+          {attachmentControls}
 
           {marketName && (
             <div className="text-sm text-muted-foreground">
@@ -174,6 +264,7 @@ export function MarketUpdateForm({
               <MessageSquare className="h-4 w-4" />
               {editingUpdate ? 'Update' : 'Post'} Update
             </Button>
+            {attachButton}
             
             {editingUpdate && (
               <Button 
@@ -0,0 +1,114 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { History } from 'lucide-react'
+import { DataService } from '@/lib/data-service'
+import { MarketUpdate } from '@/lib/supabase'
+import { diffWords, updateVersions, UpdateVersion } from '@/lib/market-updates'
+import { DataErrorAlert } from '@/components/data-error-alert'
+
+interface MarketUpdateHistoryDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  update: MarketUpdate
+}
+
+// The wording, with what changed from the version before it marked
+function VersionText({ version, previous }: { version: UpdateVersion; previous?: UpdateVersion }) {
+  if (!previous) {
+    return <p className="whitespace-pre-wrap text-gray-700">{version.message}</p>
+  }
+
+  return (
+    <p className="whitespace-pre-wrap text-gray-700">
+      {diffWords(previous.message, version.message).map((part, index) => (
+        part.change === 'added' ? (
+          <ins key={index} className="rounded-sm bg-green-100 text-green-900 no-underline">{part.text}</ins>
+        ) : part.change === 'removed' ? (
+          <del key={index} className="rounded-sm bg-red-100 text-red-900">{part.text}</del>
+        ) : (
+          <span key={index}>{part.text}</span>
+        )
+      ))}
+    </p>
+  )
+}
+
+// Every wording an update has had, newest first, each compared with the one
+// it replaced
+export function MarketUpdateHistoryDialog({ open, onOpenChange, update }: MarketUpdateHistoryDialogProps) {
+  const [versions, setVersions] = useState<UpdateVersion[]>([])
+  const [loading, setLoading] = useState(false)
+  const [loadError, setLoadError] = useState<unknown>(null)
+  const [reloadKey, setReloadKey] = useState(0)
+
+  // Reload whenever the dialog opens or the update is edited again
+  useEffect(() => {
+    if (!open) return
+
+    let cancelled = false
+    setLoading(true)
+
+    DataService.getMarketUpdateRevisions(update)
+      .then(revisions => {
+        if (cancelled) return
+        setVersions(updateVersions(update, revisions))
+        setLoadError(null)
+      })
+      .catch(error => {
+        if (!cancelled) setLoadError(error)
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false)
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [open, update, reloadKey])
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[560px]">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <History className="h-5 w-5" />
+            Edit history
+          </DialogTitle>
+          <DialogDescription>
+            Every version of this update. Added words are highlighted green, removed ones red.
+          </DialogDescription>
+        </DialogHeader>
+
+        {loadError !== null ? (
+          <DataErrorAlert
+            error={loadError}
+            title="Couldn't load edit history"
+            onRetry={() => setReloadKey(key => key + 1)}
+          />
+        ) : loading ? (
+          <p className="text-sm text-muted-foreground">Loading history...</p>
+        ) : (
+          <ol className="max-h-96 overflow-y-auto divide-y rounded-lg border">
+            {versions.map((version, index) => ({ version, index })).reverse().map(({ version, index }) => (
+              <li key={index} className="space-y-1 p-3 text-sm">
+                <div className="text-xs text-muted-foreground">
+                  {index === 0 ? 'Posted' : 'Edited'} by {version.by}, {new Date(version.at).toLocaleString()}
+                  {index === versions.length - 1 && ' (current)'}
+                </div>
+                <VersionText version={version} previous={versions[index - 1]} />
+              </li>
+            ))}
+          </ol>
+        )}
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,322 @@
+'use client'
+
+import React, { useEffect, useMemo, useState } from 'react'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
+import { toast } from 'sonner'
+import { DataService } from '@/lib/data-service'
+import { describeError } from '@/lib/errors'
+import { MarketWithDetails } from '@/lib/supabase'
+import {
+  guessImportColumns,
+  IMPORT_FILE_ACCEPT,
+  ImportColumns,
+  ImportTable,
+  matchImportMarkets,
+  MAX_IMPORT_ROWS,
+  parseImportRows,
+  readImportFile,
+  UpdateImportReport,
+} from '@/lib/update-import'
+
+// Rows shown in the preview; the rest are counted
+const PREVIEW_ROWS = 50
+// Select items can't have an empty value
+const UNMAPPED = 'unmapped'
+
+const COLUMN_LABELS: Record<keyof ImportColumns, string> = {
+  identifier: 'Franchisee',
+  date: 'Date',
+  message: 'Update',
+}
+
+interface MarketUpdateImportDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  markets: MarketWithDetails[]
+  onImported: () => void
+}
+
+function isComplete(columns: Partial<ImportColumns>): columns is ImportColumns {
+  return !!columns.identifier && !!columns.date && !!columns.message
+}
+
+function formatDate(date: string) {
+  return new Date(date).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' })
+}
+
+// Loads historical updates from a CSV or XLSX file: pick the columns, map each
+// franchisee to a market, check the preview, then import and see what was created
+export function MarketUpdateImportDialog({ open, onOpenChange, markets, onImported }: MarketUpdateImportDialogProps) {
+  const [fileName, setFileName] = useState('')
+  const [table, setTable] = useState<ImportTable | null>(null)
+  const [columns, setColumns] = useState<Partial<ImportColumns>>({})
+  // Market ID for each franchisee identifier in the file
+  const [mapping, setMapping] = useState<Record<string, string | null>>({})
+  const [isReading, setIsReading] = useState(false)
+  const [isImporting, setIsImporting] = useState(false)
+  const [report, setReport] = useState<UpdateImportReport | null>(null)
+
+  useEffect(() => {
+    if (open) {
+      setFileName('')
+      setTable(null)
+      setColumns({})
+      setMapping({})
+      setReport(null)
+    }
+  }, [open])
+
+  const identifiers = useMemo(() => {
+    if (!table || !columns.identifier) return []
+    const column = columns.identifier
+    const values = table.rows.map(row => {
+      const value = row[column]
+      return typeof value === 'string' ? value.trim() : ''
+    })
+    return [...new Set(values.filter(Boolean))].sort((a, b) => a.localeCompare(b))
+  }, [table, columns.identifier])
+
+  // Suggest a market for each identifier whenever the column changes
+  useEffect(() => {
+    setMapping(matchImportMarkets(identifiers, markets))
+  }, [identifiers, markets])
+
+  const rows = useMemo(
+    () => (table && isComplete(columns) ? parseImportRows(table, columns, mapping) : []),
+    [table, columns, mapping]
+  )
+  const readyCount = rows.filter(row => row.errors.length === 0).length
+  const tooMany = rows.length > MAX_IMPORT_ROWS
+  const marketName = (id: string | null) => markets.find(market => market.id === id)?.name ?? ''
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    if (!file) return
+
+    setFileName(file.name)
+    setIsReading(true)
+    try {
+      const read = await readImportFile(file)
+      setTable(read)
+      setColumns(guessImportColumns(read.headers))
+    } catch (error) {
+      setTable(null)
+      toast.error('File not read', { description: describeError(error) })
+    } finally {
+      setIsReading(false)
+    }
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setIsImporting(true)
+
+    try {
+      const result = await DataService.importMarketUpdates(rows)
+      setReport(result)
+      toast.success(`${result.created.length} ${result.created.length === 1 ? 'update' : 'updates'} imported`)
+      onImported()
+    } catch (error) {
+      toast.error('Updates not imported', { description: describeError(error) })
+    } finally {
+      setIsImporting(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={isImporting ? undefined : onOpenChange}>
+      <DialogContent className="sm:max-w-[860px] max-h-[90vh] overflow-y-auto">
+        {report ? (
+          <div className="space-y-4">
+            <DialogHeader>
+              <DialogTitle>Import report</DialogTitle>
+              <DialogDescription>
+                {report.created.length.toLocaleString()} created, {report.skipped.length.toLocaleString()} skipped from {fileName}.
+              </DialogDescription>
+            </DialogHeader>
+
+            {report.created.length > 0 && (
+              <div className="space-y-2">
+                <h4 className="text-sm font-medium">Created</h4>
+                <div className="max-h-64 overflow-y-auto rounded-lg border">
+                  <Table>
+                    <TableBody>
+                      {report.created.map(({ row, updateId }) => (
+                        <TableRow key={updateId}>
+                          <TableCell className="w-12 text-muted-foreground">{row.rowNumber}</TableCell>
+                          <TableCell className="whitespace-nowrap">{marketName(row.marketId)}</TableCell>
+                          <TableCell className="whitespace-nowrap">{row.createdAt && formatDate(row.createdAt)}</TableCell>
+                          <TableCell className="max-w-[360px] truncate">{row.message}</TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+              </div>
+            )}
+
+            {report.skipped.length > 0 && (
+              <div className="space-y-2">
+                <h4 className="text-sm font-medium">Skipped</h4>
+                <div className="max-h-48 overflow-y-auto rounded-lg border">
+                  <Table>
+                    <TableBody>
+                      {report.skipped.map(({ row, reason }) => (
+                        <TableRow key={row.rowNumber}>
+                          <TableCell className="w-12 text-muted-foreground">{row.rowNumber}</TableCell>
+                          <TableCell className="max-w-[300px] truncate">{row.message || row.identifier}</TableCell>
+                          <TableCell className="text-muted-foreground">{reason}</TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+              </div>
+            )}
+
+            <DialogFooter>
+              <Button type="button" onClick={() => onOpenChange(false)}>Done</Button>
+            </DialogFooter>
+          </div>
+        ) : (
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <DialogHeader>
+              <DialogTitle>Import market updates</DialogTitle>
+              <DialogDescription>
+                A CSV or Excel file with a franchisee, date and update on each row. Updates keep their
+                original dates, and rows already in a market&apos;s updates are skipped, so importing a
+                file twice adds nothing.
+              </DialogDescription>
+            </DialogHeader>
+
+            <div className="space-y-2">
+              <Label htmlFor="update-import-file">File</Label>
+              <Input id="update-import-file" type="file" accept={IMPORT_FILE_ACCEPT} onChange={handleFile} disabled={isReading || isImporting} />
+              {isReading && <p className="text-sm text-muted-foreground">Reading {fileName}...</p>}
+            </div>
+
+            {table && table.headers.length === 0 && (
+              <p className="text-sm text-red-600">{fileName} has no header row.</p>
+            )}
+
+            {table && table.headers.length > 0 && (
+              <>
+                <div className="grid grid-cols-3 gap-3">
+                  {(Object.keys(COLUMN_LABELS) as (keyof ImportColumns)[]).map(key => (
+                    <div key={key} className="space-y-2">
+                      <Label htmlFor={`update-import-${key}`}>{COLUMN_LABELS[key]} column</Label>
+                      <Select
+                        value={columns[key] ?? ''}
+                        onValueChange={(value) => setColumns(current => ({ ...current, [key]: value }))}
+                        disabled={isImporting}
+                      >
+                        <SelectTrigger id={`update-import-${key}`} className="w-full">
+                          <SelectValue placeholder="Choose a column" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {table.headers.map(header => (
+                            <SelectItem key={header} value={header}>{header}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  ))}
+                </div>
+
+                {identifiers.length > 0 && (
+                  <div className="space-y-2">
+                    <h4 className="text-sm font-medium">Markets</h4>
+                    <div className="max-h-48 space-y-2 overflow-y-auto rounded-lg border p-3">
+                      {identifiers.map(identifier => (
+                        <div key={identifier} className="flex items-center gap-3 text-sm">
+                          <span className="flex-1 truncate">{identifier}</span>
+                          <Select
+                            value={mapping[identifier] ?? UNMAPPED}
+                            onValueChange={(value) => setMapping(current => ({ ...current, [identifier]: value === UNMAPPED ? null : value }))}
+                            disabled={isImporting}
+                          >
+                            <SelectTrigger className="w-56">
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              <SelectItem value={UNMAPPED}>Don&apos;t import</SelectItem>
+                              {markets.map(market => (
+                                <SelectItem key={market.id} value={market.id}>{market.name}</SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                )}
+
+                {rows.length > 0 && (
+                  <div className="space-y-2">
+                    <div className="flex items-baseline justify-between">
+                      <h4 className="text-sm font-medium">Preview</h4>
+                      <span className="text-xs text-muted-foreground">
+                        {readyCount.toLocaleString()} ready, {(rows.length - readyCount).toLocaleString()} with problems
+                        {rows.length > PREVIEW_ROWS && `, first ${PREVIEW_ROWS} shown`}
+                      </span>
+                    </div>
+                    {tooMany && (
+                      <p className="text-sm text-red-600">Import at most {MAX_IMPORT_ROWS.toLocaleString()} rows at a time.</p>
+                    )}
+                    <div className="max-h-72 overflow-y-auto rounded-lg border">
+                      <Table>
+                        <TableHeader>
+                          <TableRow>
+                            <TableHead className="w-12">Row</TableHead>
+                            <TableHead>Market</TableHead>
+                            <TableHead>Date</TableHead>
+                            <TableHead>Update</TableHead>
+                            <TableHead>Status</TableHead>
+                          </TableRow>
+                        </TableHeader>
+                        <TableBody>
+                          {rows.slice(0, PREVIEW_ROWS).map(row => (
+                            <TableRow key={row.rowNumber}>
+                              <TableCell className="text-muted-foreground">{row.rowNumber}</TableCell>
+                              <TableCell className="whitespace-nowrap">{marketName(row.marketId) || row.identifier}</TableCell>
+                              <TableCell className="whitespace-nowrap">{row.createdAt && formatDate(row.createdAt)}</TableCell>
+                              <TableCell className="max-w-[280px] truncate" title={row.message}>{row.message}</TableCell>
+                              <TableCell className={`whitespace-normal text-xs ${row.errors.length > 0 ? 'text-red-600' : 'text-muted-foreground'}`}>
+                                {row.errors.length > 0 ? row.errors.join('; ') : 'Ready'}
+                              </TableCell>
+                            </TableRow>
+                          ))}
+                        </TableBody>
+                      </Table>
+                    </div>
+                  </div>
+                )}
+              </>
+            )}
+
+            <DialogFooter className="gap-2 sm:gap-0">
+              <Button type="button" variant="outline" onClick={() => onOpenChange(false)} disabled={isImporting}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={isImporting || readyCount === 0 || tooMany}>
+                {isImporting ? 'Importing...' : `Import ${readyCount.toLocaleString()} ${readyCount === 1 ? 'update' : 'updates'}`}
+              </Button>
+            </DialogFooter>
+          </form>
+        )}
+      </DialogContent>
+    </Dialog>
+  )
+}
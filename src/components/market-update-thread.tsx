@@ -0,0 +1,277 @@
+'use client'
+
+import { useState } from 'react'
+import { Edit, MessageSquareReply, RotateCcw, SmilePlus, Trash2 } from 'lucide-react'
+import { toast } from 'sonner'
+import { Button } from '@/components/ui/button'
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu'
+import { MarketUpdateForm } from '@/components/market-update-form'
+import { MarketUpdateHistoryDialog } from '@/components/market-update-history-dialog'
+import { UpdateAuthorAvatar } from '@/components/update-author-avatar'
+import { UpdateMessageBody } from '@/components/update-message-body'
+import { DataService } from '@/lib/data-service'
+import { describeError } from '@/lib/errors'
+import { MarketUpdate, PortalUser, Property, UpdateAuthor } from '@/lib/supabase'
+import {
+  summarizeReactions,
+  UPDATE_REACTIONS,
+  UpdateThread,
+  updateAuthorName,
+  updateAuthorOrganization,
+} from '@/lib/market-updates'
+import { canModifyMarketUpdate } from '@/lib/roles'
+import { useCurrentUser } from '@/hooks/use-current-user'
+
+interface MarketUpdateThreadProps {
+  thread: UpdateThread
+  // People linked to the market, for mentions
+  people: UpdateAuthor[]
+  // The market's properties, for "#3" style references
+  properties?: Property[]
+  onPropertyClick?: (property: Property) => void
+  onEdit: (update: MarketUpdate) => void
+  onDelete: (updateId: string) => void
+}
+
+interface UpdateMessageProps {
+  update: MarketUpdate
+  user: PortalUser | null
+  // Admins can read and restore deleted updates
+  canRestore: boolean
+  people: UpdateAuthor[]
+  properties?: Property[]
+  onPropertyClick?: (property: Property) => void
+  onEdit: (update: MarketUpdate) => void
+  onDelete: (updateId: string) => void
+  onReply?: () => void
+  isReply?: boolean
+}
+
+function UpdateMessage({ update, user, canRestore, people, properties, onPropertyClick, onEdit, onDelete, onReply, isReply = false }: UpdateMessageProps) {
+  const organization = updateAuthorOrganization(update)
+  const reactions = summarizeReactions(update.reactions, user?.id)
+  const [historyOpen, setHistoryOpen] = useState(false)
+  const [showDeleted, setShowDeleted] = useState(false)
+  const [restoring, setRestoring] = useState(false)
+
+  const toggleReaction = async (emoji: string) => {
+    try {
+      // The realtime subscription refreshes the thread
+      await DataService.toggleUpdateReaction(update, emoji)
+    } catch (error) {
+      toast.error('Reaction not saved', { description: describeError(error) })
+    }
+  }
+
+  const restore = async () => {
+    setRestoring(true)
+    try {
+      await DataService.restoreMarketUpdate(update.id)
+      toast.success('Update restored')
+    } catch (error) {
+      toast.error('Update not restored', { description: describeError(error) })
+    } finally {
+      setRestoring(false)
+    }
+  }
+
+  const historyDialog = update.edited_at && (
+    <MarketUpdateHistoryDialog open={historyOpen} onOpenChange={setHistoryOpen} update={update} />
+  )
+
+  // What's left of a deleted update: who removed it and when. Admins can
+  // still read it and put it back.
+  if (update.deleted_at) {
+    return (
+      <div className="flex items-start gap-3">
+        <UpdateAuthorAvatar update={update} className={`opacity-40 ${isReply ? 'h-6 w-6' : 'h-8 w-8'}`} />
+        <div className="flex-1 min-w-0">
+          <div className="flex flex-wrap items-center gap-2 text-sm italic text-gray-500">
+            <span>
+              {isReply ? 'Reply' : 'Update'} deleted{update.deleted_by_name ? ` by ${update.deleted_by_name}` : ''}
+              {' '}on {new Date(update.deleted_at).toLocaleDateString()}
+            </span>
+            {canRestore && (
+              <>
+                <button type="button" className="text-xs not-italic text-[#637484] hover:text-[#4a5a6b]" onClick={() => setShowDeleted(current => !current)}>
+                  {showDeleted ? 'Hide' : 'Show'}
+                </button>
+                {update.edited_at && (
+                  <button type="button" className="text-xs not-italic text-[#637484] hover:text-[#4a5a6b]" onClick={() => setHistoryOpen(true)}>
+                    History
+                  </button>
+                )}
+                <Button variant="ghost" size="sm" onClick={restore} disabled={restoring} className="h-6 px-2 text-xs not-italic">
+                  <RotateCcw className="h-3 w-3 mr-1" />
+                  {restoring ? 'Restoring...' : 'Restore'}
+                </Button>
+              </>
+            )}
+          </div>
+          {showDeleted && (
+            <div className="mt-1 rounded border border-dashed p-2">
+              <div className="mb-1 text-xs text-gray-500">
+                {updateAuthorName(update)}, {new Date(update.created_at).toLocaleDateString()}
+              </div>
+              <UpdateMessageBody update={update} people={people} properties={properties} />
+            </div>
+          )}
+        </div>
+        {historyDialog}
+      </div>
+    )
+  }
+
+  return (
+    <div className="group/message flex items-start gap-3">
+      <UpdateAuthorAvatar update={update} className={isReply ? 'h-6 w-6' : 'h-8 w-8'} />
+      <div className="flex-1 min-w-0">
+        <div className="flex items-center gap-2 mb-1">
+          <span className="text-sm font-medium text-gray-900">
+            {updateAuthorName(update)}
+          </span>
+          {organization && (
+            <span className="text-xs text-gray-500">{organization}</span>
+          )}
+          <span className="text-xs text-gray-500">
+            {new Date(update.created_at).toLocaleDateString()}
+          </span>
+          {update.import_key && (
+            <span className="text-xs text-gray-400" title="Imported from a spreadsheet">imported</span>
+          )}
+          {update.edited_at && (
+            <button
+              type="button"
+              onClick={() => setHistoryOpen(true)}
+              className="text-xs text-gray-400 hover:text-gray-600"
+              title={`Edited ${new Date(update.edited_at).toLocaleString()}. See what changed.`}
+            >
+              (edited)
+            </button>
+          )}
+          {canModifyMarketUpdate(user, update) && (
+            <div className="ml-auto flex items-center gap-1 opacity-0 group-hover/message:opacity-100 transition-opacity">
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => onEdit(update)}
+                className="h-6 w-6 p-0"
+                title="Edit message"
+              >
+                <Edit className="h-3 w-3" />
+              </Button>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => onDelete(update.id)}
+                className="h-6 w-6 p-0"
+                title="Delete message"
+              >
+                <Trash2 className="h-3 w-3" />
+              </Button>
+            </div>
+          )}
+        </div>
+        <UpdateMessageBody update={update} people={people} properties={properties} onPropertyClick={onPropertyClick} />
+
+        <div className="mt-1 flex flex-wrap items-center gap-1">
+          {reactions.map(reaction => (
+            <button
+              key={reaction.emoji}
+              type="button"
+              onClick={() => toggleReaction(reaction.emoji)}
+              title={`${reaction.label}: ${reaction.names.join(', ')}`}
+              className={`flex h-6 items-center gap-1 rounded-full border px-2 text-xs transition-colors ${
+                reaction.mine ? 'border-[#637484] bg-[#e8ecf0] text-gray-900' : 'border-gray-200 text-gray-600 hover:bg-gray-50'
+              }`}
+            >
+              <span>{reaction.emoji}</span>
+              <span>{reaction.count}</span>
+            </button>
+          ))}
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button variant="ghost" size="sm" className="h-6 w-6 p-0 text-gray-500" title="Add reaction">
+                <SmilePlus className="h-3 w-3" />
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="start" className="z-[70]">
+              {UPDATE_REACTIONS.map(reaction => (
+                <DropdownMenuItem key={reaction.emoji} onClick={() => toggleReaction(reaction.emoji)}>
+                  <span>{reaction.emoji}</span>
+                  {reaction.label}
+                </DropdownMenuItem>
+              ))}
+            </DropdownMenuContent>
+          </DropdownMenu>
+          {onReply && (
+            <Button variant="ghost" size="sm" onClick={onReply} className="h-6 px-2 text-xs text-gray-500">
+              <MessageSquareReply className="h-3 w-3 mr-1" />
+              Reply
+            </Button>
+          )}
+        </div>
+      </div>
+      {historyDialog}
+    </div>
+  )
+}
+
+// An update with its reactions and replies, and a box to reply in. Anyone who
+// can see the market can reply and react.
+export function MarketUpdateThread({ thread, people, properties, onPropertyClick, onEdit, onDelete }: MarketUpdateThreadProps) {
+  const { user, can } = useCurrentUser()
+  const canRestore = can('updates:moderate')
+  const [replying, setReplying] = useState(false)
+  const { update, replies } = thread
+
+  return (
+    <div className="transition-all duration-500">
+      <UpdateMessage
+        update={update}
+        user={user}
+        canRestore={canRestore}
+        people={people}
+        properties={properties}
+        onPropertyClick={onPropertyClick}
+        onEdit={onEdit}
+        onDelete={onDelete}
+        onReply={update.deleted_at ? undefined : () => setReplying(current => !current)}
+      />
+
+      {(replies.length > 0 || replying) && (
+        <div className="ml-11 mt-2 space-y-3 border-l pl-3">
+          {replies.map(reply => (
+            <UpdateMessage
+              key={reply.id}
+              update={reply}
+              user={user}
+              canRestore={canRestore}
+              people={people}
+              properties={properties}
+              onPropertyClick={onPropertyClick}
+              onEdit={onEdit}
+              onDelete={onDelete}
+              isReply
+            />
+          ))}
+          {replying && (
+            <MarketUpdateForm
+              marketId={update.market_id}
+              replyTo={update}
+              people={people}
+              onUpdate={() => setReplying(false)}
+              onCancelEdit={() => setReplying(false)}
+              isCompact
+            />
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
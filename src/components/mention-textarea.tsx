@@ -0,0 +1,121 @@
+'use client'
+
+import React, { useRef, useState } from 'react'
+import { Textarea } from '@/components/ui/textarea'
+import { UpdateAuthor } from '@/lib/supabase'
+import { insertMention, mentionName, mentionQueryAt, nameInitials } from '@/lib/market-updates'
+
+type MentionTextareaProps = Omit<React.ComponentProps<typeof Textarea>, 'value' | 'onChange'> & {
+  value: string
+  onValueChange: (value: string) => void
+  // Who can be mentioned
+  people: UpdateAuthor[]
+}
+
+// Suggestions shown at once
+const MAX_SUGGESTIONS = 6
+
+// A textarea that suggests people to mention after "@". Arrow keys move
+// through the suggestions; Enter or Tab picks one, Escape closes them.
+export function MentionTextarea({ value, onValueChange, people, onKeyDown, className = '', ...props }: MentionTextareaProps) {
+  const textarea = useRef<HTMLTextAreaElement>(null)
+  const [query, setQuery] = useState<{ start: number; query: string } | null>(null)
+  const [activeIndex, setActiveIndex] = useState(0)
+
+  const suggestions = query
+    ? people
+      .filter(person => mentionName(person).toLowerCase().includes(query.query.toLowerCase()))
+      .slice(0, MAX_SUGGESTIONS)
+    : []
+  const open = suggestions.length > 0
+
+  const updateQuery = (text: string, caret: number) => {
+    setQuery(mentionQueryAt(text, caret))
+    setActiveIndex(0)
+  }
+
+  const pick = (person: UpdateAuthor) => {
+    const element = textarea.current
+    if (!element || !query) return
+
+    const next = insertMention(value, query.start, element.selectionStart, mentionName(person))
+    onValueChange(next.text)
+    setQuery(null)
+    // Put the caret after the inserted name once the new value has rendered
+    requestAnimationFrame(() => {
+      element.focus()
+      element.setSelectionRange(next.caret, next.caret)
+    })
+  }
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (open) {
+      if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+        e.preventDefault()
+        const step = e.key === 'ArrowDown' ? 1 : -1
+        setActiveIndex(index => (index + step + suggestions.length) % suggestions.length)
+        return
+      }
+      if (e.key === 'Enter' || e.key === 'Tab') {
+        e.preventDefault()
+        pick(suggestions[activeIndex])
+        return
+      }
+      if (e.key === 'Escape') {
+        e.preventDefault()
+        setQuery(null)
+        return
+      }
+    }
+    onKeyDown?.(e)
+  }
+
+  return (
+    <div className="relative">
+      <Textarea
+        {...props}
+        ref={textarea}
+        value={value}
+        className={className}
+        onChange={(e) => {
+          onValueChange(e.target.value)
+          updateQuery(e.target.value, e.target.selectionStart)
+        }}
+        onKeyDown={handleKeyDown}
+        onClick={(e) => updateQuery(e.currentTarget.value, e.currentTarget.selectionStart)}
+        onBlur={(e) => {
+          setQuery(null)
+          props.onBlur?.(e)
+        }}
+        aria-expanded={open}
+        aria-autocomplete="list"
+      />
+      {open && (
+        <ul
+          role="listbox"
+          className="absolute bottom-full left-0 z-10 mb-1 w-64 rounded-md border bg-white py-1 shadow-md"
+        >
+          {suggestions.map((person, index) => (
+            <li
+              key={person.id}
+              role="option"
+              aria-selected={index === activeIndex}
+              className={`flex cursor-pointer items-center gap-2 px-3 py-1.5 text-sm ${index === activeIndex ? 'bg-gray-100' : ''}`}
+              // Keeps focus in the textarea so blur doesn't close the list first
+              onMouseDown={(e) => {
+                e.preventDefault()
+                pick(person)
+              }}
+              onMouseEnter={() => setActiveIndex(index)}
+            >
+              <span className="flex h-6 w-6 shrink-0 items-center justify-center rounded-full text-xs font-medium" style={{ backgroundColor: '#e8ecf0', color: '#637484' }}>
+                {nameInitials(mentionName(person))}
+              </span>
+              <span className="truncate">{mentionName(person)}</span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,141 @@
+"use client"
+
+import * as React from "react"
+import { useRouter } from "next/navigation"
+import { AtSign, Bell, MessageSquareReply } from "lucide-react"
+
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu"
+import {
+  SidebarMenu,
+  SidebarMenuBadge,
+  SidebarMenuButton,
+  SidebarMenuItem,
+  useSidebar,
+} from "@/components/ui/sidebar"
+import { DataService } from "@/lib/data-service"
+import { PortalNotification } from "@/lib/supabase"
+import { useSession } from "@/hooks/use-session"
+
+const KIND_TEXT: Record<PortalNotification["kind"], string> = {
+  mention: "mentioned you",
+  reply: "replied to your update",
+}
+
+// Mentions and replies for the signed-in user. Opening one marks it read and
+// goes to the market's updates thread.
+export function NavNotifications() {
+  const { isMobile } = useSidebar()
+  const router = useRouter()
+  const { user } = useSession()
+  const userId = user?.id ?? null
+  const [notifications, setNotifications] = React.useState<PortalNotification[]>([])
+  const unread = notifications.filter(notification => !notification.read_at)
+
+  React.useEffect(() => {
+    if (!userId) {
+      setNotifications([])
+      return
+    }
+
+    let cancelled = false
+    const load = () => {
+      DataService.getNotifications()
+        .then(result => {
+          if (!cancelled) setNotifications(result)
+        })
+        .catch(error => {
+          console.warn("Error loading notifications:", error)
+        })
+    }
+
+    load()
+    const unsubscribe = DataService.subscribe("notifications", load)
+    return () => {
+      cancelled = true
+      unsubscribe()
+    }
+  }, [userId])
+
+  const markRead = (ids: string[]) => {
+    if (ids.length === 0) return
+    const now = new Date().toISOString()
+    setNotifications(current => current.map(n => (ids.includes(n.id) && !n.read_at ? { ...n, read_at: now } : n)))
+    DataService.markNotificationsRead(ids).catch(error => {
+      console.warn("Error marking notifications read:", error)
+    })
+  }
+
+  const open = (notification: PortalNotification) => {
+    markRead([notification.id])
+    router.push(`/markets?updates=${notification.market_id}`)
+  }
+
+  return (
+    <SidebarMenu>
+      <SidebarMenuItem>
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <SidebarMenuButton tooltip="Notifications">
+              <Bell />
+              <span>Notifications</span>
+            </SidebarMenuButton>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent
+            className="w-80 rounded-lg"
+            side={isMobile ? "bottom" : "right"}
+            align="end"
+            sideOffset={4}
+          >
+            <DropdownMenuLabel className="flex items-center justify-between">
+              Notifications
+              {unread.length > 0 && (
+                <button
+                  type="button"
+                  className="text-xs font-normal text-muted-foreground hover:text-foreground"
+                  onClick={() => markRead(unread.map(n => n.id))}
+                >
+                  Mark all read
+                </button>
+              )}
+            </DropdownMenuLabel>
+            <DropdownMenuSeparator />
+            {notifications.length === 0 ? (
+              <div className="px-2 py-6 text-center text-sm text-muted-foreground">Nothing yet</div>
+            ) : (
+              notifications.map(notification => {
+                const Icon = notification.kind === "mention" ? AtSign : MessageSquareReply
+                return (
+                  <DropdownMenuItem
+                    key={notification.id}
+                    onSelect={() => open(notification)}
+                    className="items-start gap-2"
+                  >
+                    <Icon className="mt-0.5" />
+                    <div className="grid min-w-0 flex-1 gap-0.5">
+                      <span className={`text-sm ${notification.read_at ? "" : "font-medium"}`}>
+                        {notification.actor_name || "Someone"} {KIND_TEXT[notification.kind]}
+                      </span>
+                      <span className="truncate text-xs text-muted-foreground">{notification.excerpt}</span>
+                      <span className="text-xs text-muted-foreground">
+                        {new Date(notification.created_at).toLocaleDateString()}
+                      </span>
+                    </div>
+                    {!notification.read_at && <span className="mt-1.5 size-2 shrink-0 rounded-full bg-[#637484]" />}
+                  </DropdownMenuItem>
+                )
+              })
+            )}
+          </DropdownMenuContent>
+        </DropdownMenu>
+        {unread.length > 0 && <SidebarMenuBadge>{unread.length}</SidebarMenuBadge>}
+      </SidebarMenuItem>
+    </SidebarMenu>
+  )
+}
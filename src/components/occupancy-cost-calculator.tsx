@@ -0,0 +1,93 @@
+'use client'
+
+import { useState } from 'react'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { calculateOccupancyCost, DEFAULT_LEASE_TERMS, formatCost, LeaseTerms } from '@/lib/occupancy-cost'
+import { Property } from '@/lib/supabase'
+
+const TERM_FIELDS: { key: keyof LeaseTerms; label: string; step: number }[] = [
+  { key: 'termYears', label: 'Term (years)', step: 1 },
+  { key: 'escalationPct', label: 'Escalation (%/yr)', step: 0.5 },
+  { key: 'tiAllowancePsf', label: 'TI allowance ($/SF)', step: 1 },
+  { key: 'freeRentMonths', label: 'Free rent (months)', step: 1 },
+]
+
+// Total occupancy cost for one property under lease terms the user enters
+export function OccupancyCostCalculator({ property }: { property: Property }) {
+  const [terms, setTerms] = useState<LeaseTerms>(DEFAULT_LEASE_TERMS)
+  const [showSchedule, setShowSchedule] = useState(false)
+  const cost = calculateOccupancyCost(property, terms)
+
+  if (!cost.complete) {
+    return (
+      <p className="text-xs text-muted-foreground">
+        Add the size and base rent to work out occupancy cost.
+      </p>
+    )
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="grid grid-cols-2 gap-2">
+        {TERM_FIELDS.map(field => (
+          <div key={field.key} className="space-y-1">
+            <Label htmlFor={`lease-${field.key}`} className="text-xs text-muted-foreground">{field.label}</Label>
+            <Input
+              id={`lease-${field.key}`}
+              type="number"
+              min={0}
+              step={field.step}
+              value={terms[field.key]}
+              onChange={(e) => setTerms(current => ({ ...current, [field.key]: e.target.value === '' ? 0 : Number(e.target.value) }))}
+              className="h-8"
+            />
+          </div>
+        ))}
+      </div>
+
+      <dl className="grid grid-cols-2 gap-x-4 gap-y-1 text-sm">
+        <dt className="text-muted-foreground">Annual, year one</dt>
+        <dd className="text-right">{formatCost(cost.annualTotal)}</dd>
+        <dt className="text-muted-foreground">Monthly, year one</dt>
+        <dd className="text-right">{formatCost(cost.monthlyTotal)}</dd>
+        <dt className="text-muted-foreground">Free rent and TI</dt>
+        <dd className="text-right">{formatCost(cost.freeRentValue + cost.tiAllowance)}</dd>
+        <dt className="font-medium">Net cost over term</dt>
+        <dd className="text-right font-medium">{formatCost(cost.netTermCost)}</dd>
+        <dt className="font-medium">Effective rent</dt>
+        <dd className="text-right font-medium">{formatCost(cost.effectiveAnnualPsf, { perSqft: true })}</dd>
+      </dl>
+
+      <button
+        type="button"
+        onClick={() => setShowSchedule(!showSchedule)}
+        className="text-xs text-muted-foreground hover:text-foreground"
+      >
+        {showSchedule ? 'Hide' : 'Show'} year-by-year costs
+      </button>
+      {showSchedule && (
+        <table className="w-full text-xs">
+          <thead>
+            <tr className="text-muted-foreground">
+              <th className="text-left font-normal">Year</th>
+              <th className="text-right font-normal">Base rent</th>
+              <th className="text-right font-normal">Expenses</th>
+              <th className="text-right font-normal">Total</th>
+            </tr>
+          </thead>
+          <tbody>
+            {cost.years.map(year => (
+              <tr key={year.year}>
+                <td>{year.year}</td>
+                <td className="text-right">{formatCost(year.baseRent)}</td>
+                <td className="text-right">{formatCost(year.expenses)}</td>
+                <td className="text-right">{formatCost(year.total)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,33 @@
+'use client'
+
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog'
+
+interface PdfViewerDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  url: string | null
+  title: string
+}
+
+// Full-size viewer for a PDF or image, e.g. from the document library
+export function PdfViewerDialog({ open, onOpenChange, url, title }: PdfViewerDialogProps) {
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-6xl max-h-[90vh] p-0">
+        <DialogHeader className="p-4 border-b">
+          <DialogTitle>{title || 'Document'}</DialogTitle>
+        </DialogHeader>
+        <div className="flex-1 p-4">
+          {url && (
+            <iframe
+              src={`${url}#toolbar=1&navpanes=1&scrollbar=1`}
+              className="w-full h-[70vh] border-0 rounded-lg"
+              title={title || 'Document'}
+              allowFullScreen
+            />
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,86 @@
+'use client'
+
+import { useEffect, useRef, useState } from 'react'
+import mapboxgl from 'mapbox-gl'
+import { config } from '@/lib/config'
+
+mapboxgl.accessToken = config.mapbox.accessToken || ''
+
+interface PinPlacementMapProps {
+  // Where the pin is now, if anywhere
+  value: { lat: number; lng: number } | null
+  onChange: (position: { lat: number; lng: number }) => void
+  className?: string
+}
+
+// Click the map or drag the pin to say where a property is
+export function PinPlacementMap({ value, onChange, className = '' }: PinPlacementMapProps) {
+  const mapContainer = useRef<HTMLDivElement>(null)
+  const map = useRef<mapboxgl.Map | null>(null)
+  const marker = useRef<mapboxgl.Marker | null>(null)
+  const onChangeRef = useRef(onChange)
+  const [isLoaded, setIsLoaded] = useState(false)
+
+  useEffect(() => {
+    onChangeRef.current = onChange
+  }, [onChange])
+
+  useEffect(() => {
+    if (!mapContainer.current || map.current) return
+
+    try {
+      map.current = new mapboxgl.Map({
+        container: mapContainer.current,
+        style: 'mapbox://styles/mapbox/streets-v12',
+        center: [-98.5795, 39.8283], // Center of US
+        zoom: 3,
+        attributionControl: false
+      })
+
+      map.current.on('load', () => setIsLoaded(true))
+      map.current.on('click', (e) => {
+        onChangeRef.current({ lat: e.lngLat.lat, lng: e.lngLat.lng })
+      })
+      map.current.getCanvas().style.cursor = 'crosshair'
+    } catch (error) {
+      console.error('Error initializing map:', error)
+    }
+
+    return () => {
+      marker.current?.remove()
+      marker.current = null
+      map.current?.remove()
+      map.current = null
+    }
+  }, [])
+
+  // Follow the pin as it moves, from outside or by dragging
+  useEffect(() => {
+    if (!map.current || !isLoaded) return
+
+    if (!value) {
+      marker.current?.remove()
+      marker.current = null
+      return
+    }
+
+    const lngLat: [number, number] = [value.lng, value.lat]
+    if (!marker.current) {
+      marker.current = new mapboxgl.Marker({ color: '#637484', draggable: true })
+        .setLngLat(lngLat)
+        .addTo(map.current)
+      marker.current.on('dragend', () => {
+        const position = marker.current?.getLngLat()
+        if (position) onChangeRef.current({ lat: position.lat, lng: position.lng })
+      })
+    } else {
+      marker.current.setLngLat(lngLat)
+    }
+
+    if (map.current.getZoom() < 10 || !map.current.getBounds()?.contains(lngLat)) {
+      map.current.flyTo({ center: lngLat, zoom: Math.max(map.current.getZoom(), 12) })
+    }
+  }, [value, isLoaded])
+
+  return <div ref={mapContainer} className={className} />
+}
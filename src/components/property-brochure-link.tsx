@@ -0,0 +1,50 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { ExternalLink } from 'lucide-react'
+import { DataService } from '@/lib/data-service'
+import { Property } from '@/lib/supabase'
+
+// Opens a property's marketing material from the document library in a new
+// tab; renders nothing when the property has none
+export function PropertyBrochureLink({ property }: { property: Property }) {
+  const [url, setUrl] = useState<string | null>(null)
+
+  useEffect(() => {
+    let cancelled = false
+
+    async function loadBrochure() {
+      const [brochure] = await DataService.getDocuments(property.market_id, {
+        propertyId: property.id,
+        category: 'marketing',
+        includeMarketWide: false
+      })
+      const latest = brochure?.versions[0]
+      const link = latest ? await DataService.getDocumentUrl(brochure, latest) : null
+      if (!cancelled) setUrl(link)
+    }
+
+    loadBrochure().catch(error => {
+      // The link is an extra; the rest of the card still works without it
+      console.warn('Error loading brochure:', error)
+    })
+
+    return () => {
+      cancelled = true
+    }
+  }, [property.id, property.market_id])
+
+  if (!url) return null
+
+  return (
+    <a
+      href={url}
+      target="_blank"
+      rel="noopener noreferrer"
+      className="inline-flex items-center gap-2 text-xs text-[#637484] transition-colors hover:text-[#4a5a6b]"
+    >
+      <ExternalLink className="h-3 w-3" />
+      <span>View Brochure</span>
+    </a>
+  )
+}
@@ -0,0 +1,280 @@
+'use client'
+
+import React, { useEffect, useState } from 'react'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Textarea } from '@/components/ui/textarea'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { ImagePlus, Trash2 } from 'lucide-react'
+import { toast } from 'sonner'
+import { DataService } from '@/lib/data-service'
+import { describeError } from '@/lib/errors'
+import { PropertyInput } from '@/lib/repository'
+import { Property } from '@/lib/supabase'
+import { PropertyFieldErrors, validatePropertyInput, validatePropertyPhoto } from '@/lib/property-validation'
+import { PhaseCatalog } from '@/lib/phases'
+import { usePhases } from '@/hooks/use-phases'
+
+type FormValues = Record<Exclude<keyof PropertyInput, 'market_id' | 'phase' | 'photo_url'>, string> & {
+  phase: string
+  photo_url: string | null
+}
+
+function toFormValues(phases: PhaseCatalog, source?: Partial<PropertyInput> | null): FormValues {
+  const text = (value: string | number | null | undefined) => (value == null ? '' : String(value))
+
+  return {
+    title: text(source?.title),
+    address_line: text(source?.address_line),
+    city: text(source?.city),
+    state: text(source?.state),
+    postal_code: text(source?.postal_code),
+    lat: text(source?.lat),
+    lng: text(source?.lng),
+    size_sqft: text(source?.size_sqft),
+    base_rent_psf: text(source?.base_rent_psf),
+    expenses_psf: text(source?.expenses_psf),
+    display_number: text(source?.display_number),
+    notes: text(source?.notes),
+    phase: source?.phase || phases.phases[0]?.key || '',
+    photo_url: source?.photo_url ?? null
+  }
+}
+
+function toInput(marketId: string, values: FormValues): PropertyInput {
+  const text = (value: string) => value.trim() || null
+  // Blank means "no value"; anything unparseable becomes NaN so validation flags it
+  const number = (value: string) => (value.trim() === '' ? null : Number(value))
+
+  return {
+    market_id: marketId,
+    title: text(values.title),
+    address_line: text(values.address_line),
+    city: text(values.city),
+    state: text(values.state)?.toUpperCase() ?? null,
+    postal_code: text(values.postal_code),
+    lat: number(values.lat),
+    lng: number(values.lng),
+    size_sqft: number(values.size_sqft),
+    base_rent_psf: number(values.base_rent_psf),
+    expenses_psf: number(values.expenses_psf),
+    phase: values.phase,
+    display_number: number(values.display_number),
+    notes: text(values.notes),
+    photo_url: values.photo_url
+  }
+}
+
+interface PropertyFormDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  marketId: string
+  // Property to edit; leave out to add a new one
+  property?: Property | null
+  // Values to start from instead, e.g. a draft whose save failed
+  draft?: PropertyInput | null
+  // Called with valid input; the dialog closes straight away and the caller saves
+  onSubmit: (input: PropertyInput, options: { phaseReason: string | null }) => void
+}
+
+export function PropertyFormDialog({ open, onOpenChange, marketId, property, draft, onSubmit }: PropertyFormDialogProps) {
+  const phases = usePhases()
+  const [values, setValues] = useState<FormValues>(() => toFormValues(phases, draft ?? property))
+  const [phaseReason, setPhaseReason] = useState('')
+  const [errors, setErrors] = useState<PropertyFieldErrors>({})
+  const [isUploading, setIsUploading] = useState(false)
+
+  useEffect(() => {
+    if (open) {
+      setValues(toFormValues(phases, draft ?? property))
+      setPhaseReason('')
+      setErrors({})
+    }
+  }, [open, draft, property, phases])
+
+  // New properties can start in any phase; existing ones only move where the pipeline allows
+  const phaseOptions = property
+    ? [{ key: property.phase, label: phases.label(property.phase) }, ...phases.nextPhases(property.phase)]
+    : phases.phases
+  const phaseChanged = !!property && values.phase !== property.phase
+
+  const setField = (field: keyof FormValues) => (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => {
+    setValues(current => ({ ...current, [field]: e.target.value }))
+    setErrors(current => ({ ...current, [field]: undefined }))
+  }
+
+  const handlePhotoChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    e.target.value = ''
+    if (!file) return
+
+    const problem = validatePropertyPhoto(file)
+    if (problem) {
+      setErrors(current => ({ ...current, photo_url: problem }))
+      return
+    }
+
+    setIsUploading(true)
+    try {
+      const url = await DataService.uploadPropertyPhoto(marketId, file)
+      setValues(current => ({ ...current, photo_url: url }))
+      setErrors(current => ({ ...current, photo_url: undefined }))
+    } catch (error) {
+      toast.error('Photo not uploaded', { description: describeError(error) })
+    } finally {
+      setIsUploading(false)
+    }
+  }
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault()
+
+    const input = toInput(marketId, values)
+    const fieldErrors = validatePropertyInput(input, phases)
+    // The property's current phase may be one the pipeline no longer defines
+    if (property && input.phase === property.phase) delete fieldErrors.phase
+    if (Object.keys(fieldErrors).length > 0) {
+      setErrors(fieldErrors)
+      return
+    }
+
+    onSubmit(input, { phaseReason: phaseChanged ? phaseReason.trim() || null : null })
+    onOpenChange(false)
+  }
+
+  const field = (name: keyof FormValues, label: string, props: React.ComponentProps<typeof Input> = {}) => (
+    <div className="space-y-1">
+      <Label htmlFor={`property-${name}`}>{label}</Label>
+      <Input
+        id={`property-${name}`}
+        value={values[name] ?? ''}
+        onChange={setField(name)}
+        aria-invalid={!!errors[name]}
+        {...props}
+      />
+      {errors[name] && <p className="text-xs text-destructive">{errors[name]}</p>}
+    </div>
+  )
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[640px] max-h-[90vh] overflow-y-auto">
+        <form onSubmit={handleSubmit} className="space-y-4" noValidate>
+          <DialogHeader>
+            <DialogTitle>{property ? 'Edit property' : 'Add property'}</DialogTitle>
+            <DialogDescription>
+              {property ? 'Update the details for this site.' : 'Add a candidate site to this market.'}
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="grid grid-cols-2 gap-3">
+            <div className="col-span-2">{field('title', 'Name', { placeholder: 'e.g. Riverside Plaza' })}</div>
+            <div className="col-span-2">{field('address_line', 'Street address')}</div>
+            {field('city', 'City')}
+            <div className="grid grid-cols-2 gap-3">
+              {field('state', 'State', { maxLength: 2, placeholder: 'TX' })}
+              {field('postal_code', 'ZIP', { inputMode: 'numeric' })}
+            </div>
+            {/* Left blank, they're looked up from the address on save */}
+            {field('lat', 'Latitude', { type: 'number', step: 'any', placeholder: 'From the address' })}
+            {field('lng', 'Longitude', { type: 'number', step: 'any', placeholder: 'From the address' })}
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            {field('size_sqft', 'Size (sq ft)', { type: 'number', min: 1, step: 1 })}
+            {field('display_number', 'Map number', { type: 'number', min: 1, step: 1 })}
+            {field('base_rent_psf', 'Base rent ($/sq ft)', { type: 'number', min: 0, step: '0.01' })}
+            {field('expenses_psf', 'Expenses ($/sq ft)', { type: 'number', min: 0, step: '0.01' })}
+            <div className="space-y-1">
+              <Label htmlFor="property-phase">Phase</Label>
+              <Select
+                value={values.phase}
+                onValueChange={(phase) => {
+                  setValues(current => ({ ...current, phase }))
+                  setErrors(current => ({ ...current, phase: undefined }))
+                }}
+              >
+                <SelectTrigger id="property-phase" className="w-full">
+                  <SelectValue placeholder="Choose a phase" />
+                </SelectTrigger>
+                <SelectContent>
+                  {phaseOptions.map(phase => (
+                    <SelectItem key={phase.key} value={phase.key}>{phase.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {errors.phase && <p className="text-xs text-destructive">{errors.phase}</p>}
+            </div>
+            {phaseChanged && (
+              <div className="space-y-1">
+                <Label htmlFor="property-phase-reason">Reason for the phase change</Label>
+                <Input
+                  id="property-phase-reason"
+                  value={phaseReason}
+                  onChange={(e) => setPhaseReason(e.target.value)}
+                  placeholder="Optional"
+                  maxLength={500}
+                />
+              </div>
+            )}
+          </div>
+
+          <div className="space-y-1">
+            <Label htmlFor="property-notes">Notes</Label>
+            <Textarea
+              id="property-notes"
+              value={values.notes}
+              onChange={setField('notes')}
+              className="min-h-[80px]"
+              aria-invalid={!!errors.notes}
+            />
+            {errors.notes && <p className="text-xs text-destructive">{errors.notes}</p>}
+          </div>
+
+          <div className="space-y-2">
+            <Label>Photo</Label>
+            {values.photo_url ? (
+              <div className="flex items-center gap-3">
+                <img src={values.photo_url} alt="Property photo" className="h-20 w-28 rounded object-cover border" />
+                <Button
+                  type="button"
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setValues(current => ({ ...current, photo_url: null }))}
+                >
+                  <Trash2 className="h-4 w-4 mr-1" />
+                  Remove
+                </Button>
+              </div>
+            ) : (
+              <label className="flex w-fit cursor-pointer items-center gap-2 rounded-md border px-3 py-2 text-sm hover:bg-muted">
+                <ImagePlus className="h-4 w-4" />
+                {isUploading ? 'Uploading...' : 'Upload photo'}
+                <input type="file" accept="image/*" className="sr-only" onChange={handlePhotoChange} disabled={isUploading} />
+              </label>
+            )}
+            {errors.photo_url && <p className="text-xs text-destructive">{errors.photo_url}</p>}
+          </div>
+
+          <DialogFooter className="gap-2 sm:gap-0">
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isUploading}>
+              {property ? 'Save changes' : 'Add property'}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  )
+}
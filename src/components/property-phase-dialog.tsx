@@ -0,0 +1,177 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Label } from '@/components/ui/label'
+import { Textarea } from '@/components/ui/textarea'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { ArrowRight, GitCommitHorizontal } from 'lucide-react'
+import { toast } from 'sonner'
+import { DataService } from '@/lib/data-service'
+import { describeError } from '@/lib/errors'
+import { PhaseChange, Property } from '@/lib/supabase'
+import { usePhases } from '@/hooks/use-phases'
+import { DataErrorAlert } from '@/components/data-error-alert'
+
+interface PropertyPhaseDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  property: Property
+  canChange: boolean
+  onChanged: (property: Property) => void
+}
+
+// Move a property along the pipeline and see how it got where it is
+export function PropertyPhaseDialog({ open, onOpenChange, property, canChange, onChanged }: PropertyPhaseDialogProps) {
+  const phases = usePhases()
+  const [history, setHistory] = useState<PhaseChange[]>([])
+  const [loading, setLoading] = useState(false)
+  const [loadError, setLoadError] = useState<unknown>(null)
+  const [reloadKey, setReloadKey] = useState(0)
+  const [nextPhase, setNextPhase] = useState('')
+  const [reason, setReason] = useState('')
+  const [isSaving, setIsSaving] = useState(false)
+
+  const nextPhases = phases.nextPhases(property.phase)
+
+  // Reload whenever the dialog opens or the phase changes
+  useEffect(() => {
+    if (!open) return
+
+    let cancelled = false
+    setLoading(true)
+    setNextPhase('')
+    setReason('')
+
+    DataService.getPhaseHistory(property.id)
+      .then(data => {
+        if (cancelled) return
+        setHistory(data)
+        setLoadError(null)
+      })
+      .catch(error => {
+        if (!cancelled) setLoadError(error)
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false)
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [open, property.id, property.phase, reloadKey])
+
+  const handleMove = async () => {
+    if (!nextPhase) return
+
+    setIsSaving(true)
+    try {
+      const updated = await DataService.changePropertyPhase(property.id, nextPhase, reason)
+      toast.success(`Moved to ${phases.label(updated.phase)}`)
+      onChanged(updated)
+    } catch (error) {
+      toast.error('Phase not changed', { description: describeError(error) })
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[520px]">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <GitCommitHorizontal className="h-5 w-5" />
+            Deal phase
+          </DialogTitle>
+          <DialogDescription>
+            {property.title || property.address_line || 'This property'} is in{' '}
+            <Badge variant={phases.variant(property.phase)}>{phases.label(property.phase)}</Badge>
+          </DialogDescription>
+        </DialogHeader>
+
+        {canChange && (
+          nextPhases.length > 0 ? (
+            <div className="space-y-3 rounded-lg border p-3">
+              <div className="space-y-1">
+                <Label htmlFor="next-phase">Move to</Label>
+                <Select value={nextPhase} onValueChange={setNextPhase}>
+                  <SelectTrigger id="next-phase" className="w-full">
+                    <SelectValue placeholder="Choose a phase" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {nextPhases.map(phase => (
+                      <SelectItem key={phase.key} value={phase.key}>{phase.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="phase-reason">Reason</Label>
+                <Textarea
+                  id="phase-reason"
+                  value={reason}
+                  onChange={(e) => setReason(e.target.value)}
+                  placeholder="Optional - e.g. landlord countersigned the LOI"
+                  maxLength={500}
+                  className="min-h-[60px]"
+                />
+              </div>
+              <div className="flex justify-end">
+                <Button type="button" size="sm" onClick={handleMove} disabled={!nextPhase || isSaving}>
+                  {isSaving ? 'Moving...' : 'Move'}
+                </Button>
+              </div>
+            </div>
+          ) : (
+            <p className="text-sm text-muted-foreground">
+              {phases.label(property.phase)} is the end of the pipeline.
+            </p>
+          )
+        )}
+
+        {loadError !== null ? (
+          <DataErrorAlert
+            error={loadError}
+            title="Couldn't load phase history"
+            onRetry={() => setReloadKey(key => key + 1)}
+          />
+        ) : loading ? (
+          <p className="text-sm text-muted-foreground">Loading history...</p>
+        ) : history.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No phase changes recorded yet.</p>
+        ) : (
+          <ul className="max-h-80 overflow-y-auto divide-y rounded-lg border">
+            {history.map(change => (
+              <li key={change.id} className="space-y-1 p-3 text-sm">
+                <div className="flex items-center gap-2 font-medium">
+                  {change.from_phase ? (
+                    <>
+                      {phases.label(change.from_phase)}
+                      <ArrowRight className="h-3.5 w-3.5 text-muted-foreground" />
+                      {phases.label(change.to_phase)}
+                    </>
+                  ) : (
+                    `Added in ${phases.label(change.to_phase)}`
+                  )}
+                </div>
+                <div className="text-muted-foreground">
+                  {change.estimated ? 'Estimated' : change.changed_by_name || 'Someone'} · {new Date(change.changed_at).toLocaleString()}
+                </div>
+                {change.reason && <div className="whitespace-pre-wrap">{change.reason}</div>}
+              </li>
+            ))}
+          </ul>
+        )}
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,94 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import Link from 'next/link'
+import { Loader2 } from 'lucide-react'
+import { DataErrorAlert } from '@/components/data-error-alert'
+import { UpdateAuthorAvatar } from '@/components/update-author-avatar'
+import { UpdateMessageBody } from '@/components/update-message-body'
+import { DataService } from '@/lib/data-service'
+import { MarketUpdate, Property } from '@/lib/supabase'
+import { updateAuthorName } from '@/lib/market-updates'
+
+interface PropertyUpdatesProps {
+  property: Property
+  className?: string
+}
+
+// Market updates that refer to the property by its number, newest first,
+// with a link to the market's thread
+export function PropertyUpdates({ property, className = '' }: PropertyUpdatesProps) {
+  const [updates, setUpdates] = useState<MarketUpdate[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<unknown>(null)
+  const [reloadKey, setReloadKey] = useState(0)
+
+  useEffect(() => {
+    let cancelled = false
+    const load = () => {
+      DataService.getPropertyUpdates(property)
+        .then(result => {
+          if (cancelled) return
+          setUpdates(result)
+          setError(null)
+        })
+        .catch(loadError => {
+          if (cancelled) return
+          console.error('Error loading property updates:', loadError)
+          setError(loadError)
+        })
+        .finally(() => {
+          if (!cancelled) setLoading(false)
+        })
+    }
+
+    setLoading(true)
+    load()
+    const unsubscribe = DataService.subscribe('market_updates', load, { marketId: property.market_id })
+    return () => {
+      cancelled = true
+      unsubscribe()
+    }
+  }, [property, reloadKey])
+
+  return (
+    <div className={`space-y-3 ${className}`}>
+      <div className="flex items-center justify-between">
+        <h4 className="text-sm font-medium text-gray-700">Updates</h4>
+        <div className="flex items-center gap-2">
+          {loading && <Loader2 className="h-4 w-4 animate-spin text-gray-400" />}
+          {updates.length > 0 && (
+            <Link href={`/markets?updates=${property.market_id}`} className="text-xs text-[#637484] hover:text-[#4a5a6b]">
+              Open thread
+            </Link>
+          )}
+        </div>
+      </div>
+
+      {error ? (
+        <DataErrorAlert error={error} title="Couldn't load updates" onRetry={() => setReloadKey(key => key + 1)} />
+      ) : !loading && updates.length === 0 ? (
+        <p className="text-sm text-gray-500 italic">
+          {property.display_number
+            ? `No updates mention #${property.display_number} yet.`
+            : 'Updates can only refer to numbered properties.'}
+        </p>
+      ) : (
+        <div className="space-y-3">
+          {updates.map(update => (
+            <div key={update.id} className="flex items-start gap-3">
+              <UpdateAuthorAvatar update={update} className="h-6 w-6" />
+              <div className="flex-1 min-w-0">
+                <div className="flex items-center gap-2 mb-1">
+                  <span className="text-sm font-medium text-gray-900">{updateAuthorName(update)}</span>
+                  <span className="text-xs text-gray-500">{new Date(update.created_at).toLocaleDateString()}</span>
+                </div>
+                <UpdateMessageBody update={update} />
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
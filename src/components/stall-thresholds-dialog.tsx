@@ -0,0 +1,105 @@
+'use client'
+
+import React, { useEffect, useState } from 'react'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { toast } from 'sonner'
+import { DataService } from '@/lib/data-service'
+import { describeError } from '@/lib/errors'
+import { PhaseCatalog } from '@/lib/phases'
+
+interface StallThresholdsDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  phases: PhaseCatalog
+  onSaved: (phases: PhaseCatalog) => void
+}
+
+// How long a deal can sit in each phase before it shows up as stalled
+export function StallThresholdsDialog({ open, onOpenChange, phases, onSaved }: StallThresholdsDialogProps) {
+  // Days as typed; blank means the phase never stalls
+  const [values, setValues] = useState<Record<string, string>>({})
+  const [isSaving, setIsSaving] = useState(false)
+
+  useEffect(() => {
+    if (open) {
+      setValues(Object.fromEntries(phases.phases.map(phase => [
+        phase.key,
+        phase.stall_after_days == null ? '' : String(phase.stall_after_days)
+      ])))
+    }
+  }, [open, phases])
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setIsSaving(true)
+
+    try {
+      const saved = await DataService.setStallThresholds(Object.fromEntries(
+        Object.entries(values).map(([key, days]) => [key, days.trim() === '' ? null : Number(days)])
+      ))
+      toast.success('Stall limits updated')
+      onSaved(saved)
+      onOpenChange(false)
+    } catch (error) {
+      toast.error('Stall limits not saved', { description: describeError(error) })
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={isSaving ? undefined : onOpenChange}>
+      <DialogContent className="sm:max-w-[420px]">
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <DialogHeader>
+            <DialogTitle>Stall limits</DialogTitle>
+            <DialogDescription>
+              Days a deal can stay in each phase before it&apos;s flagged. Leave blank to never flag it.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-3">
+            {phases.phases.map(phase => (
+              <div key={phase.key} className="flex items-center justify-between gap-4">
+                <Label htmlFor={`stall-${phase.key}`}>{phase.label}</Label>
+                <div className="flex items-center gap-2">
+                  <Input
+                    id={`stall-${phase.key}`}
+                    type="number"
+                    min={1}
+                    max={3650}
+                    step={1}
+                    value={values[phase.key] ?? ''}
+                    onChange={(e) => setValues(current => ({ ...current, [phase.key]: e.target.value }))}
+                    disabled={isSaving}
+                    className="w-24"
+                  />
+                  <span className="text-sm text-muted-foreground">days</span>
+                </div>
+              </div>
+            ))}
+          </div>
+
+          <DialogFooter className="gap-2 sm:gap-0">
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)} disabled={isSaving}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isSaving}>
+              {isSaving ? 'Saving...' : 'Save limits'}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,76 @@
+'use client'
+
+import Link from 'next/link'
+import { AlertTriangle, Layers, MapPinOff } from 'lucide-react'
+import { TerritoryConflicts, describeEncroachment } from '@/lib/territory-conflicts'
+
+interface TerritoryConflictsListProps {
+  conflicts: TerritoryConflicts
+  // Market names by ID, for describing properties
+  marketNames: Record<string, string>
+  onPropertyClick?: (propertyId: string) => void
+}
+
+export function TerritoryConflictsList({ conflicts, marketNames, onPropertyClick }: TerritoryConflictsListProps) {
+  const { overlaps, encroachments } = conflicts
+
+  if (overlaps.length === 0 && encroachments.length === 0) {
+    return <p className="text-sm text-muted-foreground">No territory conflicts found.</p>
+  }
+
+  return (
+    <div className="space-y-4 text-sm">
+      {overlaps.length > 0 && (
+        <div className="space-y-2">
+          <div className="flex items-center gap-2 font-medium">
+            <Layers className="h-4 w-4 text-red-600" />
+            Overlapping territories ({overlaps.length})
+          </div>
+          <ul className="space-y-1">
+            {overlaps.map(overlap => (
+              <li key={overlap.marketIds.join(':')} className="flex items-start justify-between gap-2">
+                <span>
+                  <Link href={`/markets/${overlap.marketIds[0]}`} className="hover:underline">{overlap.marketNames[0]}</Link>
+                  {' and '}
+                  <Link href={`/markets/${overlap.marketIds[1]}`} className="hover:underline">{overlap.marketNames[1]}</Link>
+                </span>
+                <span className="text-muted-foreground whitespace-nowrap">
+                  {overlap.areaSqMiles.toLocaleString(undefined, { maximumFractionDigits: 2 })} sq mi
+                </span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {encroachments.length > 0 && (
+        <div className="space-y-2">
+          <div className="flex items-center gap-2 font-medium">
+            <MapPinOff className="h-4 w-4 text-amber-600" />
+            Properties in the wrong territory ({encroachments.length})
+          </div>
+          <ul className="space-y-1">
+            {encroachments.map(encroachment => (
+              <li key={`${encroachment.propertyId}:${encroachment.kind}`} className="flex items-start gap-2">
+                <AlertTriangle className="h-3.5 w-3.5 mt-0.5 shrink-0 text-amber-600" />
+                {onPropertyClick ? (
+                  <button
+                    type="button"
+                    className="text-left hover:underline"
+                    onClick={() => onPropertyClick(encroachment.propertyId)}
+                  >
+                    {describeEncroachment(encroachment, marketNames)}
+                  </button>
+                ) : (
+                  <Link href={`/properties/${encroachment.propertyId}`} className="hover:underline">
+                    {describeEncroachment(encroachment, marketNames)}
+                  </Link>
+                )}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  )
+}
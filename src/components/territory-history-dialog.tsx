@@ -0,0 +1,138 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { Button } from '@/components/ui/button'
+import { History, RotateCcw } from 'lucide-react'
+import { toast } from 'sonner'
+import { DataService } from '@/lib/data-service'
+import { describeError } from '@/lib/errors'
+import { Market, TerritoryPolygon, TerritoryPolygonVersion } from '@/lib/supabase'
+import { territoryAreaSqMiles } from '@/lib/territory'
+import { DataErrorAlert } from '@/components/data-error-alert'
+
+interface TerritoryHistoryDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  market: Market
+  canRevert: boolean
+  onReverted: (market: Market) => void
+}
+
+function describePolygon(polygon: TerritoryPolygon | null) {
+  if (!polygon) return 'No territory'
+
+  const holes = polygon.geometry.coordinates.length - 1
+  const area = territoryAreaSqMiles(polygon).toLocaleString(undefined, { maximumFractionDigits: 1 })
+  return `${area} sq mi${holes > 0 ? `, ${holes} hole${holes === 1 ? '' : 's'}` : ''}`
+}
+
+export function TerritoryHistoryDialog({ open, onOpenChange, market, canRevert, onReverted }: TerritoryHistoryDialogProps) {
+  const [versions, setVersions] = useState<TerritoryPolygonVersion[]>([])
+  const [loading, setLoading] = useState(false)
+  const [loadError, setLoadError] = useState<unknown>(null)
+  const [revertingId, setRevertingId] = useState<string | null>(null)
+  const [reloadKey, setReloadKey] = useState(0)
+
+  // Reload whenever the dialog opens or the territory changes
+  useEffect(() => {
+    if (!open) return
+
+    let cancelled = false
+    setLoading(true)
+
+    DataService.getTerritoryVersions(market.id)
+      .then(data => {
+        if (cancelled) return
+        setVersions(data)
+        setLoadError(null)
+      })
+      .catch(error => {
+        if (!cancelled) setLoadError(error)
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false)
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [open, market.id, market.territory_polygon, reloadKey])
+
+  const handleRevert = async (version: TerritoryPolygonVersion) => {
+    setRevertingId(version.id)
+    try {
+      const updated = await DataService.revertTerritoryPolygon(market.id, version.id)
+      toast.success('Territory reverted')
+      onReverted(updated)
+    } catch (error) {
+      toast.error('Territory not reverted', { description: describeError(error) })
+    } finally {
+      setRevertingId(null)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[520px]">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <History className="h-5 w-5" />
+            Territory history
+          </DialogTitle>
+          <DialogDescription>
+            Earlier boundaries for {market.name}. Reverting keeps the current boundary in this list.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="rounded-lg border p-3 text-sm">
+          <div className="font-medium">Current</div>
+          <div className="text-muted-foreground">{describePolygon(market.territory_polygon ?? null)}</div>
+        </div>
+
+        {loadError !== null ? (
+          <DataErrorAlert
+            error={loadError}
+            title="Couldn't load territory history"
+            onRetry={() => setReloadKey(key => key + 1)}
+          />
+        ) : loading ? (
+          <p className="text-sm text-muted-foreground">Loading history...</p>
+        ) : versions.length === 0 ? (
+          <p className="text-sm text-muted-foreground">The territory hasn&apos;t been changed yet.</p>
+        ) : (
+          <ul className="max-h-80 overflow-y-auto divide-y rounded-lg border">
+            {versions.map(version => (
+              <li key={version.id} className="flex items-center justify-between gap-3 p-3 text-sm">
+                <div>
+                  <div className="font-medium">
+                    Replaced {new Date(version.replaced_at).toLocaleString()}
+                  </div>
+                  <div className="text-muted-foreground">{describePolygon(version.territory_polygon)}</div>
+                </div>
+                {canRevert && (
+                  <Button
+                    type="button"
+                    variant="outline"
+                    size="sm"
+                    onClick={() => handleRevert(version)}
+                    disabled={revertingId !== null}
+                  >
+                    <RotateCcw className="h-4 w-4 mr-1" />
+                    {revertingId === version.id ? 'Reverting...' : 'Revert'}
+                  </Button>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,204 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { AlertTriangle, Loader2, Upload, X } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { DataErrorAlert } from '@/components/data-error-alert'
+import { TradeAreaPointsDialog } from '@/components/trade-area-points-dialog'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
+import { DataService } from '@/lib/data-service'
+import { Property, TradeAreaPoint } from '@/lib/supabase'
+import { MapTradeArea, TRADE_AREA_RING_COLORS } from '@/lib/map-engine'
+import { DEFAULT_DRIVE_MINUTES, DEFAULT_RADIUS_MILES, TradeAreaAnalysis } from '@/lib/trade-area'
+import { useCurrentUser } from '@/hooks/use-current-user'
+
+// Ring sizes offered as toggles
+const RADIUS_CHOICES = [1, 3, 5, 10]
+const DRIVE_CHOICES = [5, 10, 15, 20]
+
+interface TradeAreaPanelProps {
+  marketId: string
+  property: Property
+  // The rings and points to draw, or null while there's nothing to draw
+  onChange: (tradeArea: MapTradeArea | null) => void
+  onClose: () => void
+  className?: string
+}
+
+function toggleSize(sizes: number[], size: number) {
+  return sizes.includes(size) ? sizes.filter(s => s !== size) : [...sizes, size].sort((a, b) => a - b)
+}
+
+// Radius rings and drive-time areas around a site, counting competitors,
+// sister locations, other candidate properties and demographic points in each
+export function TradeAreaPanel({ marketId, property, onChange, onClose, className = '' }: TradeAreaPanelProps) {
+  const { can } = useCurrentUser()
+  const [radiusMiles, setRadiusMiles] = useState(DEFAULT_RADIUS_MILES)
+  const [driveMinutes, setDriveMinutes] = useState(DEFAULT_DRIVE_MINUTES)
+  const [analysis, setAnalysis] = useState<TradeAreaAnalysis | null>(null)
+  const [points, setPoints] = useState<TradeAreaPoint[]>([])
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<unknown>(null)
+  const [reloadKey, setReloadKey] = useState(0)
+  const [uploadOpen, setUploadOpen] = useState(false)
+  const placed = property.lat != null && property.lng != null
+
+  useEffect(() => {
+    if (!placed) return
+
+    let cancelled = false
+    setLoading(true)
+    Promise.all([
+      DataService.getTradeArea(property.id, { radiusMiles, driveMinutes }),
+      DataService.getTradeAreaPoints(marketId)
+    ])
+      .then(([tradeArea, tradeAreaPoints]) => {
+        if (cancelled) return
+        setAnalysis(tradeArea)
+        setPoints(tradeAreaPoints)
+        setError(null)
+      })
+      .catch(loadError => {
+        if (cancelled) return
+        console.error('Error loading trade area:', loadError)
+        setAnalysis(null)
+        setError(loadError)
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false)
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [marketId, property.id, property.lat, property.lng, placed, radiusMiles, driveMinutes, reloadKey])
+
+  useEffect(() => {
+    onChange(placed && analysis ? { rings: analysis.rings, points } : null)
+  }, [placed, analysis, points, onChange])
+
+  // Take the rings off the map when the panel closes
+  useEffect(() => () => onChange(null), [onChange])
+
+  const approximate = analysis?.rings.some(ring => ring.approximate)
+
+  return (
+    <div className={`rounded-lg border bg-white/95 p-3 shadow-sm space-y-3 text-sm ${className}`}>
+      <div className="flex items-start justify-between gap-2">
+        <div className="min-w-0">
+          <h3 className="font-semibold">Trade area</h3>
+          <p className="text-xs text-gray-600 truncate">{property.title || property.address_line || 'Untitled Property'}</p>
+        </div>
+        <div className="flex items-center gap-1">
+          {loading && <Loader2 className="h-4 w-4 animate-spin text-gray-400" />}
+          {can('properties:edit') && (
+            <Button type="button" variant="ghost" size="sm" onClick={() => setUploadOpen(true)} title="Upload trade area data">
+              <Upload className="h-4 w-4" />
+            </Button>
+          )}
+          <Button type="button" variant="ghost" size="sm" onClick={onClose} title="Close trade area">
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+      </div>
+
+      {!placed ? (
+        <p className="text-xs text-amber-700">Place this property on the map to see its trade area.</p>
+      ) : (
+        <>
+          <div className="space-y-1.5">
+            <div className="flex flex-wrap items-center gap-1">
+              <span className="w-12 text-xs text-gray-500">Radius</span>
+              {RADIUS_CHOICES.map(size => (
+                <Button
+                  key={size}
+                  type="button"
+                  size="sm"
+                  variant={radiusMiles.includes(size) ? 'default' : 'outline'}
+                  className="h-6 px-2 text-xs"
+                  onClick={() => setRadiusMiles(toggleSize(radiusMiles, size))}
+                >
+                  {size} mi
+                </Button>
+              ))}
+            </div>
+            <div className="flex flex-wrap items-center gap-1">
+              <span className="w-12 text-xs text-gray-500">Drive</span>
+              {DRIVE_CHOICES.map(size => (
+                <Button
+                  key={size}
+                  type="button"
+                  size="sm"
+                  variant={driveMinutes.includes(size) ? 'default' : 'outline'}
+                  className="h-6 px-2 text-xs"
+                  onClick={() => setDriveMinutes(toggleSize(driveMinutes, size))}
+                >
+                  {size} min
+                </Button>
+              ))}
+            </div>
+          </div>
+
+          {error ? (
+            <DataErrorAlert error={error} title="Couldn't load the trade area" onRetry={() => setReloadKey(key => key + 1)} />
+          ) : analysis && (
+            <>
+              {approximate && (
+                <p className="flex items-start gap-1.5 text-xs text-amber-700">
+                  <AlertTriangle className="h-3.5 w-3.5 mt-0.5 shrink-0" />
+                  <span>
+                    Drive times are straight-line estimates
+                    {analysis.routingError ? ` (${analysis.routingError})` : ''}, so real areas will be smaller.
+                  </span>
+                </p>
+              )}
+              {analysis.rings.length === 0 ? (
+                <p className="text-xs text-gray-500">Pick a radius or drive time.</p>
+              ) : (
+                <Table className="text-xs">
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Area</TableHead>
+                      <TableHead className="text-right">Competitors</TableHead>
+                      <TableHead className="text-right">Sister</TableHead>
+                      <TableHead className="text-right">Sites</TableHead>
+                      <TableHead className="text-right">Demographics</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {analysis.rings.map(ring => (
+                      <TableRow key={ring.id}>
+                        <TableCell>
+                          <span className="flex items-center gap-1.5">
+                            <span className="inline-block h-2 w-2 rounded-full" style={{ backgroundColor: TRADE_AREA_RING_COLORS[ring.kind] }} />
+                            {ring.label}{ring.approximate ? '*' : ''}
+                          </span>
+                        </TableCell>
+                        <TableCell className="text-right">{ring.counts.competitors}</TableCell>
+                        <TableCell className="text-right">{ring.counts.sisters}</TableCell>
+                        <TableCell className="text-right">{ring.counts.properties}</TableCell>
+                        <TableCell className="text-right" title={`${ring.counts.demographicPoints} points`}>
+                          {ring.counts.demographicTotal.toLocaleString()}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+              {points.length === 0 && (
+                <p className="text-xs text-gray-500">No competitor, sister or demographic data uploaded for this market yet.</p>
+              )}
+            </>
+          )}
+        </>
+      )}
+
+      <TradeAreaPointsDialog
+        open={uploadOpen}
+        onOpenChange={setUploadOpen}
+        marketId={marketId}
+        onUploaded={() => setReloadKey(key => key + 1)}
+      />
+    </div>
+  )
+}
@@ -0,0 +1,136 @@
+'use client'
+
+import React, { useEffect, useState } from 'react'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { toast } from 'sonner'
+import { DataService } from '@/lib/data-service'
+import { describeError } from '@/lib/errors'
+import { TradeAreaPointKind } from '@/lib/supabase'
+import { TradeAreaPointInput } from '@/lib/repository'
+import { parseTradeAreaPointsCsv } from '@/lib/trade-area'
+
+export const TRADE_AREA_POINT_LABELS: Record<TradeAreaPointKind, string> = {
+  competitor: 'Competitors',
+  sister: 'Sister locations',
+  demographic: 'Demographic points'
+}
+
+// Errors listed before the rest are summed up
+const ERRORS_SHOWN = 5
+
+interface TradeAreaPointsDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  marketId: string
+  onUploaded: () => void
+}
+
+// Replaces a market's competitors, sister locations or demographic points from a CSV
+export function TradeAreaPointsDialog({ open, onOpenChange, marketId, onUploaded }: TradeAreaPointsDialogProps) {
+  const [kind, setKind] = useState<TradeAreaPointKind>('competitor')
+  const [fileName, setFileName] = useState('')
+  const [points, setPoints] = useState<TradeAreaPointInput[]>([])
+  const [errors, setErrors] = useState<string[]>([])
+  const [isSaving, setIsSaving] = useState(false)
+
+  useEffect(() => {
+    if (open) {
+      setFileName('')
+      setPoints([])
+      setErrors([])
+    }
+  }, [open])
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    if (!file) return
+
+    setFileName(file.name)
+    const parsed = parseTradeAreaPointsCsv(await file.text())
+    setPoints(parsed.points)
+    setErrors(parsed.errors)
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setIsSaving(true)
+
+    try {
+      const saved = await DataService.replaceTradeAreaPoints(marketId, kind, points)
+      toast.success(`${saved.length} ${TRADE_AREA_POINT_LABELS[kind].toLowerCase()} uploaded`)
+      onUploaded()
+      onOpenChange(false)
+    } catch (error) {
+      toast.error('Points not uploaded', { description: describeError(error) })
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={isSaving ? undefined : onOpenChange}>
+      <DialogContent className="sm:max-w-[480px]">
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <DialogHeader>
+            <DialogTitle>Upload trade area data</DialogTitle>
+            <DialogDescription>
+              A CSV with name, lat and lng columns, plus a value column for demographic points.
+              Uploading replaces the market&apos;s existing points of that kind.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-2">
+            <Label htmlFor="trade-area-kind">Points</Label>
+            <Select value={kind} onValueChange={(value) => setKind(value as TradeAreaPointKind)} disabled={isSaving}>
+              <SelectTrigger id="trade-area-kind" className="w-full">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(TRADE_AREA_POINT_LABELS) as TradeAreaPointKind[]).map(key => (
+                  <SelectItem key={key} value={key}>{TRADE_AREA_POINT_LABELS[key]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="trade-area-file">File</Label>
+            <Input id="trade-area-file" type="file" accept=".csv,text/csv" onChange={handleFile} disabled={isSaving} />
+          </div>
+
+          {fileName && (
+            <div className="space-y-1 text-sm">
+              <p>{points.length.toLocaleString()} {points.length === 1 ? 'point' : 'points'} read from {fileName}</p>
+              {errors.length > 0 && (
+                <ul className="text-xs text-red-600 space-y-0.5">
+                  {errors.slice(0, ERRORS_SHOWN).map(error => <li key={error}>{error}</li>)}
+                  {errors.length > ERRORS_SHOWN && <li>and {errors.length - ERRORS_SHOWN} more</li>}
+                </ul>
+              )}
+            </div>
+          )}
+
+          <DialogFooter className="gap-2 sm:gap-0">
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)} disabled={isSaving}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isSaving || points.length === 0 || errors.length > 0}>
+              {isSaving ? 'Uploading...' : 'Upload'}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  )
+}
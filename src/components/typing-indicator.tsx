@@ -1,15 +1,17 @@
 'use client'
 
-export function TypingIndicator() {
+import { nameInitials } from '@/lib/market-updates'
+
+export function TypingIndicator({ name }: { name: string }) {
   return (
     <div className="flex justify-start">
       <div className="max-w-[80%]">
         <div className="flex items-center gap-2 mb-1">
           <div className="w-6 h-6 bg-gray-400 rounded-full flex items-center justify-center text-xs font-medium text-white">
-            MP
+            {nameInitials(name)}
           </div>
           <span className="text-xs font-medium text-gray-600">
-            Merida Partners
+            {name}
           </span>
           <span className="text-xs text-gray-400">
             typing...
@@ -7,11 +7,9 @@ import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
 import { Label } from '@/components/ui/label'
 import { MapPin, X, Search, Check } from 'lucide-react'
+import type { Territory } from '@/lib/supabase'
 
-interface Territory {
-  states: string[]
-  counties: Record<string, string[]> // state -> counties
-}
+export type { Territory }
 
 interface TerritorySelectorProps {
   value?: Territory
@@ -180,7 +178,7 @@ export function TerritorySelector({ value, onChange, className }: TerritorySelec
               </Badge>
             </div>
             {getSelectedCount().states > 0 && (
-              <Button variant="outline" size="sm" onClick={clearAll}>
+              <Button type="button" variant="outline" size="sm" onClick={clearAll}>
                 <X className="h-4 w-4 mr-1" />
                 Clear All
               </Button>
@@ -203,6 +201,7 @@ export function TerritorySelector({ value, onChange, className }: TerritorySelec
             {filteredStates.map((state) => (
               <div key={state.code} className="space-y-2">
                 <Button
+                  type="button"
                   variant={selectedStates.includes(state.code) ? "default" : "outline"}
                   size="sm"
                   className="w-full justify-between"
@@ -221,6 +220,7 @@ export function TerritorySelector({ value, onChange, className }: TerritorySelec
                 {selectedStates.includes(state.code) && hasCounties(state.code) && (
                   <div className="ml-4 space-y-1">
                     <Button
+                      type="button"
                       variant="ghost"
                       size="sm"
                       className="h-6 text-xs"
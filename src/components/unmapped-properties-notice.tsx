@@ -0,0 +1,29 @@
+'use client'
+
+import Link from 'next/link'
+import { MapPinOff } from 'lucide-react'
+import { Property } from '@/lib/supabase'
+import { useCurrentUser } from '@/hooks/use-current-user'
+
+// Says how many properties a map is leaving out for lack of coordinates,
+// with a link to fix them for people who can
+export function UnmappedPropertiesNotice({ properties, className = '' }: { properties: Property[]; className?: string }) {
+  const { can } = useCurrentUser()
+  const unmapped = properties.filter(p => p.lat == null || p.lng == null).length
+
+  if (unmapped === 0) return null
+
+  return (
+    <div className={`flex items-center gap-2 text-xs text-amber-700 ${className}`}>
+      <MapPinOff className="h-3.5 w-3.5" />
+      <span>
+        {unmapped} {unmapped === 1 ? 'property isn\'t' : 'properties aren\'t'} on the map
+      </span>
+      {can('properties:edit') && (
+        <Link href="/properties/needs-attention" className="underline hover:text-amber-900">
+          Place them
+        </Link>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,19 @@
+'use client'
+
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar'
+import { MarketUpdate } from '@/lib/supabase'
+import { nameInitials, updateAuthorName } from '@/lib/market-updates'
+
+// The poster's photo, or their initials
+export function UpdateAuthorAvatar({ update, className = 'h-8 w-8' }: { update: MarketUpdate; className?: string }) {
+  const name = updateAuthorName(update)
+
+  return (
+    <Avatar className={`shrink-0 ${className}`}>
+      {update.author_profile?.avatar_url && <AvatarImage src={update.author_profile.avatar_url} alt={name} />}
+      <AvatarFallback className="text-xs font-medium" style={{ backgroundColor: '#e8ecf0', color: '#637484' }}>
+        {nameInitials(name)}
+      </AvatarFallback>
+    </Avatar>
+  )
+}
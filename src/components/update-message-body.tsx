@@ -0,0 +1,114 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { FileText } from 'lucide-react'
+import { DataService } from '@/lib/data-service'
+import { formatFileSize } from '@/lib/documents'
+import { MarketUpdate, Property, UpdateAuthor } from '@/lib/supabase'
+import { isImageAttachment, mentionName, splitMentions, splitPropertyReferences } from '@/lib/market-updates'
+
+interface UpdateMessageBodyProps {
+  update: MarketUpdate
+  // People linked to the market, to highlight mentions of
+  people?: UpdateAuthor[]
+  // The market's properties; "#3" and "site 3" link to them when given
+  properties?: Property[]
+  onPropertyClick?: (property: Property) => void
+}
+
+// Signed links to the update's attachments, once they've loaded
+function useAttachmentUrls(update: MarketUpdate) {
+  const [urls, setUrls] = useState<Record<string, string>>({})
+
+  useEffect(() => {
+    if (update.attachments.length === 0) return
+
+    let cancelled = false
+    Promise.all(update.attachments.map(async attachment => {
+      try {
+        return [attachment.path, await DataService.getUpdateAttachmentUrl(update, attachment)] as const
+      } catch (error) {
+        console.warn('Error loading attachment:', error)
+        return null
+      }
+    })).then(results => {
+      if (!cancelled) setUrls(Object.fromEntries(results.filter(result => result !== null)))
+    })
+
+    return () => {
+      cancelled = true
+    }
+  }, [update])
+
+  return urls
+}
+
+function UpdateAttachments({ update }: { update: MarketUpdate }) {
+  const urls = useAttachmentUrls(update)
+  const images = update.attachments.filter(isImageAttachment)
+  const files = update.attachments.filter(attachment => !isImageAttachment(attachment))
+
+  return (
+    <div className="mt-2 space-y-2">
+      {images.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {images.map(image => urls[image.path] ? (
+            <a key={image.path} href={urls[image.path]} target="_blank" rel="noopener noreferrer" title={image.file_name}>
+              <img src={urls[image.path]} alt={image.file_name} className="h-20 w-20 rounded border object-cover" />
+            </a>
+          ) : (
+            <div key={image.path} className="h-20 w-20 rounded border bg-gray-100" title={image.file_name} />
+          ))}
+        </div>
+      )}
+      {files.map(file => (
+        <a
+          key={file.path}
+          href={urls[file.path]}
+          target="_blank"
+          rel="noopener noreferrer"
+          className={`flex w-fit items-center gap-2 text-xs text-[#637484] hover:text-[#4a5a6b] ${urls[file.path] ? '' : 'pointer-events-none opacity-50'}`}
+        >
+          <FileText className="h-4 w-4 shrink-0" />
+          <span className="truncate">{file.file_name}</span>
+          <span className="text-gray-400">{formatFileSize(file.size_bytes)}</span>
+        </a>
+      ))}
+    </div>
+  )
+}
+
+// An update's text, with mentions highlighted and property references linked,
+// followed by its attachments
+export function UpdateMessageBody({ update, people = [], properties = [], onPropertyClick }: UpdateMessageBodyProps) {
+  const names = people.filter(person => update.mentions.includes(person.id)).map(mentionName)
+  const byNumber = new Map(properties.filter(p => p.display_number).map(p => [p.display_number, p]))
+
+  return (
+    <>
+      <p className="text-sm text-gray-700 leading-relaxed whitespace-pre-wrap">
+        {splitMentions(update.message, names).map((part, index) => part.mention
+          ? <span key={index} className="font-medium text-[#637484]">{part.text}</span>
+          : splitPropertyReferences(part.text).map((piece, pieceIndex) => {
+            const property = piece.propertyNumber ? byNumber.get(piece.propertyNumber) : undefined
+            if (!property || !onPropertyClick) return <span key={`${index}-${pieceIndex}`}>{piece.text}</span>
+            return (
+              <button
+                key={`${index}-${pieceIndex}`}
+                type="button"
+                onClick={(e) => {
+                  e.stopPropagation()
+                  onPropertyClick(property)
+                }}
+                className="font-medium text-[#637484] underline decoration-dotted underline-offset-2 hover:text-[#4a5a6b]"
+                title={property.title || property.address_line || `Site ${piece.propertyNumber}`}
+              >
+                {piece.text}
+              </button>
+            )
+          }))}
+      </p>
+      {update.attachments.length > 0 && <UpdateAttachments update={update} />}
+    </>
+  )
+}
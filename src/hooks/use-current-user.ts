@@ -0,0 +1,38 @@
+import * as React from "react"
+import { DataService } from "@/lib/data-service"
+import { PortalUser } from "@/lib/supabase"
+import { hasPermission, Permission } from "@/lib/roles"
+import { useSession } from "@/hooks/use-session"
+
+export function useCurrentUser() {
+  const { user: authUser, loading: sessionLoading } = useSession()
+  const [user, setUser] = React.useState<PortalUser | null>(null)
+  const [loading, setLoading] = React.useState(true)
+
+  React.useEffect(() => {
+    if (sessionLoading) return
+
+    let cancelled = false
+    setLoading(true)
+
+    DataService.getCurrentUser()
+      .catch(() => null)
+      .then(profile => {
+        if (!cancelled) {
+          setUser(profile)
+          setLoading(false)
+        }
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [authUser?.id, sessionLoading])
+
+  const can = React.useCallback(
+    (permission: Permission) => hasPermission(user?.role, permission),
+    [user?.role]
+  )
+
+  return { user, role: user?.role ?? null, can, loading }
+}
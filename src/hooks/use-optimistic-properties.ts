@@ -0,0 +1,104 @@
+import * as React from "react"
+import { DataService } from "@/lib/data-service"
+import { PropertyInput } from "@/lib/repository"
+import { Property } from "@/lib/supabase"
+
+// Property list with optimistic writes. Writes show up straight away and are
+// kept on top of whatever the server returns until they settle, so a realtime
+// refetch that lands mid-save doesn't flicker the old row back. When a write
+// fails its pending change is dropped and the list falls back to the server copy.
+
+type PendingChange =
+  | { kind: "create"; property: Property }
+  | { kind: "update"; id: string; changes: Partial<Property> }
+  | { kind: "delete"; id: string }
+
+// Property IDs for rows that only exist locally until the create settles
+export const PENDING_PROPERTY_PREFIX = "pending-"
+
+function upsert(properties: Property[], property: Property) {
+  return properties.some(p => p.id === property.id)
+    ? properties.map(p => (p.id === property.id ? property : p))
+    : [property, ...properties]
+}
+
+function applyPending(properties: Property[], changes: PendingChange[]) {
+  return changes.reduce((list, change) => {
+    switch (change.kind) {
+      case "create": return [change.property, ...list]
+      case "update": return list.map(p => (p.id === change.id ? { ...p, ...change.changes } : p))
+      case "delete": return list.filter(p => p.id !== change.id)
+    }
+  }, properties)
+}
+
+export function useOptimisticProperties() {
+  const [serverProperties, setServerProperties] = React.useState<Property[]>([])
+  const [pending, setPending] = React.useState<[string, PendingChange][]>([])
+
+  const properties = React.useMemo(
+    () => applyPending(serverProperties, pending.map(([, change]) => change)),
+    [serverProperties, pending]
+  )
+
+  // Run a write with a change applied until it settles
+  const withPending = React.useCallback(async <T,>(change: PendingChange, write: () => Promise<T>, settle: (result: T) => void) => {
+    const key = crypto.randomUUID()
+    setPending(current => [...current, [key, change]])
+
+    try {
+      const result = await write()
+      settle(result)
+      return result
+    } finally {
+      setPending(current => current.filter(([k]) => k !== key))
+    }
+  }, [])
+
+  const createProperty = React.useCallback((input: PropertyInput) => {
+    const now = new Date().toISOString()
+    const placeholder: Property = {
+      ...input,
+      id: `${PENDING_PROPERTY_PREFIX}${crypto.randomUUID()}`,
+      created_at: now,
+      updated_at: now
+    }
+
+    return withPending(
+      { kind: "create", property: placeholder },
+      () => DataService.createProperty(input),
+      saved => setServerProperties(current => upsert(current, saved))
+    )
+  }, [withPending])
+
+  const updateProperty = React.useCallback((id: string, changes: Partial<PropertyInput>, options?: { phaseReason?: string | null }) => {
+    return withPending(
+      { kind: "update", id, changes },
+      () => DataService.updateProperty(id, changes, options),
+      saved => setServerProperties(current => upsert(current, saved))
+    )
+  }, [withPending])
+
+  const deleteProperty = React.useCallback((id: string) => {
+    return withPending(
+      { kind: "delete", id },
+      () => DataService.deleteProperty(id),
+      () => setServerProperties(current => current.filter(p => p.id !== id))
+    )
+  }, [withPending])
+
+  const restoreProperty = React.useCallback(async (id: string) => {
+    const restored = await DataService.restoreProperty(id)
+    setServerProperties(current => upsert(current, restored))
+    return restored
+  }, [])
+
+  return {
+    properties,
+    setServerProperties,
+    createProperty,
+    updateProperty,
+    deleteProperty,
+    restoreProperty
+  }
+}
@@ -0,0 +1,28 @@
+import * as React from "react"
+import { DataService } from "@/lib/data-service"
+import { DEFAULT_PHASE_CATALOG, PhaseCatalog } from "@/lib/phases"
+
+// The active client's deal phases. Starts on the default pipeline so labels
+// render straight away, then switches once the client's own has loaded.
+export function usePhases(): PhaseCatalog {
+  const [phases, setPhases] = React.useState<PhaseCatalog>(DEFAULT_PHASE_CATALOG)
+
+  React.useEffect(() => {
+    let cancelled = false
+
+    DataService.getPhaseCatalog()
+      .then(catalog => {
+        if (!cancelled) setPhases(catalog)
+      })
+      .catch(error => {
+        // Labels fall back to the default pipeline; DataService still checks writes
+        console.warn("Error loading deal phases:", error)
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [])
+
+  return phases
+}
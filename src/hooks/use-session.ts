@@ -0,0 +1,25 @@
+import * as React from "react"
+import { AuthUser, getRepository } from "@/lib/repository"
+
+export function useSession() {
+  const [user, setUser] = React.useState<AuthUser | null>(null)
+  const [loading, setLoading] = React.useState(true)
+
+  React.useEffect(() => {
+    const repository = getRepository()
+
+    repository.getSignedInUser().then(signedInUser => {
+      setUser(signedInUser)
+      setLoading(false)
+    })
+
+    const unsubscribe = repository.onAuthStateChange(newUser => {
+      setUser(newUser)
+      setLoading(false)
+    })
+
+    return unsubscribe
+  }, [])
+
+  return { user, loading }
+}
@@ -0,0 +1,382 @@
+import * as React from "react"
+import mapboxgl from "mapbox-gl"
+import type { Feature, FeatureCollection } from "geojson"
+import { TerritoryPolygon } from "@/lib/supabase"
+import { Position, openRing, toTerritoryPolygon, validateTerritoryPolygon } from "@/lib/territory"
+
+// Edit mode for a market's territory polygon on a Mapbox map. Click to place
+// points of a new boundary or hole, drag a vertex to move it, drag the dot in
+// the middle of an edge to add a vertex there, right-click a vertex to remove it.
+
+const SOURCE_ID = "territory-edit"
+const FILL_LAYER = "territory-edit-fill"
+const LINE_LAYER = "territory-edit-line"
+const MIDPOINT_LAYER = "territory-edit-midpoints"
+const VERTEX_LAYER = "territory-edit-vertices"
+
+export type DrawingKind = "boundary" | "hole"
+
+interface EditState {
+  // Open rings: the boundary first, then holes
+  rings: Position[][]
+  // Ring being placed point by point, not yet part of the polygon
+  drawing: { kind: DrawingKind; points: Position[] } | null
+}
+
+type HandleKind = "vertex" | "midpoint" | "drawing"
+
+function buildFeatures({ rings, drawing }: EditState): FeatureCollection {
+  const features: Feature[] = []
+  const complete = rings.filter(ring => ring.length >= 3)
+
+  if (complete.length > 0 && rings[0].length >= 3) {
+    features.push({ ...toTerritoryPolygon(complete), properties: {} })
+  }
+
+  rings.forEach((ring, ringIndex) => {
+    ring.forEach((point, index) => {
+      features.push({
+        type: "Feature",
+        geometry: { type: "Point", coordinates: point },
+        properties: { kind: "vertex", ring: ringIndex, index }
+      })
+
+      const next = ring[(index + 1) % ring.length]
+      if (ring.length >= 3 || index < ring.length - 1) {
+        features.push({
+          type: "Feature",
+          geometry: { type: "Point", coordinates: [(point[0] + next[0]) / 2, (point[1] + next[1]) / 2] },
+          properties: { kind: "midpoint", ring: ringIndex, index }
+        })
+      }
+    })
+  })
+
+  if (drawing) {
+    if (drawing.points.length >= 2) {
+      features.push({
+        type: "Feature",
+        geometry: { type: "LineString", coordinates: drawing.points },
+        properties: {}
+      })
+    }
+    drawing.points.forEach((point, index) => {
+      features.push({
+        type: "Feature",
+        geometry: { type: "Point", coordinates: point },
+        properties: { kind: "drawing", ring: -1, index }
+      })
+    })
+  }
+
+  return { type: "FeatureCollection", features }
+}
+
+function addEditLayers(map: mapboxgl.Map, data: FeatureCollection) {
+  if (map.getSource(SOURCE_ID)) return
+
+  map.addSource(SOURCE_ID, { type: "geojson", data })
+  map.addLayer({
+    id: FILL_LAYER,
+    type: "fill",
+    source: SOURCE_ID,
+    filter: ["==", ["geometry-type"], "Polygon"],
+    paint: { "fill-color": "#637484", "fill-opacity": 0.15 }
+  })
+  map.addLayer({
+    id: LINE_LAYER,
+    type: "line",
+    source: SOURCE_ID,
+    filter: ["in", ["geometry-type"], ["literal", ["Polygon", "LineString"]]],
+    paint: { "line-color": "#637484", "line-width": 2 }
+  })
+  map.addLayer({
+    id: MIDPOINT_LAYER,
+    type: "circle",
+    source: SOURCE_ID,
+    filter: ["==", ["get", "kind"], "midpoint"],
+    paint: {
+      "circle-radius": 4,
+      "circle-color": "#ffffff",
+      "circle-stroke-color": "#637484",
+      "circle-stroke-width": 1.5
+    }
+  })
+  map.addLayer({
+    id: VERTEX_LAYER,
+    type: "circle",
+    source: SOURCE_ID,
+    filter: ["in", ["get", "kind"], ["literal", ["vertex", "drawing"]]],
+    paint: {
+      "circle-radius": 6,
+      "circle-color": "#fbbf24",
+      "circle-stroke-color": "#ffffff",
+      "circle-stroke-width": 2
+    }
+  })
+}
+
+function removeEditLayers(map: mapboxgl.Map) {
+  for (const layer of [VERTEX_LAYER, MIDPOINT_LAYER, LINE_LAYER, FILL_LAYER]) {
+    if (map.getLayer(layer)) map.removeLayer(layer)
+  }
+  if (map.getSource(SOURCE_ID)) map.removeSource(SOURCE_ID)
+}
+
+function handleProps(feature: mapboxgl.GeoJSONFeature | undefined) {
+  const props = feature?.properties as { kind: HandleKind; ring: number; index: number } | undefined
+  return props?.kind ? props : null
+}
+
+// Drop repeated clicks on the same spot (a double-click places two points)
+function dedupe(points: Position[]): Position[] {
+  return points.filter((point, i) => i === 0 || point[0] !== points[i - 1][0] || point[1] !== points[i - 1][1])
+}
+
+export function useTerritoryEditor(map: React.RefObject<mapboxgl.Map | null>, isLoaded: boolean) {
+  const [edit, setEdit] = React.useState<EditState | null>(null)
+  const editRef = React.useRef<EditState | null>(null)
+  const dragRef = React.useRef<{ ring: number; index: number } | null>(null)
+
+  React.useEffect(() => {
+    editRef.current = edit
+  }, [edit])
+
+  const isEditing = edit !== null
+
+  const start = React.useCallback((territory?: TerritoryPolygon | null) => {
+    const rings = (territory?.geometry.coordinates || []).map(openRing)
+    setEdit({ rings, drawing: rings.length === 0 ? { kind: "boundary", points: [] } : null })
+
+    // Bring the whole territory into view
+    if (map.current && rings[0]?.length) {
+      const bounds = new mapboxgl.LngLatBounds()
+      rings[0].forEach(point => bounds.extend(point))
+      map.current.fitBounds(bounds, { padding: 40, maxZoom: 13 })
+    }
+  }, [map])
+
+  const stop = React.useCallback(() => {
+    dragRef.current = null
+    setEdit(null)
+  }, [])
+
+  const startDrawing = React.useCallback((kind: DrawingKind) => {
+    setEdit(current => current && { ...current, drawing: { kind, points: [] } })
+  }, [])
+
+  const cancelDrawing = React.useCallback(() => {
+    setEdit(current => current && { ...current, drawing: null })
+  }, [])
+
+  const undoPoint = React.useCallback(() => {
+    setEdit(current => current?.drawing
+      ? { ...current, drawing: { ...current.drawing, points: current.drawing.points.slice(0, -1) } }
+      : current)
+  }, [])
+
+  // A new boundary replaces the whole polygon; a hole is added to it
+  const finishDrawing = React.useCallback(() => {
+    setEdit(current => {
+      if (!current?.drawing) return current
+
+      const points = dedupe(current.drawing.points)
+      if (points.length < 3) return current
+
+      return {
+        rings: current.drawing.kind === "boundary" ? [points] : [...current.rings, points],
+        drawing: null
+      }
+    })
+  }, [])
+
+  // Keep the map in step with the edit state
+  React.useEffect(() => {
+    const mapInstance = map.current
+    if (!mapInstance || !isLoaded || !edit) return
+
+    const source = mapInstance.getSource(SOURCE_ID) as mapboxgl.GeoJSONSource | undefined
+    if (source) {
+      source.setData(buildFeatures(edit))
+    } else {
+      addEditLayers(mapInstance, buildFeatures(edit))
+    }
+  }, [map, isLoaded, edit])
+
+  // Mouse handling, registered once per editing session
+  React.useEffect(() => {
+    const mapInstance = map.current
+    if (!mapInstance || !isLoaded || !isEditing) return
+
+    const canvas = mapInstance.getCanvas()
+
+    const handleMouseDown = (e: mapboxgl.MapLayerMouseEvent) => {
+      const props = handleProps(e.features?.[0])
+      if (!props || props.kind === "drawing" || editRef.current?.drawing) return
+
+      e.preventDefault()
+      mapInstance.dragPan.disable()
+      canvas.style.cursor = "grabbing"
+
+      if (props.kind === "midpoint") {
+        // Split the edge and drag the new vertex
+        const point: Position = [e.lngLat.lng, e.lngLat.lat]
+        setEdit(current => current && {
+          ...current,
+          rings: current.rings.map((ring, i) => i === props.ring
+            ? [...ring.slice(0, props.index + 1), point, ...ring.slice(props.index + 1)]
+            : ring)
+        })
+        dragRef.current = { ring: props.ring, index: props.index + 1 }
+      } else {
+        dragRef.current = { ring: props.ring, index: props.index }
+      }
+    }
+
+    const handleMouseMove = (e: mapboxgl.MapMouseEvent) => {
+      const drag = dragRef.current
+      if (!drag) return
+
+      const point: Position = [e.lngLat.lng, e.lngLat.lat]
+      setEdit(current => current && {
+        ...current,
+        rings: current.rings.map((ring, i) => i === drag.ring
+          ? ring.map((p, j) => (j === drag.index ? point : p))
+          : ring)
+      })
+    }
+
+    const handleMouseUp = () => {
+      if (!dragRef.current) return
+      dragRef.current = null
+      mapInstance.dragPan.enable()
+      canvas.style.cursor = ""
+    }
+
+    const handleClick = (e: mapboxgl.MapMouseEvent) => {
+      const drawing = editRef.current?.drawing
+      if (!drawing) return
+
+      // Clicking the first point closes the ring
+      const [hit] = mapInstance.queryRenderedFeatures(e.point, { layers: [VERTEX_LAYER] })
+      const props = handleProps(hit)
+      if (props?.kind === "drawing" && props.index === 0 && drawing.points.length >= 3) {
+        finishDrawing()
+        return
+      }
+
+      const point: Position = [e.lngLat.lng, e.lngLat.lat]
+      setEdit(current => current?.drawing
+        ? { ...current, drawing: { ...current.drawing, points: [...current.drawing.points, point] } }
+        : current)
+    }
+
+    const handleDoubleClick = (e: mapboxgl.MapMouseEvent) => {
+      if (!editRef.current?.drawing) return
+      e.preventDefault()
+      finishDrawing()
+    }
+
+    // Remove a vertex; a hole left with fewer than 3 points goes altogether
+    const handleContextMenu = (e: mapboxgl.MapLayerMouseEvent) => {
+      const props = handleProps(e.features?.[0])
+      if (!props || props.kind !== "vertex") return
+
+      setEdit(current => {
+        if (!current) return current
+        const ring = current.rings[props.ring]
+        if (ring.length > 3) {
+          return {
+            ...current,
+            rings: current.rings.map((r, i) => (i === props.ring ? r.filter((_, j) => j !== props.index) : r))
+          }
+        }
+        return props.ring > 0
+          ? { ...current, rings: current.rings.filter((_, i) => i !== props.ring) }
+          : current
+      })
+    }
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!editRef.current?.drawing) return
+      if (e.key === "Enter") finishDrawing()
+      if (e.key === "Escape") cancelDrawing()
+    }
+
+    const setPointer = () => {
+      if (!dragRef.current) canvas.style.cursor = "pointer"
+    }
+    const clearPointer = () => {
+      if (!dragRef.current) canvas.style.cursor = ""
+    }
+
+    // setStyle (the satellite toggle) drops our layers; put them back
+    const handleStyleLoad = () => {
+      if (editRef.current) addEditLayers(mapInstance, buildFeatures(editRef.current))
+    }
+
+    mapInstance.doubleClickZoom.disable()
+    mapInstance.on("mousedown", VERTEX_LAYER, handleMouseDown)
+    mapInstance.on("mousedown", MIDPOINT_LAYER, handleMouseDown)
+    mapInstance.on("contextmenu", VERTEX_LAYER, handleContextMenu)
+    mapInstance.on("mouseenter", VERTEX_LAYER, setPointer)
+    mapInstance.on("mouseenter", MIDPOINT_LAYER, setPointer)
+    mapInstance.on("mouseleave", VERTEX_LAYER, clearPointer)
+    mapInstance.on("mouseleave", MIDPOINT_LAYER, clearPointer)
+    mapInstance.on("mousemove", handleMouseMove)
+    mapInstance.on("mouseup", handleMouseUp)
+    mapInstance.on("click", handleClick)
+    mapInstance.on("dblclick", handleDoubleClick)
+    mapInstance.on("style.load", handleStyleLoad)
+    window.addEventListener("keydown", handleKeyDown)
+
+    return () => {
+      window.removeEventListener("keydown", handleKeyDown)
+      mapInstance.off("mousedown", VERTEX_LAYER, handleMouseDown)
+      mapInstance.off("mousedown", MIDPOINT_LAYER, handleMouseDown)
+      mapInstance.off("contextmenu", VERTEX_LAYER, handleContextMenu)
+      mapInstance.off("mouseenter", VERTEX_LAYER, setPointer)
+      mapInstance.off("mouseenter", MIDPOINT_LAYER, setPointer)
+      mapInstance.off("mouseleave", VERTEX_LAYER, clearPointer)
+      mapInstance.off("mouseleave", MIDPOINT_LAYER, clearPointer)
+      mapInstance.off("mousemove", handleMouseMove)
+      mapInstance.off("mouseup", handleMouseUp)
+      mapInstance.off("click", handleClick)
+      mapInstance.off("dblclick", handleDoubleClick)
+      mapInstance.off("style.load", handleStyleLoad)
+      mapInstance.doubleClickZoom.enable()
+      mapInstance.dragPan.enable()
+      canvas.style.cursor = ""
+
+      try {
+        removeEditLayers(mapInstance)
+      } catch (error) {
+        console.warn("Error removing territory editor layers:", error)
+      }
+    }
+  }, [map, isLoaded, isEditing, finishDrawing, cancelDrawing])
+
+  const polygon = React.useMemo(
+    () => (edit && edit.rings.length > 0 ? toTerritoryPolygon(edit.rings) : null),
+    [edit]
+  )
+
+  const problems = React.useMemo(
+    () => (polygon ? validateTerritoryPolygon(polygon) : ["Draw a boundary before saving"]),
+    [polygon]
+  )
+
+  return {
+    isEditing,
+    drawing: edit?.drawing ?? null,
+    holeCount: Math.max((edit?.rings.length ?? 0) - 1, 0),
+    polygon,
+    problems,
+    start,
+    stop,
+    startDrawing,
+    finishDrawing,
+    cancelDrawing,
+    undoPoint
+  }
+}
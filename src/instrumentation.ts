@@ -0,0 +1,6 @@
+import { loadConfig } from '@/lib/config'
+
+// Runs once when the server starts: refuse to boot with a broken environment
+export function register() {
+  loadConfig()
+}
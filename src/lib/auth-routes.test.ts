@@ -0,0 +1,37 @@
+import { describe, expect, it } from 'vitest'
+import { DEFAULT_REDIRECT, isProtectedRoute, safeRedirectPath } from './auth-routes'
+
+describe('safeRedirectPath', () => {
+  it('keeps paths inside the app', () => {
+    expect(safeRedirectPath('/markets/42')).toBe('/markets/42')
+    expect(safeRedirectPath('/map?phase=lease#list')).toBe('/map?phase=lease#list')
+  })
+
+  it('falls back to the dashboard when there is nothing to go back to', () => {
+    expect(safeRedirectPath(null)).toBe(DEFAULT_REDIRECT)
+    expect(safeRedirectPath(undefined)).toBe(DEFAULT_REDIRECT)
+    expect(safeRedirectPath('')).toBe(DEFAULT_REDIRECT)
+  })
+
+  it.each([
+    'https://evil.com',
+    'evil.com',
+    '//evil.com',
+    '/\\evil.com',
+    '\\\\evil.com',
+    '/\t/evil.com',
+    '/\n/evil.com',
+    'javascript:alert(1)',
+  ])('rejects %j', path => {
+    expect(safeRedirectPath(path)).toBe(DEFAULT_REDIRECT)
+  })
+})
+
+describe('isProtectedRoute', () => {
+  it('covers each protected section and its pages', () => {
+    expect(isProtectedRoute('/markets')).toBe(true)
+    expect(isProtectedRoute('/markets/42')).toBe(true)
+    expect(isProtectedRoute('/login')).toBe(false)
+    expect(isProtectedRoute('/marketsx')).toBe(false)
+  })
+})
@@ -0,0 +1,32 @@
+// Route rules shared by middleware and the login flow. Kept free of the
+// Supabase client so the middleware bundle stays small.
+
+// Routes that require a signed-in user - enforced by src/middleware.ts
+export const PROTECTED_ROUTES = ['/dashboard', '/markets', '/properties', '/map', '/analytics', '/chat']
+
+export const LOGIN_ROUTE = '/login'
+export const DEFAULT_REDIRECT = '/dashboard'
+
+export function isProtectedRoute(pathname: string): boolean {
+  return PROTECTED_ROUTES.some(route => pathname === route || pathname.startsWith(`${route}/`))
+}
+
+// Stand-in origin for checking where a path resolves
+const REDIRECT_BASE = 'https://app.invalid'
+
+// Only allow redirects back into the app, never to another origin. Browsers
+// treat backslashes as slashes and drop tabs and newlines, so /\evil.com
+// and a tab-split //evil.com would leave the app. The path must also resolve
+// to our own origin.
+export function safeRedirectPath(path: string | null | undefined): string {
+  if (!path || !path.startsWith('/') || path.startsWith('//') || /[\\\x00-\x1f\x7f]/.test(path)) {
+    return DEFAULT_REDIRECT
+  }
+
+  try {
+    if (new URL(path, REDIRECT_BASE).origin !== REDIRECT_BASE) return DEFAULT_REDIRECT
+  } catch {
+    return DEFAULT_REDIRECT
+  }
+  return path
+}
@@ -0,0 +1,57 @@
+import { getSupabaseClient } from './supabase'
+import { config } from './config'
+import { DEFAULT_REDIRECT, safeRedirectPath } from './auth-routes'
+
+export interface AuthResult {
+  error: string | null
+}
+
+export class AuthService {
+
+  // Sign in with email and password
+  static async signInWithPassword(email: string, password: string): Promise<AuthResult> {
+    const { error } = await getSupabaseClient().auth.signInWithPassword({ email, password })
+
+    if (error) {
+      console.error('Error signing in:', error)
+      return { error: error.message }
+    }
+
+    return { error: null }
+  }
+
+  // Send a magic link that lands on /auth/callback and then continues to redirectTo
+  static async signInWithMagicLink(email: string, redirectTo: string = DEFAULT_REDIRECT): Promise<AuthResult> {
+    const callbackUrl = new URL('/auth/callback', window.location.origin)
+    callbackUrl.searchParams.set('next', safeRedirectPath(redirectTo))
+
+    const { error } = await getSupabaseClient().auth.signInWithOtp({
+      email,
+      options: {
+        emailRedirectTo: callbackUrl.toString(),
+        shouldCreateUser: false
+      }
+    })
+
+    if (error) {
+      console.error('Error sending magic link:', error)
+      return { error: error.message }
+    }
+
+    return { error: null }
+  }
+
+  static async signOut(): Promise<AuthResult> {
+    // The local backend has a fixed demo user and nothing to sign out of
+    if (config.dataBackend === 'local') return { error: null }
+
+    const { error } = await getSupabaseClient().auth.signOut()
+
+    if (error) {
+      console.error('Error signing out:', error)
+      return { error: error.message }
+    }
+
+    return { error: null }
+  }
+}
@@ -0,0 +1,111 @@
+import type { Property } from './supabase'
+import { formatCost, LeaseTerms, OccupancyCost, ScorecardEntry, SCORECARD_METRICS } from './occupancy-cost'
+
+// One-page handout of a site comparison for the franchisee's decision
+// meeting. jsPDF is loaded on demand so it stays out of the page bundle.
+
+export interface ComparisonSite {
+  property: Property
+  phaseLabel: string
+  terms: LeaseTerms
+  cost: OccupancyCost
+  scorecard?: ScorecardEntry
+}
+
+const PAGE_MARGIN = 40
+const LABEL_WIDTH = 150
+const ROW_HEIGHT = 18
+
+function siteName(property: Property) {
+  return property.title || property.address_line || 'Untitled Property'
+}
+
+// [row label, one value per site]; null labels start a new section
+function comparisonRows(sites: ComparisonSite[]): [string, string[] | null][] {
+  const value = (format: (site: ComparisonSite) => string) => sites.map(format)
+
+  return [
+    ['Address', value(({ property }) => [property.address_line, property.city, property.state].filter(Boolean).join(', ') || 'n/a')],
+    ['Phase', value(site => site.phaseLabel)],
+    ['Size', value(({ cost }) => cost.sizeSqft ? `${cost.sizeSqft.toLocaleString()} SF` : 'n/a')],
+    ['Base rent', value(({ property }) => property.base_rent_psf != null ? formatCost(property.base_rent_psf, { perSqft: true }) : 'n/a')],
+    ['Expenses', value(({ property }) => property.expenses_psf != null ? formatCost(property.expenses_psf, { perSqft: true }) : 'n/a')],
+    ['Lease terms', null],
+    ['Term', value(({ terms }) => `${terms.termYears} years`)],
+    ['Escalation', value(({ terms }) => `${terms.escalationPct}% / year`)],
+    ['TI allowance', value(({ terms }) => formatCost(terms.tiAllowancePsf, { perSqft: true }))],
+    ['Free rent', value(({ terms }) => `${terms.freeRentMonths} months`)],
+    ['Occupancy cost', null],
+    ['Annual, year one', value(({ cost }) => formatCost(cost.annualTotal))],
+    ['Monthly, year one', value(({ cost }) => formatCost(cost.monthlyTotal))],
+    ['Free rent value', value(({ cost }) => formatCost(cost.freeRentValue))],
+    ['TI allowance', value(({ cost }) => formatCost(cost.tiAllowance))],
+    ['Net cost over term', value(({ cost }) => formatCost(cost.netTermCost))],
+    ['Effective rent', value(({ cost }) => formatCost(cost.effectiveAnnualPsf, { perSqft: true }))],
+    ['Effective monthly', value(({ cost }) => formatCost(cost.effectiveMonthly))],
+    ['Scorecard', null],
+    ...SCORECARD_METRICS.map(metric => [
+      metric.label,
+      value(({ cost, scorecard }) => cost.complete && scorecard ? `#${scorecard.ranks[metric.key]}` : 'Missing size or rent')
+    ] as [string, string[]]),
+    ['Overall rank', value(({ cost, scorecard }) => cost.complete && scorecard ? `#${scorecard.overallRank}` : 'n/a')]
+  ]
+}
+
+export async function exportComparisonPdf({ marketName, sites }: { marketName: string; sites: ComparisonSite[] }) {
+  const { jsPDF } = await import('jspdf')
+  const doc = new jsPDF({ orientation: 'landscape', unit: 'pt', format: 'letter' })
+  const pageWidth = doc.internal.pageSize.getWidth()
+  const pageHeight = doc.internal.pageSize.getHeight()
+  const columnWidth = (pageWidth - PAGE_MARGIN * 2 - LABEL_WIDTH) / Math.max(1, sites.length)
+
+  doc.setFont('helvetica', 'bold')
+  doc.setFontSize(16)
+  doc.text(`Site comparison - ${marketName}`, PAGE_MARGIN, PAGE_MARGIN)
+  doc.setFont('helvetica', 'normal')
+  doc.setFontSize(9)
+  doc.setTextColor(100)
+  doc.text(`Prepared ${new Date().toLocaleDateString()}. Base rent escalates yearly; expenses held at today's rate.`, PAGE_MARGIN, PAGE_MARGIN + 14)
+  doc.setTextColor(0)
+
+  let y = PAGE_MARGIN + 40
+  doc.setFont('helvetica', 'bold')
+  doc.setFontSize(10)
+  sites.forEach((site, i) => {
+    const name = doc.splitTextToSize(siteName(site.property), columnWidth - 8)[0]
+    doc.text(name, PAGE_MARGIN + LABEL_WIDTH + i * columnWidth, y)
+  })
+  y += 6
+  doc.line(PAGE_MARGIN, y, pageWidth - PAGE_MARGIN, y)
+  y += ROW_HEIGHT - 4
+
+  for (const [label, values] of comparisonRows(sites)) {
+    if (y > pageHeight - PAGE_MARGIN) {
+      doc.addPage()
+      y = PAGE_MARGIN
+    }
+
+    if (values === null) {
+      y += 4
+      doc.setFont('helvetica', 'bold')
+      doc.setFontSize(10)
+      doc.text(label, PAGE_MARGIN, y)
+      y += ROW_HEIGHT
+      continue
+    }
+
+    doc.setFont('helvetica', 'normal')
+    doc.setFontSize(9)
+    doc.setTextColor(100)
+    doc.text(label, PAGE_MARGIN, y)
+    doc.setTextColor(0)
+    values.forEach((text, i) => {
+      const fitted = doc.splitTextToSize(text, columnWidth - 8)[0]
+      doc.text(fitted, PAGE_MARGIN + LABEL_WIDTH + i * columnWidth, y)
+    })
+    y += ROW_HEIGHT
+  }
+
+  const fileName = `site-comparison-${marketName.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '')}.pdf`
+  doc.save(fileName)
+}
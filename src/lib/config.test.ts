@@ -0,0 +1,29 @@
+import { describe, expect, it } from 'vitest'
+import { ConfigError, loadConfig } from './config'
+
+const SUPABASE = {
+  NEXT_PUBLIC_SUPABASE_URL: 'https://project.supabase.test',
+  NEXT_PUBLIC_SUPABASE_ANON_KEY: 'anon-key',
+  NEXT_PUBLIC_MAPBOX_ACCESS_TOKEN: 'pk.test',
+}
+
+describe('loadConfig', () => {
+  it('allows the local backend in development', () => {
+    const config = loadConfig({ NEXT_PUBLIC_APP_ENV: 'development', NEXT_PUBLIC_DATA_BACKEND: 'local' })
+
+    expect(config.dataBackend).toBe('local')
+    expect(config.supabase).toBeNull()
+  })
+
+  it.each(['staging', 'production'])('refuses the local backend in %s', profile => {
+    const load = () => loadConfig({ ...SUPABASE, NEXT_PUBLIC_APP_ENV: profile, NEXT_PUBLIC_DATA_BACKEND: 'local' })
+
+    expect(load).toThrow(ConfigError)
+    expect(load).toThrow('NEXT_PUBLIC_DATA_BACKEND=local is only allowed in the development profile')
+  })
+
+  it('defaults built apps to production', () => {
+    expect(() => loadConfig({ ...SUPABASE, NODE_ENV: 'production', NEXT_PUBLIC_DATA_BACKEND: 'local' })).toThrow(ConfigError)
+    expect(loadConfig({ ...SUPABASE, NODE_ENV: 'production' }).profile).toBe('production')
+  })
+})
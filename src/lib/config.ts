@@ -0,0 +1,183 @@
+// Typed, validated settings for the portal. Everything the app needs from the
+// environment is read here, once, and checked before anything else runs;
+// see .env.example for the full list. Kept dependency-free so middleware and
+// instrumentation can import it.
+
+export type AppProfile = 'development' | 'staging' | 'production'
+export type DataBackend = 'supabase' | 'local'
+
+export interface AppConfig {
+  profile: AppProfile
+  dataBackend: DataBackend
+  // null when running on the local backend
+  supabase: { url: string; anonKey: string } | null
+  mapbox: { accessToken: string | null }
+  storage: { flyersBucket: string; photosBucket: string; documentsBucket: string; updateAttachmentsBucket: string }
+  // Server only: hosts /api/image-proxy may fetch from, e.g. "images.example.com" or "*.example.com"
+  imageProxy: { allowedHosts: string[] }
+  // Client to open when the user has no saved choice
+  defaultClientId: string | null
+  // Fixture user the local backend signs in as
+  localUserEmail: string | null
+  features: {
+    chat: boolean
+    realtime: boolean
+  }
+}
+
+export class ConfigError extends Error {
+  constructor(readonly problems: string[]) {
+    super(`Invalid configuration:\n${problems.map(p => `  - ${p}`).join('\n')}\nSee .env.example for the available settings.`)
+    this.name = 'ConfigError'
+  }
+}
+
+export type RawEnv = Record<string, string | undefined>
+
+// NEXT_PUBLIC_ values are inlined into the browser bundle only when they are
+// read with a literal property access, so every variable is listed here.
+function readEnv(): RawEnv {
+  return {
+    NODE_ENV: process.env.NODE_ENV,
+    NEXT_PUBLIC_APP_ENV: process.env.NEXT_PUBLIC_APP_ENV,
+    NEXT_PUBLIC_DATA_BACKEND: process.env.NEXT_PUBLIC_DATA_BACKEND,
+    NEXT_PUBLIC_SUPABASE_URL: process.env.NEXT_PUBLIC_SUPABASE_URL,
+    NEXT_PUBLIC_SUPABASE_ANON_KEY: process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY,
+    NEXT_PUBLIC_MAPBOX_ACCESS_TOKEN: process.env.NEXT_PUBLIC_MAPBOX_ACCESS_TOKEN,
+    NEXT_PUBLIC_STORAGE_FLYERS_BUCKET: process.env.NEXT_PUBLIC_STORAGE_FLYERS_BUCKET,
+    NEXT_PUBLIC_DEFAULT_CLIENT_ID: process.env.NEXT_PUBLIC_DEFAULT_CLIENT_ID,
+    NEXT_PUBLIC_LOCAL_USER_EMAIL: process.env.NEXT_PUBLIC_LOCAL_USER_EMAIL,
+    NEXT_PUBLIC_FEATURE_CHAT: process.env.NEXT_PUBLIC_FEATURE_CHAT,
+    NEXT_PUBLIC_FEATURE_REALTIME: process.env.NEXT_PUBLIC_FEATURE_REALTIME,
+    // Server only, so undefined in the browser
+    IMAGE_PROXY_ALLOWED_HOSTS: process.env.IMAGE_PROXY_ALLOWED_HOSTS,
+  }
+}
+
+// What each profile insists on and defaults to
+const PROFILES: Record<AppProfile, { requireMapbox: boolean; allowLocalBackend: boolean; features: AppConfig['features'] }> = {
+  development: { requireMapbox: false, allowLocalBackend: true, features: { chat: false, realtime: true } },
+  staging: { requireMapbox: true, allowLocalBackend: false, features: { chat: false, realtime: true } },
+  production: { requireMapbox: true, allowLocalBackend: false, features: { chat: false, realtime: true } },
+}
+
+const HOST_PATTERN = /^(\*\.)?[a-z0-9]([a-z0-9-]*[a-z0-9])?(\.[a-z0-9]([a-z0-9-]*[a-z0-9])?)*$/
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+
+function value(env: RawEnv, name: string): string | null {
+  const raw = env[name]?.trim()
+  return raw ? raw : null
+}
+
+function parseBoolean(env: RawEnv, name: string, fallback: boolean, problems: string[]): boolean {
+  const raw = value(env, name)
+  if (raw === null) return fallback
+  if (['true', '1', 'on'].includes(raw.toLowerCase())) return true
+  if (['false', '0', 'off'].includes(raw.toLowerCase())) return false
+
+  problems.push(`${name} must be true or false (got "${raw}")`)
+  return fallback
+}
+
+export function loadConfig(env: RawEnv = readEnv()): AppConfig {
+  const problems: string[] = []
+
+  const profileValue = value(env, 'NEXT_PUBLIC_APP_ENV') ?? (env.NODE_ENV === 'production' ? 'production' : 'development')
+  if (!(profileValue in PROFILES)) {
+    problems.push(`NEXT_PUBLIC_APP_ENV must be one of ${Object.keys(PROFILES).join(', ')} (got "${profileValue}")`)
+  }
+  const profile = (profileValue in PROFILES ? profileValue : 'development') as AppProfile
+  const rules = PROFILES[profile]
+
+  const backendValue = value(env, 'NEXT_PUBLIC_DATA_BACKEND') ?? 'supabase'
+  if (backendValue !== 'supabase' && backendValue !== 'local') {
+    problems.push(`NEXT_PUBLIC_DATA_BACKEND must be "supabase" or "local" (got "${backendValue}")`)
+  }
+  const dataBackend: DataBackend = backendValue === 'local' ? 'local' : 'supabase'
+  if (dataBackend === 'local' && !rules.allowLocalBackend) {
+    problems.push(`NEXT_PUBLIC_DATA_BACKEND=local is only allowed in the development profile (got ${profile})`)
+  }
+
+  let supabase: AppConfig['supabase'] = null
+  if (dataBackend === 'supabase') {
+    const url = value(env, 'NEXT_PUBLIC_SUPABASE_URL')
+    const anonKey = value(env, 'NEXT_PUBLIC_SUPABASE_ANON_KEY')
+
+    if (!url) {
+      problems.push('NEXT_PUBLIC_SUPABASE_URL is required (Project Settings > API in the Supabase dashboard)')
+    } else if (!/^https?:\/\/[^/]+/.test(url)) {
+      problems.push(`NEXT_PUBLIC_SUPABASE_URL must be an http(s) URL (got "${url}")`)
+    }
+    if (!anonKey) {
+      problems.push('NEXT_PUBLIC_SUPABASE_ANON_KEY is required (Project Settings > API in the Supabase dashboard)')
+    }
+
+    if (url && anonKey) {
+      supabase = { url: url.replace(/\/+$/, ''), anonKey }
+    }
+  }
+
+  const mapboxToken = value(env, 'NEXT_PUBLIC_MAPBOX_ACCESS_TOKEN')
+  if (!mapboxToken && rules.requireMapbox) {
+    problems.push(`NEXT_PUBLIC_MAPBOX_ACCESS_TOKEN is required in the ${profile} profile`)
+  } else if (mapboxToken && !mapboxToken.startsWith('pk.')) {
+    problems.push('NEXT_PUBLIC_MAPBOX_ACCESS_TOKEN must be a public token starting with "pk."')
+  }
+
+  const defaultClientId = value(env, 'NEXT_PUBLIC_DEFAULT_CLIENT_ID')
+  if (defaultClientId && !UUID_PATTERN.test(defaultClientId)) {
+    problems.push(`NEXT_PUBLIC_DEFAULT_CLIENT_ID must be a UUID (got "${defaultClientId}")`)
+  }
+
+  // Defaults to the Supabase project, where uploaded photos live
+  const allowedHostsValue = value(env, 'IMAGE_PROXY_ALLOWED_HOSTS')
+  const allowedHosts = allowedHostsValue
+    ? allowedHostsValue.split(',').map(host => host.trim().toLowerCase()).filter(Boolean)
+    : supabase ? [new URL(supabase.url).hostname] : []
+  const badHosts = allowedHosts.filter(host => !HOST_PATTERN.test(host))
+  if (badHosts.length > 0) {
+    problems.push(`IMAGE_PROXY_ALLOWED_HOSTS must be host names like images.example.com or *.example.com (got "${badHosts.join('", "')}")`)
+  }
+
+  const features = {
+    chat: parseBoolean(env, 'NEXT_PUBLIC_FEATURE_CHAT', rules.features.chat, problems),
+    realtime: parseBoolean(env, 'NEXT_PUBLIC_FEATURE_REALTIME', rules.features.realtime, problems),
+  }
+
+  if (problems.length > 0) {
+    throw new ConfigError(problems)
+  }
+
+  return {
+    profile,
+    dataBackend,
+    supabase,
+    mapbox: { accessToken: mapboxToken },
+    storage: {
+      flyersBucket: value(env, 'NEXT_PUBLIC_STORAGE_FLYERS_BUCKET') ?? 'property-flyers',
+      // Fixed: the storage policies in 20261019000600_property_editing.sql name it
+      photosBucket: 'property-photos',
+      // Fixed: the storage policies in 20261019001100_document_library.sql name it
+      documentsBucket: 'market-documents',
+      // Fixed: the storage policies in 20261019001400_update_attachments.sql name it
+      updateAttachmentsBucket: 'update-attachments',
+    },
+    imageProxy: { allowedHosts },
+    defaultClientId,
+    localUserEmail: value(env, 'NEXT_PUBLIC_LOCAL_USER_EMAIL'),
+    features,
+  }
+}
+
+// Loaded on first import, so a bad environment fails at startup rather than
+// on the first request that happens to need the missing value
+export const config = loadConfig()
+
+// Supabase settings, for code that only runs on the Supabase backend
+export function requireSupabaseConfig(): { url: string; anonKey: string } {
+  if (!config.supabase) {
+    throw new ConfigError(['Supabase is not configured because NEXT_PUBLIC_DATA_BACKEND is "local"'])
+  }
+  return config.supabase
+}
@@ -0,0 +1,155 @@
+import { afterEach, describe, expect, it } from 'vitest'
+import { DataService } from './data-service'
+import { NotFoundError } from './errors'
+import { DataRepository, setRepository } from './repository'
+import { LocalRepository } from './repositories/local-repository'
+import { loadFixtureDataset, LocalDataset } from './repositories/fixtures'
+
+// The fixtures with `count` markets for the first client, each with a property,
+// an update and a franchisee
+function datasetWithMarkets(count: number): LocalDataset {
+  const data = loadFixtureDataset()
+  const [market] = data.markets
+  const property = data.properties.find(p => p.market_id === market.id)!
+  const update = data.market_updates.find(u => u.market_id === market.id)!
+  const franchisee = data.market_users.find(link => link.market_id === market.id)!
+
+  data.markets = []
+  data.properties = []
+  data.market_updates = []
+  data.market_users = []
+  for (let index = 0; index < count; index++) {
+    const marketId = crypto.randomUUID()
+    data.markets.push({ ...market, id: marketId, name: `Market ${index + 1}` })
+    data.properties.push({ ...property, id: crypto.randomUUID(), market_id: marketId })
+    data.market_updates.push({ ...update, id: crypto.randomUUID(), market_id: marketId })
+    data.market_users.push({ ...franchisee, market_id: marketId })
+  }
+  return data
+}
+
+// Wraps a repository, counting calls to each method
+function countingRepository(inner: DataRepository) {
+  const calls: Record<string, number> = {}
+  const repository = new Proxy(inner, {
+    get(target, name, receiver) {
+      const value = Reflect.get(target, name, receiver)
+      if (typeof value !== 'function' || typeof name !== 'string') return value
+      return (...args: unknown[]) => {
+        calls[name] = (calls[name] ?? 0) + 1
+        return value.apply(target, args)
+      }
+    },
+  })
+  return { repository, calls }
+}
+
+// Repository calls made by one markets list load over `marketCount` markets
+async function callsForMarketsList(marketCount: number) {
+  const data = datasetWithMarkets(marketCount)
+  const { repository, calls } = countingRepository(new LocalRepository(data))
+  setRepository(repository)
+  DataService.setActiveClientId(data.clients[0].id)
+
+  // Warm the per-user and per-client caches so both runs start alike
+  await DataService.getMarketsWithDetails()
+  for (const name of Object.keys(calls)) delete calls[name]
+
+  const markets = await DataService.getMarketsWithDetails()
+  expect(markets).toHaveLength(marketCount)
+  expect(markets.every(market => market.propertyCount === 1 && market.franchisees.length === 1 && market.latestUpdate)).toBe(true)
+  return calls
+}
+
+describe('DataService.getMarketsWithDetails', () => {
+  afterEach(() => {
+    setRepository(null)
+    DataService.setActiveClientId(null)
+  })
+
+  it('makes the same repository calls for 10 markets as for 100', async () => {
+    const few = await callsForMarketsList(10)
+    const many = await callsForMarketsList(100)
+
+    expect(few.getMarketSummaries).toBe(1)
+    expect(few.getFranchisees).toBe(1)
+    expect(many).toEqual(few)
+  })
+})
+
+const AUSTIN_ID = '5b1d2f40-7c11-4e0a-8a52-3d1e0c7b2001'
+
+async function findUpdate(id: string) {
+  return (await DataService.getMarketUpdates()).find(update => update.id === id)!
+}
+
+describe('DataService market update moderation', () => {
+  afterEach(() => {
+    setRepository(null)
+    DataService.setActiveClientId(null)
+  })
+
+  // The fixtures plus a second client, with a market and an update the
+  // fixture admin (a member of the first client only) must not touch
+  function datasetWithOtherClient() {
+    const data = loadFixtureDataset()
+    const [client] = data.clients
+    const otherClient = { ...client, id: crypto.randomUUID(), name: 'Other Brand' }
+    const otherMarket = { ...data.markets[0], id: crypto.randomUUID(), client_id: otherClient.id }
+    const otherUpdate = { ...data.market_updates[0], id: crypto.randomUUID(), market_id: otherMarket.id }
+    data.clients.push(otherClient)
+    data.markets.push(otherMarket)
+    data.market_updates.push(otherUpdate)
+    return { data, clientId: client.id, otherUpdate }
+  }
+
+  it('keeps admins from changing updates in another client\'s markets', async () => {
+    const { data, clientId, otherUpdate } = datasetWithOtherClient()
+    setRepository(new LocalRepository(data, 'admin@demo.local'))
+    DataService.setActiveClientId(clientId)
+
+    await expect(DataService.updateMarketUpdate(otherUpdate.id, 'Rewritten')).rejects.toBeInstanceOf(NotFoundError)
+    await expect(DataService.deleteMarketUpdate(otherUpdate.id)).rejects.toBeInstanceOf(NotFoundError)
+    await expect(DataService.restoreMarketUpdate(otherUpdate.id)).rejects.toBeInstanceOf(NotFoundError)
+    expect(data.market_updates.find(update => update.id === otherUpdate.id)).toMatchObject({ message: otherUpdate.message, deleted_at: null })
+  })
+
+  it('lets admins moderate updates in their own client\'s markets', async () => {
+    const { data, clientId } = datasetWithOtherClient()
+    setRepository(new LocalRepository(data, 'admin@demo.local'))
+    DataService.setActiveClientId(clientId)
+    const [update] = data.market_updates
+
+    await DataService.deleteMarketUpdate(update.id)
+    expect((await DataService.restoreMarketUpdate(update.id)).deleted_at).toBeNull()
+  })
+
+  it('keeps what a deleted update said, and its history, to admins until restored', async () => {
+    const data = loadFixtureDataset()
+    const update = data.market_updates.find(u => u.market_id === AUSTIN_ID)!
+    const original = update.message
+    const signInAs = (email: string) => {
+      setRepository(new LocalRepository(data, email))
+      DataService.setActiveClientId(data.clients[0].id)
+    }
+
+    signInAs('admin@demo.local')
+    await DataService.updateMarketUpdate(update.id, 'Second draft')
+    await DataService.deleteMarketUpdate(update.id)
+
+    signInAs('franchisee@demo.local')
+    const hidden = await findUpdate(update.id)
+    expect(hidden).toMatchObject({ message: '', attachments: [] })
+    expect(await DataService.getMarketUpdateRevisions(hidden)).toEqual([])
+
+    signInAs('admin@demo.local')
+    const moderated = await findUpdate(update.id)
+    expect(moderated.message).toBe('Second draft')
+    expect((await DataService.getMarketUpdateRevisions(moderated)).map(revision => revision.message)).toEqual([original])
+
+    await DataService.restoreMarketUpdate(update.id)
+
+    signInAs('franchisee@demo.local')
+    expect((await findUpdate(update.id)).message).toBe('Second draft')
+  })
+})
@@ -1,97 +1,496 @@
-import { supabase, Market, Property, MarketUpdate } from './supabase'
+import { Market, Property, MarketUpdate, MarketUpdateRevision, PortalUser, Client, MarketFranchisee, MarketWithDetails, PhaseChange, Territory, TerritoryPolygon, TerritoryPolygonVersion, TradeAreaPoint, TradeAreaPointKind, DocumentCategory, DocumentVersion, DocumentWithVersions, LibraryDocument, PortalNotification, UpdateAttachment, UpdateAuthor } from './supabase'
+import { canModifyMarketUpdate, hasPermission, normalizeRole, Permission } from './roles'
+import { describeError, ForbiddenError, NotFoundError, ValidationError } from './errors'
+import { getRepository, ChangeTable, MarketUpdateInput, PropertyGeocode, PropertyInput, RowChange, TradeAreaPointInput } from './repository'
+import { config } from './config'
+import { validateTerritoryPolygon } from './territory'
+import { validatePropertyInput, validatePropertyPhoto } from './property-validation'
+import { createPhaseCatalog, DEFAULT_PHASE_CATALOG, PhaseCatalog } from './phases'
+import { buildPipelineAnalytics, PipelineAnalytics } from './pipeline-analytics'
+import { findTerritoryConflicts, TerritoryConflicts } from './territory-conflicts'
+import { GeocodeAddress, geocodeStatus, getGeocoder, hasAddress, needsGeocodeAttention } from './geocoding'
+import { DriveTimeArea, getRoutingProvider } from './routing'
+import { EstimatedRoutingProvider } from './routing-providers/estimated-routing-provider'
+import {
+  driveTimeRings,
+  MAX_TRADE_AREA_POINTS,
+  normalizeTradeAreaOptions,
+  radiusRings,
+  summarizeTradeArea,
+  TradeAreaAnalysis,
+  TradeAreaOptions
+} from './trade-area'
+import { documentFileProblem, isDocumentCategory, MAX_DOCUMENT_TITLE_LENGTH, sortDocuments } from './documents'
+import { isUpdateReaction, MarketUpdateExtras, MAX_UPDATE_ATTACHMENTS, referencedPropertyNumbers, updateAttachmentProblem } from './market-updates'
+import { ImportedUpdateRow, importKey, MAX_IMPORT_ROWS, UpdateImportReport } from './update-import'
+
+// Every method throws a DataError (see ./errors) when a query fails, so callers
+// can tell an empty result apart from a network or permission failure.
+// Rows come from the configured repository (see ./repository); client scoping
+// and role checks live here so every backend behaves the same.
+export class DataService {
 
-// Client ID for this portal - updated to new client
-const CLIENT_ID = '39022dd3-45f4-4e82-b9bd-5c9733404728'
+  // Client (franchise brand) every query is scoped to - set by ClientProvider
+  private static activeClientId: string | null = null
 
-export class DataService {
+  static setActiveClientId(clientId: string | null) {
+    this.activeClientId = clientId
+  }
+
+  static getActiveClientId(): string | null {
+    return this.activeClientId
+  }
+
+  // Fetch the clients the signed-in user is a member of
+  static async getClientsForCurrentUser(): Promise<Client[]> {
+    const user = await this.getCurrentUser()
+    if (!user) return []
+
+    const clients = await getRepository().getClientsForUser(user.id)
+    return clients.sort((a, b) => a.name.localeCompare(b.name))
+  }
+
+  // Profile of the signed-in user, cached per auth user
+  private static currentUser: { authId: string; profile: Promise<PortalUser | null> } | null = null
+
+  // Fetch the signed-in user's profile and role from the users table
+  static async getCurrentUser(): Promise<PortalUser | null> {
+    const authUser = await getRepository().getSignedInUser()
+
+    if (!authUser) {
+      this.currentUser = null
+      return null
+    }
+
+    if (this.currentUser?.authId !== authUser.id) {
+      this.currentUser = {
+        authId: authUser.id,
+        profile: this.fetchUserProfile(authUser.id, authUser.email)
+      }
+    }
+
+    return this.currentUser.profile
+  }
+
+  private static async fetchUserProfile(userId: string, email: string | null): Promise<PortalUser | null> {
+    try {
+      const data = await getRepository().getUserProfile(userId)
 
-  // Fetch all markets for this client
-  static async getMarkets(): Promise<Market[]> {
-    const { data, error } = await supabase
-      .from('markets')
-      .select('*')
-      .eq('client_id', CLIENT_ID)
-      .order('name')
-    
-    if (error) {
-      console.error('Error fetching markets:', error)
+      return {
+        ...data,
+        email: data.email ?? email,
+        role: normalizeRole(data.role)
+      }
+    } catch (error) {
+      // Drop the cache so the next call retries
+      this.currentUser = null
+      throw error
+    }
+  }
+
+  // Market IDs the current user may see, or null when they can see every market.
+  // Franchisees are limited to the markets they are linked to in market_users.
+  private static async getVisibleMarketIds(): Promise<string[] | null> {
+    const user = await this.getCurrentUser()
+
+    if (user && hasPermission(user.role, 'markets:view_all')) {
+      return null
+    }
+
+    if (!user) {
       return []
     }
-    
-    return data || []
+
+    return getRepository().getLinkedMarketIds(user.id)
+  }
+
+  private static async assertCanViewMarket(marketId: string) {
+    const visibleMarketIds = await this.getVisibleMarketIds()
+    if (visibleMarketIds !== null && !visibleMarketIds.includes(marketId)) {
+      throw new ForbiddenError('You do not have access to this market')
+    }
+  }
+
+  private static async assertPermission(permission: Permission, message: string) {
+    const user = await this.getCurrentUser()
+    if (!user || !hasPermission(user.role, permission)) {
+      throw new ForbiddenError(message)
+    }
+  }
+
+  // Fetch all markets for this client. Archived markets are left out unless asked for.
+  static async getMarkets({ includeArchived = false }: { includeArchived?: boolean } = {}): Promise<Market[]> {
+    if (!this.activeClientId) return []
+
+    const clientId = this.activeClientId
+    const marketIds = await this.getVisibleMarketIds()
+
+    return getRepository().getMarkets({ clientId, marketIds, includeArchived })
   }
 
   // Fetch single market by ID
-  static async getMarket(id: string): Promise<Market | null> {
-    const { data, error } = await supabase
-      .from('markets')
-      .select('*')
-      .eq('id', id)
-      .single()
-    
-    if (error) {
-      console.error('Error fetching market:', error)
-      return null
+  static async getMarket(id: string): Promise<Market> {
+    if (!this.activeClientId) {
+      throw new NotFoundError('Market not found')
+    }
+
+    const clientId = this.activeClientId
+    await this.assertCanViewMarket(id)
+
+    return getRepository().getMarket(clientId, id)
+  }
+
+  // Trim the name and check it is not taken by another market of this client
+  // (archived ones included, since they can be restored)
+  private static async validateMarketName(clientId: string, name: string, marketId?: string): Promise<string> {
+    const trimmed = name.trim()
+    if (!trimmed) {
+      throw new ValidationError('Market name is required')
+    }
+    if (trimmed.length > 100) {
+      throw new ValidationError('Market name must be 100 characters or fewer')
+    }
+
+    const existing = await getRepository().findMarketByName(clientId, trimmed)
+    if (existing && existing.id !== marketId) {
+      throw new ValidationError(`A market named "${existing.name}" already exists`)
+    }
+
+    return trimmed
+  }
+
+  static async createMarket(name: string, territory: Territory | null): Promise<Market> {
+    if (!this.activeClientId) {
+      throw new ValidationError('Select a client before adding a market')
     }
-    
-    return data
+
+    const clientId = this.activeClientId
+    await this.assertPermission('markets:manage', 'You do not have permission to add markets')
+
+    return getRepository().createMarket(clientId, {
+      name: await this.validateMarketName(clientId, name),
+      territory
+    })
+  }
+
+  static async updateMarket(id: string, changes: { name?: string; territory?: Territory | null }): Promise<Market> {
+    const market = await this.getMarket(id)
+    await this.assertPermission('markets:manage', 'You do not have permission to edit markets')
+
+    return getRepository().updateMarket(id, {
+      ...changes,
+      ...(changes.name !== undefined ? { name: await this.validateMarketName(market.client_id, changes.name, id) } : {})
+    })
   }
 
+  // Archived markets drop out of lists but keep their properties and history
+  static async archiveMarket(id: string): Promise<Market> {
+    await this.getMarket(id)
+    await this.assertPermission('markets:manage', 'You do not have permission to archive markets')
+
+    return getRepository().updateMarket(id, { archived_at: new Date().toISOString() })
+  }
+
+  static async restoreMarket(id: string): Promise<Market> {
+    await this.getMarket(id)
+    await this.assertPermission('markets:manage', 'You do not have permission to restore markets')
+
+    return getRepository().updateMarket(id, { archived_at: null })
+  }
+
+  // Replace the market's territory polygon. The old polygon is kept as a version.
+  static async saveTerritoryPolygon(marketId: string, territoryPolygon: TerritoryPolygon): Promise<Market> {
+    await this.getMarket(marketId)
+    await this.assertPermission('markets:manage', 'You do not have permission to edit territories')
+
+    const problems = validateTerritoryPolygon(territoryPolygon)
+    if (problems.length > 0) {
+      throw new ValidationError(problems[0])
+    }
+
+    return getRepository().updateMarket(marketId, { territory_polygon: territoryPolygon })
+  }
+
+  static async getTerritoryVersions(marketId: string): Promise<TerritoryPolygonVersion[]> {
+    await this.assertCanViewMarket(marketId)
+    return getRepository().getTerritoryVersions(marketId)
+  }
 
+  // Put an earlier polygon back. The current one becomes a version itself, so a revert can be undone.
+  static async revertTerritoryPolygon(marketId: string, versionId: string): Promise<Market> {
+    await this.getMarket(marketId)
+    await this.assertPermission('markets:manage', 'You do not have permission to edit territories')
+
+    const versions = await getRepository().getTerritoryVersions(marketId)
+    const version = versions.find(v => v.id === versionId)
+    if (!version) {
+      throw new NotFoundError('Territory version not found')
+    }
+
+    return getRepository().updateMarket(marketId, { territory_polygon: version.territory_polygon })
+  }
+
+  // Overlapping territories and misplaced properties across the client's live markets
+  static async getTerritoryConflicts(): Promise<TerritoryConflicts> {
+    const [markets, properties] = await Promise.all([
+      this.getMarkets(),
+      this.getProperties()
+    ])
+
+    const marketIds = new Set(markets.map(market => market.id))
+    return findTerritoryConflicts(markets, properties.filter(property => marketIds.has(property.market_id)))
+  }
+
+  // Permanently delete a market with its properties and updates. Only archived
+  // markets can be deleted, so nothing live disappears by accident.
+  static async deleteMarket(id: string): Promise<void> {
+    const market = await this.getMarket(id)
+    await this.assertPermission('markets:manage', 'You do not have permission to delete markets')
+
+    if (!market.archived_at) {
+      throw new ValidationError('Archive the market before deleting it')
+    }
+
+    return getRepository().deleteMarket(id)
+  }
 
   // Fetch all properties for this client
   static async getProperties(): Promise<Property[]> {
-    const { data, error } = await supabase
-      .from('properties')
-      .select(`
-        *,
-        markets!inner(client_id)
-      `)
-      .eq('markets.client_id', CLIENT_ID)
-      .order('created_at', { ascending: false })
-    
-    if (error) {
-      console.error('Error fetching properties:', error)
-      return []
-    }
-    
-    return data || []
+    if (!this.activeClientId) return []
+
+    const clientId = this.activeClientId
+    const marketIds = await this.getVisibleMarketIds()
+
+    return getRepository().getProperties({ clientId, marketIds })
   }
 
   // Fetch properties by market (only for this client)
   static async getPropertiesByMarket(marketId: string): Promise<Property[]> {
-    const { data, error } = await supabase
-      .from('properties')
-      .select(`
-        *,
-        markets!inner(client_id)
-      `)
-      .eq('market_id', marketId)
-      .eq('markets.client_id', CLIENT_ID)
-      .order('created_at', { ascending: false })
-    
-    if (error) {
-      console.error('Error fetching properties by market:', error)
-      return []
-    }
-    
-    return data || []
+    if (!this.activeClientId) return []
+
+    const clientId = this.activeClientId
+    await this.assertCanViewMarket(marketId)
+
+    return getRepository().getProperties({ clientId, marketId })
   }
 
   // Fetch single property by ID
-  static async getProperty(id: string): Promise<Property | null> {
-    const { data, error } = await supabase
-      .from('properties')
-      .select('*')
-      .eq('id', id)
-      .single()
-    
-    if (error) {
-      console.error('Error fetching property:', error)
-      return null
+  static async getProperty(id: string): Promise<Property> {
+    if (!this.activeClientId) {
+      throw new NotFoundError('Property not found')
     }
-    
-    return data
+
+    const property = await getRepository().getProperty(this.activeClientId, id)
+    await this.assertCanViewMarket(property.market_id)
+
+    return property
+  }
+
+  // Deal pipeline for the active client, cached per client
+  private static phaseCatalog: { clientId: string; catalog: Promise<PhaseCatalog> } | null = null
+
+  // The active client's deal phases; clients without their own pipeline get the default one
+  static async getPhaseCatalog(): Promise<PhaseCatalog> {
+    const clientId = this.activeClientId
+    if (!clientId) return DEFAULT_PHASE_CATALOG
+
+    if (this.phaseCatalog?.clientId !== clientId) {
+      const catalog = getRepository().getPhaseDefinitions(clientId)
+        .then(definitions => definitions.length > 0 ? createPhaseCatalog(definitions) : DEFAULT_PHASE_CATALOG)
+        .catch(error => {
+          // Drop the cache so the next call retries
+          this.phaseCatalog = null
+          throw error
+        })
+      this.phaseCatalog = { clientId, catalog }
+    }
+
+    return this.phaseCatalog.catalog
+  }
+
+  // Set how many days a deal can sit in each phase before it's flagged as stalled
+  static async setStallThresholds(thresholds: Record<string, number | null>): Promise<PhaseCatalog> {
+    if (!this.activeClientId) {
+      throw new ValidationError('Select a client before changing deal phases')
+    }
+
+    const clientId = this.activeClientId
+    await this.assertPermission('markets:manage', 'You do not have permission to change deal phases')
+
+    for (const [phase, days] of Object.entries(thresholds)) {
+      if (days !== null && (!Number.isInteger(days) || days < 1 || days > 3650)) {
+        throw new ValidationError(`Stall limit for ${phase} must be a whole number of days between 1 and 3,650`)
+      }
+    }
+
+    // Clients on the default pipeline get their own copy of it here
+    const current = await this.getPhaseCatalog()
+    const saved = await getRepository().savePhaseDefinitions(clientId, current.phases.map(phase => ({
+      ...phase,
+      client_id: clientId,
+      stall_after_days: phase.key in thresholds ? thresholds[phase.key] : phase.stall_after_days
+    })))
+
+    const catalog = createPhaseCatalog(saved)
+    this.phaseCatalog = { clientId, catalog: Promise.resolve(catalog) }
+    return catalog
+  }
+
+  private static async assertValidProperty(input: PropertyInput) {
+    const [problem] = Object.values(validatePropertyInput(input, await this.getPhaseCatalog()))
+    if (problem) {
+      throw new ValidationError(problem)
+    }
+  }
+
+  private static async assertCanMovePhase(from: string, to: string) {
+    const phases = await this.getPhaseCatalog()
+    if (!phases.canMove(from, to)) {
+      throw new ValidationError(`A property can't move from ${phases.label(from)} to ${phases.label(to)}`)
+    }
+  }
+
+  // Coordinates for a property being saved. A pin given with the property is
+  // kept as placed by hand; otherwise the address is geocoded. A geocoder that
+  // can't be reached doesn't stop the save - the property is left off the map
+  // and shows up in getPropertiesNeedingAttention.
+  private static async locateProperty(
+    address: GeocodeAddress,
+    pin: { lat?: number | null; lng?: number | null }
+  ): Promise<Pick<PropertyInput, 'lat' | 'lng'> & PropertyGeocode> {
+    if (pin.lat != null && pin.lng != null) {
+      return { lat: pin.lat, lng: pin.lng, geocode_status: 'manual', geocode_confidence: null }
+    }
+
+    const unlocated = { lat: null, lng: null, geocode_status: 'failed', geocode_confidence: null } as const
+    if (!hasAddress(address)) return unlocated
+
+    try {
+      const result = await getGeocoder().geocode(address)
+      return result
+        ? { lat: result.lat, lng: result.lng, geocode_status: geocodeStatus(result), geocode_confidence: result.confidence }
+        : unlocated
+    } catch (error) {
+      console.warn('Error geocoding property:', error)
+      return unlocated
+    }
+  }
+
+  static async createProperty(input: PropertyInput): Promise<Property> {
+    // Also checks the market belongs to the active client and is visible
+    await this.getMarket(input.market_id)
+    await this.assertPermission('properties:edit', 'You do not have permission to add properties')
+    await this.assertValidProperty(input)
+
+    return getRepository().createProperty({ ...input, ...await this.locateProperty(input, input) })
+  }
+
+  // A phase change has to be one the pipeline allows; it goes through
+  // changePropertyPhase so the history keeps the reason
+  static async updateProperty(
+    id: string,
+    changes: Partial<PropertyInput>,
+    { phaseReason = null }: { phaseReason?: string | null } = {}
+  ): Promise<Property> {
+    const property = await this.getProperty(id)
+    await this.assertPermission('properties:edit', 'You do not have permission to edit properties')
+
+    const merged: PropertyInput = { ...property, ...changes }
+    await this.assertValidProperty(merged)
+    if (merged.market_id !== property.market_id) {
+      await this.getMarket(merged.market_id)
+    }
+
+    const { phase, ...otherChanges } = changes
+    const phaseChanged = phase !== undefined && phase !== property.phase
+    if (phaseChanged) {
+      await this.assertCanMovePhase(property.phase, phase)
+    }
+
+    // Moving the pin by hand wins; otherwise a new address means a new location
+    const pinMoved = (merged.lat ?? null) !== (property.lat ?? null) || (merged.lng ?? null) !== (property.lng ?? null)
+    const addressChanged = (['address_line', 'city', 'state', 'postal_code'] as const)
+      .some(field => (merged[field] ?? null) !== (property[field] ?? null))
+    const location = pinMoved || addressChanged
+      ? await this.locateProperty(merged, pinMoved ? merged : {})
+      : {}
+
+    const updated = await getRepository().updateProperty(id, { ...otherChanges, ...location })
+    return phaseChanged ? getRepository().changePropertyPhase(id, phase, phaseReason?.trim() || null) : updated
+  }
+
+  static async changePropertyPhase(id: string, phase: string, reason: string | null = null): Promise<Property> {
+    const property = await this.getProperty(id)
+    await this.assertPermission('properties:edit', 'You do not have permission to change phases')
+    await this.assertCanMovePhase(property.phase, phase)
+
+    return getRepository().changePropertyPhase(id, phase, reason?.trim() || null)
+  }
+
+  // Who moved the property between phases, when and why - newest first
+  static async getPhaseHistory(propertyId: string): Promise<PhaseChange[]> {
+    await this.getProperty(propertyId)
+    return getRepository().getPhaseHistory(propertyId)
+  }
+
+  // Properties off the map, or only roughly placed, for someone to pin by hand
+  static async getPropertiesNeedingAttention(): Promise<Property[]> {
+    await this.assertPermission('properties:edit', 'You do not have permission to fix property locations')
+
+    const properties = await this.getProperties()
+    return properties.filter(needsGeocodeAttention)
+  }
+
+  // Try the address again, e.g. after the geocoder was unreachable
+  static async geocodeProperty(id: string): Promise<Property> {
+    const property = await this.getProperty(id)
+    await this.assertPermission('properties:edit', 'You do not have permission to fix property locations')
+
+    return getRepository().updateProperty(id, await this.locateProperty(property, {}))
+  }
+
+  static async placePropertyPin(id: string, lat: number, lng: number): Promise<Property> {
+    const property = await this.getProperty(id)
+    await this.assertPermission('properties:edit', 'You do not have permission to fix property locations')
+
+    if (!Number.isFinite(lat) || !Number.isFinite(lng) || Math.abs(lat) > 90 || Math.abs(lng) > 180) {
+      throw new ValidationError('That pin is off the map')
+    }
+
+    return getRepository().updateProperty(id, await this.locateProperty(property, { lat, lng }))
+  }
+
+  // Soft delete: the row stays so restoreProperty can undo it
+  static async deleteProperty(id: string): Promise<Property> {
+    await this.getProperty(id)
+    await this.assertPermission('properties:edit', 'You do not have permission to delete properties')
+
+    return getRepository().updateProperty(id, { deleted_at: new Date().toISOString() })
+  }
+
+  static async restoreProperty(id: string): Promise<Property> {
+    if (!this.activeClientId) {
+      throw new NotFoundError('Property not found')
+    }
+
+    const property = await getRepository().getProperty(this.activeClientId, id, { includeDeleted: true })
+    await this.assertCanViewMarket(property.market_id)
+    await this.assertPermission('properties:edit', 'You do not have permission to restore properties')
+
+    return getRepository().updateProperty(id, { deleted_at: null })
+  }
+
+  // Upload a photo for a property in this market and return its URL
+  static async uploadPropertyPhoto(marketId: string, file: File): Promise<string> {
+    await this.assertCanViewMarket(marketId)
+    await this.assertPermission('properties:edit', 'You do not have permission to upload photos')
+
+    const problem = validatePropertyPhoto(file)
+    if (problem) {
+      throw new ValidationError(problem)
+    }
+
+    return getRepository().uploadPropertyPhoto(marketId, file)
   }
 
 
@@ -105,16 +504,16 @@ export class DataService {
       this.getProperties()
     ])
 
-    // Get property counts per market
-    const marketPropertyCounts = await Promise.all(
-      markets.map(async (market) => {
-        const propertyCount = await this.getPropertiesByMarket(market.id)
-        return {
-          marketId: market.id,
-          propertyCount: propertyCount.length
-        }
-      })
-    )
+    // Count from the properties already loaded rather than querying per market
+    const countsByMarket = new Map<string, number>()
+    for (const property of properties) {
+      countsByMarket.set(property.market_id, (countsByMarket.get(property.market_id) || 0) + 1)
+    }
+
+    const marketPropertyCounts = markets.map(market => ({
+      marketId: market.id,
+      propertyCount: countsByMarket.get(market.id) || 0
+    }))
 
     return {
       totalMarkets: markets.length,
@@ -124,183 +523,479 @@ export class DataService {
     }
   }
 
-  // Fetch franchisees for a specific market
-  static async getMarketFranchisees(marketId: string) {
-    const { data, error } = await supabase
-      .from('market_users')
-      .select(`
-        *,
-        users!inner(*)
-      `)
-      .eq('market_id', marketId)
-      .eq('role', 'franchisee')
-      .eq('users.role', 'franchisee')
-    
-    if (error) {
-      console.error('Error fetching market franchisees:', error)
-      return []
+  // Funnel conversion, days per phase and stalled deals across the client's live markets
+  static async getPipelineAnalytics(): Promise<PipelineAnalytics> {
+    if (!this.activeClientId) {
+      throw new NotFoundError('Select a client to see pipeline analytics')
     }
-    
-    return data?.map(item => item.users) || []
-  }
-
-  // Helper function to get the furthest along phase
-  private static getFurthestPhase(phases: string[]): string | null {
-    if (phases.length === 0) return null
-    
-    // Define phase order from earliest to latest
-    const phaseOrder = ['intro', 'site_selection', 'loi', 'lease', 'closed']
-    
-    // Find the highest index phase that exists in the phases array
-    let furthestPhaseIndex = -1
-    let furthestPhase = null
-    
-    for (const phase of phases) {
-      const phaseIndex = phaseOrder.indexOf(phase.toLowerCase())
-      if (phaseIndex > furthestPhaseIndex) {
-        furthestPhaseIndex = phaseIndex
-        furthestPhase = phase
+
+    await this.assertPermission('analytics:view', 'You do not have permission to view pipeline analytics')
+
+    const clientId = this.activeClientId
+    const marketIds = await this.getVisibleMarketIds()
+    const [markets, properties, history, updates, phases] = await Promise.all([
+      this.getMarkets(),
+      this.getProperties(),
+      getRepository().getPhaseChanges({ clientId, marketIds }),
+      this.getMarketUpdates(),
+      this.getPhaseCatalog()
+    ])
+
+    const liveMarketIds = new Set(markets.map(market => market.id))
+    return buildPipelineAnalytics({
+      markets,
+      properties: properties.filter(property => liveMarketIds.has(property.market_id)),
+      history,
+      // Deleted updates don't count as mentions of a phase
+      updates: updates.filter(update => !update.deleted_at),
+      phases
+    })
+  }
+
+  // Competitors, sister locations and demographic points uploaded for a market
+  static async getTradeAreaPoints(marketId: string): Promise<TradeAreaPoint[]> {
+    await this.assertCanViewMarket(marketId)
+    return getRepository().getTradeAreaPoints(marketId)
+  }
+
+  // Replaces every point of one kind in the market, e.g. a fresh competitor list
+  static async replaceTradeAreaPoints(marketId: string, kind: TradeAreaPointKind, points: TradeAreaPointInput[]): Promise<TradeAreaPoint[]> {
+    await this.assertCanViewMarket(marketId)
+    await this.assertPermission('properties:edit', 'You do not have permission to upload trade area data')
+
+    if (points.length > MAX_TRADE_AREA_POINTS) {
+      throw new ValidationError(`Upload at most ${MAX_TRADE_AREA_POINTS.toLocaleString()} points at a time`)
+    }
+    const invalid = points.findIndex(point => !point.name.trim()
+      || !Number.isFinite(point.lat) || !Number.isFinite(point.lng)
+      || Math.abs(point.lat) > 90 || Math.abs(point.lng) > 180
+      || (point.value != null && (!Number.isFinite(point.value) || point.value < 0)))
+    if (invalid !== -1) {
+      throw new ValidationError(`Point ${invalid + 1} needs a name and coordinates`)
+    }
+
+    return getRepository().replaceTradeAreaPoints(marketId, kind, points.map(point => ({
+      name: point.name.trim(),
+      lat: point.lat,
+      lng: point.lng,
+      value: kind === 'demographic' ? point.value ?? null : null
+    })))
+  }
+
+  // Radius rings and drive-time areas around a property, with what's inside each.
+  // If the routing provider fails, drive times fall back to a straight-line
+  // estimate and routingError says why.
+  static async getTradeArea(propertyId: string, options: Partial<TradeAreaOptions> = {}): Promise<TradeAreaAnalysis> {
+    const site = await this.getProperty(propertyId)
+    if (site.lat == null || site.lng == null) {
+      throw new ValidationError('Place this property on the map to see its trade area')
+    }
+
+    const center = { lat: site.lat, lng: site.lng }
+    const { radiusMiles, driveMinutes } = normalizeTradeAreaOptions(options)
+    const [properties, points] = await Promise.all([
+      this.getPropertiesByMarket(site.market_id),
+      getRepository().getTradeAreaPoints(site.market_id)
+    ])
+
+    let routingError: string | null = null
+    let driveTimes: DriveTimeArea[] = []
+    if (driveMinutes.length > 0) {
+      try {
+        driveTimes = await getRoutingProvider().driveTimeAreas(center, driveMinutes)
+      } catch (error) {
+        console.warn('Error fetching drive times, estimating instead:', error)
+        routingError = describeError(error)
+        driveTimes = await new EstimatedRoutingProvider().driveTimeAreas(center, driveMinutes)
       }
     }
-    
-    return furthestPhase
-  }
-
-  // Fetch enhanced market data with property counts, phases, franchisee information, and latest update
-  static async getMarketsWithDetails(): Promise<(Market & { 
-    propertyCount: number
-    phases: string[]
-    franchisees: Array<{
-      id: string
-      full_name: string | null
-      email: string | null
-      phone: string | null
-      avatar_url: string | null
-      status: string | null
-    }>
-    latestUpdate?: {
-      message: string
-      created_at: string
-    }
-  })[]> {
-    const markets = await this.getMarkets()
-
-    const marketsWithDetails = await Promise.all(
-      markets.map(async (market) => {
-        const [properties, franchisees, latestUpdate] = await Promise.all([
-          this.getPropertiesByMarket(market.id),
-          this.getMarketFranchisees(market.id),
-          this.getLatestMarketUpdate(market.id)
-        ])
-        
-        // Extract unique phases from properties
-        const allPhases = [...new Set(properties.map(p => p.phase).filter(Boolean))]
-        
-        // Get only the furthest along phase
-        const furthestPhase = this.getFurthestPhase(allPhases)
-        const phases = furthestPhase ? [furthestPhase] : []
-        
-        return {
-          ...market,
-          propertyCount: properties.length,
-          phases,
-          franchisees,
-          latestUpdate
-        }
-      })
-    )
-
-    return marketsWithDetails
+
+    return summarizeTradeArea({ ...site, lat: site.lat, lng: site.lng }, [
+      ...radiusRings(center, radiusMiles),
+      ...driveTimeRings(driveTimes)
+    ], { properties, points, routingError })
   }
 
-  // Market Updates Methods
-  static async getMarketUpdates(marketId?: string): Promise<MarketUpdate[]> {
-    let query = supabase
-      .from('market_updates')
-      .select('*')
-      .order('created_at', { ascending: false })
+  // A market's documents, or a property's along with the market-wide ones
+  static async getDocuments(
+    marketId: string,
+    { propertyId, category, includeMarketWide = true }: { propertyId?: string; category?: DocumentCategory; includeMarketWide?: boolean } = {}
+  ): Promise<DocumentWithVersions[]> {
+    await this.assertCanViewMarket(marketId)
+    return sortDocuments(await getRepository().getDocuments({ marketIds: [marketId], propertyId, includeMarketWide, category }))
+  }
 
-    if (marketId) {
-      query = query.eq('market_id', marketId)
+  // Add a document to the library, for the whole market or one property
+  static async uploadDocument(
+    input: { marketId: string; propertyId: string | null; category: DocumentCategory; title: string },
+    file: File
+  ): Promise<DocumentWithVersions> {
+    await this.assertCanViewMarket(input.marketId)
+    await this.assertPermission('documents:manage', 'You do not have permission to upload documents')
+
+    const title = input.title.trim()
+    if (!title || title.length > MAX_DOCUMENT_TITLE_LENGTH) {
+      throw new ValidationError(`Give the document a title of at most ${MAX_DOCUMENT_TITLE_LENGTH} characters`)
+    }
+    if (!isDocumentCategory(input.category)) {
+      throw new ValidationError('Pick a category for the document')
+    }
+    const problem = documentFileProblem(file)
+    if (problem) {
+      throw new ValidationError(problem)
+    }
+    if (input.propertyId) {
+      const property = await this.getProperty(input.propertyId)
+      if (property.market_id !== input.marketId) {
+        throw new ValidationError('That property is in another market')
+      }
     }
 
-    const { data, error } = await query
+    const stored = await getRepository().uploadDocumentFile(input.marketId, file)
+    return getRepository().createDocument({
+      market_id: input.marketId,
+      property_id: input.propertyId,
+      category: input.category,
+      title
+    }, stored)
+  }
 
-    if (error) {
-      console.error('Error fetching market updates:', error)
-      return []
+  // Upload a new version; the library shows it in place of the old one
+  static async uploadDocumentVersion(document: LibraryDocument, file: File): Promise<DocumentVersion> {
+    await this.assertCanViewMarket(document.market_id)
+    await this.assertPermission('documents:manage', 'You do not have permission to upload documents')
+
+    const problem = documentFileProblem(file)
+    if (problem) {
+      throw new ValidationError(problem)
     }
 
-    return data || []
+    const stored = await getRepository().uploadDocumentFile(document.market_id, file)
+    return getRepository().addDocumentVersion(document.id, stored)
   }
 
-  static async getLatestMarketUpdate(marketId: string): Promise<{ message: string; created_at: string } | null> {
-    const { data, error } = await supabase
-      .from('market_updates')
-      .select('message, created_at')
-      .eq('market_id', marketId)
-      .order('created_at', { ascending: false })
-      .limit(1)
-      .single()
-
-    if (error) {
-      // No updates found is not an error, just return null
-      if (error.code === 'PGRST116') {
-        return null
+  // Takes the document out of the library; its versions are kept so it can be restored
+  static async removeDocument(document: LibraryDocument): Promise<LibraryDocument> {
+    await this.assertCanViewMarket(document.market_id)
+    await this.assertPermission('documents:manage', 'You do not have permission to remove documents')
+
+    return getRepository().updateDocument(document.id, { deleted_at: new Date().toISOString() })
+  }
+
+  static async restoreDocument(document: LibraryDocument): Promise<LibraryDocument> {
+    await this.assertCanViewMarket(document.market_id)
+    await this.assertPermission('documents:manage', 'You do not have permission to restore documents')
+
+    return getRepository().updateDocument(document.id, { deleted_at: null })
+  }
+
+  // A link for the viewer; it stops working after a while, so fetch one per view
+  static async getDocumentUrl(document: LibraryDocument, version: DocumentVersion): Promise<string> {
+    await this.assertCanViewMarket(document.market_id)
+    return getRepository().getDocumentUrl(version)
+  }
+
+  // Fetch franchisees for a specific market
+  static async getMarketFranchisees(marketId: string): Promise<MarketFranchisee[]> {
+    const franchiseesByMarket = await this.getFranchiseesByMarket([marketId])
+    return franchiseesByMarket.get(marketId) || []
+  }
+
+  // Fetch franchisees for many markets in one query, grouped by market ID
+  private static async getFranchiseesByMarket(marketIds: string[]): Promise<Map<string, MarketFranchisee[]>> {
+    const franchiseesByMarket = new Map<string, MarketFranchisee[]>()
+    if (marketIds.length === 0) return franchiseesByMarket
+
+    const rows = await getRepository().getFranchisees(marketIds)
+
+    for (const { marketId, franchisee } of rows) {
+      const franchisees = franchiseesByMarket.get(marketId) || []
+      franchisees.push(franchisee)
+      franchiseesByMarket.set(marketId, franchisees)
+    }
+
+    return franchiseesByMarket
+  }
+
+  // Fetch enhanced market data with property counts, phases, franchisee information, and latest update.
+  // Uses the market_summaries view so the query count stays the same however many markets there are.
+  static async getMarketsWithDetails({ includeArchived = false }: { includeArchived?: boolean } = {}): Promise<MarketWithDetails[]> {
+    const markets = await this.getMarkets({ includeArchived })
+    if (markets.length === 0) return []
+
+    const marketIds = markets.map(market => market.id)
+
+    const [summaryRows, franchiseesByMarket, phases] = await Promise.all([
+      getRepository().getMarketSummaries(marketIds),
+      this.getFranchiseesByMarket(marketIds),
+      this.getPhaseCatalog()
+    ])
+
+    const summaries = new Map(summaryRows.map(summary => [summary.market_id, summary]))
+
+    return markets.map(market => {
+      const summary = summaries.get(market.id)
+
+      // Get only the furthest along phase
+      const furthestPhase = phases.furthest(summary?.phases || [])
+
+      return {
+        ...market,
+        propertyCount: summary?.property_count || 0,
+        phases: furthestPhase ? [furthestPhase] : [],
+        franchisees: franchiseesByMarket.get(market.id) || [],
+        latestUpdate: summary?.latest_update_message && summary.latest_update_at
+          ? { message: summary.latest_update_message, created_at: summary.latest_update_at }
+          : undefined
       }
-      console.error('Error fetching latest market update:', error)
-      return null
+    })
+  }
+
+  // Market Updates Methods
+  static async getMarketUpdates(marketId?: string): Promise<MarketUpdate[]> {
+    if (!this.activeClientId) return []
+
+    const clientId = this.activeClientId
+    const marketIds = await this.getVisibleMarketIds()
+
+    return getRepository().getMarketUpdates({ clientId, marketIds, marketId })
+  }
+
+  static async getLatestMarketUpdate(marketId: string): Promise<{ message: string; created_at: string } | null> {
+    return getRepository().getLatestMarketUpdate(marketId)
+  }
+
+  // The signed-in user, to post or react as
+  private static async requireUser(message: string): Promise<PortalUser> {
+    const user = await this.getCurrentUser()
+    if (!user) {
+      throw new ForbiddenError(message)
     }
+    return user
+  }
 
-    return data
+  // Files for an update, checked and uploaded before the update is saved
+  private static async uploadUpdateAttachments(marketId: string, files: File[]): Promise<UpdateAttachment[]> {
+    if (files.length > MAX_UPDATE_ATTACHMENTS) {
+      throw new ValidationError(`Attach at most ${MAX_UPDATE_ATTACHMENTS} files to an update`)
+    }
+    for (const file of files) {
+      const problem = updateAttachmentProblem(file)
+      if (problem) throw new ValidationError(`${file.name}: ${problem}`)
+    }
+    return Promise.all(files.map(file => getRepository().uploadUpdateAttachment(marketId, file)))
   }
 
-  static async createMarketUpdate(marketId: string, author: string, message: string): Promise<MarketUpdate | null> {
-    const { data, error } = await supabase
-      .from('market_updates')
-      .insert({
-        market_id: marketId,
-        author,
-        message
-      })
-      .select()
-      .single()
+  // Posted as the signed-in user. mentions are user IDs from getMarketUsers;
+  // each of them is notified.
+  static async createMarketUpdate(marketId: string, message: string, { mentions = [], files = [] }: MarketUpdateExtras = {}): Promise<MarketUpdate> {
+    await this.assertCanViewMarket(marketId)
+    await this.assertPermission('updates:post', 'You do not have permission to post updates')
+    const user = await this.requireUser('Sign in to post updates')
+    const attachments = await this.uploadUpdateAttachments(marketId, files)
+
+    return getRepository().createMarketUpdate({
+      marketId,
+      authorId: user.id,
+      author: user.full_name || user.email || 'Unknown user',
+      message,
+      mentions,
+      attachments
+    })
+  }
 
-    if (error) {
-      console.error('Error creating market update:', error)
-      return null
+  // Anyone who can see the market can reply. The update's author is notified.
+  static async replyToMarketUpdate(parent: MarketUpdate, message: string, { mentions = [], files = [] }: MarketUpdateExtras = {}): Promise<MarketUpdate> {
+    await this.assertCanViewMarket(parent.market_id)
+    if (parent.parent_id) {
+      throw new ValidationError('Reply to the update itself rather than to a reply')
+    }
+    if (parent.deleted_at) {
+      throw new ValidationError('Deleted updates can\'t be replied to')
     }
+    const user = await this.requireUser('Sign in to reply')
+    const attachments = await this.uploadUpdateAttachments(parent.market_id, files)
+
+    return getRepository().createMarketUpdate({
+      marketId: parent.market_id,
+      authorId: user.id,
+      author: user.full_name || user.email || 'Unknown user',
+      message,
+      parentId: parent.id,
+      mentions,
+      attachments
+    })
+  }
 
-    return data
+  // Saves the rows that passed parseImportRows as updates from the signed-in
+  // user, dated as in the file. Rows the market already has (the same wording
+  // on the same day) and repeats within the file are skipped, so importing a
+  // file again changes nothing.
+  static async importMarketUpdates(rows: ImportedUpdateRow[]): Promise<UpdateImportReport> {
+    await this.assertPermission('updates:post', 'You do not have permission to import updates')
+    const user = await this.requireUser('Sign in to import updates')
+    if (rows.length > MAX_IMPORT_ROWS) {
+      throw new ValidationError(`Import at most ${MAX_IMPORT_ROWS.toLocaleString()} rows at a time`)
+    }
+
+    const report: UpdateImportReport = { created: [], skipped: [] }
+    const ready = rows.filter(row => {
+      if (row.errors.length > 0 || !row.marketId || !row.createdAt) {
+        report.skipped.push({ row, reason: row.errors.join('; ') || 'Not ready to import' })
+        return false
+      }
+      return true
+    })
+
+    const marketIds = [...new Set(ready.map(row => row.marketId as string))]
+    for (const marketId of marketIds) {
+      await this.assertCanViewMarket(marketId)
+    }
+
+    // Keys of what's already there, posted in the portal or imported before
+    const existing = (await this.getMarketUpdates()).filter(update => marketIds.includes(update.market_id))
+    const existingKeys = new Set(await Promise.all(existing.map(async update =>
+      `${update.market_id}:${update.import_key ?? await importKey(update.created_at, update.message)}`)))
+
+    const seen = new Map<string, ImportedUpdateRow>()
+    const inputs: { row: ImportedUpdateRow; input: MarketUpdateInput }[] = []
+    for (const row of ready) {
+      const key = await importKey(row.createdAt as string, row.message)
+      const scopedKey = `${row.marketId}:${key}`
+      const earlier = seen.get(scopedKey)
+      if (existingKeys.has(scopedKey)) {
+        report.skipped.push({ row, reason: 'Already in the market\'s updates' })
+      } else if (earlier) {
+        report.skipped.push({ row, reason: `Same as row ${earlier.rowNumber}` })
+      } else {
+        seen.set(scopedKey, row)
+        inputs.push({
+          row,
+          input: {
+            marketId: row.marketId as string,
+            authorId: user.id,
+            author: user.full_name || user.email || 'Unknown user',
+            message: row.message,
+            createdAt: row.createdAt as string,
+            importKey: key
+          }
+        })
+      }
+    }
+
+    const saved = await getRepository().importMarketUpdates(inputs.map(({ input }) => input))
+    const savedByKey = new Map(saved.map(update => [`${update.market_id}:${update.import_key}`, update]))
+    for (const { row, input } of inputs) {
+      const update = savedByKey.get(`${input.marketId}:${input.importKey}`)
+      if (update) report.created.push({ row, updateId: update.id })
+      // Imported by someone else in the meantime
+      else report.skipped.push({ row, reason: 'Already in the market\'s updates' })
+    }
+
+    report.skipped.sort((a, b) => a.row.rowNumber - b.row.rowNumber)
+    return report
+  }
+
+  static async getUpdateAttachmentUrl(update: MarketUpdate, attachment: UpdateAttachment): Promise<string> {
+    await this.assertCanViewMarket(update.market_id)
+    return getRepository().getUpdateAttachmentUrl(attachment)
   }
 
-  static async updateMarketUpdate(id: string, message: string): Promise<MarketUpdate | null> {
-    const { data, error } = await supabase
-      .from('market_updates')
-      .update({ message })
-      .eq('id', id)
-      .select()
-      .single()
+  // Updates and replies that refer to the property by its map number, e.g.
+  // "#3" or "site 3", newest first
+  static async getPropertyUpdates(property: Property): Promise<MarketUpdate[]> {
+    const number = property.display_number
+    if (!number) return []
 
-    if (error) {
-      console.error('Error updating market update:', error)
-      return null
+    const updates = await this.getMarketUpdates(property.market_id)
+    return updates.filter(update => !update.deleted_at && referencedPropertyNumbers(update.message).includes(number))
+  }
+
+  // The update, if it's in one of the active client's markets the user can see.
+  // The update is looked up by ID alone, so its market is checked against the
+  // client too: admins can see every market, but only their own client's.
+  private static async getScopedMarketUpdate(id: string): Promise<MarketUpdate> {
+    const update = await getRepository().getMarketUpdate(id)
+    await this.getMarket(update.market_id)
+    return update
+  }
+
+  // The update, if the signed-in user posted it or moderates updates
+  private static async getModifiableMarketUpdate(id: string, message: string): Promise<MarketUpdate> {
+    const update = await this.getScopedMarketUpdate(id)
+
+    const user = await this.getCurrentUser()
+    if (!canModifyMarketUpdate(user, update)) {
+      throw new ForbiddenError(message)
+    }
+    return update
+  }
+
+  // The wording it replaces is kept as a revision. People mentioned for the
+  // first time in the edit are notified.
+  static async updateMarketUpdate(id: string, message: string, mentions: string[] = []): Promise<MarketUpdate> {
+    const update = await this.getModifiableMarketUpdate(id, 'Only the author or an admin can edit this update')
+    if (update.deleted_at) {
+      throw new ValidationError('Restore the update before editing it')
     }
+    return getRepository().updateMarketUpdate(id, { message, mentions })
+  }
+
+  // Leaves a tombstone in the thread; the update and its history are kept so
+  // restoreMarketUpdate can undo it
+  static async deleteMarketUpdate(id: string): Promise<MarketUpdate> {
+    await this.getModifiableMarketUpdate(id, 'Only the author or an admin can delete this update')
+    return getRepository().updateMarketUpdate(id, { deleted_at: new Date().toISOString() })
+  }
+
+  static async restoreMarketUpdate(id: string): Promise<MarketUpdate> {
+    await this.getScopedMarketUpdate(id)
+    await this.assertPermission('updates:moderate', 'Only an admin can restore deleted updates')
+    return getRepository().updateMarketUpdate(id, { deleted_at: null })
+  }
 
-    return data
+  // Earlier wordings of the update, oldest first
+  static async getMarketUpdateRevisions(update: MarketUpdate): Promise<MarketUpdateRevision[]> {
+    await this.assertCanViewMarket(update.market_id)
+    return getRepository().getMarketUpdateRevisions(update.id)
   }
 
-  static async deleteMarketUpdate(id: string): Promise<boolean> {
-    const { error } = await supabase
-      .from('market_updates')
-      .delete()
-      .eq('id', id)
+  // People who can be @mentioned in the market's updates
+  static async getMarketUsers(marketId: string): Promise<UpdateAuthor[]> {
+    await this.assertCanViewMarket(marketId)
+    return getRepository().getMarketUsers(marketId)
+  }
 
-    if (error) {
-      console.error('Error deleting market update:', error)
-      return false
+  // Adds the signed-in user's reaction, or takes it back if they already left it
+  static async toggleUpdateReaction(update: MarketUpdate, emoji: string): Promise<void> {
+    if (!isUpdateReaction(emoji)) {
+      throw new ValidationError('That reaction isn\'t available')
     }
+    await this.assertCanViewMarket(update.market_id)
+    const user = await this.requireUser('Sign in to react to updates')
+
+    const reacted = update.reactions?.some(reaction => reaction.user_id === user.id && reaction.emoji === emoji)
+    if (reacted) {
+      await getRepository().removeUpdateReaction(update.id, user.id, emoji)
+    } else {
+      await getRepository().addUpdateReaction(update.id, user.id, emoji)
+    }
+  }
+
+  // The signed-in user's recent notifications, newest first
+  static async getNotifications(limit = 20): Promise<PortalNotification[]> {
+    const user = await this.getCurrentUser()
+    if (!user) return []
+    return getRepository().getNotifications(user.id, limit)
+  }
+
+  static async markNotificationsRead(ids: string[]): Promise<void> {
+    return getRepository().markNotificationsRead(ids)
+  }
 
-    return true
+  // Listen for live changes to a table, optionally for one market. Returns an unsubscribe function.
+  static subscribe(table: ChangeTable, listener: (change: RowChange) => void, filter?: { marketId?: string }): () => void {
+    if (!config.features.realtime) return () => {}
+    return getRepository().subscribe(table, listener, filter)
   }
 }
@@ -0,0 +1,60 @@
+import type { DocumentCategory, DocumentWithVersions } from './supabase'
+
+// The document library: flyers, reports and deal paperwork for a market or one
+// of its properties. Every upload is kept as a new version; the library shows
+// the newest and lists the rest as history.
+
+export interface DocumentCategoryInfo {
+  label: string
+  // Heading the category is listed under
+  group: string
+}
+
+export const DOCUMENT_CATEGORIES: Record<DocumentCategory, DocumentCategoryInfo> = {
+  marketing: { label: 'Marketing Material', group: 'Marketing' },
+  as_built: { label: 'As Builts', group: 'Space Docs' },
+  demographic_report: { label: 'Demographic Report', group: 'Demographics' },
+  placer_report: { label: 'Placer.ai Report', group: 'Demographics' },
+  loi: { label: 'LOI', group: 'Deal Docs' },
+  lease: { label: 'Lease', group: 'Deal Docs' },
+  other: { label: 'Other', group: 'Other' },
+}
+
+export const DOCUMENT_GROUPS = [...new Set(Object.values(DOCUMENT_CATEGORIES).map(info => info.group))]
+
+export function isDocumentCategory(value: string): value is DocumentCategory {
+  return value in DOCUMENT_CATEGORIES
+}
+
+// Shown in the PDF viewer, so PDFs and images only
+export const DOCUMENT_CONTENT_TYPES = ['application/pdf', 'image/png', 'image/jpeg']
+export const MAX_DOCUMENT_BYTES = 25 * 1024 * 1024
+export const MAX_DOCUMENT_TITLE_LENGTH = 200
+
+// What's wrong with a file, or null if it can be uploaded
+export function documentFileProblem(file: { type: string; size: number }): string | null {
+  if (!DOCUMENT_CONTENT_TYPES.includes(file.type)) return 'Upload a PDF, PNG or JPEG file'
+  if (file.size === 0) return 'The file is empty'
+  if (file.size > MAX_DOCUMENT_BYTES) return `Files can be at most ${MAX_DOCUMENT_BYTES / 1024 / 1024} MB`
+  return null
+}
+
+// A title from the file name, e.g. "as-builts_v2.pdf" -> "as builts v2"
+export function titleFromFileName(fileName: string) {
+  return fileName.replace(/\.[^.]+$/, '').replace(/[_-]+/g, ' ').trim()
+}
+
+export function formatFileSize(bytes: number) {
+  if (bytes < 1024) return `${bytes} B`
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`
+  return `${(bytes / 1024 / 1024).toFixed(1)} MB`
+}
+
+// Property documents before market-wide ones, then by category and title
+export function sortDocuments(documents: DocumentWithVersions[]) {
+  const order = Object.keys(DOCUMENT_CATEGORIES)
+  return [...documents].sort((a, b) =>
+    Number(a.property_id === null) - Number(b.property_id === null)
+    || order.indexOf(a.category) - order.indexOf(b.category)
+    || a.title.localeCompare(b.title))
+}
@@ -0,0 +1,124 @@
+import type { PostgrestError } from '@supabase/supabase-js'
+
+// Error hierarchy for the data layer. DataService throws these instead of
+// returning empty values, so the UI can tell "no data" from a real failure.
+
+export type DataErrorKind = 'not_found' | 'forbidden' | 'validation' | 'transient' | 'unknown'
+
+export class DataError extends Error {
+  readonly kind: DataErrorKind
+  readonly code?: string
+
+  constructor(kind: DataErrorKind, message: string, options: { code?: string; cause?: unknown } = {}) {
+    super(message, { cause: options.cause })
+    this.name = 'DataError'
+    this.kind = kind
+    this.code = options.code
+  }
+}
+
+export class NotFoundError extends DataError {
+  constructor(message: string, options?: { code?: string; cause?: unknown }) {
+    super('not_found', message, options)
+    this.name = 'NotFoundError'
+  }
+}
+
+export class ForbiddenError extends DataError {
+  constructor(message: string, options?: { code?: string; cause?: unknown }) {
+    super('forbidden', message, options)
+    this.name = 'ForbiddenError'
+  }
+}
+
+export class ValidationError extends DataError {
+  constructor(message: string, options?: { code?: string; cause?: unknown }) {
+    super('validation', message, options)
+    this.name = 'ValidationError'
+  }
+}
+
+// Network drops, timeouts and database contention - safe to retry
+export class TransientError extends DataError {
+  constructor(message: string, options?: { code?: string; cause?: unknown }) {
+    super('transient', message, options)
+    this.name = 'TransientError'
+  }
+}
+
+function isPostgrestError(error: unknown): error is PostgrestError {
+  return typeof error === 'object' && error !== null && 'code' in error && 'message' in error
+}
+
+// Map a Supabase/Postgres error (or a thrown fetch error) onto the hierarchy.
+// `context` describes what was being done, e.g. "fetching markets".
+export function toDataError(error: unknown, context: string): DataError {
+  if (error instanceof DataError) return error
+
+  if (isPostgrestError(error)) {
+    const code = error.code || ''
+    const message = `Error ${context}: ${error.message}`
+
+    // .single() matched no rows
+    if (code === 'PGRST116') return new NotFoundError(message, { code, cause: error })
+    // RLS / privilege failures and expired or missing JWTs
+    if (code === '42501' || code === 'PGRST301' || code === 'PGRST302') {
+      return new ForbiddenError(message, { code, cause: error })
+    }
+    // Data exceptions, constraint violations and raised exceptions
+    if (code.startsWith('22') || code.startsWith('23') || code === 'P0001') {
+      return new ValidationError(message, { code, cause: error })
+    }
+    // Connection failures, resource limits, serialization failures, deadlocks, timeouts
+    if (code.startsWith('08') || code.startsWith('53') || code.startsWith('57') || code === '40001' || code === '40P01') {
+      return new TransientError(message, { code, cause: error })
+    }
+    // supabase-js reports network failures with an empty code
+    if (!code && /fetch|network|timeout/i.test(error.message)) {
+      return new TransientError(message, { cause: error })
+    }
+
+    return new DataError('unknown', message, { code, cause: error })
+  }
+
+  if (error instanceof TypeError) {
+    return new TransientError(`Error ${context}: ${error.message}`, { cause: error })
+  }
+
+  const detail = error instanceof Error ? error.message : String(error)
+  return new DataError('unknown', `Error ${context}: ${detail}`, { cause: error })
+}
+
+// Short, user-facing description of a failure
+export function describeError(error: unknown): string {
+  const kind = error instanceof DataError ? error.kind : 'unknown'
+
+  // Our own validation errors (no database code) are already written for the user
+  if (error instanceof ValidationError && !error.code) return error.message
+
+  switch (kind) {
+    case 'not_found': return 'We couldn\'t find what you were looking for.'
+    case 'forbidden': return 'You don\'t have permission to do that.'
+    case 'validation': return 'Some of the information was invalid. Please check it and try again.'
+    case 'transient': return 'We couldn\'t reach the server. Check your connection and try again.'
+    default: return 'Something went wrong. Please try again.'
+  }
+}
+
+// Retry an operation while it keeps failing with a TransientError
+export async function withRetry<T>(
+  operation: () => Promise<T>,
+  { retries = 2, delayMs = 300 }: { retries?: number; delayMs?: number } = {}
+): Promise<T> {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await operation()
+    } catch (error) {
+      if (!(error instanceof TransientError) || attempt >= retries) {
+        throw error
+      }
+      // Back off a little more on each attempt
+      await new Promise(resolve => setTimeout(resolve, delayMs * 2 ** attempt))
+    }
+  }
+}
@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest'
+import { Gazetteer, GazetteerGeocoder } from './gazetteer-geocoder'
+
+const gazetteer: Gazetteer = {
+  postal_codes: [{ code: '78723', city: 'Austin', state: 'TX', lat: 30.3046, lng: -97.6855 }],
+  places: [
+    { city: 'Austin', state: 'TX', lat: 30.2672, lng: -97.7431 },
+    { city: 'St. Paul', state: 'MN', lat: 44.9537, lng: -93.09 },
+  ],
+  states: [{ state: 'TX', lat: 31.0, lng: -100.0 }],
+}
+
+const geocoder = new GazetteerGeocoder(gazetteer)
+
+function address(parts: { address_line?: string; city?: string; state?: string; postal_code?: string }) {
+  return { address_line: null, city: null, state: null, postal_code: null, ...parts }
+}
+
+describe('GazetteerGeocoder', () => {
+  it('places addresses at their ZIP code, confidently when the city and state agree', async () => {
+    const result = await geocoder.geocode(address({ address_line: '1801 E 51st St', city: 'Austin', state: 'TX', postal_code: '78723-1234' }))
+
+    expect(result).toEqual({ lat: 30.3046, lng: -97.6855, confidence: 0.8, precision: 'postal_code', label: '78723, Austin, TX' })
+  })
+
+  it('trusts a ZIP code less when the city disagrees with it', async () => {
+    const result = await geocoder.geocode(address({ city: 'Dallas', state: 'TX', postal_code: '78723' }))
+
+    expect(result).toMatchObject({ precision: 'postal_code', confidence: 0.5 })
+  })
+
+  it('falls back to the city, ignoring case, dots and spacing', async () => {
+    expect(await geocoder.geocode(address({ city: 'st  paul', state: 'mn' }))).toMatchObject({ precision: 'place', confidence: 0.6, label: 'St. Paul, MN' })
+    expect(await geocoder.geocode(address({ city: 'Austin', postal_code: '99999' }))).toMatchObject({ precision: 'place', lat: 30.2672 })
+  })
+
+  it('falls back to the state with low confidence', async () => {
+    expect(await geocoder.geocode(address({ city: 'Marfa', state: 'TX' }))).toMatchObject({ precision: 'region', confidence: 0.2, label: 'TX' })
+  })
+
+  it('matches nothing it does not know', async () => {
+    expect(await geocoder.geocode(address({ address_line: '1 Main St' }))).toBeNull()
+    expect(await geocoder.geocode(address({ city: 'Austin', state: 'MN' }))).toBeNull()
+  })
+})
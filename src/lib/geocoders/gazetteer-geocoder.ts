@@ -0,0 +1,53 @@
+import gazetteer from '@/fixtures/gazetteer.json'
+import type { GeocodeAddress, GeocodeResult, Geocoder } from '../geocoding'
+
+// Offline geocoder for the local backend and tests. It knows ZIP codes,
+// cities and states from src/fixtures/gazetteer.json, never street
+// addresses, so the best it can do is a ZIP code centroid.
+
+export interface Gazetteer {
+  postal_codes: { code: string; city: string; state: string; lat: number; lng: number }[]
+  places: { city: string; state: string; lat: number; lng: number }[]
+  states: { state: string; lat: number; lng: number }[]
+}
+
+function normalize(text: string | null | undefined) {
+  return (text ?? '').trim().toLowerCase().replace(/\./g, '').replace(/\s+/g, ' ')
+}
+
+export class GazetteerGeocoder implements Geocoder {
+  constructor(private readonly data: Gazetteer = gazetteer) {}
+
+  async geocode(address: GeocodeAddress): Promise<GeocodeResult | null> {
+    const city = normalize(address.city)
+    const state = normalize(address.state)
+    const zip = (address.postal_code ?? '').trim().slice(0, 5)
+
+    const postalCode = zip ? this.data.postal_codes.find(entry => entry.code === zip) : undefined
+    if (postalCode) {
+      // A ZIP that disagrees with the city or state is probably a typo in one of them
+      const agrees = (!city || normalize(postalCode.city) === city) && (!state || normalize(postalCode.state) === state)
+      return {
+        lat: postalCode.lat,
+        lng: postalCode.lng,
+        confidence: agrees ? 0.8 : 0.5,
+        precision: 'postal_code',
+        label: `${postalCode.code}, ${postalCode.city}, ${postalCode.state}`
+      }
+    }
+
+    const place = city
+      ? this.data.places.find(entry => normalize(entry.city) === city && (!state || normalize(entry.state) === state))
+      : undefined
+    if (place) {
+      return { lat: place.lat, lng: place.lng, confidence: 0.6, precision: 'place', label: `${place.city}, ${place.state}` }
+    }
+
+    const region = state ? this.data.states.find(entry => normalize(entry.state) === state) : undefined
+    if (region) {
+      return { lat: region.lat, lng: region.lng, confidence: 0.2, precision: 'region', label: region.state }
+    }
+
+    return null
+  }
+}
@@ -0,0 +1,68 @@
+import { toDataError, withRetry, TransientError } from '../errors'
+import { formatAddress, type GeocodeAddress, type GeocodeResult, type Geocoder } from '../geocoding'
+
+// Mapbox Geocoding API (v5, mapbox.places), limited to US addresses
+
+interface MapboxFeature {
+  center: [number, number]
+  place_name: string
+  place_type: string[]
+  relevance: number
+}
+
+// How much a match of each type can be trusted, whatever its relevance
+const PRECISION_BY_TYPE: Record<string, { precision: GeocodeResult['precision']; weight: number }> = {
+  address: { precision: 'address', weight: 1 },
+  poi: { precision: 'address', weight: 0.9 },
+  postcode: { precision: 'postal_code', weight: 0.75 },
+  neighborhood: { precision: 'place', weight: 0.65 },
+  locality: { precision: 'place', weight: 0.6 },
+  place: { precision: 'place', weight: 0.55 },
+  region: { precision: 'region', weight: 0.2 },
+}
+
+export class MapboxGeocoder implements Geocoder {
+  constructor(private readonly accessToken: string) {}
+
+  async geocode(address: GeocodeAddress): Promise<GeocodeResult | null> {
+    const query = formatAddress(address)
+    if (!query) return null
+
+    const url = new URL(`https://api.mapbox.com/geocoding/v5/mapbox.places/${encodeURIComponent(query)}.json`)
+    url.searchParams.set('access_token', this.accessToken)
+    url.searchParams.set('country', 'us')
+    url.searchParams.set('limit', '1')
+    url.searchParams.set('types', Object.keys(PRECISION_BY_TYPE).join(','))
+
+    const feature = await withRetry(async () => {
+      let response: Response
+      try {
+        response = await fetch(url)
+      } catch (error) {
+        throw toDataError(error, 'geocoding address')
+      }
+
+      if (response.status === 429 || response.status >= 500) {
+        throw new TransientError(`Error geocoding address: Mapbox returned ${response.status}`)
+      }
+      if (!response.ok) {
+        throw toDataError(new Error(`Mapbox returned ${response.status}`), 'geocoding address')
+      }
+
+      const body = await response.json() as { features?: MapboxFeature[] }
+      return body.features?.[0] ?? null
+    })
+
+    if (!feature) return null
+
+    const type = PRECISION_BY_TYPE[feature.place_type[0]] ?? { precision: 'region', weight: 0.2 }
+    const [lng, lat] = feature.center
+    return {
+      lat,
+      lng,
+      confidence: Math.round(feature.relevance * type.weight * 100) / 100,
+      precision: type.precision,
+      label: feature.place_name
+    }
+  }
+}
@@ -0,0 +1,97 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { DataService } from './data-service'
+import { TransientError } from './errors'
+import { GeocodeAddress, Geocoder, setGeocoder } from './geocoding'
+import { GazetteerGeocoder } from './geocoders/gazetteer-geocoder'
+import { setRepository } from './repository'
+import { LocalRepository } from './repositories/local-repository'
+import { loadFixtureDataset } from './repositories/fixtures'
+import type { PropertyInput } from './repository'
+
+const data = loadFixtureDataset()
+const AUSTIN_ID = data.markets[0].id
+
+// A new Austin property at `address`, with no pin
+function propertyAt(address: Partial<GeocodeAddress>): PropertyInput {
+  return {
+    market_id: AUSTIN_ID,
+    title: 'New site',
+    address_line: null,
+    city: null,
+    state: null,
+    postal_code: null,
+    lat: null,
+    lng: null,
+    size_sqft: 2400,
+    base_rent_psf: null,
+    expenses_psf: null,
+    phase: 'intro',
+    display_number: null,
+    notes: null,
+    photo_url: null,
+    ...address,
+  }
+}
+
+describe('geocoding properties on save', () => {
+  beforeEach(() => {
+    setRepository(new LocalRepository(loadFixtureDataset()))
+    DataService.setActiveClientId(data.clients[0].id)
+  })
+
+  afterEach(() => {
+    setRepository(null)
+    setGeocoder(null)
+    DataService.setActiveClientId(null)
+  })
+
+  it('places new properties with the configured geocoder', async () => {
+    setGeocoder(new GazetteerGeocoder())
+
+    const property = await DataService.createProperty(propertyAt({ address_line: '2000 S Lamar Blvd', city: 'Austin', state: 'TX', postal_code: '78704' }))
+
+    expect(property).toMatchObject({ lat: 30.2430, lng: -97.7650, geocode_status: 'matched', geocode_confidence: 0.8 })
+    expect(await DataService.getPropertiesNeedingAttention()).toEqual([])
+  })
+
+  it('lists rough and failed matches for someone to pin by hand', async () => {
+    setGeocoder(new GazetteerGeocoder())
+
+    const rough = await DataService.createProperty(propertyAt({ address_line: '1 Main St', city: 'Austin', state: 'TX', postal_code: null }))
+    const unknown = await DataService.createProperty(propertyAt({ address_line: '1 Main St', city: 'Nowhere', state: 'ZZ', postal_code: null }))
+
+    expect(rough).toMatchObject({ geocode_status: 'low_confidence', geocode_confidence: 0.6 })
+    expect(unknown).toMatchObject({ lat: null, lng: null, geocode_status: 'failed' })
+    expect((await DataService.getPropertiesNeedingAttention()).map(p => p.id).sort()).toEqual([rough.id, unknown.id].sort())
+
+    const pinned = await DataService.placePropertyPin(unknown.id, 30.27, -97.74)
+    expect(pinned).toMatchObject({ lat: 30.27, lng: -97.74, geocode_status: 'manual' })
+    expect((await DataService.getPropertiesNeedingAttention()).map(p => p.id)).toEqual([rough.id])
+  })
+
+  it('still saves the property when the geocoder is unreachable, and retries later', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {})
+    const geocode = vi.fn<Geocoder['geocode']>().mockRejectedValueOnce(new TransientError('Geocoder unavailable'))
+    setGeocoder({ geocode })
+
+    const property = await DataService.createProperty(propertyAt({ city: 'Austin', state: 'TX', postal_code: '78701' }))
+    expect(property.geocode_status).toBe('failed')
+
+    geocode.mockResolvedValueOnce({ lat: 30.2711, lng: -97.7437, confidence: 0.9, precision: 'address', label: '78701' })
+    expect(await DataService.geocodeProperty(property.id)).toMatchObject({ lat: 30.2711, geocode_status: 'matched' })
+  })
+
+  it('only geocodes again when the address changes', async () => {
+    const gazetteer = new GazetteerGeocoder()
+    const geocode = vi.fn((address: GeocodeAddress) => gazetteer.geocode(address))
+    setGeocoder({ geocode })
+
+    const property = await DataService.createProperty(propertyAt({ city: 'Austin', state: 'TX', postal_code: '78701' }))
+    await DataService.updateProperty(property.id, { notes: 'Corner unit' })
+    expect(geocode).toHaveBeenCalledTimes(1)
+
+    const moved = await DataService.updateProperty(property.id, { postal_code: '78758' })
+    expect(geocode).toHaveBeenCalledTimes(2)
+    expect(moved).toMatchObject({ lat: 30.3883, lng: -97.7067 })
+  })
+})
@@ -0,0 +1,72 @@
+import type { GeocodeStatus, Property } from './supabase'
+import { config } from './config'
+import { GazetteerGeocoder } from './geocoders/gazetteer-geocoder'
+import { MapboxGeocoder } from './geocoders/mapbox-geocoder'
+
+// Turns a property's address into map coordinates. DataService geocodes on
+// save so properties don't silently drop off the maps; anything that fails or
+// only matches roughly is listed for someone to place by hand.
+
+export type GeocodeAddress = Pick<Property, 'address_line' | 'city' | 'state' | 'postal_code'>
+
+export interface GeocodeResult {
+  lat: number
+  lng: number
+  // 0-1: how sure the provider is this is the right place
+  confidence: number
+  // How specific the match was
+  precision: 'address' | 'postal_code' | 'place' | 'region'
+  // What the provider matched, for showing alongside the result
+  label: string
+}
+
+export interface Geocoder {
+  // Null when nothing matches. Throws a DataError if the provider can't be reached.
+  geocode(address: GeocodeAddress): Promise<GeocodeResult | null>
+}
+
+// Matches below this go on the needs-attention list
+export const LOW_CONFIDENCE_THRESHOLD = 0.7
+
+export function geocodeStatus(result: GeocodeResult | null): GeocodeStatus {
+  if (!result) return 'failed'
+  return result.confidence >= LOW_CONFIDENCE_THRESHOLD ? 'matched' : 'low_confidence'
+}
+
+// Properties someone should look at: off the map or only roughly placed
+export function needsGeocodeAttention(property: Property): boolean {
+  return property.lat == null
+    || property.lng == null
+    || property.geocode_status === 'failed'
+    || property.geocode_status === 'low_confidence'
+}
+
+export function hasAddress(address: GeocodeAddress): boolean {
+  return [address.address_line, address.city, address.state, address.postal_code].some(part => part?.trim())
+}
+
+export function formatAddress(address: GeocodeAddress): string {
+  const cityState = [address.city?.trim(), address.state?.trim()].filter(Boolean).join(', ')
+  return [address.address_line?.trim(), [cityState, address.postal_code?.trim()].filter(Boolean).join(' ')]
+    .filter(Boolean)
+    .join(', ')
+}
+
+let geocoder: Geocoder | null = null
+
+// Mapbox when there's a token to call it with; otherwise the offline
+// gazetteer, which is also what the local backend uses
+export function getGeocoder(): Geocoder {
+  if (!geocoder) {
+    geocoder = config.dataBackend === 'local' || !config.mapbox.accessToken
+      ? new GazetteerGeocoder()
+      : new MapboxGeocoder(config.mapbox.accessToken)
+  }
+
+  return geocoder
+}
+
+// Swap the provider, e.g. for a test with its own gazetteer
+export function setGeocoder(next: Geocoder | null) {
+  geocoder = next
+}
@@ -0,0 +1,157 @@
+import { createServer, type Server } from 'node:http'
+import type { AddressInfo, LookupFunction } from 'node:net'
+import { afterAll, beforeAll, describe, expect, it } from 'vitest'
+import { fetchImage, ImageProxyError, ImageProxyOptions, isPrivateAddress } from './image-proxy'
+
+const PNG = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0, 0, 0, 0x0d])
+const STAND_IN = '127.0.0.1'
+
+// Fake DNS: every name points at the stand-in server except internal.test,
+// which answers with a private address
+const lookup: LookupFunction = (hostname, options, callback) => {
+  const address = hostname === 'internal.test' ? '10.0.0.7' : STAND_IN
+  if (options.all) callback(null, [{ address, family: 4 }])
+  else callback(null, address, 4)
+}
+
+let server: Server
+let port: number
+
+function options(overrides: Partial<ImageProxyOptions> = {}): ImageProxyOptions {
+  return {
+    allowedHosts: ['images.test', '*.cdn.test', 'internal.test'],
+    protocols: ['http:'],
+    lookup,
+    // The stand-in lives on loopback; every other private address stays blocked
+    isBlockedAddress: address => address !== STAND_IN && isPrivateAddress(address),
+    maxBytes: 1024,
+    timeoutMs: 500,
+    ...overrides,
+  }
+}
+
+function url(host: string, path: string) {
+  return `http://${host}:${port}${path}`
+}
+
+async function proxyError(rawUrl: string, overrides?: Partial<ImageProxyOptions>) {
+  const error = await fetchImage(rawUrl, options(overrides)).then(() => null, error => error)
+  expect(error).toBeInstanceOf(ImageProxyError)
+  return error as ImageProxyError
+}
+
+beforeAll(async () => {
+  server = createServer((request, response) => {
+    switch (request.url) {
+      case '/photo.png':
+        response.writeHead(200, { 'Content-Type': 'image/png' }).end(PNG)
+        break
+      case '/redirect-internal':
+        response.writeHead(302, { Location: url('internal.test', '/photo.png') }).end()
+        break
+      case '/redirect-elsewhere':
+        response.writeHead(302, { Location: url('elsewhere.test', '/photo.png') }).end()
+        break
+      case '/redirect-literal':
+        response.writeHead(302, { Location: `http://10.0.0.7:${port}/photo.png` }).end()
+        break
+      case '/declared-large':
+        response.writeHead(200, { 'Content-Type': 'image/png', 'Content-Length': '4096' })
+        response.end(Buffer.concat([PNG, Buffer.alloc(4096 - PNG.length)]))
+        break
+      case '/streamed-large':
+        // Chunked, so only counting the bytes catches it
+        response.writeHead(200, { 'Content-Type': 'image/png' })
+        response.write(PNG)
+        for (let chunk = 0; chunk < 4; chunk++) response.write(Buffer.alloc(512))
+        response.end()
+        break
+      case '/slow':
+        // Never answers
+        break
+      case '/page.png':
+        response.writeHead(200, { 'Content-Type': 'image/png' }).end('<html><script>alert(1)</script></html>')
+        break
+      case '/drawing.svg':
+        response.writeHead(200, { 'Content-Type': 'image/svg+xml' }).end('<svg xmlns="http://www.w3.org/2000/svg"/>')
+        break
+      default:
+        response.writeHead(404).end()
+    }
+  })
+  await new Promise<void>(resolve => server.listen(0, STAND_IN, resolve))
+  port = (server.address() as AddressInfo).port
+})
+
+afterAll(async () => {
+  server.closeAllConnections()
+  await new Promise(resolve => server.close(resolve))
+})
+
+describe('fetchImage', () => {
+  it('returns images from allowed hosts, typed from their bytes', async () => {
+    const image = await fetchImage(url('images.test', '/photo.png'), options())
+
+    expect(image.contentType).toBe('image/png')
+    expect(image.body.equals(PNG)).toBe(true)
+  })
+
+  it('allows subdomains of wildcard hosts', async () => {
+    const image = await fetchImage(url('photos.cdn.test', '/photo.png'), options())
+
+    expect(image.contentType).toBe('image/png')
+  })
+
+  it('refuses hosts that are not on the allowlist', async () => {
+    expect((await proxyError(url('elsewhere.test', '/photo.png'))).status).toBe(403)
+    expect((await proxyError(url('cdn.test.evil.test', '/photo.png'))).status).toBe(403)
+  })
+
+  it('refuses https-only setups asked for plain http', async () => {
+    expect((await proxyError(url('images.test', '/photo.png'), { protocols: ['https:'] })).status).toBe(400)
+  })
+
+  it('refuses allowed hosts that resolve to a private address', async () => {
+    expect((await proxyError(url('internal.test', '/photo.png'))).status).toBe(403)
+  })
+
+  it('refuses the stand-in itself under the default address check', async () => {
+    // A host no earlier test used, so no pooled connection skips the lookup
+    const error = await proxyError(url('loopback.cdn.test', '/photo.png'), { isBlockedAddress: isPrivateAddress })
+
+    expect(error.status).toBe(403)
+  })
+
+  it('refuses redirects to private addresses', async () => {
+    expect((await proxyError(url('images.test', '/redirect-internal'))).status).toBe(403)
+    expect((await proxyError(url('images.test', '/redirect-literal'), { allowedHosts: ['images.test', '10.0.0.7'] })).status).toBe(403)
+  })
+
+  it('refuses redirects to hosts that are not on the allowlist', async () => {
+    expect((await proxyError(url('images.test', '/redirect-elsewhere'))).status).toBe(403)
+  })
+
+  it('stops at the size cap, whether or not the length is declared', async () => {
+    const declared = await proxyError(url('images.test', '/declared-large'))
+    const streamed = await proxyError(url('images.test', '/streamed-large'))
+
+    expect(declared.status).toBe(502)
+    expect(streamed.status).toBe(502)
+    expect(streamed.message).toBe('The image is too large')
+  })
+
+  it('gives up on hosts that take too long', async () => {
+    const error = await proxyError(url('images.test', '/slow'), { timeoutMs: 100 })
+
+    expect(error.status).toBe(504)
+  })
+
+  it('refuses responses that are not raster images, whatever their Content-Type', async () => {
+    expect((await proxyError(url('images.test', '/page.png'))).status).toBe(415)
+    expect((await proxyError(url('images.test', '/drawing.svg'))).status).toBe(415)
+  })
+
+  it('passes on upstream errors as a bad gateway', async () => {
+    expect((await proxyError(url('images.test', '/missing.png'))).status).toBe(502)
+  })
+})
@@ -0,0 +1,207 @@
+import { lookup as dnsLookup, type LookupAddress } from 'node:dns'
+import http from 'node:http'
+import https from 'node:https'
+import { BlockList, isIP, type LookupFunction } from 'node:net'
+
+// Server side of /api/image-proxy: fetches an image from an allowed host and
+// checks it really is one. Every hop, redirects included, must be on the
+// allowlist and resolve to a public address. The address is checked when the
+// connection is made rather than in a separate lookup beforehand, so a DNS
+// answer that changes between the two can't slip a private address through.
+
+export interface ImageProxyOptions {
+  // Host names, or "*.example.com" for any subdomain
+  allowedHosts: string[]
+  maxBytes?: number
+  timeoutMs?: number
+  maxRedirects?: number
+  protocols?: string[]
+  // Swapped out to point at a stand-in server
+  lookup?: LookupFunction
+  isBlockedAddress?: (address: string) => boolean
+}
+
+export interface ProxiedImage {
+  body: Buffer
+  // Taken from the bytes, not the upstream's Content-Type
+  contentType: string
+}
+
+// A request the proxy refuses or can't complete, with the status to answer with
+export class ImageProxyError extends Error {
+  constructor(readonly status: number, message: string) {
+    super(message)
+    this.name = 'ImageProxyError'
+  }
+}
+
+const DEFAULT_MAX_BYTES = 5 * 1024 * 1024
+const DEFAULT_TIMEOUT_MS = 8000
+const DEFAULT_MAX_REDIRECTS = 3
+const REDIRECT_STATUSES = [301, 302, 303, 307, 308]
+
+// Loopback, private, link-local, carrier-grade NAT, documentation, multicast
+// and reserved ranges: nothing a public image host lives on
+const BLOCKED_RANGES = new BlockList()
+for (const [network, prefix] of [
+  ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8], ['169.254.0.0', 16],
+  ['172.16.0.0', 12], ['192.0.0.0', 24], ['192.0.2.0', 24], ['192.88.99.0', 24], ['192.168.0.0', 16],
+  ['198.18.0.0', 15], ['198.51.100.0', 24], ['203.0.113.0', 24], ['224.0.0.0', 4], ['240.0.0.0', 4],
+] as const) {
+  BLOCKED_RANGES.addSubnet(network, prefix, 'ipv4')
+}
+for (const [network, prefix] of [
+  ['::', 128], ['::1', 128], ['64:ff9b::', 96], ['100::', 64], ['2001:db8::', 32],
+  ['fc00::', 7], ['fe80::', 10], ['ff00::', 8],
+] as const) {
+  BLOCKED_RANGES.addSubnet(network, prefix, 'ipv6')
+}
+
+export function isPrivateAddress(address: string): boolean {
+  // IPv4 written as IPv6, e.g. ::ffff:127.0.0.1
+  const mapped = address.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/i)
+  if (mapped) return isPrivateAddress(mapped[1])
+
+  const family = isIP(address)
+  if (family === 0) return true
+  return BLOCKED_RANGES.check(address, family === 4 ? 'ipv4' : 'ipv6')
+}
+
+export function isAllowedHost(hostname: string, allowedHosts: string[]): boolean {
+  const host = hostname.toLowerCase().replace(/\.$/, '')
+  return allowedHosts.some(allowed => allowed.startsWith('*.')
+    ? host.endsWith(allowed.slice(1))
+    : host === allowed)
+}
+
+// Content type from the first bytes, or null for anything that isn't a raster
+// image. SVG is refused: it can carry script.
+export function sniffImageType(bytes: Uint8Array): string | null {
+  const startsWith = (signature: number[], offset = 0) => signature.every((byte, i) => bytes[offset + i] === byte)
+  const ascii = (text: string, offset = 0) => startsWith([...text].map(char => char.charCodeAt(0)), offset)
+
+  if (startsWith([0xff, 0xd8, 0xff])) return 'image/jpeg'
+  if (startsWith([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) return 'image/png'
+  if (ascii('GIF87a') || ascii('GIF89a')) return 'image/gif'
+  if (ascii('RIFF') && ascii('WEBP', 8)) return 'image/webp'
+  if (ascii('ftypavif', 4) || ascii('ftypavis', 4)) return 'image/avif'
+  return null
+}
+
+// Resolves as usual, then refuses the connection if any answer is blocked
+function guardedLookup(lookup: LookupFunction, isBlocked: (address: string) => boolean): LookupFunction {
+  return (hostname, options, callback) => {
+    lookup(hostname, { ...options, all: true }, (error, addresses) => {
+      if (error) return callback(error, '', 0)
+
+      const answers = addresses as LookupAddress[]
+      if (answers.length === 0 || answers.some(answer => isBlocked(answer.address))) {
+        return callback(new ImageProxyError(403, 'That host is not allowed'), '', 0)
+      }
+
+      if (options.all) callback(null, answers)
+      else callback(null, answers[0].address, answers[0].family)
+    })
+  }
+}
+
+function checkUrl(url: URL, allowedHosts: string[], protocols: string[], isBlocked: (address: string) => boolean) {
+  if (!protocols.includes(url.protocol)) {
+    throw new ImageProxyError(400, 'Only https image URLs can be proxied')
+  }
+  if (url.username || url.password) {
+    throw new ImageProxyError(400, 'Image URLs can\'t carry credentials')
+  }
+  if (!isAllowedHost(url.hostname, allowedHosts)) {
+    throw new ImageProxyError(403, 'That host is not allowed')
+  }
+  // Connections to an IP literal skip the lookup, so check it here
+  const literal = url.hostname.replace(/^\[|\]$/g, '')
+  if (isIP(literal) && isBlocked(literal)) {
+    throw new ImageProxyError(403, 'That host is not allowed')
+  }
+}
+
+function get(url: URL, lookup: LookupFunction, signal: AbortSignal): Promise<http.IncomingMessage> {
+  const client = url.protocol === 'http:' ? http : https
+  return new Promise((resolve, reject) => {
+    const request = client.get(url, {
+      lookup,
+      signal,
+      headers: { 'Accept': 'image/*', 'User-Agent': 'school-of-rock-portal image proxy' },
+    }, resolve)
+    request.on('error', reject)
+  })
+}
+
+async function readBody(response: http.IncomingMessage, maxBytes: number): Promise<Buffer> {
+  const declared = Number(response.headers['content-length'])
+  if (declared > maxBytes) {
+    response.destroy()
+    throw new ImageProxyError(502, 'The image is too large')
+  }
+
+  const chunks: Buffer[] = []
+  let total = 0
+  for await (const chunk of response) {
+    total += (chunk as Buffer).length
+    if (total > maxBytes) {
+      response.destroy()
+      throw new ImageProxyError(502, 'The image is too large')
+    }
+    chunks.push(chunk as Buffer)
+  }
+  return Buffer.concat(chunks)
+}
+
+export async function fetchImage(rawUrl: string, options: ImageProxyOptions): Promise<ProxiedImage> {
+  const {
+    allowedHosts,
+    maxBytes = DEFAULT_MAX_BYTES,
+    timeoutMs = DEFAULT_TIMEOUT_MS,
+    maxRedirects = DEFAULT_MAX_REDIRECTS,
+    protocols = ['https:'],
+    lookup = dnsLookup as LookupFunction,
+    isBlockedAddress = isPrivateAddress,
+  } = options
+
+  let url: URL
+  try {
+    url = new URL(rawUrl)
+  } catch {
+    throw new ImageProxyError(400, 'That isn\'t a valid URL')
+  }
+
+  const signal = AbortSignal.timeout(timeoutMs)
+  const connectLookup = guardedLookup(lookup, isBlockedAddress)
+
+  try {
+    for (let redirects = 0; ; redirects++) {
+      checkUrl(url, allowedHosts, protocols, isBlockedAddress)
+      const response = await get(url, connectLookup, signal)
+      const status = response.statusCode ?? 0
+
+      if (REDIRECT_STATUSES.includes(status) && response.headers.location) {
+        response.resume()
+        if (redirects >= maxRedirects) throw new ImageProxyError(502, 'Too many redirects')
+        url = new URL(response.headers.location, url)
+        continue
+      }
+
+      if (status !== 200) {
+        response.resume()
+        throw new ImageProxyError(502, `The image host returned ${status}`)
+      }
+
+      const body = await readBody(response, maxBytes)
+      const contentType = sniffImageType(body)
+      if (!contentType) throw new ImageProxyError(415, 'That URL isn\'t an image')
+
+      return { body, contentType }
+    }
+  } catch (error) {
+    if (error instanceof ImageProxyError) throw error
+    if (signal.aborted) throw new ImageProxyError(504, 'The image host took too long to answer')
+    throw new ImageProxyError(502, 'Couldn\'t fetch the image')
+  }
+}
@@ -0,0 +1,267 @@
+import type { Feature, FeatureCollection, Point } from 'geojson'
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import {
+  Bounds,
+  isMapped,
+  LayerGroup,
+  LngLat,
+  MapEngine,
+  MapEngineHandlers,
+  MapRenderer,
+  MapScene,
+  MapStyle,
+  MapTarget,
+  PropertyFeatureProps,
+} from './map-engine'
+import { DEFAULT_PHASE_CATALOG } from './phases'
+import { loadFixtureDataset } from './repositories/fixtures'
+
+// Records what the engine asks for and lets a test click and hover, in place of Mapbox
+class FakeRenderer implements MapRenderer {
+  basemaps: MapStyle[] = []
+  layers = new Map<LayerGroup, FeatureCollection>()
+  // Groups in the order their data was sent
+  layerUpdates: LayerGroup[] = []
+  fits: { bounds: Bounds; options: { padding: number; maxZoom: number } }[] = []
+  flights: { center: LngLat; zoom: number }[] = []
+  popups: { at: LngLat; html: string }[] = []
+  closedPopups = 0
+  destroyed = false
+  // What clusterLeaves answers with
+  clusterContents: Feature[] = []
+  // Click handler for the last popup's "Zoom in" button
+  zoomInClick: (() => Promise<void>) | null = null
+
+  private clickHandlers = new Set<(target: MapTarget | null) => void>()
+  private hoverHandlers = new Set<(target: MapTarget | null) => void>()
+
+  async ready() {}
+
+  setBasemap(style: MapStyle) {
+    this.basemaps.push(style)
+  }
+
+  setLayerData(group: LayerGroup, data: FeatureCollection) {
+    this.layers.set(group, data)
+    this.layerUpdates.push(group)
+  }
+
+  fitBounds(bounds: Bounds, options: { padding: number; maxZoom: number }) {
+    this.fits.push({ bounds, options })
+  }
+
+  flyTo(center: LngLat, zoom: number) {
+    this.flights.push({ center, zoom })
+  }
+
+  // Stands in for the popup's element so the engine can wire up its button
+  showPopup(at: LngLat, html: string) {
+    this.popups.push({ at, html })
+    const button = html.includes('data-zoom-in')
+      ? { addEventListener: (_type: string, listener: () => Promise<void>) => { this.zoomInClick = listener } }
+      : null
+    return { querySelector: () => button } as unknown as HTMLElement
+  }
+
+  closePopup() {
+    this.closedPopups++
+  }
+
+  async clusterLeaves(_clusterId: number, limit: number) {
+    return this.clusterContents.slice(0, limit)
+  }
+
+  async clusterExpansionZoom() {
+    return 14
+  }
+
+  onClick(handler: (target: MapTarget | null) => void) {
+    this.clickHandlers.add(handler)
+    return () => { this.clickHandlers.delete(handler) }
+  }
+
+  onHover(handler: (target: MapTarget | null) => void) {
+    this.hoverHandlers.add(handler)
+    return () => { this.hoverHandlers.delete(handler) }
+  }
+
+  destroy() {
+    this.destroyed = true
+  }
+
+  click(target: MapTarget | null) {
+    this.clickHandlers.forEach(handler => handler(target))
+  }
+
+  hover(target: MapTarget | null) {
+    this.hoverHandlers.forEach(handler => handler(target))
+  }
+
+  propertyFeatures() {
+    return (this.layers.get('properties')?.features ?? []) as Feature<Point, PropertyFeatureProps>[]
+  }
+
+  feature(id: string) {
+    return this.propertyFeatures().find(feature => feature.properties.id === id)
+  }
+}
+
+// Austin's fixture properties: an LOI and two in site selection
+const properties = loadFixtureDataset().properties.filter(property => property.city === 'Austin').filter(isMapped)
+const loi = properties.find(property => property.phase === 'loi')!
+const [siteA, siteB] = properties.filter(property => property.phase === 'site_selection')
+
+function scene(overrides: Partial<MapScene> = {}): MapScene {
+  return {
+    properties: { items: properties, phases: DEFAULT_PHASE_CATALOG, popups: true },
+    fitToProperties: true,
+    ...overrides,
+  }
+}
+
+async function startEngine(initial: MapScene, handlers: MapEngineHandlers = {}) {
+  const renderer = new FakeRenderer()
+  const engine = new MapEngine(renderer, handlers)
+  engine.update(initial)
+  await engine.start()
+  return { renderer, engine }
+}
+
+describe('MapEngine', () => {
+  it('draws every layer once started, and nothing before', async () => {
+    const renderer = new FakeRenderer()
+    const engine = new MapEngine(renderer)
+    engine.update(scene())
+    expect(renderer.layerUpdates).toEqual([])
+
+    await engine.start()
+
+    expect(renderer.basemaps).toEqual(['streets'])
+    expect(new Set(renderer.layerUpdates)).toEqual(new Set(['territories', 'conflicts', 'trade-areas', 'trade-area-points', 'properties']))
+    expect(renderer.propertyFeatures().map(feature => feature.properties.id).sort()).toEqual(properties.map(p => p.id).sort())
+    expect(renderer.feature(loi.id)?.properties.color).toBe(DEFAULT_PHASE_CATALOG.color('loi'))
+  })
+
+  it('leaves hidden phases off the map and fits the camera to what is left', async () => {
+    const { renderer, engine } = await startEngine(scene())
+    expect(renderer.fits).toHaveLength(1)
+
+    engine.update(scene({
+      properties: { items: properties, phases: DEFAULT_PHASE_CATALOG, hiddenPhases: new Set(['site_selection']) },
+    }))
+
+    expect(renderer.propertyFeatures().map(feature => feature.properties.id)).toEqual([loi.id])
+    expect(renderer.fits).toHaveLength(2)
+    expect(renderer.fits[1]).toEqual({ bounds: [[loi.lng, loi.lat], [loi.lng, loi.lat]], options: { padding: 20, maxZoom: 10 } })
+  })
+
+  it('only moves the camera when the set of properties shown changes', async () => {
+    const { renderer, engine } = await startEngine(scene())
+
+    engine.update(scene({ highlightedId: siteA.id }))
+    engine.update(scene({ highlightedId: siteA.id, style: 'satellite' }))
+
+    expect(renderer.fits).toHaveLength(1)
+    expect(renderer.basemaps).toEqual(['streets', 'satellite'])
+  })
+
+  it('redraws only the property layer when the highlight or hover moves', async () => {
+    const { renderer, engine } = await startEngine(scene())
+    const radius = renderer.feature(siteA.id)!.properties.radius
+    renderer.layerUpdates = []
+
+    engine.update(scene({ highlightedId: siteA.id, hoveredId: siteB.id }))
+
+    expect(renderer.layerUpdates).toEqual(['properties'])
+    expect(renderer.feature(siteA.id)?.properties).toMatchObject({ highlighted: true, hovered: false, radius: radius + 2 })
+    expect(renderer.feature(siteB.id)?.properties).toMatchObject({ highlighted: false, hovered: true })
+    expect(renderer.feature(loi.id)?.properties).toMatchObject({ highlighted: false, hovered: false })
+  })
+
+  it('reports hovers over properties and empty map', async () => {
+    const onPropertyHover = vi.fn()
+    const { renderer } = await startEngine(scene(), { onPropertyHover })
+
+    renderer.hover({ kind: 'property', id: siteA.id, at: [siteA.lng, siteA.lat] })
+    renderer.hover({ kind: 'cluster', clusterId: 1, count: 2, at: [0, 0] })
+    renderer.hover(null)
+
+    expect(onPropertyHover.mock.calls).toEqual([[siteA.id], [null], [null]])
+  })
+
+  it('opens a property popup on click and closes it on a click on empty map', async () => {
+    const onPropertyClick = vi.fn()
+    const onBackgroundClick = vi.fn()
+    const { renderer } = await startEngine(scene(), { onPropertyClick, onBackgroundClick })
+
+    renderer.click({ kind: 'property', id: loi.id, at: [loi.lng, loi.lat] })
+
+    expect(onPropertyClick).toHaveBeenCalledWith(loi.id)
+    expect(renderer.popups).toHaveLength(1)
+    expect(renderer.popups[0].at).toEqual([loi.lng, loi.lat])
+    expect(renderer.popups[0].html).toContain(`/properties/${loi.id}`)
+    expect(renderer.popups[0].html).toContain('Phase: LOI')
+
+    renderer.click(null)
+
+    expect(renderer.closedPopups).toBe(1)
+    expect(onBackgroundClick).toHaveBeenCalledOnce()
+  })
+
+  it('skips the popup when the scene turns popups off', async () => {
+    const onPropertyClick = vi.fn()
+    const { renderer } = await startEngine(scene({ properties: { items: properties } }), { onPropertyClick })
+
+    renderer.click({ kind: 'property', id: loi.id, at: [loi.lng, loi.lat] })
+
+    expect(onPropertyClick).toHaveBeenCalledWith(loi.id)
+    expect(renderer.popups).toEqual([])
+  })
+
+  describe('cluster popups', () => {
+    let renderer: FakeRenderer
+
+    beforeEach(async () => {
+      ({ renderer } = await startEngine(scene()))
+      renderer.clusterContents = Array.from({ length: 12 }, (_, index) => ({
+        type: 'Feature',
+        geometry: { type: 'Point', coordinates: [0, 0] },
+        properties: { ...renderer.feature(loi.id)!.properties, id: `p${index}`, title: `Site <${index}>` },
+      }))
+    })
+
+    it('lists the first properties in the cluster and counts the rest', async () => {
+      renderer.click({ kind: 'cluster', clusterId: 7, count: 25, at: [-97.7, 30.3] })
+      await vi.waitFor(() => expect(renderer.popups).toHaveLength(1))
+
+      const { html, at } = renderer.popups[0]
+      expect(at).toEqual([-97.7, 30.3])
+      expect(html).toContain('25 properties')
+      expect(html).toContain('/properties/p9')
+      expect(html).not.toContain('/properties/p10')
+      expect(html).toContain('and 15 more')
+      expect(html).toContain('Site &#60;0&#62;')
+    })
+
+    it('zooms in until the cluster splits from the popup button', async () => {
+      renderer.click({ kind: 'cluster', clusterId: 7, count: 3, at: [-97.7, 30.3] })
+      await vi.waitFor(() => expect(renderer.zoomInClick).not.toBeNull())
+
+      await renderer.zoomInClick!()
+
+      expect(renderer.closedPopups).toBe(1)
+      expect(renderer.flights).toEqual([{ center: [-97.7, 30.3], zoom: 14 }])
+    })
+  })
+
+  it('stops listening and tears the renderer down when destroyed', async () => {
+    const onPropertyClick = vi.fn()
+    const { renderer, engine } = await startEngine(scene(), { onPropertyClick })
+
+    engine.destroy()
+    renderer.click({ kind: 'property', id: loi.id, at: [loi.lng, loi.lat] })
+
+    expect(renderer.destroyed).toBe(true)
+    expect(onPropertyClick).not.toHaveBeenCalled()
+  })
+})
@@ -0,0 +1,424 @@
+import type { Feature, FeatureCollection, MultiPolygon, Point, Polygon } from 'geojson'
+import type { Property, TerritoryPolygon, TradeAreaPoint, TradeAreaPointKind } from './supabase'
+import type { PhaseCatalog } from './phases'
+import type { TradeAreaRing } from './trade-area'
+
+// One map implementation for every screen. A screen describes what it wants
+// shown as a MapScene; the engine turns that into layer data and camera moves
+// and hands them to a MapRenderer. Mapbox is the renderer in the app (see
+// ./map-renderers); anything implementing MapRenderer can stand in for it, so
+// the engine runs without a browser or a Mapbox token.
+
+export type MapStyle = 'streets' | 'satellite'
+export type LngLat = [number, number]
+export type Bounds = [LngLat, LngLat]
+
+// Layer groups, drawn bottom to top in this order
+export const LAYER_GROUPS = ['territories', 'trade-areas', 'conflicts', 'trade-area-points', 'properties'] as const
+export type LayerGroup = typeof LAYER_GROUPS[number]
+
+export interface PropertyFeatureProps {
+  id: string
+  title: string
+  color: string
+  radius: number
+  // Text drawn on the dot, e.g. its number in a list
+  label: string
+  highlighted: boolean
+  hovered: boolean
+  // Popup contents, built up front because renderers only keep plain values on features
+  popup: string
+}
+
+export interface MapPropertyLayer {
+  items: Property[]
+  // Colours dots and names phases in popups; without it dots use DEFAULT_PROPERTY_COLOR
+  phases?: PhaseCatalog
+  // Phase keys to leave off the map
+  hiddenPhases?: ReadonlySet<string>
+  // Override the dot colour, e.g. to flag a property
+  color?: (property: Property) => string | null
+  // Extra lines for a property's popup
+  notes?: (property: Property) => string[]
+  // Numbered dots, matching a numbered list beside the map. Numbered dots are a fixed size;
+  // the rest are sized by square footage.
+  numbers?: Record<string, number>
+  // Show a popup when a dot is clicked
+  popups?: boolean
+}
+
+export interface MapTerritory {
+  id: string
+  name: string
+  polygon: TerritoryPolygon
+}
+
+export interface MapTradeArea {
+  rings: TradeAreaRing[]
+  points: TradeAreaPoint[]
+}
+
+export interface MapScene {
+  style?: MapStyle
+  properties?: MapPropertyLayer
+  territories?: MapTerritory[]
+  // Areas where territories overlap, drawn in red over them
+  conflictAreas?: Feature<Polygon | MultiPolygon>[]
+  // Rings around a site, with the competitors, sister locations and demographic points they count
+  tradeArea?: MapTradeArea | null
+  highlightedId?: string | null
+  hoveredId?: string | null
+  // Bring the properties into view whenever the set shown changes
+  fitToProperties?: boolean
+}
+
+// Something under the pointer
+export type MapTarget =
+  | { kind: 'property'; id: string; at: LngLat }
+  | { kind: 'cluster'; clusterId: number; count: number; at: LngLat }
+
+export interface MapRendererOptions {
+  container: HTMLElement
+  style: MapStyle
+  center: LngLat
+  zoom: number
+  // Group nearby properties into clusters
+  cluster: boolean
+}
+
+// What the engine needs from a map library
+export interface MapRenderer {
+  // Resolves once layers can be added
+  ready(): Promise<void>
+  // Switches the base map, keeping the layers drawn on it
+  setBasemap(style: MapStyle): void
+  // Creates the group's layers on first use
+  setLayerData(group: LayerGroup, data: FeatureCollection): void
+  fitBounds(bounds: Bounds, options: { padding: number; maxZoom: number }): void
+  flyTo(center: LngLat, zoom: number): void
+  // Returns the popup's element, where the renderer has one, for wiring up buttons
+  showPopup(at: LngLat, html: string): HTMLElement | null
+  closePopup(): void
+  clusterLeaves(clusterId: number, limit: number): Promise<Feature[]>
+  clusterExpansionZoom(clusterId: number): Promise<number>
+  // Handlers get null for a click or hover on empty map. Both return an unsubscribe.
+  onClick(handler: (target: MapTarget | null) => void): () => void
+  onHover(handler: (target: MapTarget | null) => void): () => void
+  destroy(): void
+}
+
+export type MapRendererFactory = (options: MapRendererOptions) => MapRenderer
+
+export interface MapEngineHandlers {
+  onPropertyClick?: (propertyId: string) => void
+  onPropertyHover?: (propertyId: string | null) => void
+  // A click on empty map
+  onBackgroundClick?: () => void
+}
+
+export const DEFAULT_PROPERTY_COLOR = '#637484'
+
+export const TRADE_AREA_RING_COLORS: Record<TradeAreaRing['kind'], string> = {
+  radius: '#2563eb',
+  drive_time: '#7c3aed'
+}
+
+export const TRADE_AREA_POINT_COLORS: Record<TradeAreaPointKind, string> = {
+  competitor: '#dc2626',
+  sister: '#16a34a',
+  demographic: '#f59e0b'
+}
+
+// Properties listed in a cluster popup before it says "and N more"
+const CLUSTER_POPUP_LIMIT = 10
+
+const NUMBERED_RADIUS = 14
+const HIGHLIGHT_GROWTH = 2
+
+// Square feet to dot radius; unknown sizes get the smallest dot
+const SIZE_STOPS: [number, number][] = [[0, 6], [2500, 8], [10000, 13], [40000, 20]]
+
+// Popups are built as HTML strings
+export function escapeHtml(text: string) {
+  return text.replace(/[&<>"']/g, char => `&#${char.charCodeAt(0)};`)
+}
+
+export function isMapped(property: Property): property is Property & { lat: number; lng: number } {
+  return typeof property.lat === 'number' && typeof property.lng === 'number'
+    && !isNaN(property.lat) && !isNaN(property.lng)
+}
+
+// The catalog's key for a property's phase, so legend toggles match however the phase was written
+export function propertyPhaseKey(property: Property, phases: PhaseCatalog) {
+  return phases.get(property.phase)?.key ?? property.phase
+}
+
+function propertyTitle(property: Property) {
+  return property.title || property.address_line || 'Untitled Property'
+}
+
+export function dotRadius(sizeSqft: number | null | undefined) {
+  const size = sizeSqft ?? 0
+  for (let i = 1; i < SIZE_STOPS.length; i++) {
+    const [fromSize, fromRadius] = SIZE_STOPS[i - 1]
+    const [toSize, toRadius] = SIZE_STOPS[i]
+    if (size <= toSize) {
+      return fromRadius + (toRadius - fromRadius) * Math.max(0, size - fromSize) / (toSize - fromSize)
+    }
+  }
+  return SIZE_STOPS[SIZE_STOPS.length - 1][1]
+}
+
+function propertyPopup(property: Property, phases: PhaseCatalog | undefined, notes: string[]) {
+  const place = [property.city, property.state].filter(Boolean).join(', ')
+  return `
+    <div class="p-2">
+      <h3 class="font-semibold text-sm">${escapeHtml(propertyTitle(property))}</h3>
+      ${place ? `<p class="text-xs text-gray-600">${escapeHtml(place)}</p>` : ''}
+      ${property.base_rent_psf ? `<p class="text-xs text-gray-600">$${property.base_rent_psf}/sq ft</p>` : ''}
+      ${property.size_sqft ? `<p class="text-xs text-gray-600">${property.size_sqft.toLocaleString()} sq ft</p>` : ''}
+      ${phases ? `<p class="text-xs text-gray-500">Phase: ${escapeHtml(phases.label(property.phase))}</p>` : ''}
+      ${notes.map(note => `<p class="text-xs text-red-600">${escapeHtml(note)}</p>`).join('')}
+      <a href="/properties/${encodeURIComponent(property.id)}" class="text-xs text-blue-600 hover:underline">View property</a>
+    </div>
+  `
+}
+
+function clusterPopup(leaves: Feature[], total: number) {
+  const items = leaves.map(leaf => {
+    const props = leaf.properties as PropertyFeatureProps
+    return `
+      <li class="flex items-center gap-2">
+        <span class="inline-block h-2 w-2 shrink-0 rounded-full" style="background-color: ${escapeHtml(props.color)}"></span>
+        <a href="/properties/${encodeURIComponent(props.id)}" class="hover:underline">${escapeHtml(props.title)}</a>
+      </li>
+    `
+  })
+  const more = total - leaves.length
+  return `
+    <div class="p-2 max-h-64 overflow-y-auto">
+      <h3 class="font-semibold text-sm mb-1">${total} properties</h3>
+      <ul class="space-y-1 text-xs">${items.join('')}</ul>
+      ${more > 0 ? `<p class="text-xs text-gray-500 mt-1">and ${more} more</p>` : ''}
+      <button type="button" data-zoom-in class="text-xs text-blue-600 hover:underline mt-2">Zoom in</button>
+    </div>
+  `
+}
+
+// The properties a scene shows on the map, after phase toggles
+export function visibleProperties(scene: MapScene) {
+  const layer = scene.properties
+  if (!layer) return []
+
+  return layer.items
+    .filter(isMapped)
+    .filter(property => !layer.phases || !layer.hiddenPhases?.has(propertyPhaseKey(property, layer.phases)))
+}
+
+export function propertyFeatures(scene: MapScene): FeatureCollection<Point, PropertyFeatureProps> {
+  const layer = scene.properties
+  const features = visibleProperties(scene).map((property): Feature<Point, PropertyFeatureProps> => {
+    const highlighted = scene.highlightedId === property.id
+    const hovered = scene.hoveredId === property.id
+    const number = layer?.numbers?.[property.id]
+    const radius = layer?.numbers ? NUMBERED_RADIUS : dotRadius(property.size_sqft)
+
+    return {
+      type: 'Feature',
+      geometry: { type: 'Point', coordinates: [property.lng, property.lat] },
+      properties: {
+        id: property.id,
+        title: propertyTitle(property),
+        color: layer?.color?.(property) ?? layer?.phases?.color(property.phase) ?? DEFAULT_PROPERTY_COLOR,
+        radius: highlighted ? radius + HIGHLIGHT_GROWTH : radius,
+        label: layer?.numbers ? String(number ?? '?') : '',
+        highlighted,
+        hovered,
+        popup: layer?.popups ? propertyPopup(property, layer.phases, layer.notes?.(property) ?? []) : ''
+      }
+    }
+  })
+
+  return { type: 'FeatureCollection', features }
+}
+
+export function territoryFeatures(scene: MapScene): FeatureCollection {
+  return {
+    type: 'FeatureCollection',
+    features: (scene.territories ?? []).map(territory => ({
+      ...territory.polygon,
+      properties: { id: territory.id, name: territory.name }
+    }))
+  }
+}
+
+export function conflictFeatures(scene: MapScene): FeatureCollection {
+  return { type: 'FeatureCollection', features: scene.conflictAreas ?? [] }
+}
+
+// Largest first, so smaller rings are drawn on top
+export function tradeAreaFeatures(scene: MapScene): FeatureCollection {
+  const rings = [...(scene.tradeArea?.rings ?? [])].reverse()
+  return {
+    type: 'FeatureCollection',
+    features: rings.map(ring => ({
+      ...ring.area,
+      properties: { id: ring.id, kind: ring.kind, label: ring.label, color: TRADE_AREA_RING_COLORS[ring.kind] }
+    }))
+  }
+}
+
+export function tradeAreaPointFeatures(scene: MapScene): FeatureCollection<Point> {
+  return {
+    type: 'FeatureCollection',
+    features: (scene.tradeArea?.points ?? []).map(point => ({
+      type: 'Feature',
+      geometry: { type: 'Point', coordinates: [point.lng, point.lat] },
+      properties: { id: point.id, kind: point.kind, name: point.name, color: TRADE_AREA_POINT_COLORS[point.kind] }
+    }))
+  }
+}
+
+export function boundsOf(points: LngLat[]): Bounds | null {
+  if (points.length === 0) return null
+
+  let [west, south] = points[0]
+  let [east, north] = points[0]
+  for (const [lng, lat] of points) {
+    west = Math.min(west, lng)
+    east = Math.max(east, lng)
+    south = Math.min(south, lat)
+    north = Math.max(north, lat)
+  }
+  return [[west, south], [east, north]]
+}
+
+// Whether anything a property feature is built from changed
+function propertiesChanged(previous: MapScene, next: MapScene) {
+  if (previous.highlightedId !== next.highlightedId || previous.hoveredId !== next.hoveredId) return true
+
+  const a = previous.properties
+  const b = next.properties
+  if (!a || !b) return a !== b
+  return (Object.keys({ ...a, ...b }) as (keyof MapPropertyLayer)[]).some(key => a[key] !== b[key])
+}
+
+export class MapEngine {
+  private scene: MapScene = {}
+  private handlers: MapEngineHandlers
+  private started = false
+  private destroyed = false
+  // Properties last brought into view, so the camera only moves when the set changes
+  private fittedKey: string | null = null
+  private unsubscribers: (() => void)[] = []
+
+  constructor(readonly renderer: MapRenderer, handlers: MapEngineHandlers = {}) {
+    this.handlers = handlers
+  }
+
+  // Waits for the renderer, then draws the scene so far
+  async start() {
+    await this.renderer.ready()
+    if (this.destroyed) return
+
+    this.started = true
+    this.unsubscribers.push(
+      this.renderer.onClick(target => this.handleClick(target)),
+      this.renderer.onHover(target => {
+        this.handlers.onPropertyHover?.(target?.kind === 'property' ? target.id : null)
+      })
+    )
+    this.render(null)
+  }
+
+  get isStarted() {
+    return this.started
+  }
+
+  setHandlers(handlers: MapEngineHandlers) {
+    this.handlers = handlers
+  }
+
+  update(scene: MapScene) {
+    const previous = this.scene
+    this.scene = scene
+    if (this.started) this.render(previous)
+  }
+
+  flyTo(center: LngLat, zoom: number) {
+    this.renderer.flyTo(center, zoom)
+  }
+
+  destroy() {
+    this.destroyed = true
+    this.unsubscribers.forEach(unsubscribe => unsubscribe())
+    this.unsubscribers = []
+    this.renderer.destroy()
+  }
+
+  // Pushes whatever changed since the previous scene; everything when there isn't one
+  private render(previous: MapScene | null) {
+    const scene = this.scene
+
+    if (!previous || previous.style !== scene.style) {
+      this.renderer.setBasemap(scene.style ?? 'streets')
+    }
+    if (!previous || previous.territories !== scene.territories) {
+      this.renderer.setLayerData('territories', territoryFeatures(scene))
+    }
+    if (!previous || previous.conflictAreas !== scene.conflictAreas) {
+      this.renderer.setLayerData('conflicts', conflictFeatures(scene))
+    }
+    if (!previous || previous.tradeArea !== scene.tradeArea) {
+      this.renderer.setLayerData('trade-areas', tradeAreaFeatures(scene))
+      this.renderer.setLayerData('trade-area-points', tradeAreaPointFeatures(scene))
+    }
+    if (!previous || propertiesChanged(previous, scene)) {
+      this.renderer.setLayerData('properties', propertyFeatures(scene))
+    }
+
+    if (scene.fitToProperties) this.fitToProperties()
+  }
+
+  private fitToProperties() {
+    const properties = visibleProperties(this.scene)
+    const key = properties.map(property => property.id).sort().join(',')
+    if (key === this.fittedKey) return
+    this.fittedKey = key
+
+    const bounds = boundsOf(properties.map(property => [property.lng, property.lat]))
+    if (!bounds) return
+    this.renderer.fitBounds(bounds, { padding: 20, maxZoom: properties.length === 1 ? 10 : 12 })
+  }
+
+  private handleClick(target: MapTarget | null) {
+    if (!target) {
+      this.renderer.closePopup()
+      this.handlers.onBackgroundClick?.()
+      return
+    }
+
+    if (target.kind === 'property') {
+      const feature = propertyFeatures(this.scene).features.find(f => f.properties.id === target.id)
+      if (feature?.properties.popup) this.renderer.showPopup(target.at, feature.properties.popup)
+      this.handlers.onPropertyClick?.(target.id)
+      return
+    }
+
+    this.showClusterPopup(target).catch(error => {
+      console.warn('Error reading cluster:', error)
+    })
+  }
+
+  // Lists what's in a cluster, with a button to zoom in until it splits
+  private async showClusterPopup(target: Extract<MapTarget, { kind: 'cluster' }>) {
+    const leaves = await this.renderer.clusterLeaves(target.clusterId, CLUSTER_POPUP_LIMIT)
+    const element = this.renderer.showPopup(target.at, clusterPopup(leaves, target.count))
+
+    element?.querySelector('[data-zoom-in]')?.addEventListener('click', async () => {
+      const zoom = await this.renderer.clusterExpansionZoom(target.clusterId)
+      this.renderer.closePopup()
+      this.renderer.flyTo(target.at, zoom)
+    })
+  }
+}
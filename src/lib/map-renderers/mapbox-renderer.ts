@@ -0,0 +1,369 @@
+import mapboxgl from 'mapbox-gl'
+import type { Feature, FeatureCollection } from 'geojson'
+import { config } from '../config'
+import {
+  Bounds,
+  LAYER_GROUPS,
+  LayerGroup,
+  LngLat,
+  MapRenderer,
+  MapRendererOptions,
+  MapStyle,
+  MapTarget
+} from '../map-engine'
+
+// MapRenderer on Mapbox GL. Owns everything Mapbox-specific the screens used
+// to do themselves: the access token, resizing with the container, and
+// putting the engine's layers back after a style switch wipes them.
+
+mapboxgl.accessToken = config.mapbox.accessToken || ''
+
+const STYLE_URLS: Record<MapStyle, string> = {
+  streets: 'mapbox://styles/mapbox/streets-v12',
+  satellite: 'mapbox://styles/mapbox/satellite-streets-v12'
+}
+
+const TERRITORY_COLOR = '#637484'
+const CONFLICT_COLOR = '#dc2626'
+const HIGHLIGHT_COLOR = '#fbbf24'
+
+const SOURCES: Record<LayerGroup, string> = {
+  territories: 'engine-territories',
+  'trade-areas': 'engine-trade-areas',
+  conflicts: 'engine-conflicts',
+  'trade-area-points': 'engine-trade-area-points',
+  properties: 'engine-properties'
+}
+
+const CLUSTER_LAYER = 'engine-property-clusters'
+const CLUSTER_COUNT_LAYER = 'engine-property-cluster-count'
+const POINT_LAYER = 'engine-property-points'
+const LABEL_LAYER = 'engine-property-labels'
+
+const LAYERS: Record<LayerGroup, mapboxgl.LayerSpecification[]> = {
+  territories: [
+    {
+      id: 'engine-territories-fill',
+      type: 'fill',
+      source: SOURCES.territories,
+      paint: { 'fill-color': TERRITORY_COLOR, 'fill-opacity': 0.1 }
+    },
+    {
+      id: 'engine-territories-stroke',
+      type: 'line',
+      source: SOURCES.territories,
+      paint: { 'line-color': TERRITORY_COLOR, 'line-width': 2 }
+    }
+  ],
+  'trade-areas': [
+    {
+      id: 'engine-trade-areas-fill',
+      type: 'fill',
+      source: SOURCES['trade-areas'],
+      paint: { 'fill-color': ['get', 'color'], 'fill-opacity': 0.06 }
+    },
+    {
+      // Radius rings dashed, drive-time areas solid
+      id: 'engine-trade-areas-radius',
+      type: 'line',
+      source: SOURCES['trade-areas'],
+      filter: ['==', ['get', 'kind'], 'radius'],
+      paint: { 'line-color': ['get', 'color'], 'line-width': 1.5, 'line-dasharray': [2, 2] }
+    },
+    {
+      id: 'engine-trade-areas-drive-time',
+      type: 'line',
+      source: SOURCES['trade-areas'],
+      filter: ['==', ['get', 'kind'], 'drive_time'],
+      paint: { 'line-color': ['get', 'color'], 'line-width': 2 }
+    }
+  ],
+  conflicts: [
+    {
+      id: 'engine-conflicts-fill',
+      type: 'fill',
+      source: SOURCES.conflicts,
+      paint: { 'fill-color': CONFLICT_COLOR, 'fill-opacity': 0.3 }
+    }
+  ],
+  'trade-area-points': [
+    {
+      id: 'engine-trade-area-points',
+      type: 'circle',
+      source: SOURCES['trade-area-points'],
+      paint: {
+        'circle-color': ['get', 'color'],
+        'circle-radius': ['case', ['==', ['get', 'kind'], 'demographic'], 4, 6],
+        'circle-stroke-color': '#ffffff',
+        'circle-stroke-width': 1.5
+      }
+    }
+  ],
+  properties: [
+    {
+      id: CLUSTER_LAYER,
+      type: 'circle',
+      source: SOURCES.properties,
+      filter: ['has', 'point_count'],
+      paint: {
+        'circle-color': TERRITORY_COLOR,
+        'circle-opacity': 0.85,
+        'circle-radius': ['step', ['get', 'point_count'], 14, 10, 18, 50, 24, 200, 30],
+        'circle-stroke-color': '#ffffff',
+        'circle-stroke-width': 2
+      }
+    },
+    {
+      id: CLUSTER_COUNT_LAYER,
+      type: 'symbol',
+      source: SOURCES.properties,
+      filter: ['has', 'point_count'],
+      layout: {
+        'text-field': ['get', 'point_count_abbreviated'],
+        'text-font': ['DIN Pro Medium', 'Arial Unicode MS Bold'],
+        'text-size': 12,
+        'text-allow-overlap': true
+      },
+      paint: { 'text-color': '#ffffff' }
+    },
+    {
+      id: POINT_LAYER,
+      type: 'circle',
+      source: SOURCES.properties,
+      filter: ['!', ['has', 'point_count']],
+      layout: {
+        // Highlighted and hovered dots on top
+        'circle-sort-key': ['case', ['get', 'highlighted'], 2, ['get', 'hovered'], 1, 0]
+      },
+      paint: {
+        'circle-color': ['get', 'color'],
+        'circle-radius': ['get', 'radius'],
+        'circle-stroke-color': ['case', ['any', ['get', 'highlighted'], ['get', 'hovered']], HIGHLIGHT_COLOR, '#ffffff'],
+        'circle-stroke-width': ['case', ['get', 'highlighted'], 4, ['get', 'hovered'], 3, 2]
+      }
+    },
+    {
+      id: LABEL_LAYER,
+      type: 'symbol',
+      source: SOURCES.properties,
+      filter: ['all', ['!', ['has', 'point_count']], ['!=', ['get', 'label'], '']],
+      layout: {
+        'text-field': ['get', 'label'],
+        'text-font': ['DIN Pro Bold', 'Arial Unicode MS Bold'],
+        'text-size': ['case', ['get', 'highlighted'], 12, 10],
+        'text-allow-overlap': true,
+        'symbol-sort-key': ['case', ['get', 'highlighted'], 2, ['get', 'hovered'], 1, 0]
+      },
+      paint: { 'text-color': '#ffffff', 'text-halo-color': 'rgba(0, 0, 0, 0.4)', 'text-halo-width': 1 }
+    }
+  ]
+}
+
+// Whether there's a token to load Mapbox tiles with
+export function hasMapboxToken() {
+  const token = config.mapbox.accessToken
+  return Boolean(token) && token !== 'YOUR_MAPBOX_ACCESS_TOKEN_HERE'
+}
+
+export class MapboxRenderer implements MapRenderer {
+  // The underlying map, for tools the engine doesn't cover (the territory editor)
+  readonly map: mapboxgl.Map
+  private readonly cluster: boolean
+  private readonly loaded: Promise<void>
+  private readonly resizeObserver: ResizeObserver
+  private style: MapStyle
+  private data = new Map<LayerGroup, FeatureCollection>()
+  private popup: mapboxgl.Popup | null = null
+  private hoverKey: string | null = null
+
+  constructor({ container, style, center, zoom, cluster }: MapRendererOptions) {
+    this.cluster = cluster
+    this.style = style
+    this.map = new mapboxgl.Map({
+      container,
+      style: STYLE_URLS[style],
+      center,
+      zoom,
+      attributionControl: false
+    })
+
+    this.loaded = new Promise(resolve => {
+      this.map.once('load', () => {
+        // The container often isn't at its final size on the first frame
+        setTimeout(() => this.resize(), 100)
+        resolve()
+      })
+    })
+
+    this.map.on('error', (e) => {
+      console.warn('Map error:', e)
+    })
+
+    // Layers go when the style changes; put them back once the new one is in
+    this.map.on('style.load', () => {
+      for (const group of LAYER_GROUPS) {
+        const data = this.data.get(group)
+        if (data) this.draw(group, data)
+      }
+    })
+
+    // E.g. the sidebar collapsing
+    this.resizeObserver = new ResizeObserver(() => this.resize())
+    this.resizeObserver.observe(container)
+  }
+
+  ready() {
+    return this.loaded
+  }
+
+  setBasemap(style: MapStyle) {
+    if (style === this.style) return
+    this.style = style
+    this.map.setStyle(STYLE_URLS[style])
+  }
+
+  setLayerData(group: LayerGroup, data: FeatureCollection) {
+    this.data.set(group, data)
+    if (this.map.isStyleLoaded()) this.draw(group, data)
+  }
+
+  fitBounds(bounds: Bounds, options: { padding: number; maxZoom: number }) {
+    this.map.fitBounds(bounds, options)
+  }
+
+  flyTo(center: LngLat, zoom: number) {
+    this.map.flyTo({ center, zoom, duration: 2000, essential: true })
+  }
+
+  showPopup(at: LngLat, html: string) {
+    this.closePopup()
+    this.popup = new mapboxgl.Popup({ offset: 12, maxWidth: '280px' })
+      .setLngLat(at)
+      .setHTML(html)
+      .addTo(this.map)
+    return this.popup.getElement() ?? null
+  }
+
+  closePopup() {
+    this.popup?.remove()
+    this.popup = null
+  }
+
+  clusterLeaves(clusterId: number, limit: number) {
+    return new Promise<Feature[]>((resolve, reject) => {
+      const source = this.propertySource()
+      if (!source) return reject(new Error('Properties are not on the map'))
+      source.getClusterLeaves(clusterId, limit, 0, (error, leaves) => {
+        if (error || !leaves) reject(error ?? new Error('Cluster not found'))
+        else resolve(leaves)
+      })
+    })
+  }
+
+  clusterExpansionZoom(clusterId: number) {
+    return new Promise<number>((resolve, reject) => {
+      const source = this.propertySource()
+      if (!source) return reject(new Error('Properties are not on the map'))
+      source.getClusterExpansionZoom(clusterId, (error, zoom) => {
+        if (error || zoom == null) reject(error ?? new Error('Cluster not found'))
+        else resolve(zoom)
+      })
+    })
+  }
+
+  onClick(handler: (target: MapTarget | null) => void) {
+    const listener = (e: mapboxgl.MapMouseEvent) => handler(this.targetAt(e.point))
+    this.map.on('click', listener)
+    return () => {
+      this.map.off('click', listener)
+    }
+  }
+
+  onHover(handler: (target: MapTarget | null) => void) {
+    const listener = (e: mapboxgl.MapMouseEvent) => {
+      const target = this.targetAt(e.point)
+      const key = target ? `${target.kind}:${target.kind === 'property' ? target.id : target.clusterId}` : null
+      if (key === this.hoverKey) return
+
+      this.hoverKey = key
+      this.map.getCanvas().style.cursor = target ? 'pointer' : ''
+      handler(target)
+    }
+    this.map.on('mousemove', listener)
+    return () => {
+      this.map.off('mousemove', listener)
+    }
+  }
+
+  destroy() {
+    this.resizeObserver.disconnect()
+    this.closePopup()
+    try {
+      this.map.remove()
+    } catch (error) {
+      console.warn('Error removing map:', error)
+    }
+  }
+
+  private resize() {
+    try {
+      this.map.resize()
+    } catch (error) {
+      console.warn('Error resizing map:', error)
+    }
+  }
+
+  private propertySource() {
+    return this.map.getSource(SOURCES.properties) as mapboxgl.GeoJSONSource | undefined
+  }
+
+  private draw(group: LayerGroup, data: FeatureCollection) {
+    const source = this.map.getSource(SOURCES[group]) as mapboxgl.GeoJSONSource | undefined
+    if (source) {
+      source.setData(data)
+      return
+    }
+
+    try {
+      this.map.addSource(SOURCES[group], group === 'properties' && this.cluster
+        ? { type: 'geojson', data, cluster: true, clusterMaxZoom: 13, clusterRadius: 45 }
+        : { type: 'geojson', data })
+      const beforeId = this.firstLayerAbove(group)
+      for (const layer of LAYERS[group]) this.map.addLayer(layer, beforeId)
+    } catch (error) {
+      console.warn(`Error adding ${group} to map:`, error)
+    }
+  }
+
+  // Keeps groups stacked in LAYER_GROUPS order whatever order they're added in
+  private firstLayerAbove(group: LayerGroup) {
+    for (const above of LAYER_GROUPS.slice(LAYER_GROUPS.indexOf(group) + 1)) {
+      const layer = LAYERS[above].find(spec => this.map.getLayer(spec.id))
+      if (layer) return layer.id
+    }
+    return undefined
+  }
+
+  private targetAt(point: mapboxgl.Point): MapTarget | null {
+    const layers = [POINT_LAYER, CLUSTER_LAYER].filter(id => this.map.getLayer(id))
+    if (layers.length === 0) return null
+
+    const feature = this.map.queryRenderedFeatures(point, { layers })[0]
+    if (!feature || feature.geometry.type !== 'Point') return null
+
+    const at = feature.geometry.coordinates as LngLat
+    if (feature.layer?.id === CLUSTER_LAYER) {
+      return {
+        kind: 'cluster',
+        clusterId: feature.properties?.cluster_id as number,
+        count: feature.properties?.point_count as number,
+        at
+      }
+    }
+    return { kind: 'property', id: feature.properties?.id as string, at }
+  }
+}
+
+export function createMapboxRenderer(options: MapRendererOptions): MapRenderer {
+  return new MapboxRenderer(options)
+}
@@ -0,0 +1,267 @@
+import type { MarketUpdate, MarketUpdateRevision, Property, UpdateAttachment, UpdateAuthor, UpdateReaction } from './supabase'
+
+// Who an update is from, for the updates thread. Updates from before authors
+// were recorded only have the name they were posted under.
+
+export function updateAuthorName(update: MarketUpdate): string {
+  const profile = update.author_profile
+  return profile?.full_name || profile?.email || update.author || 'Unknown user'
+}
+
+export function updateAuthorOrganization(update: MarketUpdate): string | null {
+  return update.author_profile?.organization ?? null
+}
+
+export function nameInitials(name: string): string {
+  return name
+    .split(/\s+/)
+    .map(word => word.charAt(0).toUpperCase())
+    .join('')
+    .slice(0, 2) || '?'
+}
+
+// Acknowledgements people can leave on an update; the database accepts only these
+export const UPDATE_REACTIONS = [
+  { emoji: '👍', label: 'Acknowledged' },
+  { emoji: '✅', label: 'Done' },
+  { emoji: '👀', label: 'Looking into it' },
+  { emoji: '🎉', label: 'Great news' },
+] as const
+
+export function isUpdateReaction(emoji: string): boolean {
+  return UPDATE_REACTIONS.some(reaction => reaction.emoji === emoji)
+}
+
+export interface ReactionSummary {
+  emoji: string
+  label: string
+  count: number
+  // Whether the signed-in user is one of them
+  mine: boolean
+  names: string[]
+}
+
+// Reactions on an update counted per emoji, in UPDATE_REACTIONS order
+export function summarizeReactions(reactions: UpdateReaction[] = [], userId: string | null | undefined): ReactionSummary[] {
+  return UPDATE_REACTIONS
+    .map(({ emoji, label }) => {
+      const matching = reactions.filter(reaction => reaction.emoji === emoji)
+      return {
+        emoji,
+        label,
+        count: matching.length,
+        mine: matching.some(reaction => reaction.user_id === userId),
+        names: matching.map(reaction => reaction.user_name || 'Unknown user'),
+      }
+    })
+    .filter(summary => summary.count > 0)
+}
+
+export interface UpdateThread {
+  update: MarketUpdate
+  // Oldest first, like a conversation
+  replies: MarketUpdate[]
+}
+
+// Top-level updates in the order given, each with its replies. Replies whose
+// update isn't in the list are left out.
+export function groupUpdateThreads(updates: MarketUpdate[]): UpdateThread[] {
+  const replies = new Map<string, MarketUpdate[]>()
+  for (const update of updates) {
+    if (!update.parent_id) continue
+    replies.set(update.parent_id, [...(replies.get(update.parent_id) || []), update])
+  }
+
+  return updates
+    .filter(update => !update.parent_id)
+    .map(update => ({
+      update,
+      replies: (replies.get(update.id) || []).sort((a, b) => a.created_at.localeCompare(b.created_at)),
+    }))
+}
+
+// Mentions are written "@Full Name" in the message, with the mentioned user
+// IDs stored beside it
+
+export function mentionName(person: Pick<UpdateAuthor, 'full_name' | 'email'>): string {
+  return person.full_name || person.email || 'Unknown user'
+}
+
+// The "@..." being typed just before the caret, if any
+export function mentionQueryAt(text: string, caret: number): { start: number; query: string } | null {
+  const match = text.slice(0, caret).match(/(^|\s)@([^\s@]*(?: [^\s@]*)?)$/)
+  if (!match) return null
+  return { start: caret - match[2].length - 1, query: match[2] }
+}
+
+// Replaces the "@..." from start to the caret with the person's name
+export function insertMention(text: string, start: number, caret: number, name: string): { text: string; caret: number } {
+  const rest = text.slice(caret)
+  const inserted = /^\s/.test(rest) ? `@${name}` : `@${name} `
+  return {
+    text: text.slice(0, start) + inserted + rest,
+    caret: start + inserted.length,
+  }
+}
+
+// IDs of the people whose "@Full Name" appears in the message
+export function mentionedUserIds(message: string, people: Pick<UpdateAuthor, 'id' | 'full_name' | 'email'>[]): string[] {
+  return people
+    .filter(person => message.includes(`@${mentionName(person)}`))
+    .map(person => person.id)
+}
+
+// The message cut into plain text and mentions of the given names, for highlighting
+export function splitMentions(message: string, names: string[]): { text: string; mention: boolean }[] {
+  const escaped = names
+    .filter(Boolean)
+    .sort((a, b) => b.length - a.length)
+    .map(name => name.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'))
+  if (escaped.length === 0) return [{ text: message, mention: false }]
+
+  // The capturing group puts each mention at an odd index
+  return message
+    .split(new RegExp(`(@(?:${escaped.join('|')}))`))
+    .map((part, index) => ({ text: part, mention: index % 2 === 1 }))
+    .filter(part => part.text !== '')
+}
+
+// Attachments: photos and files posted with an update, kept in the private
+// update-attachments bucket
+
+export const UPDATE_ATTACHMENT_CONTENT_TYPES = [
+  'image/jpeg',
+  'image/png',
+  'image/webp',
+  'image/gif',
+  'application/pdf',
+  'text/csv',
+  'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+]
+export const MAX_UPDATE_ATTACHMENT_BYTES = 10 * 1024 * 1024
+export const MAX_UPDATE_ATTACHMENTS = 5
+
+// What goes with an update's message when posting it
+export interface MarketUpdateExtras {
+  // IDs of the people mentioned
+  mentions?: string[]
+  files?: File[]
+}
+
+// What's wrong with a file, or null if it can be attached
+export function updateAttachmentProblem(file: { type: string; size: number }): string | null {
+  if (!UPDATE_ATTACHMENT_CONTENT_TYPES.includes(file.type)) return 'Attach a photo, PDF, CSV, Excel or Word file'
+  if (file.size === 0) return 'The file is empty'
+  if (file.size > MAX_UPDATE_ATTACHMENT_BYTES) return `Attachments can be at most ${MAX_UPDATE_ATTACHMENT_BYTES / 1024 / 1024} MB`
+  return null
+}
+
+export function isImageAttachment(attachment: Pick<UpdateAttachment, 'content_type'>): boolean {
+  return attachment.content_type.startsWith('image/')
+}
+
+// Property references: "#3", "site 3" or "sites 1, 3, 5, and 7" point at the
+// market's properties by display_number. They're found in the text each time,
+// so older and imported updates link up too.
+
+const PROPERTY_REFERENCE = /#(\d+)\b|\bsites?\s+\d+(?:(?:\s*,\s*(?:and\s+|&\s+)?|\s+(?:and|&)\s+)\d+)*\b/gi
+
+// The text cut into plain parts and the numbers it refers to
+export function splitPropertyReferences(text: string): { text: string; propertyNumber?: number }[] {
+  const parts: { text: string; propertyNumber?: number }[] = []
+  let last = 0
+  const plain = (end: number) => {
+    if (end > last) parts.push({ text: text.slice(last, end) })
+  }
+
+  for (const match of text.matchAll(PROPERTY_REFERENCE)) {
+    const start = match.index ?? 0
+    // Each number in "sites 1, 3 and 5" is its own reference
+    for (const number of match[0].matchAll(/\d+/g)) {
+      const numberStart = start + (number.index ?? 0)
+      // "#3" links as a whole
+      const from = match[1] ? start : numberStart
+      plain(from)
+      parts.push({ text: text.slice(from, numberStart + number[0].length), propertyNumber: Number(number[0]) })
+      last = numberStart + number[0].length
+    }
+  }
+  plain(text.length)
+  return parts
+}
+
+export function referencedPropertyNumbers(text: string): number[] {
+  return [...new Set(splitPropertyReferences(text).flatMap(part => part.propertyNumber ?? []))]
+}
+
+// Numbers to label properties with on a map: their display_number, or the
+// next free number for those without one, so they match what updates refer to
+export function propertyMapNumbers(properties: Pick<Property, 'id' | 'display_number'>[]): Record<string, number> {
+  let next = Math.max(0, ...properties.map(property => property.display_number ?? 0))
+  return Object.fromEntries(properties.map(property => [property.id, property.display_number ?? ++next]))
+}
+
+// Edit history: each revision holds the wording an edit replaced, so the
+// versions of an update are the revisions' messages followed by the current one
+
+export interface UpdateVersion {
+  message: string
+  // Who wrote this wording and when: the author for the original, the editor after
+  by: string
+  at: string
+}
+
+export function updateVersions(update: MarketUpdate, revisions: MarketUpdateRevision[]): UpdateVersion[] {
+  const messages = [...revisions.map(revision => revision.message), update.message]
+  return messages.map((message, index) => {
+    const edit = revisions[index - 1]
+    return edit
+      ? { message, by: edit.edited_by_name || 'Unknown user', at: edit.edited_at }
+      : { message, by: updateAuthorName(update), at: update.created_at }
+  })
+}
+
+export interface DiffPart {
+  text: string
+  change: 'same' | 'added' | 'removed'
+}
+
+// Word-level differences between two wordings, for the history view
+export function diffWords(before: string, after: string): DiffPart[] {
+  // Whitespace is kept as its own token so the text reads as written
+  const a = before.split(/(\s+)/).filter(Boolean)
+  const b = after.split(/(\s+)/).filter(Boolean)
+
+  // Longest common subsequence, filled from the end
+  const lengths = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0))
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i][j] = a[i] === b[j] ? lengths[i + 1][j + 1] + 1 : Math.max(lengths[i + 1][j], lengths[i][j + 1])
+    }
+  }
+
+  const parts: DiffPart[] = []
+  const push = (text: string, change: DiffPart['change']) => {
+    const last = parts[parts.length - 1]
+    if (last?.change === change) last.text += text
+    else parts.push({ text, change })
+  }
+
+  let i = 0
+  let j = 0
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      push(a[i], 'same')
+      i++
+      j++
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      push(a[i++], 'removed')
+    } else {
+      push(b[j++], 'added')
+    }
+  }
+  while (i < a.length) push(a[i++], 'removed')
+  while (j < b.length) push(b[j++], 'added')
+  return parts
+}
@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest'
+import { calculateOccupancyCost, DEFAULT_LEASE_TERMS, rankOccupancyCosts } from './occupancy-cost'
+import type { Property } from './supabase'
+
+function site(id: string, sizeSqft: number | null, baseRentPsf: number | null, expensesPsf = 8): Property {
+  return { id, size_sqft: sizeSqft, base_rent_psf: baseRentPsf, expenses_psf: expensesPsf } as Property
+}
+
+function rank(...entries: [Property, Partial<typeof DEFAULT_LEASE_TERMS>?][]) {
+  return rankOccupancyCosts(entries.map(([property, terms]) => ({
+    propertyId: property.id,
+    cost: calculateOccupancyCost(property, { ...DEFAULT_LEASE_TERMS, ...terms }),
+  })))
+}
+
+describe('rankOccupancyCosts', () => {
+  it('ranks on cost per square foot, not on how big the site is', () => {
+    const [first, second] = rank([site('small-pricey', 1_200, 40)], [site('large-cheap', 4_000, 30)])
+
+    expect(first).toMatchObject({ propertyId: 'large-cheap', overallRank: 1 })
+    expect(second).toMatchObject({ propertyId: 'small-pricey', overallRank: 2 })
+  })
+
+  it('ties sites on the same rent and terms whatever their size', () => {
+    const entries = rank([site('small', 1_200, 30)], [site('large', 4_000, 30)])
+
+    expect(entries.map(entry => entry.overallRank)).toEqual([1, 1])
+  })
+
+  it('spreads concessions over the term before comparing them', () => {
+    const entries = rank(
+      [site('short', 2_000, 30), { termYears: 5, tiAllowancePsf: 20 }],
+      [site('long', 2_000, 30), { termYears: 10, tiAllowancePsf: 30 }]
+    )
+    const ranks = Object.fromEntries(entries.map(entry => [entry.propertyId, entry.ranks.concessionsPsf]))
+
+    expect(ranks).toEqual({ short: 1, long: 2 })
+  })
+
+  it('puts sites missing size or rent last', () => {
+    const entries = rank([site('unknown', null, 30)], [site('priced', 2_000, 30)])
+
+    expect(entries.map(entry => [entry.propertyId, entry.overallRank])).toEqual([['priced', 1], ['unknown', 2]])
+  })
+})
@@ -0,0 +1,181 @@
+import type { Property } from './supabase'
+
+// What a site costs to occupy over a lease, from its size, base rent and
+// expenses plus the lease terms on offer. Base rent escalates each year;
+// expenses stay at today's figure. Free rent abates base rent from the start
+// of the lease and the TI allowance comes off the total.
+
+export interface LeaseTerms {
+  termYears: number
+  // Yearly base rent increase, in percent
+  escalationPct: number
+  tiAllowancePsf: number
+  freeRentMonths: number
+}
+
+export const DEFAULT_LEASE_TERMS: LeaseTerms = {
+  termYears: 10,
+  escalationPct: 3,
+  tiAllowancePsf: 0,
+  freeRentMonths: 0
+}
+
+// Properties a comparison can hold at once
+export const MIN_COMPARE = 2
+export const MAX_COMPARE = 6
+
+export interface LeaseYear {
+  year: number
+  baseRent: number
+  expenses: number
+  total: number
+}
+
+export interface OccupancyCost {
+  sizeSqft: number
+  // Year one, before free rent
+  annualBaseRent: number
+  annualExpenses: number
+  annualTotal: number
+  monthlyTotal: number
+  // Base rent plus expenses per square foot, year one
+  grossPsf: number
+  years: LeaseYear[]
+  freeRentValue: number
+  tiAllowance: number
+  // Everything paid over the term, less free rent and TI
+  netTermCost: number
+  // Net term cost spread evenly over the term
+  effectiveAnnualPsf: number
+  // Free rent and TI spread the same way
+  concessionsAnnualPsf: number
+  effectiveMonthly: number
+  // False when size or rent is missing, so the figures are understated
+  complete: boolean
+}
+
+function clamp(value: number, min: number, max: number) {
+  if (!Number.isFinite(value)) return min
+  return Math.min(max, Math.max(min, value))
+}
+
+// Keep terms typed into the calculator within sensible bounds
+export function normalizeLeaseTerms(terms: LeaseTerms): LeaseTerms {
+  const termYears = Math.round(clamp(terms.termYears, 1, 30))
+  return {
+    termYears,
+    escalationPct: clamp(terms.escalationPct, 0, 20),
+    tiAllowancePsf: clamp(terms.tiAllowancePsf, 0, 1000),
+    freeRentMonths: Math.round(clamp(terms.freeRentMonths, 0, termYears * 12))
+  }
+}
+
+export function calculateOccupancyCost(property: Property, leaseTerms: LeaseTerms = DEFAULT_LEASE_TERMS): OccupancyCost {
+  const terms = normalizeLeaseTerms(leaseTerms)
+  const sizeSqft = property.size_sqft ?? 0
+  const annualBaseRent = sizeSqft * (property.base_rent_psf ?? 0)
+  const annualExpenses = sizeSqft * (property.expenses_psf ?? 0)
+
+  const years: LeaseYear[] = []
+  let freeRentValue = 0
+  for (let year = 1; year <= terms.termYears; year++) {
+    const baseRent = annualBaseRent * Math.pow(1 + terms.escalationPct / 100, year - 1)
+    const freeMonths = clamp(terms.freeRentMonths - (year - 1) * 12, 0, 12)
+    freeRentValue += (baseRent / 12) * freeMonths
+    years.push({ year, baseRent, expenses: annualExpenses, total: baseRent + annualExpenses })
+  }
+
+  const tiAllowance = sizeSqft * terms.tiAllowancePsf
+  const grossTermCost = years.reduce((sum, year) => sum + year.total, 0)
+  const netTermCost = grossTermCost - freeRentValue - tiAllowance
+
+  return {
+    sizeSqft,
+    annualBaseRent,
+    annualExpenses,
+    annualTotal: annualBaseRent + annualExpenses,
+    monthlyTotal: (annualBaseRent + annualExpenses) / 12,
+    grossPsf: (property.base_rent_psf ?? 0) + (property.expenses_psf ?? 0),
+    years,
+    freeRentValue,
+    tiAllowance,
+    netTermCost,
+    effectiveAnnualPsf: sizeSqft > 0 ? netTermCost / terms.termYears / sizeSqft : 0,
+    concessionsAnnualPsf: sizeSqft > 0 ? (freeRentValue + tiAllowance) / terms.termYears / sizeSqft : 0,
+    effectiveMonthly: netTermCost / (terms.termYears * 12),
+    complete: sizeSqft > 0 && property.base_rent_psf != null
+  }
+}
+
+export interface ScorecardMetric {
+  key: string
+  label: string
+  better: 'lower' | 'higher'
+  value: (cost: OccupancyCost) => number
+}
+
+// What the scorecard ranks sites on; each counts equally. All are per square
+// foot per year, so a bigger site doesn't rank worse just for its size and a
+// longer term doesn't win on concessions just for its length.
+export const SCORECARD_METRICS: ScorecardMetric[] = [
+  { key: 'effectiveAnnualPsf', label: 'Effective rent / SF / yr', better: 'lower', value: cost => cost.effectiveAnnualPsf },
+  { key: 'grossPsf', label: 'Gross rent / SF, year one', better: 'lower', value: cost => cost.grossPsf },
+  { key: 'concessionsPsf', label: 'Free rent and TI / SF / yr', better: 'higher', value: cost => cost.concessionsAnnualPsf }
+]
+
+export interface ScorecardEntry {
+  propertyId: string
+  // 1 is best; ties share a rank
+  ranks: Record<string, number>
+  // Average rank across the metrics
+  score: number
+  overallRank: number
+}
+
+function rankValues(values: number[], better: 'lower' | 'higher'): number[] {
+  return values.map(value =>
+    1 + values.filter(other => (better === 'lower' ? other < value : other > value)).length
+  )
+}
+
+// Rank sites against each other. Sites with missing size or rent can't be
+// costed fairly, so they rank after every complete one.
+export function rankOccupancyCosts(costs: { propertyId: string; cost: OccupancyCost }[]): ScorecardEntry[] {
+  const complete = costs.filter(entry => entry.cost.complete)
+  const incomplete = costs.filter(entry => !entry.cost.complete)
+
+  // To the cent, as shown, so figures that read the same tie
+  const ranksByMetric = SCORECARD_METRICS.map(metric =>
+    rankValues(complete.map(entry => Math.round(metric.value(entry.cost) * 100) / 100), metric.better)
+  )
+
+  const entries: ScorecardEntry[] = complete.map((entry, i) => {
+    const ranks = Object.fromEntries(SCORECARD_METRICS.map((metric, m) => [metric.key, ranksByMetric[m][i]]))
+    const score = SCORECARD_METRICS.reduce((sum, metric) => sum + ranks[metric.key], 0) / SCORECARD_METRICS.length
+    return { propertyId: entry.propertyId, ranks, score, overallRank: 0 }
+  })
+
+  const scores = entries.map(entry => entry.score)
+  rankValues(scores, 'lower').forEach((rank, i) => {
+    entries[i].overallRank = rank
+  })
+
+  const unranked = Object.fromEntries(SCORECARD_METRICS.map(metric => [metric.key, complete.length + 1]))
+  return [
+    ...entries.sort((a, b) => a.overallRank - b.overallRank),
+    ...incomplete.map(entry => ({
+      propertyId: entry.propertyId,
+      ranks: unranked,
+      score: complete.length + 1,
+      overallRank: complete.length + 1
+    }))
+  ]
+}
+
+const dollars = new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD', maximumFractionDigits: 0 })
+const cents = new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD', minimumFractionDigits: 2 })
+
+// Whole dollars for totals, cents for per-square-foot figures
+export function formatCost(amount: number, { perSqft = false }: { perSqft?: boolean } = {}) {
+  return perSqft ? `${cents.format(amount)}/SF` : dollars.format(amount)
+}
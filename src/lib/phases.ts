@@ -0,0 +1,94 @@
+import type { PhaseDefinition } from './supabase'
+
+// Deal phases. Each client has one pipeline (phase_definitions) saying which
+// phases exist, in what order, how they look and where a property can move
+// next. Screens and DataService go through a PhaseCatalog built from it, so
+// labels, colours and ordering are defined once.
+
+export type PhaseVariant = PhaseDefinition['variant']
+
+// The pipeline clients get until they define their own; matches the rows
+// seeded by the phase_state_machine and pipeline_analytics migrations
+export const DEFAULT_PHASE_DEFINITIONS: Omit<PhaseDefinition, 'client_id'>[] = [
+  { key: 'intro', label: 'Intro', variant: 'outline', color: '#94a3b8', position: 1, next_phases: ['site_selection'], stall_after_days: 30 },
+  { key: 'site_selection', label: 'Site Selection', variant: 'outline', color: '#3b82f6', position: 2, next_phases: ['intro', 'loi'], stall_after_days: 60 },
+  { key: 'loi', label: 'LOI', variant: 'secondary', color: '#f59e0b', position: 3, next_phases: ['site_selection', 'lease'], stall_after_days: 30 },
+  { key: 'lease', label: 'Lease', variant: 'default', color: '#8b5cf6', position: 4, next_phases: ['loi', 'closed'], stall_after_days: 45 },
+  { key: 'closed', label: 'Closed', variant: 'secondary', color: '#16a34a', position: 5, next_phases: [], stall_after_days: null }
+]
+
+const UNKNOWN_PHASE_COLOR = '#6b7280'
+
+export interface PhaseCatalog {
+  // Defined phases, earliest first
+  phases: Omit<PhaseDefinition, 'client_id'>[]
+  get(key: string | null | undefined): Omit<PhaseDefinition, 'client_id'> | undefined
+  isDefined(key: string | null | undefined): boolean
+  label(key: string | null | undefined): string
+  variant(key: string | null | undefined): PhaseVariant
+  color(key: string | null | undefined): string
+  // Sort comparator: pipeline order, then phases the pipeline doesn't know, alphabetically
+  compare(a: string, b: string): number
+  // The phase furthest down the pipeline, or null for an empty list
+  furthest(keys: string[]): string | null
+  // Phases a property in this phase may move to
+  nextPhases(key: string): Omit<PhaseDefinition, 'client_id'>[]
+  canMove(from: string, to: string): boolean
+}
+
+function normalize(key: string | null | undefined) {
+  return (key ?? '').trim().toLowerCase()
+}
+
+// "under_contract" -> "Under Contract", for phases older rows use that the pipeline doesn't define
+function humanize(key: string) {
+  return key
+    .split('_')
+    .filter(Boolean)
+    .map(word => word.charAt(0).toUpperCase() + word.slice(1).toLowerCase())
+    .join(' ')
+}
+
+export function createPhaseCatalog(definitions: Omit<PhaseDefinition, 'client_id'>[]): PhaseCatalog {
+  const phases = [...definitions].sort((a, b) => a.position - b.position)
+  const byKey = new Map(phases.map(phase => [normalize(phase.key), phase]))
+  const rank = (key: string) => {
+    const phase = byKey.get(normalize(key))
+    return phase ? phases.indexOf(phase) : -1
+  }
+
+  const catalog: PhaseCatalog = {
+    phases,
+    get: key => byKey.get(normalize(key)),
+    isDefined: key => byKey.has(normalize(key)),
+    label: key => catalog.get(key)?.label ?? humanize(key ?? ''),
+    variant: key => catalog.get(key)?.variant ?? 'outline',
+    color: key => catalog.get(key)?.color ?? UNKNOWN_PHASE_COLOR,
+    compare: (a, b) => {
+      const rankA = rank(a)
+      const rankB = rank(b)
+      if (rankA !== -1 && rankB !== -1) return rankA - rankB
+      if (rankA !== -1) return -1
+      if (rankB !== -1) return 1
+      return a.localeCompare(b)
+    },
+    furthest: keys => {
+      let furthest: string | null = null
+      for (const key of keys) {
+        if (furthest === null || rank(key) > rank(furthest)) furthest = key
+      }
+      return furthest
+    },
+    nextPhases: key => {
+      const phase = catalog.get(key)
+      // A phase the pipeline doesn't know can move onto it anywhere
+      if (!phase) return phases
+      return phase.next_phases.flatMap(next => catalog.get(next) ?? [])
+    },
+    canMove: (from, to) => catalog.isDefined(to) && catalog.nextPhases(from).some(phase => phase.key === catalog.get(to)?.key)
+  }
+
+  return catalog
+}
+
+export const DEFAULT_PHASE_CATALOG = createPhaseCatalog(DEFAULT_PHASE_DEFINITIONS)
@@ -0,0 +1,300 @@
+import type { Market, MarketUpdate, PhaseChange, Property } from './supabase'
+import type { PhaseCatalog } from './phases'
+
+// Pipeline velocity: how long deals spend in each phase, how many make it to
+// the next one, and which ones have sat still too long. Works from
+// property_phase_history; properties with no history at all (added before it
+// was recorded) get an estimated timeline from their timestamps and the
+// market updates log, the same way the pipeline_analytics migration backfills.
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000
+
+// A property's time in one phase
+export interface PhaseStay {
+  propertyId: string
+  marketId: string
+  phase: string
+  enteredAt: string
+  // Null while the property is still in this phase
+  leftAt: string | null
+  // Who moved the property into this phase, when known
+  enteredBy: string | null
+  estimated: boolean
+}
+
+export interface PhaseStats {
+  phase: string
+  // Properties that got at least this far down the pipeline
+  reached: number
+  // Share of those that got to the next phase; null for the last phase
+  conversion: number | null
+  // Over stays that have finished
+  medianDays: number | null
+  current: number
+  stalled: number
+}
+
+export interface PipelineSummary {
+  properties: number
+  phases: PhaseStats[]
+  // First phase to last phase, for properties that got there
+  medianDaysToClose: number | null
+  stalled: number
+  // Some of the timelines were estimated
+  estimated: boolean
+}
+
+export interface MarketPipeline extends PipelineSummary {
+  marketId: string
+  marketName: string
+  region: string
+}
+
+// Median days per phase for a group of stays, e.g. a region or a broker
+export interface GroupVelocity {
+  key: string
+  stays: number
+  medianDays: Record<string, number | null>
+  stalled: number
+}
+
+export interface StalledDeal {
+  propertyId: string
+  propertyName: string
+  marketId: string
+  phase: string
+  days: number
+  limitDays: number
+}
+
+export interface PipelineAnalytics {
+  portfolio: PipelineSummary
+  markets: MarketPipeline[]
+  regions: GroupVelocity[]
+  brokers: GroupVelocity[]
+  stalled: StalledDeal[]
+}
+
+export function median(values: number[]): number | null {
+  if (values.length === 0) return null
+
+  const sorted = [...values].sort((a, b) => a - b)
+  const middle = Math.floor(sorted.length / 2)
+  return sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle]
+}
+
+function daysBetween(from: string, to: string) {
+  return Math.max(0, (new Date(to).getTime() - new Date(from).getTime()) / MS_PER_DAY)
+}
+
+function escapeRegExp(text: string) {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+}
+
+// Markets are grouped into regions by the states their territory covers
+export function marketRegion(market: Market): string {
+  const states = market.territory?.states ?? []
+  return states.length > 0 ? [...states].sort().join(', ') : 'No territory'
+}
+
+// Earliest market update after `after` that mentions the phase by label or key
+function firstMention(phase: string, updates: MarketUpdate[], phases: PhaseCatalog, after: string): string | null {
+  const names = [phases.label(phase), phase.replace(/_/g, ' ')]
+  const pattern = new RegExp(`\\b(${names.map(escapeRegExp).join('|')})\\b`, 'i')
+
+  const mention = updates
+    .filter(update => update.created_at > after && pattern.test(update.message))
+    .sort((a, b) => a.created_at.localeCompare(b.created_at))[0]
+
+  return mention?.created_at ?? null
+}
+
+// Best guess at a timeline for a property with no recorded history. A property
+// never edited since it was added has been in its phase all along. Otherwise
+// it's taken to have started one phase earlier and moved on when the market's
+// updates first mention the current phase, or at its last edit if sooner.
+export function estimatePhaseStays(property: Property, updates: MarketUpdate[], phases: PhaseCatalog): PhaseStay[] {
+  const base = { propertyId: property.id, marketId: property.market_id, enteredBy: null, estimated: true }
+  const index = phases.phases.findIndex(phase => phase.key === phases.get(property.phase)?.key)
+
+  if (index <= 0 || property.updated_at <= property.created_at) {
+    return [{ ...base, phase: property.phase, enteredAt: property.created_at, leftAt: null }]
+  }
+
+  const mentioned = firstMention(property.phase, updates.filter(u => u.market_id === property.market_id), phases, property.created_at)
+  const movedAt = mentioned && mentioned < property.updated_at ? mentioned : property.updated_at
+
+  return [
+    { ...base, phase: phases.phases[index - 1].key, enteredAt: property.created_at, leftAt: movedAt },
+    { ...base, phase: property.phase, enteredAt: movedAt, leftAt: null }
+  ]
+}
+
+// Each property's stays in order, from recorded history where there is any
+export function buildPhaseStays(
+  properties: Property[],
+  history: PhaseChange[],
+  updates: MarketUpdate[],
+  phases: PhaseCatalog
+): Map<string, PhaseStay[]> {
+  const historyByProperty = new Map<string, PhaseChange[]>()
+  for (const change of history) {
+    const changes = historyByProperty.get(change.property_id) || []
+    changes.push(change)
+    historyByProperty.set(change.property_id, changes)
+  }
+
+  const stays = new Map<string, PhaseStay[]>()
+  for (const property of properties) {
+    const changes = (historyByProperty.get(property.id) || [])
+      .sort((a, b) => a.changed_at.localeCompare(b.changed_at))
+
+    if (changes.length === 0) {
+      stays.set(property.id, estimatePhaseStays(property, updates, phases))
+      continue
+    }
+
+    const recorded: PhaseStay[] = changes.map((change, i) => ({
+      propertyId: property.id,
+      marketId: property.market_id,
+      phase: change.to_phase,
+      enteredAt: change.changed_at,
+      leftAt: changes[i + 1]?.changed_at ?? null,
+      enteredBy: change.changed_by_name ?? null,
+      estimated: !!change.estimated
+    }))
+
+    // History that starts with a move began after the property was added;
+    // it was in the earlier phase from then
+    const first = changes[0]
+    if (first.from_phase !== null) {
+      recorded.unshift({
+        propertyId: property.id,
+        marketId: property.market_id,
+        phase: first.from_phase,
+        enteredAt: property.created_at,
+        leftAt: first.changed_at,
+        enteredBy: null,
+        estimated: true
+      })
+    }
+
+    stays.set(property.id, recorded)
+  }
+
+  return stays
+}
+
+function isStalled(stay: PhaseStay, phases: PhaseCatalog, now: string) {
+  const limit = phases.get(stay.phase)?.stall_after_days
+  return stay.leftAt === null && limit != null && daysBetween(stay.enteredAt, now) > limit
+}
+
+export function summarizePipeline(stays: PhaseStay[][], phases: PhaseCatalog, now: string): PipelineSummary {
+  const rank = (phase: string) => phases.phases.findIndex(p => p.key === phases.get(phase)?.key)
+  const furthest = stays.map(propertyStays => Math.max(-1, ...propertyStays.map(stay => rank(stay.phase))))
+  const allStays = stays.flat()
+  const lastPhase = phases.phases[phases.phases.length - 1]?.key
+
+  const phaseStats = phases.phases.map((phase, index) => {
+    const reached = furthest.filter(rankReached => rankReached >= index).length
+    const reachedNext = furthest.filter(rankReached => rankReached >= index + 1).length
+    const inPhase = allStays.filter(stay => phases.get(stay.phase)?.key === phase.key)
+    const finished = inPhase.filter(stay => stay.leftAt !== null)
+
+    return {
+      phase: phase.key,
+      reached,
+      conversion: index < phases.phases.length - 1 && reached > 0 ? reachedNext / reached : null,
+      medianDays: median(finished.map(stay => daysBetween(stay.enteredAt, stay.leftAt!))),
+      current: inPhase.filter(stay => stay.leftAt === null).length,
+      stalled: inPhase.filter(stay => isStalled(stay, phases, now)).length
+    }
+  })
+
+  const daysToClose = stays.flatMap(propertyStays => {
+    const closed = propertyStays.find(stay => phases.get(stay.phase)?.key === lastPhase)
+    return closed && propertyStays.length > 0 ? [daysBetween(propertyStays[0].enteredAt, closed.enteredAt)] : []
+  })
+
+  return {
+    properties: stays.length,
+    phases: phaseStats,
+    medianDaysToClose: median(daysToClose),
+    stalled: allStays.filter(stay => isStalled(stay, phases, now)).length,
+    estimated: allStays.some(stay => stay.estimated)
+  }
+}
+
+function groupVelocity(stays: PhaseStay[], keyOf: (stay: PhaseStay) => string | null, phases: PhaseCatalog, now: string): GroupVelocity[] {
+  const groups = new Map<string, PhaseStay[]>()
+  for (const stay of stays) {
+    const key = keyOf(stay)
+    if (!key) continue
+    groups.set(key, [...(groups.get(key) || []), stay])
+  }
+
+  return [...groups.entries()]
+    .map(([key, groupStays]) => ({
+      key,
+      stays: groupStays.length,
+      medianDays: Object.fromEntries(phases.phases.map(phase => [
+        phase.key,
+        median(groupStays
+          .filter(stay => stay.leftAt !== null && phases.get(stay.phase)?.key === phase.key)
+          .map(stay => daysBetween(stay.enteredAt, stay.leftAt!)))
+      ])),
+      stalled: groupStays.filter(stay => isStalled(stay, phases, now)).length
+    }))
+    .sort((a, b) => a.key.localeCompare(b.key))
+}
+
+export function buildPipelineAnalytics({ markets, properties, history, updates, phases, now = new Date().toISOString() }: {
+  markets: Market[]
+  properties: Property[]
+  history: PhaseChange[]
+  updates: MarketUpdate[]
+  phases: PhaseCatalog
+  now?: string
+}): PipelineAnalytics {
+  const staysByProperty = buildPhaseStays(properties, history, updates, phases)
+  const marketsById = new Map(markets.map(market => [market.id, market]))
+  const allStays = [...staysByProperty.values()].flat()
+
+  const stalled = allStays
+    .filter(stay => isStalled(stay, phases, now))
+    .map(stay => {
+      const property = properties.find(p => p.id === stay.propertyId)
+      return {
+        propertyId: stay.propertyId,
+        propertyName: property?.title || property?.address_line || 'Untitled Property',
+        marketId: stay.marketId,
+        phase: stay.phase,
+        days: Math.floor(daysBetween(stay.enteredAt, now)),
+        limitDays: phases.get(stay.phase)?.stall_after_days ?? 0
+      }
+    })
+    .sort((a, b) => (b.days - b.limitDays) - (a.days - a.limitDays))
+
+  return {
+    portfolio: summarizePipeline([...staysByProperty.values()], phases, now),
+    markets: markets
+      .map(market => ({
+        ...summarizePipeline(
+          properties.filter(p => p.market_id === market.id).map(p => staysByProperty.get(p.id) || []),
+          phases,
+          now
+        ),
+        marketId: market.id,
+        marketName: market.name,
+        region: marketRegion(market)
+      }))
+      .sort((a, b) => a.marketName.localeCompare(b.marketName)),
+    regions: groupVelocity(allStays, stay => {
+      const market = marketsById.get(stay.marketId)
+      return market ? marketRegion(market) : null
+    }, phases, now),
+    brokers: groupVelocity(allStays, stay => stay.enteredBy, phases, now),
+    stalled
+  }
+}
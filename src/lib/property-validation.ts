@@ -0,0 +1,68 @@
+import type { PropertyInput } from './repository'
+import type { PhaseCatalog } from './phases'
+
+// Checks for the property form, shared by the form (to show errors next to
+// each field) and DataService (so nothing invalid reaches the database).
+
+export const MAX_PHOTO_BYTES = 10 * 1024 * 1024
+
+export type PropertyFieldErrors = Partial<Record<keyof PropertyInput, string>>
+
+function checkRange(value: number | null | undefined, { min, max, integer = false }: { min: number; max: number; integer?: boolean }) {
+  if (value == null) return null
+  if (!Number.isFinite(value)) return 'Enter a number'
+  if (integer && !Number.isInteger(value)) return 'Enter a whole number'
+  if (value < min || value > max) return `Must be between ${min.toLocaleString()} and ${max.toLocaleString()}`
+  return null
+}
+
+// Phase must be one the client's pipeline defines; whether it can be reached
+// from the current phase is checked separately (PhaseCatalog.canMove)
+export function validatePropertyInput(input: PropertyInput, phases: PhaseCatalog): PropertyFieldErrors {
+  const errors: PropertyFieldErrors = {}
+
+  if (!input.market_id) {
+    errors.market_id = 'Choose a market'
+  }
+  if (!input.title?.trim() && !input.address_line?.trim()) {
+    errors.title = 'Enter a name or a street address'
+  }
+  if (input.state && !/^[A-Za-z]{2}$/.test(input.state.trim())) {
+    errors.state = 'Use the two-letter state code'
+  }
+  if (input.postal_code && !/^\d{5}(-\d{4})?$/.test(input.postal_code.trim())) {
+    errors.postal_code = 'Use a 5-digit ZIP code'
+  }
+
+  const lat = checkRange(input.lat, { min: -90, max: 90 })
+  if (lat) errors.lat = lat
+  const lng = checkRange(input.lng, { min: -180, max: 180 })
+  if (lng) errors.lng = lng
+  if (!errors.lat && !errors.lng && (input.lat == null) !== (input.lng == null)) {
+    errors[input.lat == null ? 'lat' : 'lng'] = 'Enter both latitude and longitude, or neither'
+  }
+
+  const size = checkRange(input.size_sqft, { min: 1, max: 10_000_000, integer: true })
+  if (size) errors.size_sqft = size
+  const rent = checkRange(input.base_rent_psf, { min: 0, max: 1000 })
+  if (rent) errors.base_rent_psf = rent
+  const expenses = checkRange(input.expenses_psf, { min: 0, max: 1000 })
+  if (expenses) errors.expenses_psf = expenses
+  const displayNumber = checkRange(input.display_number, { min: 1, max: 9999, integer: true })
+  if (displayNumber) errors.display_number = displayNumber
+
+  if (!phases.isDefined(input.phase)) {
+    errors.phase = 'Choose a phase'
+  }
+  if (input.notes && input.notes.length > 5000) {
+    errors.notes = 'Keep notes under 5,000 characters'
+  }
+
+  return errors
+}
+
+export function validatePropertyPhoto(file: File): string | null {
+  if (!file.type.startsWith('image/')) return 'Choose an image file'
+  if (file.size > MAX_PHOTO_BYTES) return 'Photos must be 10 MB or smaller'
+  return null
+}
@@ -0,0 +1,45 @@
+// Fixed-window request counting per key (e.g. a client IP). Counts live in
+// this server process, so each instance limits on its own.
+
+export interface RateLimitResult {
+  allowed: boolean
+  remaining: number
+  // Until the window resets; 0 when allowed
+  retryAfterSeconds: number
+}
+
+// Keys tracked before expired windows are swept out
+const MAX_TRACKED_KEYS = 10000
+
+export class RateLimiter {
+  private windows = new Map<string, { start: number; count: number }>()
+
+  constructor(private readonly limit: number, private readonly windowMs: number) {}
+
+  check(key: string, now: number = Date.now()): RateLimitResult {
+    let window = this.windows.get(key)
+    if (!window || now - window.start >= this.windowMs) {
+      if (!window && this.windows.size >= MAX_TRACKED_KEYS) this.sweep(now)
+      window = { start: now, count: 0 }
+      this.windows.set(key, window)
+    }
+
+    if (window.count >= this.limit) {
+      return { allowed: false, remaining: 0, retryAfterSeconds: Math.ceil((window.start + this.windowMs - now) / 1000) }
+    }
+
+    window.count++
+    return { allowed: true, remaining: this.limit - window.count, retryAfterSeconds: 0 }
+  }
+
+  private sweep(now: number) {
+    for (const [key, window] of this.windows) {
+      if (now - window.start >= this.windowMs) this.windows.delete(key)
+    }
+    // Still full: drop the oldest, which Map iteration yields first
+    if (this.windows.size >= MAX_TRACKED_KEYS) {
+      const oldest = this.windows.keys().next().value
+      if (oldest !== undefined) this.windows.delete(oldest)
+    }
+  }
+}
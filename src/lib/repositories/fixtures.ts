@@ -0,0 +1,57 @@
+import type { Client, DocumentVersion, LibraryDocument, Market, MarketUpdate, MarketUpdateRevision, PhaseChange, PhaseDefinition, PortalNotification, Property, TerritoryPolygonVersion, TradeAreaPoint, UpdateReaction } from '../supabase'
+import type { UserProfileRow } from '../repository'
+import clients from '@/fixtures/clients.json'
+import users from '@/fixtures/users.json'
+import clientUsers from '@/fixtures/client-users.json'
+import markets from '@/fixtures/markets.json'
+import marketUsers from '@/fixtures/market-users.json'
+import properties from '@/fixtures/properties.json'
+import marketUpdates from '@/fixtures/market-updates.json'
+import tradeAreaPoints from '@/fixtures/trade-area-points.json'
+
+// Tables the local backend keeps in memory, shaped like the database rows
+export interface LocalDataset {
+  clients: Client[]
+  users: UserProfileRow[]
+  client_users: { client_id: string; user_id: string }[]
+  markets: Market[]
+  market_users: { market_id: string; user_id: string; role: string }[]
+  properties: Property[]
+  market_updates: MarketUpdate[]
+  market_update_revisions: MarketUpdateRevision[]
+  // What deleted updates said; only admins see it
+  market_update_deleted_content: (Pick<MarketUpdate, 'message' | 'attachments'> & { update_id: string; market_id: string })[]
+  market_update_reactions: (UpdateReaction & { market_id: string })[]
+  notifications: PortalNotification[]
+  territory_polygon_versions: TerritoryPolygonVersion[]
+  // Empty means every client uses DEFAULT_PHASE_DEFINITIONS
+  phase_definitions: PhaseDefinition[]
+  property_phase_history: PhaseChange[]
+  trade_area_points: TradeAreaPoint[]
+  documents: LibraryDocument[]
+  document_versions: DocumentVersion[]
+}
+
+// Fresh copy of the fixtures in src/fixtures, safe to mutate
+export function loadFixtureDataset(): LocalDataset {
+  return structuredClone({
+    clients,
+    users,
+    client_users: clientUsers,
+    markets: markets as Market[],
+    market_users: marketUsers,
+    properties,
+    market_updates: marketUpdates,
+    market_update_revisions: [],
+    market_update_deleted_content: [],
+    market_update_reactions: [],
+    notifications: [],
+    territory_polygon_versions: [],
+    phase_definitions: [],
+    property_phase_history: [],
+    trade_area_points: tradeAreaPoints as TradeAreaPoint[],
+    // Files can't be bundled as fixtures, so the library starts empty
+    documents: [],
+    document_versions: [],
+  })
+}
@@ -0,0 +1,99 @@
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import { DataService } from '../data-service'
+import { ForbiddenError, NotFoundError } from '../errors'
+import { setRepository } from '../repository'
+import { LocalRepository } from './local-repository'
+import { loadFixtureDataset } from './fixtures'
+
+const CLIENT_ID = '39022dd3-45f4-4e82-b9bd-5c9733404728'
+const AUSTIN_ID = '5b1d2f40-7c11-4e0a-8a52-3d1e0c7b2001'
+const DENVER_ID = '5b1d2f40-7c11-4e0a-8a52-3d1e0c7b2002'
+
+// DataService over the fixtures, signed in as `email`
+function signInAs(email: string) {
+  const repository = new LocalRepository(loadFixtureDataset(), email)
+  setRepository(repository)
+  DataService.setActiveClientId(CLIENT_ID)
+  return repository
+}
+
+describe('LocalRepository behind DataService', () => {
+  afterEach(() => {
+    setRepository(null)
+    DataService.setActiveClientId(null)
+  })
+
+  it('signs in the fixture user asked for, falling back to the first', async () => {
+    signInAs('franchisee@demo.local')
+    expect(await DataService.getCurrentUser()).toMatchObject({ email: 'franchisee@demo.local', role: 'franchisee' })
+
+    signInAs('nobody@demo.local')
+    expect(await DataService.getCurrentUser()).toMatchObject({ email: 'admin@demo.local', role: 'franchisor_admin' })
+  })
+
+  it('shows admins every market for the client and franchisees only their own', async () => {
+    signInAs('admin@demo.local')
+    expect((await DataService.getMarkets()).map(market => market.name)).toEqual(['Austin, TX', 'Denver, CO', 'Nashville, TN', 'Phoenix, AZ'])
+
+    signInAs('franchisee@demo.local')
+    expect((await DataService.getMarkets()).map(market => market.id)).toEqual([AUSTIN_ID])
+    expect((await DataService.getProperties()).every(property => property.market_id === AUSTIN_ID)).toBe(true)
+  })
+
+  it('refuses markets a franchisee is not linked to, and reports ones that do not exist', async () => {
+    signInAs('franchisee@demo.local')
+    await expect(DataService.getMarket(DENVER_ID)).rejects.toBeInstanceOf(ForbiddenError)
+
+    signInAs('admin@demo.local')
+    await expect(DataService.getMarket(crypto.randomUUID())).rejects.toBeInstanceOf(NotFoundError)
+  })
+
+  it('scopes everything to the active client', async () => {
+    signInAs('admin@demo.local')
+    DataService.setActiveClientId(crypto.randomUUID())
+
+    expect(await DataService.getMarkets()).toEqual([])
+    expect(await DataService.getProperties()).toEqual([])
+  })
+
+  it('keeps deleted properties out of lists and market counts until restored', async () => {
+    signInAs('admin@demo.local')
+    const [property] = await DataService.getPropertiesByMarket(AUSTIN_ID)
+    const austin = async () => (await DataService.getMarketsWithDetails()).find(market => market.id === AUSTIN_ID)!
+    const before = (await austin()).propertyCount
+
+    await DataService.deleteProperty(property.id)
+
+    expect((await DataService.getPropertiesByMarket(AUSTIN_ID)).map(p => p.id)).not.toContain(property.id)
+    expect((await austin()).propertyCount).toBe(before - 1)
+    await expect(DataService.getProperty(property.id)).rejects.toBeInstanceOf(NotFoundError)
+
+    await DataService.restoreProperty(property.id)
+
+    expect((await austin()).propertyCount).toBe(before)
+  })
+
+  it('tells subscribers about changes in the markets they follow', async () => {
+    const repository = signInAs('admin@demo.local')
+    const austinListener = vi.fn()
+    const denverListener = vi.fn()
+    repository.subscribe('properties', austinListener, { marketId: AUSTIN_ID })
+    const unsubscribe = repository.subscribe('properties', denverListener, { marketId: DENVER_ID })
+    unsubscribe()
+
+    const [property] = await DataService.getPropertiesByMarket(AUSTIN_ID)
+    await DataService.updateProperty(property.id, { notes: 'Landlord called back' })
+
+    expect(austinListener).toHaveBeenCalledWith({ eventType: 'UPDATE', oldId: property.id })
+    expect(denverListener).not.toHaveBeenCalled()
+  })
+
+  it('keeps changes to its own copy of the fixtures', async () => {
+    signInAs('admin@demo.local')
+    await DataService.createMarket('Boise, ID', null)
+    expect((await DataService.getMarkets()).map(market => market.name)).toContain('Boise, ID')
+
+    signInAs('admin@demo.local')
+    expect((await DataService.getMarkets()).map(market => market.name)).not.toContain('Boise, ID')
+  })
+})
@@ -0,0 +1,672 @@
+import type { Client, DocumentVersion, DocumentWithVersions, LibraryDocument, Market, MarketSummary, MarketUpdate, MarketUpdateRevision, PhaseChange, PhaseDefinition, PortalNotification, Property, TerritoryPolygonVersion, TradeAreaPoint, TradeAreaPointKind, UpdateAttachment, UpdateAuthor, UpdateReaction } from '../supabase'
+import { ForbiddenError, NotFoundError, ValidationError } from '../errors'
+import { normalizeRole } from '../roles'
+import type {
+  AuthUser,
+  ChangeTable,
+  DataRepository,
+  DocumentChanges,
+  DocumentInput,
+  DocumentScope,
+  MarketChanges,
+  MarketFranchiseeRow,
+  MarketInput,
+  MarketScope,
+  MarketUpdateChanges,
+  MarketUpdateInput,
+  PropertyChanges,
+  PropertyGeocode,
+  PropertyInput,
+  RowChange,
+  StoredDocumentFile,
+  TradeAreaPointInput,
+  UserProfileRow,
+} from '../repository'
+import type { LocalDataset } from './fixtures'
+
+type ChangeListener = { listener: (change: RowChange) => void; marketId?: string }
+
+function byCreatedAtDesc(a: { created_at: string }, b: { created_at: string }) {
+  return b.created_at.localeCompare(a.created_at)
+}
+
+// In-memory repository seeded from a dataset (normally the fixtures). Changes
+// last until the page reloads. The signed-in user is fixed: the user matching
+// `signedInEmail`, or the first user in the dataset.
+export class LocalRepository implements DataRepository {
+  private listeners = new Map<ChangeTable, Set<ChangeListener>>()
+  // Uploaded documents and attachments by storage path, as object URLs
+  private files = new Map<string, string>()
+  private signedInUser: AuthUser | null
+
+  constructor(private data: LocalDataset, signedInEmail?: string) {
+    const user = data.users.find(u => signedInEmail && u.email === signedInEmail) || data.users[0]
+    this.signedInUser = user ? { id: user.id, email: user.email } : null
+  }
+
+  private marketInScope(marketId: string, { clientId, marketIds, marketId: onlyMarketId }: MarketScope) {
+    const market = this.data.markets.find(m => m.id === marketId)
+    return !!market
+      && market.client_id === clientId
+      && (!marketIds || marketIds.includes(marketId))
+      && (!onlyMarketId || onlyMarketId === marketId)
+  }
+
+  private emit(table: ChangeTable, marketId: string, change: RowChange) {
+    this.listeners.get(table)?.forEach(({ listener, marketId: filterMarketId }) => {
+      if (!filterMarketId || filterMarketId === marketId) {
+        listener(change)
+      }
+    })
+  }
+
+  // Mirrors the record_property_phase_change trigger
+  private recordPhaseChange(property: Property, fromPhase: string | null, reason: string | null = null) {
+    if (fromPhase === property.phase) return
+
+    const user = this.data.users.find(u => u.id === this.signedInUser?.id)
+    this.data.property_phase_history.push({
+      id: crypto.randomUUID(),
+      property_id: property.id,
+      from_phase: fromPhase,
+      to_phase: property.phase,
+      changed_by: user?.id ?? null,
+      changed_by_name: user?.full_name ?? user?.email ?? null,
+      reason,
+      changed_at: new Date().toISOString()
+    })
+  }
+
+  async getSignedInUser(): Promise<AuthUser | null> {
+    return this.signedInUser
+  }
+
+  onAuthStateChange(): () => void {
+    // The local user never changes
+    return () => {}
+  }
+
+  async getUserProfile(userId: string): Promise<UserProfileRow> {
+    const user = this.data.users.find(u => u.id === userId)
+    if (!user) throw new NotFoundError('User not found')
+    return { ...user }
+  }
+
+  async getClientsForUser(userId: string): Promise<Client[]> {
+    const clientIds = this.data.client_users.filter(cu => cu.user_id === userId).map(cu => cu.client_id)
+    return this.data.clients.filter(c => clientIds.includes(c.id)).map(c => ({ ...c }))
+  }
+
+  async getLinkedMarketIds(userId: string): Promise<string[]> {
+    return this.data.market_users.filter(mu => mu.user_id === userId).map(mu => mu.market_id)
+  }
+
+  async getMarkets(scope: MarketScope): Promise<Market[]> {
+    return this.data.markets
+      .filter(m => this.marketInScope(m.id, scope) && (scope.includeArchived || !m.archived_at))
+      .sort((a, b) => a.name.localeCompare(b.name))
+      .map(m => ({ ...m }))
+  }
+
+  async getMarket(clientId: string, id: string): Promise<Market> {
+    const market = this.data.markets.find(m => m.id === id && m.client_id === clientId)
+    if (!market) throw new NotFoundError('Market not found')
+    return { ...market }
+  }
+
+  async findMarketByName(clientId: string, name: string): Promise<Market | null> {
+    const market = this.data.markets.find(m =>
+      m.client_id === clientId && m.name.toLowerCase() === name.toLowerCase()
+    )
+    return market ? { ...market } : null
+  }
+
+  async createMarket(clientId: string, { name, territory }: MarketInput): Promise<Market> {
+    const now = new Date().toISOString()
+    const market: Market = {
+      id: crypto.randomUUID(),
+      client_id: clientId,
+      name,
+      territory,
+      archived_at: null,
+      created_at: now,
+      updated_at: now
+    }
+
+    this.data.markets.push(market)
+    return { ...market }
+  }
+
+  async updateMarket(id: string, changes: MarketChanges): Promise<Market> {
+    const market = this.data.markets.find(m => m.id === id)
+    if (!market) throw new NotFoundError('Market not found')
+
+    // Mirrors the record_territory_polygon_version trigger
+    if ('territory_polygon' in changes
+      && JSON.stringify(changes.territory_polygon ?? null) !== JSON.stringify(market.territory_polygon ?? null)) {
+      this.data.territory_polygon_versions.push({
+        id: crypto.randomUUID(),
+        market_id: id,
+        territory_polygon: market.territory_polygon ?? null,
+        replaced_by: this.signedInUser?.id ?? null,
+        replaced_at: new Date().toISOString()
+      })
+    }
+
+    Object.assign(market, changes, { updated_at: new Date().toISOString() })
+    return { ...market }
+  }
+
+  async deleteMarket(id: string): Promise<void> {
+    // Same cascade as the database: properties, updates and links go with the market
+    this.data.markets = this.data.markets.filter(m => m.id !== id)
+    this.data.properties = this.data.properties.filter(p => p.market_id !== id)
+    this.data.market_updates = this.data.market_updates.filter(u => u.market_id !== id)
+    this.data.market_update_revisions = this.data.market_update_revisions.filter(r => r.market_id !== id)
+    this.data.market_update_deleted_content = this.data.market_update_deleted_content.filter(c => c.market_id !== id)
+    this.data.market_users = this.data.market_users.filter(mu => mu.market_id !== id)
+    this.data.territory_polygon_versions = this.data.territory_polygon_versions.filter(v => v.market_id !== id)
+    const remaining = new Set(this.data.properties.map(p => p.id))
+    this.data.property_phase_history = this.data.property_phase_history.filter(h => remaining.has(h.property_id))
+  }
+
+  async getTerritoryVersions(marketId: string): Promise<TerritoryPolygonVersion[]> {
+    return this.data.territory_polygon_versions
+      .filter(v => v.market_id === marketId)
+      .sort((a, b) => b.replaced_at.localeCompare(a.replaced_at))
+      .map(v => ({ ...v }))
+  }
+
+  async getMarketSummaries(marketIds: string[]): Promise<MarketSummary[]> {
+    return this.data.markets
+      .filter(m => marketIds.includes(m.id))
+      .map(market => {
+        const properties = this.data.properties.filter(p => p.market_id === market.id && !p.deleted_at)
+        const latestUpdate = this.data.market_updates
+          .filter(u => u.market_id === market.id && !u.parent_id && !u.deleted_at)
+          .sort(byCreatedAtDesc)[0]
+
+        return {
+          market_id: market.id,
+          client_id: market.client_id,
+          property_count: properties.length,
+          phases: [...new Set(properties.map(p => p.phase).filter(Boolean))],
+          latest_update_message: latestUpdate?.message ?? null,
+          latest_update_at: latestUpdate?.created_at ?? null
+        }
+      })
+  }
+
+  async getFranchisees(marketIds: string[]): Promise<MarketFranchiseeRow[]> {
+    return this.data.market_users
+      .filter(mu => marketIds.includes(mu.market_id) && mu.role === 'franchisee')
+      .flatMap(mu => {
+        const user = this.data.users.find(u => u.id === mu.user_id && u.role === 'franchisee')
+        if (!user) return []
+
+        const { id, full_name, email, phone, avatar_url, status } = user
+        return [{ marketId: mu.market_id, franchisee: { id, full_name, email, phone, avatar_url, status } }]
+      })
+  }
+
+  async getProperties(scope: MarketScope): Promise<Property[]> {
+    return this.data.properties
+      .filter(p => this.marketInScope(p.market_id, scope) && !p.deleted_at)
+      .sort(byCreatedAtDesc)
+      .map(p => ({ ...p }))
+  }
+
+  async getProperty(clientId: string, id: string, { includeDeleted = false }: { includeDeleted?: boolean } = {}): Promise<Property> {
+    const property = this.data.properties.find(p => p.id === id)
+    if (!property || !this.marketInScope(property.market_id, { clientId }) || (property.deleted_at && !includeDeleted)) {
+      throw new NotFoundError('Property not found')
+    }
+    return { ...property }
+  }
+
+  async createProperty(input: PropertyInput & PropertyGeocode): Promise<Property> {
+    const now = new Date().toISOString()
+    const property: Property = {
+      ...input,
+      id: crypto.randomUUID(),
+      deleted_at: null,
+      created_at: now,
+      updated_at: now
+    }
+
+    this.data.properties.push(property)
+    this.recordPhaseChange(property, null)
+    this.emit('properties', property.market_id, { eventType: 'INSERT' })
+    return { ...property }
+  }
+
+  async updateProperty(id: string, changes: PropertyChanges): Promise<Property> {
+    const property = this.data.properties.find(p => p.id === id)
+    if (!property) throw new NotFoundError('Property not found')
+
+    const fromPhase = property.phase
+    Object.assign(property, changes, { updated_at: new Date().toISOString() })
+    this.recordPhaseChange(property, fromPhase)
+    this.emit('properties', property.market_id, { eventType: 'UPDATE', oldId: id })
+    return { ...property }
+  }
+
+  async uploadPropertyPhoto(_marketId: string, file: File): Promise<string> {
+    // Lives as long as the page, like everything else in the local backend
+    return URL.createObjectURL(file)
+  }
+
+  async getPhaseDefinitions(clientId: string): Promise<PhaseDefinition[]> {
+    return this.data.phase_definitions
+      .filter(d => d.client_id === clientId)
+      .sort((a, b) => a.position - b.position)
+      .map(d => ({ ...d }))
+  }
+
+  async changePropertyPhase(id: string, phase: string, reason: string | null): Promise<Property> {
+    const property = this.data.properties.find(p => p.id === id)
+    if (!property) throw new NotFoundError('Property not found')
+
+    const fromPhase = property.phase
+    Object.assign(property, { phase, updated_at: new Date().toISOString() })
+    this.recordPhaseChange(property, fromPhase, reason)
+    this.emit('properties', property.market_id, { eventType: 'UPDATE', oldId: id })
+    return { ...property }
+  }
+
+  async getPhaseHistory(propertyId: string): Promise<PhaseChange[]> {
+    return this.data.property_phase_history
+      .filter(h => h.property_id === propertyId)
+      .sort((a, b) => b.changed_at.localeCompare(a.changed_at))
+      .map(h => ({ ...h }))
+  }
+
+  async getPhaseChanges(scope: MarketScope): Promise<PhaseChange[]> {
+    const propertyIds = new Set(this.data.properties
+      .filter(p => this.marketInScope(p.market_id, scope))
+      .map(p => p.id))
+
+    return this.data.property_phase_history
+      .filter(h => propertyIds.has(h.property_id))
+      .sort((a, b) => a.changed_at.localeCompare(b.changed_at))
+      .map(h => ({ ...h }))
+  }
+
+  async savePhaseDefinitions(clientId: string, definitions: PhaseDefinition[]): Promise<PhaseDefinition[]> {
+    const saved = definitions.map(d => ({ ...d, client_id: clientId }))
+    this.data.phase_definitions = [
+      ...this.data.phase_definitions.filter(d => d.client_id !== clientId || !saved.some(s => s.key === d.key)),
+      ...saved
+    ]
+    return this.getPhaseDefinitions(clientId)
+  }
+
+  private profile(userId: string | null): UpdateAuthor | null {
+    const user = this.data.users.find(u => u.id === userId)
+    return user
+      ? { id: user.id, full_name: user.full_name, email: user.email, avatar_url: user.avatar_url, organization: user.organization ?? null }
+      : null
+  }
+
+  private signedInAsAdmin() {
+    const user = this.data.users.find(u => u.id === this.signedInUser?.id)
+    return normalizeRole(user?.role) === 'franchisor_admin'
+  }
+
+  // Mirrors the author_profile, reactions and deleted_content joins
+  private withAuthor(update: MarketUpdate): MarketUpdate {
+    const deleted = this.signedInAsAdmin()
+      ? this.data.market_update_deleted_content.find(c => c.update_id === update.id)
+      : undefined
+    return {
+      ...update,
+      ...(deleted && { message: deleted.message, attachments: deleted.attachments }),
+      author_profile: this.profile(update.author_id),
+      reactions: this.data.market_update_reactions.filter(r => r.update_id === update.id).map(r => ({ ...r }))
+    }
+  }
+
+  // Mirrors the filter_market_update_mentions trigger
+  private linkedMentions(marketId: string, mentions: string[]) {
+    return [...new Set(mentions)].filter(userId =>
+      this.data.market_users.some(mu => mu.market_id === marketId && mu.user_id === userId))
+  }
+
+  // Mirrors the notify_market_update trigger
+  private notify(update: MarketUpdate, { created, previousMentions }: { created: boolean; previousMentions: string[] }) {
+    const notification = (userId: string, kind: PortalNotification['kind']): PortalNotification => ({
+      id: crypto.randomUUID(),
+      user_id: userId,
+      kind,
+      market_id: update.market_id,
+      update_id: update.id,
+      actor_id: update.author_id,
+      actor_name: update.author,
+      excerpt: update.message.slice(0, 140),
+      read_at: null,
+      created_at: new Date().toISOString()
+    })
+
+    const added = update.mentions
+      .filter(userId => !previousMentions.includes(userId) && userId !== update.author_id)
+      .map(userId => notification(userId, 'mention'))
+
+    const parentAuthor = this.data.market_updates.find(u => u.id === update.parent_id)?.author_id
+    if (created && parentAuthor && parentAuthor !== update.author_id && !update.mentions.includes(parentAuthor)) {
+      added.push(notification(parentAuthor, 'reply'))
+    }
+
+    this.data.notifications.push(...added)
+    added.forEach(n => this.emit('notifications', n.market_id, { eventType: 'INSERT' }))
+  }
+
+  async getMarketUpdates(scope: MarketScope): Promise<MarketUpdate[]> {
+    return this.data.market_updates
+      .filter(u => this.marketInScope(u.market_id, scope))
+      .sort(byCreatedAtDesc)
+      .map(u => this.withAuthor(u))
+  }
+
+  async getMarketUpdate(id: string): Promise<MarketUpdate> {
+    const update = this.data.market_updates.find(u => u.id === id)
+    if (!update) throw new NotFoundError('Update not found')
+    return this.withAuthor(update)
+  }
+
+  async getLatestMarketUpdate(marketId: string): Promise<{ message: string; created_at: string } | null> {
+    const latest = this.data.market_updates
+      .filter(u => u.market_id === marketId && !u.parent_id && !u.deleted_at)
+      .sort(byCreatedAtDesc)[0]
+    return latest ? { message: latest.message, created_at: latest.created_at } : null
+  }
+
+  // The row createMarketUpdate and importMarketUpdates add
+  private newMarketUpdate({ marketId, authorId, author, message, parentId, mentions = [], attachments = [], createdAt, importKey }: MarketUpdateInput): MarketUpdate {
+    // Mirrors the check_market_update_parent trigger
+    if (parentId) {
+      const parent = this.data.market_updates.find(u => u.id === parentId)
+      if (!parent || parent.market_id !== marketId) throw new ValidationError('Replies must be to an update in the same market')
+      if (parent.parent_id) throw new ValidationError('Replies can\'t be replied to')
+      if (parent.deleted_at) throw new ValidationError('Deleted updates can\'t be replied to')
+    }
+
+    const now = new Date().toISOString()
+    return {
+      id: crypto.randomUUID(),
+      market_id: marketId,
+      author_id: authorId,
+      author,
+      message,
+      parent_id: parentId ?? null,
+      mentions: this.linkedMentions(marketId, mentions),
+      attachments,
+      // Mirrors the keep_market_update_created_at trigger
+      created_at: importKey && createdAt ? createdAt : now,
+      updated_at: now,
+      edited_at: null,
+      deleted_at: null,
+      deleted_by: null,
+      deleted_by_name: null,
+      import_key: importKey ?? null
+    }
+  }
+
+  async createMarketUpdate(input: MarketUpdateInput): Promise<MarketUpdate> {
+    const update = this.newMarketUpdate(input)
+    this.data.market_updates.push(update)
+    this.notify(update, { created: true, previousMentions: [] })
+    this.emit('market_updates', update.market_id, { eventType: 'INSERT' })
+    return this.withAuthor(update)
+  }
+
+  // Mirrors the market_updates_import_key unique constraint, skipping instead of failing
+  async importMarketUpdates(inputs: MarketUpdateInput[]): Promise<MarketUpdate[]> {
+    const saved: MarketUpdate[] = []
+    for (const input of inputs) {
+      const exists = this.data.market_updates.some(u => u.market_id === input.marketId && u.import_key === input.importKey)
+      if (input.importKey && exists) continue
+
+      const update = this.newMarketUpdate(input)
+      this.data.market_updates.push(update)
+      saved.push(update)
+    }
+
+    // One refresh per market rather than per row
+    new Set(saved.map(update => update.market_id)).forEach(marketId => this.emit('market_updates', marketId, { eventType: 'INSERT' }))
+    return saved.map(update => this.withAuthor(update))
+  }
+
+  // Mirrors the record_market_update_revision trigger
+  async updateMarketUpdate(id: string, { message, mentions, deleted_at }: MarketUpdateChanges): Promise<MarketUpdate> {
+    const update = this.data.market_updates.find(u => u.id === id)
+    if (!update) throw new NotFoundError('Update not found')
+
+    const now = new Date().toISOString()
+    const user = this.data.users.find(u => u.id === this.signedInUser?.id)
+    const userName = user?.full_name ?? user?.email ?? null
+    const messageChanged = message !== undefined && message !== update.message
+    const isAdmin = this.signedInAsAdmin()
+
+    if (update.deleted_at && deleted_at !== null && messageChanged) {
+      throw new ValidationError('Restore the update before editing it')
+    }
+    if (update.deleted_at && deleted_at === null && !isAdmin) {
+      throw new ForbiddenError('Only an admin can restore deleted updates')
+    }
+
+    const previousMentions = update.mentions
+    if (message !== undefined && messageChanged && !update.deleted_at && !deleted_at) {
+      this.data.market_update_revisions.push({
+        id: crypto.randomUUID(),
+        update_id: update.id,
+        market_id: update.market_id,
+        message: update.message,
+        mentions: update.mentions,
+        edited_by: user?.id ?? null,
+        edited_by_name: userName,
+        edited_at: now
+      })
+      update.message = message
+      update.edited_at = now
+    }
+    if (mentions !== undefined) update.mentions = this.linkedMentions(update.market_id, mentions)
+    if (deleted_at && !update.deleted_at) {
+      this.data.market_update_deleted_content.push({ update_id: update.id, market_id: update.market_id, message: update.message, attachments: update.attachments })
+      // Notifications quote the message
+      this.data.notifications = this.data.notifications.filter(n => n.update_id !== update.id)
+      Object.assign(update, { message: '', attachments: [], deleted_at: now, deleted_by: user?.id ?? null, deleted_by_name: userName })
+    } else if (deleted_at === null && update.deleted_at) {
+      const deleted = this.data.market_update_deleted_content.find(c => c.update_id === update.id)
+      this.data.market_update_deleted_content = this.data.market_update_deleted_content.filter(c => c.update_id !== update.id)
+      Object.assign(update, deleted && { message: deleted.message, attachments: deleted.attachments }, { deleted_at: null, deleted_by: null, deleted_by_name: null })
+    }
+    update.updated_at = now
+
+    this.notify(update, { created: false, previousMentions })
+    this.emit('market_updates', update.market_id, { eventType: 'UPDATE', oldId: id })
+    return this.withAuthor(update)
+  }
+
+  // Mirrors the market_update_revisions_select policy: a deleted update's
+  // history is for admins only
+  async getMarketUpdateRevisions(updateId: string): Promise<MarketUpdateRevision[]> {
+    const update = this.data.market_updates.find(u => u.id === updateId)
+    if (update?.deleted_at && !this.signedInAsAdmin()) return []
+
+    return this.data.market_update_revisions
+      .filter(r => r.update_id === updateId)
+      .sort((a, b) => a.edited_at.localeCompare(b.edited_at))
+      .map(r => ({ ...r, mentions: [...r.mentions] }))
+  }
+
+  async getMarketUsers(marketId: string): Promise<UpdateAuthor[]> {
+    return this.data.market_users
+      .filter(mu => mu.market_id === marketId)
+      .map(mu => this.profile(mu.user_id))
+      .filter((user): user is UpdateAuthor => user !== null)
+  }
+
+  async uploadUpdateAttachment(marketId: string, file: File): Promise<UpdateAttachment> {
+    const path = `${marketId}/${crypto.randomUUID()}/${file.name}`
+    this.files.set(path, URL.createObjectURL(file))
+    return { bucket: 'local', path, file_name: file.name, content_type: file.type, size_bytes: file.size }
+  }
+
+  async getUpdateAttachmentUrl(attachment: UpdateAttachment): Promise<string> {
+    const url = this.files.get(attachment.path)
+    // Files from an earlier page load are gone
+    if (!url) throw new NotFoundError('This file is no longer available')
+    return url
+  }
+
+  async addUpdateReaction(updateId: string, userId: string, emoji: string): Promise<UpdateReaction> {
+    const update = this.data.market_updates.find(u => u.id === updateId)
+    if (!update) throw new NotFoundError('Update not found')
+
+    const existing = this.data.market_update_reactions.find(r => r.update_id === updateId && r.user_id === userId && r.emoji === emoji)
+    if (existing) return { ...existing }
+
+    const user = this.data.users.find(u => u.id === userId)
+    const reaction = {
+      update_id: updateId,
+      market_id: update.market_id,
+      user_id: userId,
+      user_name: user?.full_name ?? user?.email ?? null,
+      emoji,
+      created_at: new Date().toISOString()
+    }
+    this.data.market_update_reactions.push(reaction)
+    this.emit('market_update_reactions', update.market_id, { eventType: 'INSERT' })
+    return { ...reaction }
+  }
+
+  async removeUpdateReaction(updateId: string, userId: string, emoji: string): Promise<void> {
+    const reaction = this.data.market_update_reactions.find(r => r.update_id === updateId && r.user_id === userId && r.emoji === emoji)
+    if (!reaction) return
+
+    this.data.market_update_reactions = this.data.market_update_reactions.filter(r => r !== reaction)
+    this.emit('market_update_reactions', reaction.market_id, { eventType: 'DELETE' })
+  }
+
+  async getNotifications(userId: string, limit: number): Promise<PortalNotification[]> {
+    return this.data.notifications
+      .filter(n => n.user_id === userId)
+      .sort(byCreatedAtDesc)
+      .slice(0, limit)
+      .map(n => ({ ...n }))
+  }
+
+  async markNotificationsRead(ids: string[]): Promise<void> {
+    const now = new Date().toISOString()
+    const changed = this.data.notifications.filter(n => ids.includes(n.id) && !n.read_at)
+    changed.forEach(n => {
+      n.read_at = now
+    })
+    changed.forEach(n => this.emit('notifications', n.market_id, { eventType: 'UPDATE', oldId: n.id }))
+  }
+
+  async getTradeAreaPoints(marketId: string): Promise<TradeAreaPoint[]> {
+    return this.data.trade_area_points
+      .filter(p => p.market_id === marketId)
+      .map(p => ({ ...p }))
+  }
+
+  async replaceTradeAreaPoints(marketId: string, kind: TradeAreaPointKind, points: TradeAreaPointInput[]): Promise<TradeAreaPoint[]> {
+    const now = new Date().toISOString()
+    const saved: TradeAreaPoint[] = points.map(point => ({
+      id: crypto.randomUUID(),
+      market_id: marketId,
+      kind,
+      name: point.name,
+      lat: point.lat,
+      lng: point.lng,
+      value: point.value ?? null,
+      created_at: now
+    }))
+
+    this.data.trade_area_points = [
+      ...this.data.trade_area_points.filter(p => p.market_id !== marketId || p.kind !== kind),
+      ...saved
+    ]
+    return saved.map(p => ({ ...p }))
+  }
+
+  private documentWithVersions(document: LibraryDocument): DocumentWithVersions {
+    return {
+      ...document,
+      versions: this.data.document_versions
+        .filter(v => v.document_id === document.id)
+        .sort((a, b) => b.version - a.version)
+        .map(v => ({ ...v }))
+    }
+  }
+
+  // Mirrors the uploaded_by columns the database functions fill in
+  private uploader() {
+    const user = this.data.users.find(u => u.id === this.signedInUser?.id)
+    return { uploaded_by: user?.id ?? null, uploaded_by_name: user?.full_name ?? user?.email ?? null }
+  }
+
+  async getDocuments({ marketIds, propertyId, includeMarketWide, category }: DocumentScope): Promise<DocumentWithVersions[]> {
+    return this.data.documents
+      .filter(d => marketIds.includes(d.market_id)
+        && !d.deleted_at
+        && (!propertyId || d.property_id === propertyId || (includeMarketWide && d.property_id === null))
+        && (!category || d.category === category))
+      .sort((a, b) => a.title.localeCompare(b.title))
+      .map(d => this.documentWithVersions(d))
+  }
+
+  async uploadDocumentFile(marketId: string, file: File): Promise<StoredDocumentFile> {
+    const path = `${marketId}/${crypto.randomUUID()}/${file.name}`
+    // Lives as long as the page, like everything else in the local backend
+    this.files.set(path, URL.createObjectURL(file))
+    return { bucket: 'local', path, file_name: file.name, content_type: file.type, size_bytes: file.size }
+  }
+
+  async createDocument(input: DocumentInput, file: StoredDocumentFile): Promise<DocumentWithVersions> {
+    const now = new Date().toISOString()
+    const document: LibraryDocument = { id: crypto.randomUUID(), ...input, created_at: now, updated_at: now, deleted_at: null }
+    this.data.documents.push(document)
+    this.data.document_versions.push({ id: crypto.randomUUID(), document_id: document.id, version: 1, ...file, ...this.uploader(), created_at: now })
+    return this.documentWithVersions(document)
+  }
+
+  async addDocumentVersion(documentId: string, file: StoredDocumentFile): Promise<DocumentVersion> {
+    const document = this.data.documents.find(d => d.id === documentId && !d.deleted_at)
+    if (!document) throw new NotFoundError('Document not found')
+
+    const now = new Date().toISOString()
+    const latest = Math.max(0, ...this.data.document_versions.filter(v => v.document_id === documentId).map(v => v.version))
+    const version: DocumentVersion = { id: crypto.randomUUID(), document_id: documentId, version: latest + 1, ...file, ...this.uploader(), created_at: now }
+    this.data.document_versions.push(version)
+    document.updated_at = now
+    return { ...version }
+  }
+
+  async updateDocument(id: string, changes: DocumentChanges): Promise<LibraryDocument> {
+    const document = this.data.documents.find(d => d.id === id)
+    if (!document) throw new NotFoundError('Document not found')
+
+    Object.assign(document, changes, { updated_at: new Date().toISOString() })
+    return { ...document }
+  }
+
+  async getDocumentUrl(version: DocumentVersion): Promise<string> {
+    const url = this.files.get(version.path)
+    // Files from an earlier page load are gone
+    if (!url) throw new NotFoundError('This file is no longer available; upload it again')
+    return url
+  }
+
+  subscribe(table: ChangeTable, listener: (change: RowChange) => void, filter?: { marketId?: string }): () => void {
+    const entry: ChangeListener = { listener, marketId: filter?.marketId }
+    const tableListeners = this.listeners.get(table) || new Set<ChangeListener>()
+    tableListeners.add(entry)
+    this.listeners.set(table, tableListeners)
+
+    return () => {
+      tableListeners.delete(entry)
+    }
+  }
+}
@@ -0,0 +1,163 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { DataService } from '../data-service'
+import { ValidationError } from '../errors'
+import { setRepository } from '../repository'
+import { loadFixtureDataset } from './fixtures'
+import { SupabaseRepository } from './supabase-repository'
+
+// Stands in for the Supabase project: answers each request from `tables` by
+// table name, ignoring filters, and logs it. Only the transport is replaced,
+// so every query the repository builds still goes out as a request.
+const supabase = vi.hoisted(() => {
+  const requests: string[] = []
+  const tables: Record<string, unknown[]> = {}
+
+  const fetch = async (input: RequestInfo | URL, init?: RequestInit) => {
+    const url = new URL(input instanceof Request ? input.url : input)
+    requests.push(`${init?.method ?? 'GET'} ${url.pathname}`)
+
+    const table = url.pathname.match(/^\/rest\/v1\/(\w+)$/)?.[1]
+    if (!table) return new Response(JSON.stringify({ message: `No route for ${url.pathname}` }), { status: 404 })
+
+    const rows = tables[table] ?? []
+    // .single() asks for one object rather than an array
+    const single = new Headers(init?.headers).get('Accept') === 'application/vnd.pgrst.object+json'
+    return new Response(JSON.stringify(single ? rows[0] : rows), { headers: { 'Content-Type': 'application/json' } })
+  }
+
+  // The signed-in user, as the auth session holds it
+  const session = (user: { id: string; email: string | null }) => ({
+    access_token: 'test-access-token',
+    refresh_token: 'test-refresh-token',
+    token_type: 'bearer',
+    expires_in: 3600,
+    expires_at: Math.floor(Date.now() / 1000) + 3600,
+    user: { ...user, aud: 'authenticated', app_metadata: {}, user_metadata: {}, created_at: '' },
+  })
+
+  return { requests, tables, fetch, session }
+})
+
+const ADMIN = loadFixtureDataset().users.find(user => user.email === 'admin@demo.local')!
+
+// The browser client keeps its session in cookies; here it reads the session
+// for the first user in `tables.users` and sends its requests to the fake above
+vi.mock('@supabase/ssr', async () => {
+  const { createClient } = await import('@supabase/supabase-js')
+  const storage = {
+    getItem: (key: string) => {
+      const [user] = supabase.tables.users as { id: string; email: string | null }[]
+      return key.endsWith('-auth-token') && user ? JSON.stringify(supabase.session(user)) : null
+    },
+    setItem: () => {},
+    removeItem: () => {},
+  }
+  class NoWebSocket {
+    constructor() {
+      throw new Error('Realtime is not available in tests')
+    }
+  }
+
+  return {
+    createBrowserClient: (url: string, key: string) => createClient(url, key, {
+      auth: { storage, autoRefreshToken: false, detectSessionInUrl: false },
+      global: { fetch: supabase.fetch },
+      // Node 20 has no WebSocket; these tests never subscribe
+      realtime: { transport: NoWebSocket as never },
+    }),
+  }
+})
+
+// The fixtures' first client with `count` markets, each with a property, a
+// summary row and a franchisee
+function seedMarkets(count: number) {
+  const data = loadFixtureDataset()
+  const [client] = data.clients
+  const [market] = data.markets
+  const property = data.properties.find(p => p.market_id === market.id)!
+  const franchisee = data.users.find(user => user.role === 'franchisee')!
+
+  const markets = Array.from({ length: count }, (_, index) => ({ ...market, id: crypto.randomUUID(), name: `Market ${index + 1}` }))
+  Object.assign(supabase.tables, {
+    users: [ADMIN],
+    client_users: [{ clients: client }],
+    markets,
+    market_summaries: markets.map(m => ({
+      market_id: m.id,
+      client_id: client.id,
+      property_count: 1,
+      phases: [property.phase],
+      latest_update_message: 'Site visit booked',
+      latest_update_at: m.created_at,
+    })),
+    market_users: markets.map(m => ({ market_id: m.id, users: franchisee })),
+    properties: markets.map(m => ({ ...property, id: crypto.randomUUID(), market_id: m.id, markets: { client_id: client.id } })),
+    phase_definitions: [],
+  })
+  return client.id
+}
+
+// Requests to Supabase made by `load` over `marketCount` markets, after a
+// first run to warm the per-user and per-client caches
+async function requestsFor(marketCount: number, load: () => Promise<unknown>) {
+  setRepository(new SupabaseRepository())
+  DataService.setActiveClientId(seedMarkets(marketCount))
+
+  await load()
+  supabase.requests.length = 0
+  await load()
+  return [...supabase.requests].sort()
+}
+
+describe('SupabaseRepository behind DataService', () => {
+  beforeEach(() => {
+    supabase.requests.length = 0
+  })
+
+  afterEach(() => {
+    setRepository(null)
+    DataService.setActiveClientId(null)
+  })
+
+  it('loads the markets list in the same requests for 10 markets as for 100', async () => {
+    const load = async () => {
+      const markets = await DataService.getMarketsWithDetails()
+      expect(markets.every(market => market.propertyCount === 1 && market.franchisees.length === 1 && market.latestUpdate)).toBe(true)
+      return markets
+    }
+
+    const few = await requestsFor(10, load)
+    const many = await requestsFor(100, load)
+
+    expect(few).toEqual(['GET /rest/v1/market_summaries', 'GET /rest/v1/market_users', 'GET /rest/v1/markets'])
+    expect(many).toEqual(few)
+  })
+
+  it('counts dashboard properties in the same requests for 10 markets as for 100', async () => {
+    const load = async () => {
+      const stats = await DataService.getDashboardStats()
+      expect(stats.marketPropertyCounts.every(count => count.propertyCount === 1)).toBe(true)
+      return stats
+    }
+
+    const few = await requestsFor(10, load)
+    const many = await requestsFor(100, load)
+
+    expect(few).toEqual(['GET /rest/v1/markets', 'GET /rest/v1/properties'])
+    expect(many).toEqual(few)
+  })
+
+  it('refuses a property ID that would widen the documents filter, before asking Supabase', async () => {
+    seedMarkets(1)
+    const repository = new SupabaseRepository()
+    const marketIds = (supabase.tables.markets as { id: string }[]).map(market => market.id)
+    const propertyId = crypto.randomUUID()
+
+    await expect(repository.getDocuments({ marketIds, propertyId: `${propertyId},deleted_at.not.is.null`, includeMarketWide: true }))
+      .rejects.toBeInstanceOf(ValidationError)
+    expect(supabase.requests).toEqual([])
+
+    await repository.getDocuments({ marketIds, propertyId, includeMarketWide: true })
+    expect(supabase.requests).toEqual(['GET /rest/v1/documents'])
+  })
+})
@@ -0,0 +1,696 @@
+import type { PostgrestError } from '@supabase/supabase-js'
+import { config } from '../config'
+import { getSupabaseClient, getStoragePublicUrl, Client, DocumentVersion, DocumentWithVersions, LibraryDocument, Market, MarketFranchisee, MarketSummary, MarketUpdate, MarketUpdateRevision, PhaseChange, PhaseDefinition, PortalNotification, Property, TerritoryPolygonVersion, TradeAreaPoint, TradeAreaPointKind, UpdateAttachment, UpdateAuthor, UpdateReaction } from '../supabase'
+import { toDataError, ValidationError, withRetry } from '../errors'
+import type {
+  AuthUser,
+  ChangeTable,
+  DataRepository,
+  DocumentChanges,
+  DocumentInput,
+  DocumentScope,
+  MarketChanges,
+  MarketFranchiseeRow,
+  MarketInput,
+  MarketScope,
+  MarketUpdateChanges,
+  MarketUpdateInput,
+  PropertyChanges,
+  PropertyGeocode,
+  PropertyInput,
+  RowChange,
+  StoredDocumentFile,
+  TradeAreaPointInput,
+  UserProfileRow,
+} from '../repository'
+
+// Market update columns plus the poster's profile, the reactions and, for
+// admins, what a deleted update said
+const MARKET_UPDATE_COLUMNS = '*, author_profile:users!author_id(id, full_name, email, avatar_url, organization), reactions:market_update_reactions(*), deleted_content:market_update_deleted_content(message, attachments)'
+
+type MarketUpdateRow = MarketUpdate & { deleted_content?: Pick<MarketUpdate, 'message' | 'attachments'> | null }
+
+// RLS leaves deleted_content out for everyone but admins, who get the
+// deleted message and attachments back in place
+function toMarketUpdate({ deleted_content, ...update }: MarketUpdateRow): MarketUpdate {
+  return deleted_content ? { ...update, ...deleted_content } : update
+}
+
+// IDs are checked before going into PostgREST filter strings like .or()
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+
+// Rows per insert when importing updates
+const IMPORT_BATCH_SIZE = 500
+
+// How long a link to a library document or update attachment works
+const DOCUMENT_URL_SECONDS = 60 * 60
+
+function newestVersionFirst(document: DocumentWithVersions): DocumentWithVersions {
+  return { ...document, versions: [...document.versions].sort((a, b) => b.version - a.version) }
+}
+
+// Repository backed by the hosted Supabase project
+export class SupabaseRepository implements DataRepository {
+  private channelCount = 0
+
+  private get client() {
+    return getSupabaseClient()
+  }
+
+  // Run a query and throw a typed error on failure. Reads are retried on
+  // transient failures; writes are not, so an insert is never sent twice.
+  private async run<T>(
+    context: string,
+    query: () => PromiseLike<{ data: T | null; error: PostgrestError | null }>,
+    { retry = true }: { retry?: boolean } = {}
+  ): Promise<T> {
+    const attempt = async () => {
+      let result: { data: T | null; error: PostgrestError | null }
+      try {
+        result = await query()
+      } catch (error) {
+        throw toDataError(error, context)
+      }
+
+      if (result.error) {
+        throw toDataError(result.error, context)
+      }
+
+      return result.data as T
+    }
+
+    try {
+      return retry ? await withRetry(attempt) : await attempt()
+    } catch (error) {
+      console.error(`Error ${context}:`, error)
+      throw error
+    }
+  }
+
+  async getSignedInUser(): Promise<AuthUser | null> {
+    const { data: { session } } = await this.client.auth.getSession()
+    return session?.user ? { id: session.user.id, email: session.user.email ?? null } : null
+  }
+
+  onAuthStateChange(listener: (user: AuthUser | null) => void): () => void {
+    const { data: { subscription } } = this.client.auth.onAuthStateChange((_event, session) => {
+      listener(session?.user ? { id: session.user.id, email: session.user.email ?? null } : null)
+    })
+
+    return () => subscription.unsubscribe()
+  }
+
+  async getUserProfile(userId: string): Promise<UserProfileRow> {
+    return this.run('fetching current user', () => this.client
+      .from('users')
+      .select('id, email, full_name, phone, avatar_url, status, role, organization')
+      .eq('id', userId)
+      .single())
+  }
+
+  async getClientsForUser(userId: string): Promise<Client[]> {
+    const data = await this.run('fetching client memberships', () => this.client
+      .from('client_users')
+      .select('clients!inner(*)')
+      .eq('user_id', userId))
+
+    return (data || []).map(row => row.clients as unknown as Client)
+  }
+
+  async getLinkedMarketIds(userId: string): Promise<string[]> {
+    const data = await this.run('fetching linked markets', () => this.client
+      .from('market_users')
+      .select('market_id')
+      .eq('user_id', userId))
+
+    return data?.map(row => row.market_id) || []
+  }
+
+  async getMarkets({ clientId, marketIds, includeArchived }: MarketScope): Promise<Market[]> {
+    const data = await this.run('fetching markets', () => {
+      let query = this.client
+        .from('markets')
+        .select('*')
+        .eq('client_id', clientId)
+        .order('name')
+
+      if (marketIds) {
+        query = query.in('id', marketIds)
+      }
+
+      if (!includeArchived) {
+        query = query.is('archived_at', null)
+      }
+
+      return query
+    })
+
+    return data || []
+  }
+
+  async getMarket(clientId: string, id: string): Promise<Market> {
+    return this.run('fetching market', () => this.client
+      .from('markets')
+      .select('*')
+      .eq('id', id)
+      .eq('client_id', clientId)
+      .single())
+  }
+
+  async findMarketByName(clientId: string, name: string): Promise<Market | null> {
+    // Escape LIKE wildcards so the name is matched literally
+    const pattern = name.replace(/[\\%_]/g, '\\$&')
+
+    const data = await this.run('checking market name', () => this.client
+      .from('markets')
+      .select('*')
+      .eq('client_id', clientId)
+      .ilike('name', pattern)
+      .limit(1))
+
+    return data?.[0] || null
+  }
+
+  async createMarket(clientId: string, { name, territory }: MarketInput): Promise<Market> {
+    return this.run('creating market', () => this.client
+      .from('markets')
+      .insert({ client_id: clientId, name, territory })
+      .select()
+      .single(), { retry: false })
+  }
+
+  async updateMarket(id: string, changes: MarketChanges): Promise<Market> {
+    return this.run('updating market', () => this.client
+      .from('markets')
+      .update({ ...changes, updated_at: new Date().toISOString() })
+      .eq('id', id)
+      .select()
+      .single(), { retry: false })
+  }
+
+  async deleteMarket(id: string): Promise<void> {
+    await this.run('deleting market', () => this.client
+      .from('markets')
+      .delete()
+      .eq('id', id), { retry: false })
+  }
+
+  async getTerritoryVersions(marketId: string): Promise<TerritoryPolygonVersion[]> {
+    const data = await this.run('fetching territory history', () => this.client
+      .from('territory_polygon_versions')
+      .select('*')
+      .eq('market_id', marketId)
+      .order('replaced_at', { ascending: false }))
+
+    return data || []
+  }
+
+  async getMarketSummaries(marketIds: string[]): Promise<MarketSummary[]> {
+    const data = await this.run('fetching market summaries', () => this.client
+      .from('market_summaries')
+      .select('*')
+      .in('market_id', marketIds))
+
+    return data || []
+  }
+
+  async getFranchisees(marketIds: string[]): Promise<MarketFranchiseeRow[]> {
+    const data = await this.run('fetching market franchisees', () => this.client
+      .from('market_users')
+      .select(`
+        market_id,
+        users!inner(id, full_name, email, phone, avatar_url, status)
+      `)
+      .in('market_id', marketIds)
+      .eq('role', 'franchisee')
+      .eq('users.role', 'franchisee'))
+
+    return (data || []).map(row => ({
+      marketId: row.market_id,
+      franchisee: row.users as unknown as MarketFranchisee
+    }))
+  }
+
+  async getProperties({ clientId, marketIds, marketId }: MarketScope): Promise<Property[]> {
+    const data = await this.run(marketId ? 'fetching properties by market' : 'fetching properties', () => {
+      let query = this.client
+        .from('properties')
+        .select(`
+          *,
+          markets!inner(client_id)
+        `)
+        .eq('markets.client_id', clientId)
+        .is('deleted_at', null)
+        .order('created_at', { ascending: false })
+
+      if (marketId) {
+        query = query.eq('market_id', marketId)
+      }
+
+      if (marketIds) {
+        query = query.in('market_id', marketIds)
+      }
+
+      return query
+    })
+
+    return data || []
+  }
+
+  async getProperty(clientId: string, id: string, { includeDeleted = false }: { includeDeleted?: boolean } = {}): Promise<Property> {
+    return this.run('fetching property', () => {
+      let query = this.client
+        .from('properties')
+        .select(`
+          *,
+          markets!inner(client_id)
+        `)
+        .eq('id', id)
+        .eq('markets.client_id', clientId)
+
+      if (!includeDeleted) {
+        query = query.is('deleted_at', null)
+      }
+
+      return query.single()
+    })
+  }
+
+  async createProperty(input: PropertyInput & PropertyGeocode): Promise<Property> {
+    return this.run('creating property', () => this.client
+      .from('properties')
+      .insert(input)
+      .select()
+      .single(), { retry: false })
+  }
+
+  async updateProperty(id: string, changes: PropertyChanges): Promise<Property> {
+    return this.run('updating property', () => this.client
+      .from('properties')
+      .update({ ...changes, updated_at: new Date().toISOString() })
+      .eq('id', id)
+      .select()
+      .single(), { retry: false })
+  }
+
+  async uploadPropertyPhoto(marketId: string, file: File): Promise<string> {
+    const bucket = config.storage.photosBucket
+    const extension = file.name.split('.').pop()?.toLowerCase() || 'jpg'
+    const path = `${marketId}/${crypto.randomUUID()}.${extension}`
+
+    // Storage reports failures as StorageError rather than PostgrestError, so this skips run()
+    const { error } = await this.client.storage
+      .from(bucket)
+      .upload(path, file, { contentType: file.type, upsert: false })
+
+    if (error) {
+      console.error('Error uploading property photo:', error)
+      throw toDataError(error, 'uploading property photo')
+    }
+
+    return getStoragePublicUrl(path, bucket)
+  }
+
+  async getPhaseDefinitions(clientId: string): Promise<PhaseDefinition[]> {
+    const data = await this.run('fetching deal phases', () => this.client
+      .from('phase_definitions')
+      .select('*')
+      .eq('client_id', clientId)
+      .order('position'))
+
+    return data || []
+  }
+
+  async changePropertyPhase(id: string, phase: string, reason: string | null): Promise<Property> {
+    // The function passes the reason on to the trigger that writes property_phase_history
+    return this.run('changing property phase', () => this.client
+      .rpc('change_property_phase', { target_property_id: id, new_phase: phase, reason })
+      .single(), { retry: false })
+  }
+
+  async getPhaseHistory(propertyId: string): Promise<PhaseChange[]> {
+    const data = await this.run('fetching phase history', () => this.client
+      .from('property_phase_history')
+      .select('*')
+      .eq('property_id', propertyId)
+      .order('changed_at', { ascending: false }))
+
+    return data || []
+  }
+
+  async getPhaseChanges({ clientId, marketIds, marketId }: MarketScope): Promise<PhaseChange[]> {
+    const data = await this.run('fetching phase changes', () => {
+      let query = this.client
+        .from('property_phase_history')
+        .select(`
+          *,
+          properties!inner(market_id, markets!inner(client_id))
+        `)
+        .eq('properties.markets.client_id', clientId)
+        .order('changed_at')
+
+      if (marketId) {
+        query = query.eq('properties.market_id', marketId)
+      }
+
+      if (marketIds) {
+        query = query.in('properties.market_id', marketIds)
+      }
+
+      return query
+    })
+
+    return data || []
+  }
+
+  async savePhaseDefinitions(clientId: string, definitions: PhaseDefinition[]): Promise<PhaseDefinition[]> {
+    const data = await this.run('saving deal phases', () => this.client
+      .from('phase_definitions')
+      .upsert(definitions.map(definition => ({ ...definition, client_id: clientId })), { onConflict: 'client_id,key' })
+      .select()
+      .order('position'), { retry: false })
+
+    return data || []
+  }
+
+  async getMarketUpdates({ clientId, marketIds, marketId }: MarketScope): Promise<MarketUpdate[]> {
+    const data = await this.run('fetching market updates', () => {
+      let query = this.client
+        .from('market_updates')
+        .select(`
+          ${MARKET_UPDATE_COLUMNS},
+          markets!inner(client_id)
+        `)
+        .eq('markets.client_id', clientId)
+        .order('created_at', { ascending: false })
+
+      if (marketId) {
+        query = query.eq('market_id', marketId)
+      }
+
+      if (marketIds) {
+        query = query.in('market_id', marketIds)
+      }
+
+      return query
+    })
+
+    return (data || []).map(toMarketUpdate)
+  }
+
+  async getLatestMarketUpdate(marketId: string): Promise<{ message: string; created_at: string } | null> {
+    const data = await this.run('fetching latest market update', () => this.client
+      .from('market_updates')
+      .select('message, created_at')
+      .eq('market_id', marketId)
+      .is('parent_id', null)
+      .is('deleted_at', null)
+      .order('created_at', { ascending: false })
+      .limit(1))
+
+    // No updates yet is not an error
+    return data?.[0] || null
+  }
+
+  async getMarketUpdate(id: string): Promise<MarketUpdate> {
+    return toMarketUpdate(await this.run('fetching market update', () => this.client
+      .from('market_updates')
+      .select(MARKET_UPDATE_COLUMNS)
+      .eq('id', id)
+      .single()))
+  }
+
+  // The set_market_update_author trigger checks authorId against the signed-in
+  // user, and filter_market_update_mentions drops anyone not linked to the market
+  async createMarketUpdate({ marketId, authorId, author, message, parentId, mentions, attachments }: MarketUpdateInput): Promise<MarketUpdate> {
+    const data = await this.run<MarketUpdateRow>('creating market update', () => this.client
+      .from('market_updates')
+      .insert({
+        market_id: marketId,
+        author_id: authorId,
+        author,
+        message,
+        parent_id: parentId ?? null,
+        mentions: mentions ?? [],
+        attachments: attachments ?? []
+      })
+      .select(MARKET_UPDATE_COLUMNS)
+      .single(), { retry: false })
+
+    return toMarketUpdate(data)
+  }
+
+  // Inserted in batches. The market_updates_import_key constraint drops rows the
+  // market already has, so a file imported twice is only saved once.
+  async importMarketUpdates(inputs: MarketUpdateInput[]): Promise<MarketUpdate[]> {
+    const saved: MarketUpdate[] = []
+    for (let start = 0; start < inputs.length; start += IMPORT_BATCH_SIZE) {
+      const rows = inputs.slice(start, start + IMPORT_BATCH_SIZE).map(input => ({
+        market_id: input.marketId,
+        author_id: input.authorId,
+        author: input.author,
+        message: input.message,
+        created_at: input.createdAt,
+        import_key: input.importKey
+      }))
+
+      const data = await this.run('importing market updates', () => this.client
+        .from('market_updates')
+        .upsert(rows, { onConflict: 'market_id,import_key', ignoreDuplicates: true })
+        .select(MARKET_UPDATE_COLUMNS), { retry: false })
+      saved.push(...(data || []).map(toMarketUpdate))
+    }
+    return saved
+  }
+
+  // The record_market_update_revision trigger keeps the old message, stamps
+  // deletes, sets aside what a deleted update said and lets only admins restore
+  async updateMarketUpdate(id: string, changes: MarketUpdateChanges): Promise<MarketUpdate> {
+    return toMarketUpdate(await this.run('updating market update', () => this.client
+      .from('market_updates')
+      .update(changes)
+      .eq('id', id)
+      .select(MARKET_UPDATE_COLUMNS)
+      .single(), { retry: false }))
+  }
+
+  async getMarketUpdateRevisions(updateId: string): Promise<MarketUpdateRevision[]> {
+    const data = await this.run('fetching update history', () => this.client
+      .from('market_update_revisions')
+      .select('*')
+      .eq('update_id', updateId)
+      .order('edited_at', { ascending: true }))
+
+    return data || []
+  }
+
+  async getMarketUsers(marketId: string): Promise<UpdateAuthor[]> {
+    const data = await this.run('fetching market users', () => this.client
+      .from('market_users')
+      .select('users!inner(id, full_name, email, avatar_url, organization)')
+      .eq('market_id', marketId))
+
+    return (data || []).map(row => row.users as unknown as UpdateAuthor)
+  }
+
+  async uploadUpdateAttachment(marketId: string, file: File): Promise<UpdateAttachment> {
+    const bucket = config.storage.updateAttachmentsBucket
+    // The market folder is what the storage policies check access against
+    const fileName = file.name.replace(/[^\w.-]+/g, '_')
+    const path = `${marketId}/${crypto.randomUUID()}/${fileName}`
+
+    // Storage reports failures as StorageError rather than PostgrestError, so this skips run()
+    const { error } = await this.client.storage
+      .from(bucket)
+      .upload(path, file, { contentType: file.type, upsert: false })
+
+    if (error) {
+      console.error('Error uploading attachment:', error)
+      throw toDataError(error, 'uploading attachment')
+    }
+
+    return { bucket, path, file_name: file.name, content_type: file.type, size_bytes: file.size }
+  }
+
+  async getUpdateAttachmentUrl(attachment: UpdateAttachment): Promise<string> {
+    const { data, error } = await this.client.storage
+      .from(attachment.bucket)
+      .createSignedUrl(attachment.path, DOCUMENT_URL_SECONDS)
+
+    if (error || !data) {
+      console.error('Error opening attachment:', error)
+      throw toDataError(error, 'opening attachment')
+    }
+
+    return data.signedUrl
+  }
+
+  // The set_market_update_reaction_fields trigger fills in the name and market
+  async addUpdateReaction(updateId: string, userId: string, emoji: string): Promise<UpdateReaction> {
+    return this.run('adding reaction', () => this.client
+      .from('market_update_reactions')
+      .insert({ update_id: updateId, user_id: userId, emoji })
+      .select('*')
+      .single(), { retry: false })
+  }
+
+  async removeUpdateReaction(updateId: string, userId: string, emoji: string): Promise<void> {
+    await this.run('removing reaction', () => this.client
+      .from('market_update_reactions')
+      .delete()
+      .eq('update_id', updateId)
+      .eq('user_id', userId)
+      .eq('emoji', emoji), { retry: false })
+  }
+
+  async getNotifications(userId: string, limit: number): Promise<PortalNotification[]> {
+    const data = await this.run('fetching notifications', () => this.client
+      .from('notifications')
+      .select('*')
+      .eq('user_id', userId)
+      .order('created_at', { ascending: false })
+      .limit(limit))
+
+    return data || []
+  }
+
+  async markNotificationsRead(ids: string[]): Promise<void> {
+    if (ids.length === 0) return
+
+    await this.run('marking notifications read', () => this.client
+      .from('notifications')
+      .update({ read_at: new Date().toISOString() })
+      .in('id', ids)
+      .is('read_at', null), { retry: false })
+  }
+
+  async getTradeAreaPoints(marketId: string): Promise<TradeAreaPoint[]> {
+    const data = await this.run('fetching trade area points', () => this.client
+      .from('trade_area_points')
+      .select('*')
+      .eq('market_id', marketId)
+      .order('name'))
+
+    return data || []
+  }
+
+  // One call, so a failed upload leaves the old points in place
+  async replaceTradeAreaPoints(marketId: string, kind: TradeAreaPointKind, points: TradeAreaPointInput[]): Promise<TradeAreaPoint[]> {
+    const data = await this.run('saving trade area points', () => this.client
+      .rpc('replace_trade_area_points', { target_market_id: marketId, point_kind: kind, new_points: points }), { retry: false })
+
+    return data || []
+  }
+
+  async getDocuments({ marketIds, propertyId, includeMarketWide, category }: DocumentScope): Promise<DocumentWithVersions[]> {
+    if (marketIds.length === 0) return []
+    if (propertyId && !UUID_PATTERN.test(propertyId)) {
+      throw new ValidationError('That isn\'t a valid property ID')
+    }
+
+    const data = await this.run('fetching documents', () => {
+      let query = this.client
+        .from('documents')
+        .select('*, versions:document_versions(*)')
+        .in('market_id', marketIds)
+        .is('deleted_at', null)
+        .order('title')
+
+      if (propertyId) {
+        query = includeMarketWide
+          ? query.or(`property_id.eq.${propertyId},property_id.is.null`)
+          : query.eq('property_id', propertyId)
+      }
+
+      if (category) {
+        query = query.eq('category', category)
+      }
+
+      return query
+    })
+
+    return ((data || []) as DocumentWithVersions[]).map(newestVersionFirst)
+  }
+
+  async uploadDocumentFile(marketId: string, file: File): Promise<StoredDocumentFile> {
+    const bucket = config.storage.documentsBucket
+    // The market folder is what the storage policies check access against
+    const fileName = file.name.replace(/[^\w.-]+/g, '_')
+    const path = `${marketId}/${crypto.randomUUID()}/${fileName}`
+
+    // Storage reports failures as StorageError rather than PostgrestError, so this skips run()
+    const { error } = await this.client.storage
+      .from(bucket)
+      .upload(path, file, { contentType: file.type, upsert: false })
+
+    if (error) {
+      console.error('Error uploading document:', error)
+      throw toDataError(error, 'uploading document')
+    }
+
+    return { bucket, path, file_name: file.name, content_type: file.type, size_bytes: file.size }
+  }
+
+  // One call, so a document is never left without a version
+  async createDocument(input: DocumentInput, file: StoredDocumentFile): Promise<DocumentWithVersions> {
+    const data = await this.run<DocumentWithVersions>('saving document', () => this.client
+      .rpc('create_document', { document: input, file })
+      .single(), { retry: false })
+
+    return newestVersionFirst(data)
+  }
+
+  async addDocumentVersion(documentId: string, file: StoredDocumentFile): Promise<DocumentVersion> {
+    return this.run('saving document version', () => this.client
+      .rpc('add_document_version', { target_document_id: documentId, file })
+      .single(), { retry: false })
+  }
+
+  async updateDocument(id: string, changes: DocumentChanges): Promise<LibraryDocument> {
+    return this.run('updating document', () => this.client
+      .from('documents')
+      .update({ ...changes, updated_at: new Date().toISOString() })
+      .eq('id', id)
+      .select()
+      .single(), { retry: false })
+  }
+
+  async getDocumentUrl(version: DocumentVersion): Promise<string> {
+    const { data, error } = await this.client.storage
+      .from(version.bucket)
+      .createSignedUrl(version.path, DOCUMENT_URL_SECONDS)
+
+    if (error || !data) {
+      console.error('Error opening document:', error)
+      throw toDataError(error, 'opening document')
+    }
+
+    return data.signedUrl
+  }
+
+  subscribe(table: ChangeTable, listener: (change: RowChange) => void, filter?: { marketId?: string }): () => void {
+    // Channel names must be unique per subscription
+    const channel = this.client
+      .channel(`${table}-${filter?.marketId ?? 'all'}-${++this.channelCount}`)
+      .on(
+        'postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table,
+          ...(filter?.marketId ? { filter: `market_id=eq.${filter.marketId}` } : {})
+        },
+        (payload) => {
+          listener({
+            eventType: payload.eventType,
+            oldId: (payload.old as { id?: string } | undefined)?.id
+          })
+        }
+      )
+      .subscribe()
+
+    return () => {
+      this.client.removeChannel(channel)
+    }
+  }
+}
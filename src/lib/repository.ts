@@ -0,0 +1,205 @@
+import type { Client, DocumentCategory, DocumentVersion, DocumentWithVersions, LibraryDocument, Market, MarketFranchisee, MarketSummary, MarketUpdate, MarketUpdateRevision, PhaseChange, PhaseDefinition, PortalNotification, PortalUser, Property, Territory, TerritoryPolygon, TerritoryPolygonVersion, TradeAreaPoint, TradeAreaPointKind, UpdateAttachment, UpdateAuthor, UpdateReaction } from './supabase'
+import { config } from './config'
+import { SupabaseRepository } from './repositories/supabase-repository'
+import { LocalRepository } from './repositories/local-repository'
+import { loadFixtureDataset } from './repositories/fixtures'
+
+// Storage-agnostic data access. Implementations only read and write rows;
+// DataService layers client scoping and role checks on top. Failures are
+// thrown as DataErrors (see ./errors) and single-row reads throw NotFoundError.
+
+export interface AuthUser {
+  id: string
+  email: string | null
+}
+
+// users row before the role is normalized
+export type UserProfileRow = Omit<PortalUser, 'role'> & { role: string | null }
+
+export interface MarketScope {
+  clientId: string
+  // Restrict to these markets; null or undefined means every market for the client
+  marketIds?: string[] | null
+  marketId?: string
+  // Archived markets are left out of market lists unless asked for
+  includeArchived?: boolean
+}
+
+export interface MarketInput {
+  name: string
+  territory: Territory | null
+}
+
+export type MarketChanges = Partial<MarketInput> & {
+  archived_at?: string | null
+  // Replacing the polygon keeps the old one as a TerritoryPolygonVersion
+  territory_polygon?: TerritoryPolygon | null
+}
+
+// Fields a user can set on a property; null clears a value
+export type PropertyInput = Pick<Property,
+  'market_id' | 'title' | 'address_line' | 'city' | 'state' | 'postal_code' | 'lat' | 'lng'
+  | 'size_sqft' | 'base_rent_psf' | 'expenses_psf' | 'phase' | 'display_number' | 'notes' | 'photo_url'>
+
+// Set by DataService when it geocodes the address, never by the form
+export type PropertyGeocode = Pick<Property, 'geocode_status' | 'geocode_confidence'>
+
+export type PropertyChanges = Partial<PropertyInput> & PropertyGeocode & {
+  // Soft delete: set to hide the property, clear to restore it
+  deleted_at?: string | null
+}
+
+export type TradeAreaPointInput = Pick<TradeAreaPoint, 'name' | 'lat' | 'lng' | 'value'>
+
+export interface DocumentScope {
+  marketIds: string[]
+  // Only this property's documents
+  propertyId?: string
+  // With propertyId, the market-wide documents too
+  includeMarketWide?: boolean
+  category?: DocumentCategory
+}
+
+export type DocumentInput = Pick<LibraryDocument, 'market_id' | 'property_id' | 'category' | 'title'>
+
+export type DocumentChanges = Partial<Pick<LibraryDocument, 'category' | 'title'>> & {
+  // Set to remove the document from the library, clear to bring it back
+  deleted_at?: string | null
+}
+
+// A file already in storage, to be recorded as a document version
+export type StoredDocumentFile = Pick<DocumentVersion, 'bucket' | 'path' | 'file_name' | 'content_type' | 'size_bytes'>
+
+export interface MarketFranchiseeRow {
+  marketId: string
+  franchisee: MarketFranchisee
+}
+
+export interface MarketUpdateInput {
+  marketId: string
+  authorId: string
+  // The poster's name at the time, kept alongside authorId
+  author: string
+  message: string
+  // The update being replied to
+  parentId?: string | null
+  mentions?: string[]
+  // Files already uploaded with uploadUpdateAttachment
+  attachments?: UpdateAttachment[]
+  // Imports only: the original date, and a key unique within the market
+  createdAt?: string
+  importKey?: string
+}
+
+export type MarketUpdateChanges = Partial<Pick<MarketUpdate, 'message' | 'mentions'>> & {
+  // Set to leave a tombstone in the thread, clear to restore the update
+  deleted_at?: string | null
+}
+
+export type ChangeTable = 'market_updates' | 'market_update_reactions' | 'notifications' | 'properties'
+
+export interface RowChange {
+  eventType: 'INSERT' | 'UPDATE' | 'DELETE'
+  // ID of the removed or replaced row, when known
+  oldId?: string
+}
+
+export interface DataRepository {
+  getSignedInUser(): Promise<AuthUser | null>
+  onAuthStateChange(listener: (user: AuthUser | null) => void): () => void
+
+  getUserProfile(userId: string): Promise<UserProfileRow>
+  getClientsForUser(userId: string): Promise<Client[]>
+  getLinkedMarketIds(userId: string): Promise<string[]>
+
+  getMarkets(scope: MarketScope): Promise<Market[]>
+  getMarket(clientId: string, id: string): Promise<Market>
+  // Case-insensitive lookup, archived markets included
+  findMarketByName(clientId: string, name: string): Promise<Market | null>
+  createMarket(clientId: string, input: MarketInput): Promise<Market>
+  updateMarket(id: string, changes: MarketChanges): Promise<Market>
+  deleteMarket(id: string): Promise<void>
+  // Earlier territory polygons for a market, newest first
+  getTerritoryVersions(marketId: string): Promise<TerritoryPolygonVersion[]>
+  getMarketSummaries(marketIds: string[]): Promise<MarketSummary[]>
+  getFranchisees(marketIds: string[]): Promise<MarketFranchiseeRow[]>
+
+  getProperties(scope: MarketScope): Promise<Property[]>
+  // Deleted properties are left out unless includeDeleted is set
+  getProperty(clientId: string, id: string, options?: { includeDeleted?: boolean }): Promise<Property>
+  createProperty(input: PropertyInput & PropertyGeocode): Promise<Property>
+  updateProperty(id: string, changes: PropertyChanges): Promise<Property>
+  // Store a photo and return its public URL
+  uploadPropertyPhoto(marketId: string, file: File): Promise<string>
+
+  // The client's pipeline, earliest phase first; empty when it has none of its own
+  getPhaseDefinitions(clientId: string): Promise<PhaseDefinition[]>
+  // Move a property to another phase, recording who did it and why. Phase
+  // changes made through createProperty/updateProperty are recorded too, without a reason.
+  changePropertyPhase(id: string, phase: string, reason: string | null): Promise<Property>
+  // Phase changes for a property, newest first
+  getPhaseHistory(propertyId: string): Promise<PhaseChange[]>
+  // Phase changes for every property in scope, deleted ones included, oldest first
+  getPhaseChanges(scope: MarketScope): Promise<PhaseChange[]>
+  // Replace the client's pipeline settings, one row per phase
+  savePhaseDefinitions(clientId: string, definitions: PhaseDefinition[]): Promise<PhaseDefinition[]>
+
+  getMarketUpdates(scope: MarketScope): Promise<MarketUpdate[]>
+  getLatestMarketUpdate(marketId: string): Promise<{ message: string; created_at: string } | null>
+  getMarketUpdate(id: string): Promise<MarketUpdate>
+  // Mentions of anyone not linked to the market are dropped
+  createMarketUpdate(input: MarketUpdateInput): Promise<MarketUpdate>
+  // A changed message keeps the one it replaced as a revision. Deleting records who did it.
+  updateMarketUpdate(id: string, changes: MarketUpdateChanges): Promise<MarketUpdate>
+  // Earlier wordings of the update, oldest first
+  getMarketUpdateRevisions(updateId: string): Promise<MarketUpdateRevision[]>
+  // Inputs whose importKey the market already has are skipped; returns the updates saved
+  importMarketUpdates(inputs: MarketUpdateInput[]): Promise<MarketUpdate[]>
+  // Users linked to the market through market_users, who can be mentioned
+  getMarketUsers(marketId: string): Promise<UpdateAuthor[]>
+  // Stored under the market's folder, to be passed to createMarketUpdate
+  uploadUpdateAttachment(marketId: string, file: File): Promise<UpdateAttachment>
+  // A link to the file that works for a while
+  getUpdateAttachmentUrl(attachment: UpdateAttachment): Promise<string>
+  addUpdateReaction(updateId: string, userId: string, emoji: string): Promise<UpdateReaction>
+  removeUpdateReaction(updateId: string, userId: string, emoji: string): Promise<void>
+
+  // Newest first. Mentioning someone or replying to their update adds one.
+  getNotifications(userId: string, limit: number): Promise<PortalNotification[]>
+  markNotificationsRead(ids: string[]): Promise<void>
+
+  getTradeAreaPoints(marketId: string): Promise<TradeAreaPoint[]>
+  // Replace every point of one kind in a market, e.g. with a fresh upload
+  replaceTradeAreaPoints(marketId: string, kind: TradeAreaPointKind, points: TradeAreaPointInput[]): Promise<TradeAreaPoint[]>
+
+  // Removed documents are left out
+  getDocuments(scope: DocumentScope): Promise<DocumentWithVersions[]>
+  uploadDocumentFile(marketId: string, file: File): Promise<StoredDocumentFile>
+  // The document with its first version
+  createDocument(input: DocumentInput, file: StoredDocumentFile): Promise<DocumentWithVersions>
+  // Numbered one past the document's newest version
+  addDocumentVersion(documentId: string, file: StoredDocumentFile): Promise<DocumentVersion>
+  updateDocument(id: string, changes: DocumentChanges): Promise<LibraryDocument>
+  // A link to the file that works for a while, e.g. for the PDF viewer
+  getDocumentUrl(version: DocumentVersion): Promise<string>
+
+  // Listen for row changes; returns an unsubscribe function
+  subscribe(table: ChangeTable, listener: (change: RowChange) => void, filter?: { marketId?: string }): () => void
+}
+
+let repository: DataRepository | null = null
+
+export function getRepository(): DataRepository {
+  if (!repository) {
+    repository = config.dataBackend === 'local'
+      ? new LocalRepository(loadFixtureDataset(), config.localUserEmail ?? undefined)
+      : new SupabaseRepository()
+  }
+
+  return repository
+}
+
+// Swap the backend, e.g. for a test seeded with its own dataset
+export function setRepository(next: DataRepository | null) {
+  repository = next
+}
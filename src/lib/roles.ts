@@ -0,0 +1,60 @@
+// Role model for portal users. The role lives on the `users` row; the same
+// rules are enforced in the database by the RLS policies in supabase/migrations.
+
+export type UserRole = 'franchisor_admin' | 'broker' | 'franchisee'
+
+export type Permission =
+  | 'markets:view_all'   // see every market for the client, not just linked ones
+  | 'markets:manage'     // create, edit and archive markets
+  | 'updates:post'       // post weekly market updates
+  | 'updates:moderate'   // edit and delete anyone's market updates, not just their own
+  | 'properties:edit'    // add and edit candidate properties
+  | 'financials:view'    // see rent, expense and occupancy cost figures
+  | 'analytics:view'     // see pipeline velocity across every market
+  | 'documents:manage'   // upload, replace and remove market and property documents
+
+export const ROLE_PERMISSIONS: Record<UserRole, Permission[]> = {
+  franchisor_admin: ['markets:view_all', 'markets:manage', 'updates:post', 'updates:moderate', 'properties:edit', 'financials:view', 'analytics:view', 'documents:manage'],
+  broker: ['markets:view_all', 'updates:post', 'properties:edit', 'financials:view', 'documents:manage'],
+  franchisee: ['financials:view'],
+}
+
+export const ROLE_LABELS: Record<UserRole, string> = {
+  franchisor_admin: 'Franchisor Admin',
+  broker: 'Broker',
+  franchisee: 'Franchisee',
+}
+
+export const ROLE_PORTAL_NAMES: Record<UserRole, string> = {
+  franchisor_admin: 'Franchisor Portal',
+  broker: 'Broker Portal',
+  franchisee: 'Franchisee Portal',
+}
+
+// Older rows use 'admin' for franchisor staff. Anything unknown gets the
+// least privileged role.
+export function normalizeRole(role: string | null | undefined): UserRole {
+  switch (role?.toLowerCase()) {
+    case 'franchisor_admin':
+    case 'admin':
+      return 'franchisor_admin'
+    case 'broker':
+      return 'broker'
+    default:
+      return 'franchisee'
+  }
+}
+
+export function hasPermission(role: UserRole | null | undefined, permission: Permission): boolean {
+  if (!role) return false
+  return ROLE_PERMISSIONS[role].includes(permission)
+}
+
+// Updates can be edited and deleted by whoever posted them, or by a moderator
+export function canModifyMarketUpdate(
+  user: { id: string; role: UserRole } | null | undefined,
+  update: { author_id: string | null }
+): boolean {
+  if (!user) return false
+  return (update.author_id !== null && update.author_id === user.id) || hasPermission(user.role, 'updates:moderate')
+}
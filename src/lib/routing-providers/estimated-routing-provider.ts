@@ -0,0 +1,21 @@
+import { circle } from '@turf/turf'
+import type { DriveTimeArea, RoutingProvider } from '../routing'
+
+// Offline stand-in for a routing service, for the local backend and tests:
+// a circle as far as a car gets in a straight line at a typical suburban
+// speed. Real drive-time areas are smaller and follow the roads.
+
+// Average door-to-door speed, allowing for lights and turns
+const DEFAULT_SPEED_MPH = 25
+
+export class EstimatedRoutingProvider implements RoutingProvider {
+  constructor(private readonly speedMph: number = DEFAULT_SPEED_MPH) {}
+
+  async driveTimeAreas(center: { lat: number; lng: number }, minutes: number[]): Promise<DriveTimeArea[]> {
+    return minutes.map(limit => ({
+      minutes: limit,
+      area: circle([center.lng, center.lat], this.speedMph * limit / 60, { units: 'miles', steps: 64 }),
+      approximate: true
+    }))
+  }
+}
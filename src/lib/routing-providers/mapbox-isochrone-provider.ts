@@ -0,0 +1,54 @@
+import type { Feature, MultiPolygon, Polygon } from 'geojson'
+import { toDataError, withRetry, TransientError } from '../errors'
+import type { DriveTimeArea, RoutingProvider } from '../routing'
+
+// Mapbox Isochrone API (v1), driving profile. Takes up to four contours per call.
+
+const MAX_CONTOURS = 4
+
+type IsochroneFeature = Feature<Polygon | MultiPolygon, { contour: number }>
+
+export class MapboxIsochroneProvider implements RoutingProvider {
+  constructor(private readonly accessToken: string) {}
+
+  async driveTimeAreas(center: { lat: number; lng: number }, minutes: number[]): Promise<DriveTimeArea[]> {
+    const areas: DriveTimeArea[] = []
+    for (let i = 0; i < minutes.length; i += MAX_CONTOURS) {
+      areas.push(...await this.fetchContours(center, minutes.slice(i, i + MAX_CONTOURS)))
+    }
+    return areas
+  }
+
+  private async fetchContours(center: { lat: number; lng: number }, minutes: number[]): Promise<DriveTimeArea[]> {
+    const url = new URL(`https://api.mapbox.com/isochrone/v1/mapbox/driving/${center.lng},${center.lat}`)
+    url.searchParams.set('access_token', this.accessToken)
+    // Mapbox wants contours in increasing order
+    url.searchParams.set('contours_minutes', [...minutes].sort((a, b) => a - b).join(','))
+    url.searchParams.set('polygons', 'true')
+
+    const features = await withRetry(async () => {
+      let response: Response
+      try {
+        response = await fetch(url)
+      } catch (error) {
+        throw toDataError(error, 'fetching drive times')
+      }
+
+      if (response.status === 429 || response.status >= 500) {
+        throw new TransientError(`Error fetching drive times: Mapbox returned ${response.status}`)
+      }
+      if (!response.ok) {
+        throw toDataError(new Error(`Mapbox returned ${response.status}`), 'fetching drive times')
+      }
+
+      const body = await response.json() as { features?: IsochroneFeature[] }
+      return body.features ?? []
+    })
+
+    return minutes.map(limit => {
+      const feature = features.find(f => f.properties.contour === limit)
+      if (!feature) throw toDataError(new Error(`No ${limit} minute contour in the response`), 'fetching drive times')
+      return { minutes: limit, area: { ...feature, properties: {} }, approximate: false }
+    })
+  }
+}
@@ -0,0 +1,98 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { DataService } from './data-service'
+import { describeError, TransientError, ValidationError } from './errors'
+import { RoutingProvider, setRoutingProvider } from './routing'
+import { EstimatedRoutingProvider } from './routing-providers/estimated-routing-provider'
+import { setRepository } from './repository'
+import { LocalRepository } from './repositories/local-repository'
+import { loadFixtureDataset } from './repositories/fixtures'
+
+const data = loadFixtureDataset()
+// Mueller Town Center, in Austin
+const SITE_ID = '9c3e6a10-2d4b-4f7e-b6a1-8e2f4d6c3001'
+
+// Calls through to the estimate, recording what it was asked for
+function recordingProvider(speedMph?: number) {
+  const estimate = new EstimatedRoutingProvider(speedMph)
+  const driveTimeAreas = vi.fn<RoutingProvider['driveTimeAreas']>((center, minutes) => estimate.driveTimeAreas(center, minutes))
+  return { driveTimeAreas }
+}
+
+describe('DataService.getTradeArea', () => {
+  beforeEach(() => {
+    setRepository(new LocalRepository(loadFixtureDataset()))
+    DataService.setActiveClientId(data.clients[0].id)
+  })
+
+  afterEach(() => {
+    setRepository(null)
+    setRoutingProvider(null)
+    DataService.setActiveClientId(null)
+  })
+
+  it('draws radius rings and drive-time areas from the routing provider, counting what each holds', async () => {
+    const provider = recordingProvider()
+    setRoutingProvider(provider)
+
+    const analysis = await DataService.getTradeArea(SITE_ID)
+
+    expect(provider.driveTimeAreas).toHaveBeenCalledWith({ lat: 30.3005, lng: -97.7048 }, [10, 15])
+    expect(analysis.routingError).toBeNull()
+    expect(analysis.rings.map(ring => [ring.id, ring.approximate])).toEqual([
+      ['radius-1', false], ['radius-3', false], ['radius-5', false], ['drive-10', true], ['drive-15', true],
+    ])
+    // Austin Music Academy and the Mueller households; the site itself isn't counted
+    expect(analysis.rings[0].counts).toEqual({ competitors: 1, sisters: 0, properties: 0, demographicPoints: 1, demographicTotal: 1850 })
+  })
+
+  it('counts the same as a radius ring when the estimate covers the same ground', async () => {
+    // 10 minutes at 18 mph is 3 miles
+    setRoutingProvider(new EstimatedRoutingProvider(18))
+
+    const analysis = await DataService.getTradeArea(SITE_ID, { radiusMiles: [3], driveMinutes: [10] })
+
+    const [radius, driveTime] = analysis.rings
+    expect(driveTime.counts).toEqual(radius.counts)
+  })
+
+  it('asks the provider for whole, in-range minutes, smallest first', async () => {
+    const provider = recordingProvider()
+    setRoutingProvider(provider)
+
+    await DataService.getTradeArea(SITE_ID, { driveMinutes: [15, 7.6, 10, 10, 90, -5] })
+
+    expect(provider.driveTimeAreas).toHaveBeenCalledWith(expect.anything(), [8, 10, 15])
+  })
+
+  it('skips the provider when no drive times are asked for', async () => {
+    const provider = recordingProvider()
+    setRoutingProvider(provider)
+
+    const analysis = await DataService.getTradeArea(SITE_ID, { driveMinutes: [] })
+
+    expect(provider.driveTimeAreas).not.toHaveBeenCalled()
+    expect(analysis.rings.every(ring => ring.kind === 'radius')).toBe(true)
+  })
+
+  it('falls back to an estimate, and says why, when the provider fails', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {})
+    const error = new TransientError('Routing service unavailable')
+    setRoutingProvider({ driveTimeAreas: async () => { throw error } })
+
+    const analysis = await DataService.getTradeArea(SITE_ID, { radiusMiles: [], driveMinutes: [10] })
+
+    expect(analysis.routingError).toBe(describeError(error))
+    expect(analysis.rings).toHaveLength(1)
+    expect(analysis.rings[0]).toMatchObject({ id: 'drive-10', approximate: true })
+  })
+
+  it('needs the site on the map', async () => {
+    const unplaced = loadFixtureDataset()
+    const site = unplaced.properties.find(property => property.id === SITE_ID)!
+    site.lat = null
+    site.lng = null
+    setRepository(new LocalRepository(unplaced))
+
+    await expect(DataService.getTradeArea(SITE_ID)).rejects.toBeInstanceOf(ValidationError)
+  })
+})
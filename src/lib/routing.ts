@@ -0,0 +1,41 @@
+import type { Feature, MultiPolygon, Polygon } from 'geojson'
+import { config } from './config'
+import { EstimatedRoutingProvider } from './routing-providers/estimated-routing-provider'
+import { MapboxIsochroneProvider } from './routing-providers/mapbox-isochrone-provider'
+
+// Drive-time areas for trade-area analysis (see ./trade-area): the ground a
+// car can cover from a site in a given number of minutes.
+
+export interface DriveTimeArea {
+  minutes: number
+  area: Feature<Polygon | MultiPolygon>
+  // A straight-line estimate rather than one following real roads
+  approximate: boolean
+}
+
+export interface RoutingProvider {
+  // One area per entry in `minutes`, in the same order. Throws a DataError if the provider can't be reached.
+  driveTimeAreas(center: { lat: number; lng: number }, minutes: number[]): Promise<DriveTimeArea[]>
+}
+
+// Longest drive-time the providers are asked for
+export const MAX_DRIVE_MINUTES = 60
+
+let provider: RoutingProvider | null = null
+
+// Mapbox isochrones when there's a token to call them with; otherwise a
+// straight-line estimate, which is also what the local backend uses
+export function getRoutingProvider(): RoutingProvider {
+  if (!provider) {
+    provider = config.dataBackend === 'local' || !config.mapbox.accessToken
+      ? new EstimatedRoutingProvider()
+      : new MapboxIsochroneProvider(config.mapbox.accessToken)
+  }
+
+  return provider
+}
+
+// Swap the provider, e.g. for a test with fixed areas
+export function setRoutingProvider(next: RoutingProvider | null) {
+  provider = next
+}
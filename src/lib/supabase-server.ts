@@ -0,0 +1,25 @@
+import { cookies } from 'next/headers'
+import { createServerClient } from '@supabase/ssr'
+import { requireSupabaseConfig } from './config'
+
+// Supabase client for route handlers and server components. Reads and writes
+// the same auth cookies as the browser client in ./supabase.
+export async function createServerSupabaseClient() {
+  const cookieStore = await cookies()
+  const { url, anonKey } = requireSupabaseConfig()
+
+  return createServerClient(url, anonKey, {
+    cookies: {
+      getAll() {
+        return cookieStore.getAll()
+      },
+      setAll(cookiesToSet) {
+        try {
+          cookiesToSet.forEach(({ name, value, options }) => cookieStore.set(name, value, options))
+        } catch {
+          // Server components can't set cookies - middleware refreshes the session instead
+        }
+      },
+    },
+  })
+}
@@ -0,0 +1,148 @@
+import { area, bbox, booleanPointInPolygon, featureCollection, intersect, polygon } from '@turf/turf'
+import type { Feature, MultiPolygon, Polygon } from 'geojson'
+import type { Market, Property } from './supabase'
+import { SQ_METERS_PER_SQ_MILE } from './territory'
+
+// Conflicts between market territories: two markets claiming the same ground,
+// and candidate properties sitting outside their own market's territory or
+// inside someone else's. Pure geometry, so it runs the same on every backend.
+
+// Overlaps smaller than this (about a tenth of an acre) are slivers where two
+// boundaries were traced along the same road, not a real dispute
+const MIN_OVERLAP_SQ_METERS = 500
+
+export interface TerritoryOverlap {
+  marketIds: [string, string]
+  marketNames: [string, string]
+  area: Feature<Polygon | MultiPolygon>
+  areaSqMiles: number
+}
+
+export type EncroachmentKind = 'outside_own_territory' | 'inside_other_territory'
+
+export interface PropertyEncroachment {
+  propertyId: string
+  propertyName: string
+  marketId: string
+  kind: EncroachmentKind
+  // Markets whose territory contains the property (inside_other_territory only)
+  otherMarkets: { id: string; name: string }[]
+}
+
+export interface TerritoryConflicts {
+  overlaps: TerritoryOverlap[]
+  encroachments: PropertyEncroachment[]
+}
+
+interface MarketShape {
+  market: Market
+  feature: Feature<Polygon>
+  bounds: [number, number, number, number]
+}
+
+function boundsIntersect(a: MarketShape['bounds'], b: MarketShape['bounds']) {
+  return a[0] <= b[2] && b[0] <= a[2] && a[1] <= b[3] && b[1] <= a[3]
+}
+
+function toShapes(markets: Market[]): MarketShape[] {
+  return markets.flatMap(market => {
+    const coordinates = market.territory_polygon?.geometry?.coordinates
+    if (!coordinates?.length) return []
+
+    try {
+      const feature = polygon(coordinates)
+      return [{ market, feature, bounds: bbox(feature) as MarketShape['bounds'] }]
+    } catch (error) {
+      // A malformed polygon can't be checked; leave it out rather than fail the page
+      console.warn(`Skipping invalid territory for market ${market.name}:`, error)
+      return []
+    }
+  })
+}
+
+export function findTerritoryOverlaps(markets: Market[]): TerritoryOverlap[] {
+  const shapes = toShapes(markets)
+  const overlaps: TerritoryOverlap[] = []
+
+  for (let i = 0; i < shapes.length; i++) {
+    for (let j = i + 1; j < shapes.length; j++) {
+      const a = shapes[i]
+      const b = shapes[j]
+      if (!boundsIntersect(a.bounds, b.bounds)) continue
+
+      const shared = intersect(featureCollection([a.feature, b.feature]))
+      if (!shared) continue
+
+      const sharedArea = area(shared)
+      if (sharedArea < MIN_OVERLAP_SQ_METERS) continue
+
+      overlaps.push({
+        marketIds: [a.market.id, b.market.id],
+        marketNames: [a.market.name, b.market.name],
+        area: shared,
+        areaSqMiles: sharedArea / SQ_METERS_PER_SQ_MILE
+      })
+    }
+  }
+
+  return overlaps.sort((x, y) => y.areaSqMiles - x.areaSqMiles)
+}
+
+export function findPropertyEncroachments(markets: Market[], properties: Property[]): PropertyEncroachment[] {
+  const shapes = toShapes(markets)
+  const shapesByMarket = new Map(shapes.map(shape => [shape.market.id, shape]))
+  const encroachments: PropertyEncroachment[] = []
+
+  for (const property of properties) {
+    if (property.lat == null || property.lng == null) continue
+
+    const point: [number, number] = [property.lng, property.lat]
+    const propertyName = property.title || property.address_line || 'Untitled Property'
+
+    const own = shapesByMarket.get(property.market_id)
+    if (own && !booleanPointInPolygon(point, own.feature)) {
+      encroachments.push({ propertyId: property.id, propertyName, marketId: property.market_id, kind: 'outside_own_territory', otherMarkets: [] })
+    }
+
+    // Points on a shared border count as inside both, so ignore boundaries here
+    const others = shapes.filter(shape =>
+      shape.market.id !== property.market_id && booleanPointInPolygon(point, shape.feature, { ignoreBoundary: true })
+    )
+    if (others.length > 0) {
+      encroachments.push({
+        propertyId: property.id,
+        propertyName,
+        marketId: property.market_id,
+        kind: 'inside_other_territory',
+        otherMarkets: others.map(shape => ({ id: shape.market.id, name: shape.market.name }))
+      })
+    }
+  }
+
+  return encroachments
+}
+
+export function findTerritoryConflicts(markets: Market[], properties: Property[]): TerritoryConflicts {
+  return {
+    overlaps: findTerritoryOverlaps(markets),
+    encroachments: findPropertyEncroachments(markets, properties)
+  }
+}
+
+// Only the conflicts a market is party to: its overlaps, its own properties,
+// and other markets' properties inside its territory
+export function conflictsForMarket(conflicts: TerritoryConflicts, marketId: string): TerritoryConflicts {
+  return {
+    overlaps: conflicts.overlaps.filter(overlap => overlap.marketIds.includes(marketId)),
+    encroachments: conflicts.encroachments.filter(encroachment =>
+      encroachment.marketId === marketId || encroachment.otherMarkets.some(market => market.id === marketId)
+    )
+  }
+}
+
+export function describeEncroachment(encroachment: PropertyEncroachment, marketNames: Record<string, string>): string {
+  if (encroachment.kind === 'outside_own_territory') {
+    return `${encroachment.propertyName} is outside the ${marketNames[encroachment.marketId] ?? 'market'} territory`
+  }
+  return `${encroachment.propertyName} (${marketNames[encroachment.marketId] ?? 'another market'}) is inside ${encroachment.otherMarkets.map(m => m.name).join(' and ')}`
+}
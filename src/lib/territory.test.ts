@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'vitest'
+import { Position, territoryAreaSqMiles, toTerritoryPolygon, validateTerritoryPolygon } from './territory'
+
+// Open square ring with its lower-left corner at [lng, lat]
+function square(lng: number, lat: number, size: number): Position[] {
+  return [[lng, lat], [lng + size, lat], [lng + size, lat + size], [lng, lat + size]]
+}
+
+const boundary = square(-98, 30, 1)
+
+describe('validateTerritoryPolygon', () => {
+  it('accepts a boundary with holes apart from each other', () => {
+    const territory = toTerritoryPolygon([boundary, square(-97.9, 30.1, 0.2), square(-97.5, 30.5, 0.2)])
+
+    expect(validateTerritoryPolygon(territory)).toEqual([])
+    expect(territoryAreaSqMiles(territory)).toBeLessThan(territoryAreaSqMiles(toTerritoryPolygon([boundary])))
+  })
+
+  it('asks for a boundary with at least 3 points', () => {
+    expect(validateTerritoryPolygon({ type: 'Feature', geometry: { type: 'Polygon', coordinates: [] }, properties: {} }))
+      .toEqual(['Draw a boundary before saving'])
+    expect(validateTerritoryPolygon(toTerritoryPolygon([[[-98, 30], [-97, 30]]])))
+      .toEqual(['The boundary needs at least 3 points'])
+  })
+
+  it('rejects a boundary that crosses itself', () => {
+    const bowtie: Position[] = [[-98, 30], [-97, 31], [-97, 30], [-98, 31]]
+
+    expect(validateTerritoryPolygon(toTerritoryPolygon([bowtie])))
+      .toContain('The boundary crosses itself. Move the points so no edges cross.')
+  })
+
+  it('rejects a hole that crosses itself', () => {
+    const bowtie: Position[] = [[-97.8, 30.2], [-97.6, 30.4], [-97.6, 30.2], [-97.8, 30.4]]
+
+    expect(validateTerritoryPolygon(toTerritoryPolygon([boundary, bowtie])))
+      .toContain('Hole 1 crosses itself. Move the points so no edges cross.')
+  })
+
+  it('rejects holes that leave the boundary', () => {
+    expect(validateTerritoryPolygon(toTerritoryPolygon([boundary, square(-97.1, 30.4, 0.2)])))
+      .toEqual(['Hole 1 must sit entirely inside the boundary'])
+  })
+
+  it('rejects holes that overlap', () => {
+    const territory = toTerritoryPolygon([boundary, square(-97.9, 30.1, 0.3), square(-97.7, 30.3, 0.3)])
+
+    expect(validateTerritoryPolygon(territory)).toEqual(['Holes 1 and 2 overlap. Merge them or move them apart.'])
+  })
+
+  it('rejects a hole inside another hole, whichever comes first', () => {
+    const outerHole = square(-97.9, 30.1, 0.6)
+    const innerHole = square(-97.8, 30.2, 0.2)
+
+    expect(validateTerritoryPolygon(toTerritoryPolygon([boundary, outerHole, innerHole])))
+      .toEqual(['Hole 2 sits inside hole 1. Remove one of them.'])
+    expect(validateTerritoryPolygon(toTerritoryPolygon([boundary, innerHole, outerHole])))
+      .toEqual(['Hole 1 sits inside hole 2. Remove one of them.'])
+  })
+})
@@ -0,0 +1,100 @@
+import { area, booleanDisjoint, booleanWithin, kinks, polygon } from '@turf/turf'
+import type { TerritoryPolygon } from './supabase'
+
+// Geometry helpers for market territory polygons (GeoJSON, [lng, lat] order).
+// Rings are stored closed, as GeoJSON requires: the first position is repeated
+// at the end. The map editor works with open rings and closes them on save.
+
+export type Position = [number, number]
+
+export const SQ_METERS_PER_SQ_MILE = 2_589_988.11
+
+function samePosition(a: number[], b: number[]) {
+  return a[0] === b[0] && a[1] === b[1]
+}
+
+export function closeRing(ring: Position[]): Position[] {
+  if (ring.length === 0 || samePosition(ring[0], ring[ring.length - 1])) return ring
+  return [...ring, ring[0]]
+}
+
+export function openRing(ring: number[][]): Position[] {
+  const positions = ring.map(([lng, lat]) => [lng, lat] as Position)
+  return positions.length > 1 && samePosition(positions[0], positions[positions.length - 1])
+    ? positions.slice(0, -1)
+    : positions
+}
+
+// First ring is the boundary, the rest are holes
+export function toTerritoryPolygon(rings: Position[][]): TerritoryPolygon {
+  return {
+    type: 'Feature',
+    geometry: { type: 'Polygon', coordinates: rings.map(closeRing) },
+    properties: {}
+  }
+}
+
+// Everything wrong with a polygon, in words a user can act on. Empty when the
+// polygon is safe to save.
+export function validateTerritoryPolygon(territory: TerritoryPolygon): string[] {
+  const rings = territory.geometry?.type === 'Polygon' ? territory.geometry.coordinates : null
+  if (!rings || rings.length === 0) {
+    return ['Draw a boundary before saving']
+  }
+
+  const problems: string[] = []
+
+  rings.forEach((ring, i) => {
+    const label = i === 0 ? 'The boundary' : `Hole ${i}`
+
+    if (ring.some(p => !Number.isFinite(p[0]) || !Number.isFinite(p[1]) || Math.abs(p[0]) > 180 || Math.abs(p[1]) > 90)) {
+      problems.push(`${label} has a point outside the valid longitude/latitude range`)
+    }
+    if (ring.length < 4) {
+      problems.push(`${label} needs at least 3 points`)
+    } else if (!samePosition(ring[0], ring[ring.length - 1])) {
+      problems.push(`${label} is not a closed ring`)
+    }
+  })
+
+  // The checks below need well-formed rings
+  if (problems.length > 0) return problems
+
+  // Each ring on its own, so the message can say which one is at fault
+  const [outer, ...holes] = rings.map(ring => polygon([ring]))
+  if (kinks(outer).features.length > 0) {
+    problems.push('The boundary crosses itself. Move the points so no edges cross.')
+  }
+  holes.forEach((hole, i) => {
+    if (kinks(hole).features.length > 0) {
+      problems.push(`Hole ${i + 1} crosses itself. Move the points so no edges cross.`)
+    }
+  })
+
+  holes.forEach((hole, i) => {
+    if (!booleanWithin(hole, outer)) {
+      problems.push(`Hole ${i + 1} must sit entirely inside the boundary`)
+    }
+  })
+
+  // Holes can't share any area, and one inside another would carve nothing out
+  holes.forEach((hole, i) => {
+    holes.slice(i + 1).forEach((other, offset) => {
+      const j = i + offset + 1
+      if (booleanWithin(other, hole)) {
+        problems.push(`Hole ${j + 1} sits inside hole ${i + 1}. Remove one of them.`)
+      } else if (booleanWithin(hole, other)) {
+        problems.push(`Hole ${i + 1} sits inside hole ${j + 1}. Remove one of them.`)
+      } else if (!booleanDisjoint(hole, other)) {
+        problems.push(`Holes ${i + 1} and ${j + 1} overlap. Merge them or move them apart.`)
+      }
+    })
+  })
+
+  return problems
+}
+
+// Area in square miles, holes excluded
+export function territoryAreaSqMiles(territory: TerritoryPolygon): number {
+  return area(territory) / SQ_METERS_PER_SQ_MILE
+}
@@ -0,0 +1,190 @@
+import { booleanPointInPolygon, circle } from '@turf/turf'
+import type { Feature, MultiPolygon, Polygon } from 'geojson'
+import Papa from 'papaparse'
+import type { Property, TradeAreaPoint } from './supabase'
+import type { TradeAreaPointInput } from './repository'
+import { MAX_DRIVE_MINUTES, type DriveTimeArea } from './routing'
+
+// Trade areas around a candidate site: rings at a fixed distance and areas
+// within a few minutes' drive, with what falls inside each. Families rarely
+// drive more than 10-15 minutes to a weekly lesson, so that's the default.
+// Pure geometry apart from the drive times, which DataService fetches.
+
+export const DEFAULT_RADIUS_MILES = [1, 3, 5]
+export const DEFAULT_DRIVE_MINUTES = [10, 15]
+export const MAX_RADIUS_MILES = 50
+// More rings than this can't be told apart on the map
+export const MAX_RINGS_PER_KIND = 4
+
+export interface TradeAreaOptions {
+  radiusMiles: number[]
+  driveMinutes: number[]
+}
+
+export interface TradeAreaRing {
+  // e.g. "radius-3" or "drive-10"
+  id: string
+  kind: 'radius' | 'drive_time'
+  // Miles for a radius, minutes for a drive time
+  size: number
+  label: string
+  area: Feature<Polygon | MultiPolygon>
+  // A straight-line estimate standing in for real drive times
+  approximate: boolean
+}
+
+export interface TradeAreaCounts {
+  competitors: number
+  sisters: number
+  // Other candidate properties in the same market
+  properties: number
+  demographicPoints: number
+  // Sum of the demographic points' values, e.g. households
+  demographicTotal: number
+}
+
+export interface TradeAreaRingSummary extends TradeAreaRing {
+  counts: TradeAreaCounts
+}
+
+export interface TradeAreaAnalysis {
+  propertyId: string
+  center: { lat: number; lng: number }
+  rings: TradeAreaRingSummary[]
+  // Why drive times are estimates, when the routing provider failed
+  routingError: string | null
+}
+
+// Whole, positive, in range, no repeats, smallest first
+function normalizeSizes(sizes: number[], max: number) {
+  return [...new Set(sizes.filter(size => Number.isFinite(size) && size > 0 && size <= max))]
+    .sort((a, b) => a - b)
+    .slice(0, MAX_RINGS_PER_KIND)
+}
+
+export function normalizeTradeAreaOptions(options: Partial<TradeAreaOptions>): TradeAreaOptions {
+  return {
+    radiusMiles: normalizeSizes(options.radiusMiles ?? DEFAULT_RADIUS_MILES, MAX_RADIUS_MILES),
+    driveMinutes: normalizeSizes((options.driveMinutes ?? DEFAULT_DRIVE_MINUTES).map(Math.round), MAX_DRIVE_MINUTES)
+  }
+}
+
+export function radiusRings(center: { lat: number; lng: number }, miles: number[]): TradeAreaRing[] {
+  return miles.map(size => ({
+    id: `radius-${size}`,
+    kind: 'radius',
+    size,
+    label: `${size} mi`,
+    area: circle([center.lng, center.lat], size, { units: 'miles', steps: 64 }),
+    approximate: false
+  }))
+}
+
+export function driveTimeRings(areas: DriveTimeArea[]): TradeAreaRing[] {
+  return areas.map(area => ({
+    id: `drive-${area.minutes}`,
+    kind: 'drive_time',
+    size: area.minutes,
+    label: `${area.minutes} min drive`,
+    area: area.area,
+    approximate: area.approximate
+  }))
+}
+
+export function countInArea(
+  area: Feature<Polygon | MultiPolygon>,
+  { siteId, properties, points }: { siteId: string; properties: Property[]; points: TradeAreaPoint[] }
+): TradeAreaCounts {
+  const inside = (lat: number, lng: number) => booleanPointInPolygon([lng, lat], area)
+  const counts: TradeAreaCounts = { competitors: 0, sisters: 0, properties: 0, demographicPoints: 0, demographicTotal: 0 }
+
+  for (const property of properties) {
+    if (property.id === siteId || property.deleted_at || property.lat == null || property.lng == null) continue
+    if (inside(property.lat, property.lng)) counts.properties++
+  }
+
+  for (const point of points) {
+    if (!inside(point.lat, point.lng)) continue
+    if (point.kind === 'competitor') counts.competitors++
+    else if (point.kind === 'sister') counts.sisters++
+    else {
+      counts.demographicPoints++
+      counts.demographicTotal += point.value ?? 0
+    }
+  }
+
+  return counts
+}
+
+export function summarizeTradeArea(
+  site: Property & { lat: number; lng: number },
+  rings: TradeAreaRing[],
+  { properties, points, routingError = null }: { properties: Property[]; points: TradeAreaPoint[]; routingError?: string | null }
+): TradeAreaAnalysis {
+  return {
+    propertyId: site.id,
+    center: { lat: site.lat, lng: site.lng },
+    rings: rings.map(ring => ({ ...ring, counts: countInArea(ring.area, { siteId: site.id, properties, points }) })),
+    routingError
+  }
+}
+
+// Uploads bigger than this are almost certainly the wrong file
+export const MAX_TRADE_AREA_POINTS = 5000
+
+const COLUMN_NAMES = {
+  name: ['name', 'label', 'title'],
+  lat: ['lat', 'latitude'],
+  lng: ['lng', 'lon', 'long', 'longitude'],
+  value: ['value', 'households', 'population', 'count']
+}
+
+// Reads points from a CSV with a header row: name, lat and lng columns, and
+// an optional value column for demographic points. Rows that don't parse are
+// reported by row number rather than dropped silently.
+export function parseTradeAreaPointsCsv(text: string): { points: TradeAreaPointInput[]; errors: string[] } {
+  const parsed = Papa.parse<Record<string, string>>(text.trim(), {
+    header: true,
+    skipEmptyLines: true,
+    transformHeader: header => header.trim().toLowerCase()
+  })
+  const headers = parsed.meta.fields ?? []
+  const column = (names: string[]) => headers.find(header => names.includes(header))
+  const nameColumn = column(COLUMN_NAMES.name)
+  const latColumn = column(COLUMN_NAMES.lat)
+  const lngColumn = column(COLUMN_NAMES.lng)
+  const valueColumn = column(COLUMN_NAMES.value)
+
+  if (!latColumn || !lngColumn) {
+    return { points: [], errors: ['The file needs lat and lng columns'] }
+  }
+
+  const points: TradeAreaPointInput[] = []
+  const errors: string[] = []
+  parsed.data.forEach((row, index) => {
+    // Counting data rows, not the header
+    const rowNumber = index + 1
+    const lat = Number(row[latColumn])
+    const lng = Number(row[lngColumn])
+    const rawValue = valueColumn ? row[valueColumn]?.trim() : ''
+    const value = rawValue ? Number(rawValue.replace(/,/g, '')) : null
+
+    if (!row[latColumn]?.trim() || !row[lngColumn]?.trim() || !Number.isFinite(lat) || !Number.isFinite(lng)
+      || Math.abs(lat) > 90 || Math.abs(lng) > 180) {
+      errors.push(`Row ${rowNumber}: lat and lng must be coordinates`)
+      return
+    }
+    if (value !== null && (!Number.isFinite(value) || value < 0)) {
+      errors.push(`Row ${rowNumber}: value must be a number of zero or more`)
+      return
+    }
+
+    points.push({ name: (nameColumn && row[nameColumn]?.trim()) || `Point ${points.length + 1}`, lat, lng, value })
+  })
+
+  if (points.length > MAX_TRADE_AREA_POINTS) {
+    errors.push(`Upload at most ${MAX_TRADE_AREA_POINTS.toLocaleString()} points at a time`)
+  }
+
+  return { points, errors }
+}
@@ -0,0 +1,215 @@
+import Papa from 'papaparse'
+import type { MarketFranchisee } from './supabase'
+import { ValidationError } from './errors'
+
+// Bulk import of historical market updates from brokers' spreadsheets, e.g.
+// "Franchisee, Date, Update" exports. Each row names a franchisee (or market),
+// which is mapped to a market; the date becomes the update's created_at.
+// Reading and checking rows happens here; DataService skips duplicates and saves.
+
+// Files bigger than this are almost certainly the wrong file
+export const MAX_IMPORT_ROWS = 5000
+
+export const IMPORT_FILE_ACCEPT = '.csv,.xlsx,text/csv,application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'
+
+// Text as written, or a date from a spreadsheet cell formatted as one
+export type ImportCell = string | Date
+
+export interface ImportTable {
+  headers: string[]
+  rows: Record<string, ImportCell>[]
+}
+
+function isXlsx(file: File) {
+  return file.name.toLowerCase().endsWith('.xlsx')
+    || file.type === 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'
+}
+
+// The first sheet, with the first non-empty row as headers
+async function readXlsx(file: File): Promise<ImportTable> {
+  // Only loaded when someone imports a spreadsheet
+  const { Workbook } = await import('exceljs')
+  const workbook = new Workbook()
+  try {
+    await workbook.xlsx.load(await file.arrayBuffer())
+  } catch (error) {
+    throw new ValidationError('The spreadsheet couldn\'t be read', { cause: error })
+  }
+
+  const sheet = workbook.worksheets[0]
+  if (!sheet) return { headers: [], rows: [] }
+
+  let headers: string[] | null = null
+  const rows: Record<string, ImportCell>[] = []
+  sheet.eachRow(row => {
+    const cells: ImportCell[] = []
+    row.eachCell({ includeEmpty: true }, (cell, column) => {
+      cells[column - 1] = cell.value instanceof Date ? cell.value : cell.text.trim()
+    })
+
+    if (!headers) {
+      headers = Array.from(cells, cell => (typeof cell === 'string' ? cell : ''))
+      return
+    }
+    rows.push(Object.fromEntries(headers.map((header, index) => [header, cells[index] ?? ''])))
+  })
+
+  return { headers: (headers ?? []).filter(Boolean), rows }
+}
+
+function readCsv(text: string): ImportTable {
+  const parsed = Papa.parse<Record<string, string>>(text.trim(), {
+    header: true,
+    skipEmptyLines: 'greedy',
+    transformHeader: header => header.trim()
+  })
+  return { headers: (parsed.meta.fields ?? []).filter(Boolean), rows: parsed.data }
+}
+
+export async function readImportFile(file: File): Promise<ImportTable> {
+  return isXlsx(file) ? readXlsx(file) : readCsv(await file.text())
+}
+
+export interface ImportColumns {
+  // Names the franchisee or market each update is about
+  identifier: string
+  date: string
+  message: string
+}
+
+const COLUMN_NAMES: Record<keyof ImportColumns, string[]> = {
+  identifier: ['franchisee', 'franchisee name', 'franchisee email', 'market', 'location', 'territory'],
+  date: ['date', 'update date', 'created', 'created at', 'posted', 'posted at'],
+  message: ['update', 'message', 'notes', 'note', 'comment', 'comments']
+}
+
+// Columns picked by their header, for the user to confirm or change
+export function guessImportColumns(headers: string[]): Partial<ImportColumns> {
+  const column = (names: string[]) => headers.find(header => names.includes(header.trim().toLowerCase()))
+  return {
+    identifier: column(COLUMN_NAMES.identifier),
+    date: column(COLUMN_NAMES.date),
+    message: column(COLUMN_NAMES.message)
+  }
+}
+
+function normalizeIdentifier(identifier: string) {
+  return identifier.trim().toLowerCase().replace(/\s+/g, ' ')
+}
+
+export interface ImportMarket {
+  id: string
+  name: string
+  franchisees: Pick<MarketFranchisee, 'full_name' | 'email'>[]
+}
+
+// The market each identifier points at, matched on the market's name ("Austin,
+// TX" or just "Austin") or a linked franchisee's name or email. Identifiers
+// that match nothing, or more than one market, are left for the user to map.
+export function matchImportMarkets(identifiers: string[], markets: ImportMarket[]): Record<string, string | null> {
+  const names = (market: ImportMarket) => [
+    market.name,
+    market.name.split(',')[0],
+    ...market.franchisees.flatMap(franchisee => [franchisee.full_name, franchisee.email])
+  ].filter((name): name is string => !!name).map(normalizeIdentifier)
+
+  return Object.fromEntries(identifiers.map(identifier => {
+    const matches = markets.filter(market => names(market).includes(normalizeIdentifier(identifier)))
+    return [identifier, matches.length === 1 ? matches[0].id : null]
+  }))
+}
+
+// Dates without a time are kept at midday UTC so they show as the same day everywhere
+function middayUtc(year: number, month: number, day: number): string | null {
+  const date = new Date(Date.UTC(year, month - 1, day, 12))
+  // Rejects days that roll over, like 2/30
+  if (date.getUTCFullYear() !== year || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) return null
+  return date.toISOString()
+}
+
+// The cell as a created_at timestamp, or null if it isn't a date. Accepts
+// 2025-09-20, 9/20/2025 (US order), 9/20/25 and anything Date can read.
+export function parseImportDate(value: ImportCell): string | null {
+  if (value instanceof Date) {
+    if (Number.isNaN(value.getTime())) return null
+    // Spreadsheet dates without a time come through as midnight UTC
+    const dateOnly = value.getUTCHours() === 0 && value.getUTCMinutes() === 0 && value.getUTCSeconds() === 0
+    return dateOnly
+      ? middayUtc(value.getUTCFullYear(), value.getUTCMonth() + 1, value.getUTCDate())
+      : value.toISOString()
+  }
+
+  const text = value.trim()
+  const iso = text.match(/^(\d{4})-(\d{1,2})-(\d{1,2})$/)
+  if (iso) return middayUtc(Number(iso[1]), Number(iso[2]), Number(iso[3]))
+
+  const us = text.match(/^(\d{1,2})\/(\d{1,2})\/(\d{2}|\d{4})$/)
+  if (us) {
+    const year = Number(us[3])
+    return middayUtc(year < 100 ? 2000 + year : year, Number(us[1]), Number(us[2]))
+  }
+
+  const parsed = Date.parse(text)
+  if (!text || Number.isNaN(parsed)) return null
+  // "Sep 20, 2025" reads as local midnight; keep the day as written
+  const date = new Date(parsed)
+  const dateOnly = date.getHours() === 0 && date.getMinutes() === 0 && date.getSeconds() === 0
+  return dateOnly ? middayUtc(date.getFullYear(), date.getMonth() + 1, date.getDate()) : date.toISOString()
+}
+
+export interface ImportedUpdateRow {
+  // Counting data rows, not the header
+  rowNumber: number
+  identifier: string
+  marketId: string | null
+  createdAt: string | null
+  message: string
+  // Rows with problems aren't imported
+  errors: string[]
+}
+
+function cellText(value: ImportCell | undefined): string {
+  if (value instanceof Date) return value.toISOString().slice(0, 10)
+  return value?.trim() ?? ''
+}
+
+// Each row checked and matched to a market through `markets` (identifier to market ID)
+export function parseImportRows(
+  table: ImportTable,
+  columns: ImportColumns,
+  markets: Record<string, string | null>,
+  now = new Date()
+): ImportedUpdateRow[] {
+  return table.rows.map((row, index) => {
+    const identifier = cellText(row[columns.identifier])
+    const rawDate = row[columns.date] ?? ''
+    const message = cellText(row[columns.message])
+    const createdAt = parseImportDate(rawDate)
+    const marketId = identifier ? markets[identifier] ?? null : null
+
+    const errors: string[] = []
+    if (!identifier) errors.push('No franchisee')
+    else if (!marketId) errors.push(`"${identifier}" isn't mapped to a market`)
+    if (!cellText(rawDate)) errors.push('No date')
+    else if (!createdAt) errors.push(`"${cellText(rawDate)}" isn't a date`)
+    else if (new Date(createdAt) > now) errors.push('The date is in the future')
+    if (!message) errors.push('The update is empty')
+
+    return { rowNumber: index + 1, identifier, marketId, createdAt, message, errors }
+  })
+}
+
+// Identifies an update by its day and wording, so importing the same row twice,
+// or a row someone already posted that day, is caught
+export async function importKey(createdAt: string, message: string): Promise<string> {
+  const text = `${createdAt.slice(0, 10)}\n${message.trim().replace(/\s+/g, ' ')}`
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text))
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('')
+}
+
+export interface UpdateImportReport {
+  // Rows saved as updates, with the update each became
+  created: { row: ImportedUpdateRow; updateId: string }[]
+  // Rows left out, and why
+  skipped: { row: ImportedUpdateRow; reason: string }[]
+}
@@ -0,0 +1,53 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { NextRequest } from 'next/server'
+
+// Stands in for Supabase Auth: getUser() answers with whoever the test signs in
+const auth = vi.hoisted(() => ({ user: null as { id: string } | null }))
+
+vi.mock('@supabase/ssr', () => ({
+  createServerClient: () => ({
+    auth: { getUser: async () => ({ data: { user: auth.user }, error: null }) },
+  }),
+}))
+
+const { middleware } = await import('./middleware')
+
+function request(path: string) {
+  return new NextRequest(new URL(path, 'https://portal.test'))
+}
+
+describe('middleware', () => {
+  beforeEach(() => {
+    auth.user = null
+  })
+
+  it('sends signed-out users on protected routes to login, remembering where they were going', async () => {
+    const response = await middleware(request('/markets/42?tab=updates'))
+
+    expect(response.status).toBe(307)
+    const location = new URL(response.headers.get('location')!)
+    expect(location.pathname).toBe('/login')
+    expect(location.searchParams.get('redirectTo')).toBe('/markets/42?tab=updates')
+  })
+
+  it('lets signed-out users reach public routes', async () => {
+    const response = await middleware(request('/login'))
+
+    expect(response.headers.get('location')).toBeNull()
+  })
+
+  it('sends signed-in users away from login to the dashboard', async () => {
+    auth.user = { id: 'user-1' }
+    const response = await middleware(request('/login?redirectTo=/map'))
+
+    expect(response.status).toBe(307)
+    expect(response.headers.get('location')).toBe('https://portal.test/dashboard')
+  })
+
+  it('lets signed-in users through to protected routes', async () => {
+    auth.user = { id: 'user-1' }
+    const response = await middleware(request('/markets/42'))
+
+    expect(response.headers.get('location')).toBeNull()
+  })
+})
@@ -0,0 +1,64 @@
+import { NextResponse, type NextRequest } from 'next/server'
+import { createServerClient } from '@supabase/ssr'
+import { DEFAULT_REDIRECT, LOGIN_ROUTE, isProtectedRoute } from '@/lib/auth-routes'
+import { config as appConfig, requireSupabaseConfig } from '@/lib/config'
+
+export async function middleware(request: NextRequest) {
+  let response = NextResponse.next({ request })
+
+  // The local backend signs in a built-in demo user, so there is no session to
+  // check. Config refuses it outside the development profile.
+  if (appConfig.dataBackend === 'local') {
+    if (request.nextUrl.pathname === LOGIN_ROUTE) {
+      const dashboardUrl = request.nextUrl.clone()
+      dashboardUrl.pathname = DEFAULT_REDIRECT
+      dashboardUrl.search = ''
+      return NextResponse.redirect(dashboardUrl)
+    }
+    return response
+  }
+
+  const { url, anonKey } = requireSupabaseConfig()
+  const supabase = createServerClient(url, anonKey, {
+    cookies: {
+      getAll() {
+        return request.cookies.getAll()
+      },
+      setAll(cookiesToSet) {
+        // Refreshed tokens have to land on both the request (for this render)
+        // and the response (for the browser)
+        cookiesToSet.forEach(({ name, value }) => request.cookies.set(name, value))
+        response = NextResponse.next({ request })
+        cookiesToSet.forEach(({ name, value, options }) => response.cookies.set(name, value, options))
+      },
+    },
+  })
+
+  // getUser() revalidates the token with Supabase Auth, unlike getSession()
+  const { data: { user } } = await supabase.auth.getUser()
+  const { pathname, search } = request.nextUrl
+
+  if (!user && isProtectedRoute(pathname)) {
+    const loginUrl = request.nextUrl.clone()
+    loginUrl.pathname = LOGIN_ROUTE
+    loginUrl.search = ''
+    loginUrl.searchParams.set('redirectTo', `${pathname}${search}`)
+    return NextResponse.redirect(loginUrl)
+  }
+
+  if (user && pathname === LOGIN_ROUTE) {
+    const dashboardUrl = request.nextUrl.clone()
+    dashboardUrl.pathname = DEFAULT_REDIRECT
+    dashboardUrl.search = ''
+    return NextResponse.redirect(dashboardUrl)
+  }
+
+  return response
+}
+
+export const config = {
+  matcher: [
+    // Skip static assets, images and the image proxy
+    '/((?!_next/static|_next/image|favicon.ico|api/image-proxy|.*\\.(?:svg|png|jpg|jpeg|gif|webp)$).*)',
+  ],
+}
@@ -0,0 +1,100 @@
+-- Role-based access for franchisor admins, brokers and franchisees.
+-- Mirrors src/lib/roles.ts: admins and brokers see every market for their
+-- client, franchisees only the markets they are linked to in market_users.
+
+-- Same mapping as normalizeRole in src/lib/roles.ts: older rows use 'admin'
+-- for franchisor staff, and anything unknown gets the least privileged role
+update public.users
+set role = case lower(role)
+  when 'franchisor_admin' then 'franchisor_admin'
+  when 'admin' then 'franchisor_admin'
+  when 'broker' then 'broker'
+  else 'franchisee'
+end
+where role is null or role not in ('franchisor_admin', 'broker', 'franchisee');
+
+alter table public.users
+  add constraint users_role_check
+  check (role in ('franchisor_admin', 'broker', 'franchisee'));
+
+create or replace function public.current_user_role()
+returns text
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select role from public.users where id = auth.uid()
+$$;
+
+create or replace function public.can_view_market(target_market_id uuid)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select
+    public.current_user_role() in ('franchisor_admin', 'broker')
+    or exists (
+      select 1 from public.market_users mu
+      where mu.market_id = target_market_id
+        and mu.user_id = auth.uid()
+    )
+$$;
+
+alter table public.markets enable row level security;
+alter table public.properties enable row level security;
+alter table public.market_updates enable row level security;
+alter table public.market_users enable row level security;
+alter table public.users enable row level security;
+
+-- Markets
+create policy "markets_select" on public.markets
+  for select to authenticated
+  using (public.can_view_market(id));
+
+create policy "markets_write" on public.markets
+  for all to authenticated
+  using (public.current_user_role() = 'franchisor_admin')
+  with check (public.current_user_role() = 'franchisor_admin');
+
+-- Properties
+create policy "properties_select" on public.properties
+  for select to authenticated
+  using (public.can_view_market(market_id));
+
+create policy "properties_write" on public.properties
+  for all to authenticated
+  using (public.current_user_role() in ('franchisor_admin', 'broker'))
+  with check (public.current_user_role() in ('franchisor_admin', 'broker'));
+
+-- Market updates
+create policy "market_updates_select" on public.market_updates
+  for select to authenticated
+  using (public.can_view_market(market_id));
+
+create policy "market_updates_write" on public.market_updates
+  for all to authenticated
+  using (public.current_user_role() in ('franchisor_admin', 'broker'))
+  with check (public.current_user_role() in ('franchisor_admin', 'broker'));
+
+-- Market links and user profiles
+create policy "market_users_select" on public.market_users
+  for select to authenticated
+  using (user_id = auth.uid() or public.can_view_market(market_id));
+
+create policy "market_users_write" on public.market_users
+  for all to authenticated
+  using (public.current_user_role() = 'franchisor_admin')
+  with check (public.current_user_role() = 'franchisor_admin');
+
+-- Widened to everyone sharing a client in 20261019000200_client_memberships.sql
+create policy "users_select" on public.users
+  for select to authenticated
+  using (id = auth.uid());
+
+create policy "users_update_self" on public.users
+  for update to authenticated
+  using (id = auth.uid())
+  with check (id = auth.uid() and role = public.current_user_role());
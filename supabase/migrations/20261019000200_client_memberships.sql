@@ -0,0 +1,113 @@
+-- Client (franchise brand) memberships. A user only sees data for the
+-- clients they belong to; the portal picks the active one from this list.
+
+create table if not exists public.client_users (
+  client_id uuid not null references public.clients(id) on delete cascade,
+  user_id uuid not null references public.users(id) on delete cascade,
+  created_at timestamptz not null default now(),
+  primary key (client_id, user_id)
+);
+
+create index if not exists client_users_user_id_idx on public.client_users (user_id);
+
+-- Everyone existing belonged to the single demo client that was hardcoded before
+insert into public.client_users (client_id, user_id)
+select '39022dd3-45f4-4e82-b9bd-5c9733404728', u.id
+from public.users u
+on conflict do nothing;
+
+create or replace function public.is_client_member(target_client_id uuid)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (
+    select 1 from public.client_users cu
+    where cu.client_id = target_client_id
+      and cu.user_id = auth.uid()
+  )
+$$;
+
+-- Role-wide access now stops at the client boundary
+create or replace function public.can_view_market(target_market_id uuid)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (
+    select 1 from public.markets m
+    where m.id = target_market_id
+      and public.is_client_member(m.client_id)
+      and (
+        public.current_user_role() in ('franchisor_admin', 'broker')
+        or exists (
+          select 1 from public.market_users mu
+          where mu.market_id = m.id
+            and mu.user_id = auth.uid()
+        )
+      )
+  )
+$$;
+
+-- Writes stop there too: a role only carries across the clients the user belongs to
+drop policy if exists "markets_write" on public.markets;
+create policy "markets_write" on public.markets
+  for all to authenticated
+  using (public.current_user_role() = 'franchisor_admin' and public.is_client_member(client_id))
+  with check (public.current_user_role() = 'franchisor_admin' and public.is_client_member(client_id));
+
+drop policy if exists "properties_write" on public.properties;
+create policy "properties_write" on public.properties
+  for all to authenticated
+  using (public.current_user_role() in ('franchisor_admin', 'broker') and public.can_view_market(market_id))
+  with check (public.current_user_role() in ('franchisor_admin', 'broker') and public.can_view_market(market_id));
+
+drop policy if exists "market_updates_write" on public.market_updates;
+create policy "market_updates_write" on public.market_updates
+  for all to authenticated
+  using (public.current_user_role() in ('franchisor_admin', 'broker') and public.can_view_market(market_id))
+  with check (public.current_user_role() in ('franchisor_admin', 'broker') and public.can_view_market(market_id));
+
+drop policy if exists "market_users_write" on public.market_users;
+create policy "market_users_write" on public.market_users
+  for all to authenticated
+  using (public.current_user_role() = 'franchisor_admin' and public.can_view_market(market_id))
+  with check (public.current_user_role() = 'franchisor_admin' and public.can_view_market(market_id));
+
+-- Whether the signed-in user and target_user_id belong to a client in common
+create or replace function public.shares_client_with(target_user_id uuid)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (
+    select 1
+    from public.client_users mine
+    join public.client_users theirs on theirs.client_id = mine.client_id
+    where mine.user_id = auth.uid()
+      and theirs.user_id = target_user_id
+  )
+$$;
+
+-- Profiles (email, phone) are visible to the user and the people they work with, not every tenant
+drop policy if exists "users_select" on public.users;
+create policy "users_select" on public.users
+  for select to authenticated
+  using (id = auth.uid() or public.shares_client_with(id));
+
+alter table public.client_users enable row level security;
+alter table public.clients enable row level security;
+
+create policy "client_users_select_own" on public.client_users
+  for select to authenticated
+  using (user_id = auth.uid());
+
+create policy "clients_select_members" on public.clients
+  for select to authenticated
+  using (public.is_client_member(id));
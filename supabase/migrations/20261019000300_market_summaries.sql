@@ -0,0 +1,36 @@
+-- Per-market aggregates for the markets list, so the portal can load every
+-- market's counts, phases and latest update in one query instead of one per market.
+-- security_invoker keeps the RLS policies on the underlying tables in force.
+
+create or replace view public.market_summaries
+with (security_invoker = true)
+as
+select
+  m.id as market_id,
+  m.client_id,
+  coalesce(p.property_count, 0) as property_count,
+  coalesce(p.phases, '{}') as phases,
+  u.message as latest_update_message,
+  u.created_at as latest_update_at
+from public.markets m
+left join lateral (
+  select
+    count(*)::int as property_count,
+    array_agg(distinct pr.phase) filter (where pr.phase is not null) as phases
+  from public.properties pr
+  where pr.market_id = m.id
+) p on true
+left join lateral (
+  select mu.message, mu.created_at
+  from public.market_updates mu
+  where mu.market_id = m.id
+  order by mu.created_at desc
+  limit 1
+) u on true;
+
+create index if not exists properties_market_id_idx on public.properties (market_id);
+create index if not exists market_updates_market_id_created_at_idx
+  on public.market_updates (market_id, created_at desc);
+create index if not exists market_users_market_id_idx on public.market_users (market_id);
+
+grant select on public.market_summaries to authenticated;
@@ -0,0 +1,13 @@
+-- Market create/edit/archive from the portal. Archived markets drop out of
+-- the markets list but keep their properties and update history.
+
+-- States and counties picked in the territory selector:
+-- { "states": ["TX"], "counties": { "TX": ["Travis"] } }
+alter table public.markets
+  add column if not exists territory jsonb,
+  add column if not exists archived_at timestamptz;
+
+-- Market names are unique per client, ignoring case, archived or not, so a
+-- market can always be restored under its old name
+create unique index if not exists markets_client_name_key
+  on public.markets (client_id, lower(name));
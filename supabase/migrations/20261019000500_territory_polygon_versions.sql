@@ -0,0 +1,42 @@
+-- History of market territory polygons. Whenever markets.territory_polygon
+-- changes, the polygon it replaced is copied here, so a territory change can
+-- be reviewed and reverted from the market page.
+
+create table if not exists public.territory_polygon_versions (
+  id uuid primary key default gen_random_uuid(),
+  market_id uuid not null references public.markets(id) on delete cascade,
+  territory_polygon jsonb,
+  replaced_by uuid references public.users(id) on delete set null,
+  replaced_at timestamptz not null default now()
+);
+
+create index if not exists territory_polygon_versions_market_idx
+  on public.territory_polygon_versions (market_id, replaced_at desc);
+
+-- Runs as the table owner so versions can be written without a write policy;
+-- nobody edits history directly
+create or replace function public.record_territory_polygon_version()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if new.territory_polygon is distinct from old.territory_polygon then
+    insert into public.territory_polygon_versions (market_id, territory_polygon, replaced_by)
+    values (old.id, old.territory_polygon, auth.uid());
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists markets_territory_polygon_version on public.markets;
+create trigger markets_territory_polygon_version
+  after update of territory_polygon on public.markets
+  for each row execute function public.record_territory_polygon_version();
+
+alter table public.territory_polygon_versions enable row level security;
+
+create policy "territory_polygon_versions_select" on public.territory_polygon_versions
+  for select to authenticated
+  using (public.can_view_market(market_id));
@@ -0,0 +1,51 @@
+-- Property create/edit/delete from the portal. Deleting only sets deleted_at,
+-- so a delete can be undone; deleted rows drop out of every list and count.
+
+alter table public.properties
+  add column if not exists deleted_at timestamptz;
+
+create index if not exists properties_live_market_id_idx
+  on public.properties (market_id)
+  where deleted_at is null;
+
+-- Same view as before, counting only properties that haven't been deleted
+create or replace view public.market_summaries
+with (security_invoker = true)
+as
+select
+  m.id as market_id,
+  m.client_id,
+  coalesce(p.property_count, 0) as property_count,
+  coalesce(p.phases, '{}') as phases,
+  u.message as latest_update_message,
+  u.created_at as latest_update_at
+from public.markets m
+left join lateral (
+  select
+    count(*)::int as property_count,
+    array_agg(distinct pr.phase) filter (where pr.phase is not null) as phases
+  from public.properties pr
+  where pr.market_id = m.id
+    and pr.deleted_at is null
+) p on true
+left join lateral (
+  select mu.message, mu.created_at
+  from public.market_updates mu
+  where mu.market_id = m.id
+  order by mu.created_at desc
+  limit 1
+) u on true;
+
+-- Property photos, stored as <market_id>/<uuid>.<ext>. Public to read, like
+-- the flyers bucket; only the roles that can edit properties can upload.
+insert into storage.buckets (id, name, public)
+values ('property-photos', 'property-photos', true)
+on conflict (id) do nothing;
+
+drop policy if exists "property_photos_insert" on storage.objects;
+create policy "property_photos_insert" on storage.objects
+  for insert to authenticated
+  with check (
+    bucket_id = 'property-photos'
+    and public.current_user_role() in ('franchisor_admin', 'broker')
+  );
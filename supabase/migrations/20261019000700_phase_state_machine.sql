@@ -0,0 +1,195 @@
+-- Deal phases as a per-client state machine. phase_definitions lists each
+-- client's phases in order with the phases each can move to; properties can
+-- only take a defined phase and only move along an allowed transition.
+-- Every phase change is written to property_phase_history by trigger.
+-- Mirrors src/lib/phases.ts.
+
+create table if not exists public.phase_definitions (
+  client_id uuid not null references public.clients(id) on delete cascade,
+  key text not null,
+  label text not null,
+  variant text not null default 'outline'
+    check (variant in ('default', 'secondary', 'outline', 'destructive')),
+  color text not null default '#6b7280',
+  position int not null,
+  next_phases text[] not null default '{}',
+  primary key (client_id, key)
+);
+
+-- The default pipeline (DEFAULT_PHASE_DEFINITIONS)
+create or replace function public.seed_phase_definitions(target_client_id uuid)
+returns void
+language sql
+security definer
+set search_path = public
+as $$
+  insert into public.phase_definitions (client_id, key, label, variant, color, position, next_phases)
+  values
+    (target_client_id, 'intro', 'Intro', 'outline', '#94a3b8', 1, '{site_selection}'),
+    (target_client_id, 'site_selection', 'Site Selection', 'outline', '#3b82f6', 2, '{intro,loi}'),
+    (target_client_id, 'loi', 'LOI', 'secondary', '#f59e0b', 3, '{site_selection,lease}'),
+    (target_client_id, 'lease', 'Lease', 'default', '#8b5cf6', 4, '{loi,closed}'),
+    (target_client_id, 'closed', 'Closed', 'secondary', '#16a34a', 5, '{}')
+  on conflict do nothing
+$$;
+
+select public.seed_phase_definitions(c.id) from public.clients c;
+
+create or replace function public.seed_client_phase_definitions()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  perform public.seed_phase_definitions(new.id);
+  return new;
+end
+$$;
+
+drop trigger if exists clients_seed_phase_definitions on public.clients;
+create trigger clients_seed_phase_definitions
+  after insert on public.clients
+  for each row execute function public.seed_client_phase_definitions();
+
+create table if not exists public.property_phase_history (
+  id uuid primary key default gen_random_uuid(),
+  property_id uuid not null references public.properties(id) on delete cascade,
+  -- Null for the phase a property was created in
+  from_phase text,
+  to_phase text not null,
+  changed_by uuid references public.users(id) on delete set null,
+  -- Kept as written so the history still reads right if the user is removed
+  changed_by_name text,
+  reason text,
+  changed_at timestamptz not null default now()
+);
+
+create index if not exists property_phase_history_property_id_idx
+  on public.property_phase_history (property_id, changed_at desc);
+
+-- Reject phases the client doesn't define and moves its pipeline doesn't
+-- allow. A property still in a phase the pipeline no longer defines may move
+-- to any defined phase.
+create or replace function public.enforce_property_phase()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  target_client_id uuid;
+  allowed text[];
+begin
+  if tg_op = 'UPDATE' and new.phase is not distinct from old.phase then
+    return new;
+  end if;
+
+  select m.client_id into target_client_id from public.markets m where m.id = new.market_id;
+
+  if not exists (
+    select 1 from public.phase_definitions d
+    where d.client_id = target_client_id and d.key = new.phase
+  ) then
+    raise exception 'Unknown phase "%"', new.phase;
+  end if;
+
+  if tg_op = 'UPDATE' then
+    select d.next_phases into allowed
+    from public.phase_definitions d
+    where d.client_id = target_client_id and d.key = old.phase;
+
+    if allowed is not null and not (new.phase = any (allowed)) then
+      raise exception 'A property can''t move from "%" to "%"', old.phase, new.phase;
+    end if;
+  end if;
+
+  return new;
+end
+$$;
+
+drop trigger if exists properties_enforce_phase on public.properties;
+create trigger properties_enforce_phase
+  before insert or update of phase on public.properties
+  for each row execute function public.enforce_property_phase();
+
+-- Record every phase change. The reason comes from change_property_phase;
+-- changes made by a plain update are recorded without one.
+create or replace function public.record_property_phase_change()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if tg_op = 'UPDATE' and new.phase is not distinct from old.phase then
+    return new;
+  end if;
+
+  insert into public.property_phase_history (property_id, from_phase, to_phase, changed_by, changed_by_name, reason)
+  select
+    new.id,
+    case when tg_op = 'UPDATE' then old.phase end,
+    new.phase,
+    auth.uid(),
+    (select coalesce(u.full_name, u.email) from public.users u where u.id = auth.uid()),
+    nullif(current_setting('app.phase_change_reason', true), '');
+
+  return new;
+end
+$$;
+
+drop trigger if exists properties_record_phase_change on public.properties;
+create trigger properties_record_phase_change
+  after insert or update of phase on public.properties
+  for each row execute function public.record_property_phase_change();
+
+-- Move a property to another phase with a reason. Runs as the caller, so the
+-- properties_write policy still decides who may do it.
+create or replace function public.change_property_phase(target_property_id uuid, new_phase text, reason text default null)
+returns public.properties
+language plpgsql
+security invoker
+set search_path = public
+as $$
+declare
+  result public.properties;
+begin
+  perform set_config('app.phase_change_reason', coalesce(reason, ''), true);
+
+  update public.properties
+  set phase = new_phase, updated_at = now()
+  where id = target_property_id and deleted_at is null
+  returning * into result;
+
+  perform set_config('app.phase_change_reason', '', true);
+
+  if result.id is null then
+    raise exception 'Property not found';
+  end if;
+
+  return result;
+end
+$$;
+
+grant execute on function public.change_property_phase(uuid, text, text) to authenticated;
+
+alter table public.phase_definitions enable row level security;
+alter table public.property_phase_history enable row level security;
+
+create policy "phase_definitions_select_members" on public.phase_definitions
+  for select to authenticated
+  using (public.is_client_member(client_id));
+
+create policy "phase_definitions_write" on public.phase_definitions
+  for all to authenticated
+  using (public.current_user_role() = 'franchisor_admin' and public.is_client_member(client_id))
+  with check (public.current_user_role() = 'franchisor_admin' and public.is_client_member(client_id));
+
+-- History is only written by the trigger
+create policy "property_phase_history_select" on public.property_phase_history
+  for select to authenticated
+  using (exists (
+    select 1 from public.properties p
+    where p.id = property_id and public.can_view_market(p.market_id)
+  ));
@@ -0,0 +1,87 @@
+-- Pipeline velocity analytics. Each phase gets a stall limit: how many days a
+-- deal can sit in it before it's flagged. Properties added before
+-- property_phase_history existed get an estimated history so time-in-phase
+-- covers them too. Mirrors src/lib/pipeline-analytics.ts.
+
+alter table public.phase_definitions
+  add column if not exists stall_after_days int
+    check (stall_after_days is null or stall_after_days between 1 and 3650);
+
+update public.phase_definitions
+set stall_after_days = case key
+  when 'intro' then 30
+  when 'site_selection' then 60
+  when 'loi' then 30
+  when 'lease' then 45
+end
+where stall_after_days is null;
+
+-- The default pipeline (DEFAULT_PHASE_DEFINITIONS)
+create or replace function public.seed_phase_definitions(target_client_id uuid)
+returns void
+language sql
+security definer
+set search_path = public
+as $$
+  insert into public.phase_definitions (client_id, key, label, variant, color, position, next_phases, stall_after_days)
+  values
+    (target_client_id, 'intro', 'Intro', 'outline', '#94a3b8', 1, '{site_selection}', 30),
+    (target_client_id, 'site_selection', 'Site Selection', 'outline', '#3b82f6', 2, '{intro,loi}', 60),
+    (target_client_id, 'loi', 'LOI', 'secondary', '#f59e0b', 3, '{site_selection,lease}', 30),
+    (target_client_id, 'lease', 'Lease', 'default', '#8b5cf6', 4, '{loi,closed}', 45),
+    (target_client_id, 'closed', 'Closed', 'secondary', '#16a34a', 5, '{}', null)
+  on conflict do nothing
+$$;
+
+-- Rows written by the backfill below rather than by a real phase change
+alter table public.property_phase_history
+  add column if not exists estimated boolean not null default false;
+
+create index if not exists property_phase_history_changed_at_idx
+  on public.property_phase_history (changed_at);
+
+-- Backfill properties with no history (estimatePhaseStays). One never edited
+-- since it was added, or in its client's first phase, has been in its phase
+-- all along. Otherwise it's taken to have started one phase earlier and moved
+-- on when the market's updates first mention the current phase, or at its
+-- last edit if sooner.
+with candidates as (
+  select
+    p.id,
+    p.market_id,
+    p.phase,
+    p.created_at,
+    p.updated_at,
+    d.label,
+    (
+      select prev.key from public.phase_definitions prev
+      where prev.client_id = d.client_id and prev.position < d.position
+      order by prev.position desc
+      limit 1
+    ) as previous_phase
+  from public.properties p
+  join public.markets m on m.id = p.market_id
+  left join public.phase_definitions d on d.client_id = m.client_id and d.key = p.phase
+  where not exists (select 1 from public.property_phase_history h where h.property_id = p.id)
+),
+timelines as (
+  select
+    c.*,
+    case
+      when c.previous_phase is null or c.updated_at is null or c.updated_at <= c.created_at then null
+      else least(c.updated_at, (
+        select min(u.created_at) from public.market_updates u
+        where u.market_id = c.market_id
+          and u.created_at > c.created_at
+          and u.message ~* ('\m(' || regexp_replace(coalesce(c.label, c.phase), '([.*+?^${}()|\[\]\\])', '\\\1', 'g')
+            || '|' || replace(c.phase, '_', ' ') || ')\M')
+      ))
+    end as moved_at
+  from candidates c
+)
+insert into public.property_phase_history (property_id, from_phase, to_phase, changed_at, estimated)
+select id, null, previous_phase, created_at, true from timelines where moved_at is not null
+union all
+select id, previous_phase, phase, moved_at, true from timelines where moved_at is not null
+union all
+select id, null, phase, created_at, true from timelines where moved_at is null;
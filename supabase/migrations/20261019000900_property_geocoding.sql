@@ -0,0 +1,20 @@
+-- Where a property's coordinates came from. DataService geocodes the address
+-- on save (src/lib/geocoding.ts); failed and rough matches are listed on the
+-- needs-attention page for someone to place by hand.
+
+alter table public.properties
+  add column if not exists geocode_status text
+    check (geocode_status in ('matched', 'low_confidence', 'failed', 'manual')),
+  add column if not exists geocode_confidence numeric(3, 2)
+    check (geocode_confidence between 0 and 1);
+
+-- Coordinates already on file were entered by hand or imported
+update public.properties
+set geocode_status = 'manual'
+where lat is not null and lng is not null and geocode_status is null;
+
+-- The needs-attention list
+create index if not exists properties_needs_geocode_idx
+  on public.properties (market_id)
+  where deleted_at is null
+    and (lat is null or lng is null or geocode_status in ('failed', 'low_confidence'));
@@ -0,0 +1,62 @@
+-- Points counted in trade-area analysis around a candidate site
+-- (src/lib/trade-area.ts): competing schools, the client's own locations and
+-- demographic samples, uploaded per market.
+
+create table if not exists public.trade_area_points (
+  id uuid primary key default gen_random_uuid(),
+  market_id uuid not null references public.markets(id) on delete cascade,
+  kind text not null check (kind in ('competitor', 'sister', 'demographic')),
+  name text not null check (length(trim(name)) > 0),
+  lat double precision not null check (lat between -90 and 90),
+  lng double precision not null check (lng between -180 and 180),
+  -- What a demographic point stands for, e.g. households with children
+  value numeric check (value >= 0),
+  created_at timestamptz not null default now()
+);
+
+create index if not exists trade_area_points_market_kind_idx
+  on public.trade_area_points (market_id, kind);
+
+alter table public.trade_area_points enable row level security;
+
+create policy "trade_area_points_select" on public.trade_area_points
+  for select to authenticated
+  using (public.can_view_market(market_id));
+
+create policy "trade_area_points_write" on public.trade_area_points
+  for all to authenticated
+  using (public.current_user_role() in ('franchisor_admin', 'broker') and public.can_view_market(market_id))
+  with check (public.current_user_role() in ('franchisor_admin', 'broker') and public.can_view_market(market_id));
+
+-- Swap one kind of point for a market in a single transaction, so a failed
+-- upload leaves the old points in place. Runs as the caller, so the policies
+-- above still decide who may do it.
+create or replace function public.replace_trade_area_points(
+  target_market_id uuid,
+  point_kind text,
+  new_points jsonb
+)
+returns setof public.trade_area_points
+language plpgsql
+security invoker
+set search_path = public
+as $$
+begin
+  delete from public.trade_area_points
+  where market_id = target_market_id and kind = point_kind;
+
+  return query
+  insert into public.trade_area_points (market_id, kind, name, lat, lng, value)
+  select
+    target_market_id,
+    point_kind,
+    point->>'name',
+    (point->>'lat')::double precision,
+    (point->>'lng')::double precision,
+    (point->>'value')::numeric
+  from jsonb_array_elements(new_points) as point
+  returning *;
+end
+$$;
+
+grant execute on function public.replace_trade_area_points(uuid, text, jsonb) to authenticated;
@@ -0,0 +1,165 @@
+-- Document library (src/lib/documents.ts): flyers, reports and deal paperwork
+-- for a market or one of its properties. Each upload is a new version; the
+-- files live in the private market-documents bucket under <market_id>/.
+
+create table if not exists public.documents (
+  id uuid primary key default gen_random_uuid(),
+  market_id uuid not null references public.markets(id) on delete cascade,
+  -- Null for documents about the whole market
+  property_id uuid references public.properties(id) on delete cascade,
+  category text not null check (category in (
+    'marketing', 'as_built', 'demographic_report', 'placer_report', 'loi', 'lease', 'other'
+  )),
+  title text not null check (length(trim(title)) between 1 and 200),
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  deleted_at timestamptz
+);
+
+create index if not exists documents_live_market_idx
+  on public.documents (market_id, property_id)
+  where deleted_at is null;
+
+create table if not exists public.document_versions (
+  id uuid primary key default gen_random_uuid(),
+  document_id uuid not null references public.documents(id) on delete cascade,
+  version int not null check (version > 0),
+  bucket text not null,
+  path text not null,
+  file_name text not null,
+  content_type text not null,
+  size_bytes bigint not null check (size_bytes >= 0),
+  uploaded_by uuid references public.users(id) on delete set null,
+  uploaded_by_name text,
+  created_at timestamptz not null default now(),
+  unique (document_id, version)
+);
+
+alter table public.documents enable row level security;
+alter table public.document_versions enable row level security;
+
+create policy "documents_select" on public.documents
+  for select to authenticated
+  using (public.can_view_market(market_id));
+
+create policy "documents_write" on public.documents
+  for all to authenticated
+  using (public.current_user_role() in ('franchisor_admin', 'broker') and public.can_view_market(market_id))
+  with check (public.current_user_role() in ('franchisor_admin', 'broker') and public.can_view_market(market_id));
+
+create policy "document_versions_select" on public.document_versions
+  for select to authenticated
+  using (exists (
+    select 1 from public.documents d
+    where d.id = document_id and public.can_view_market(d.market_id)
+  ));
+
+-- Versions are only ever added, never edited
+create policy "document_versions_insert" on public.document_versions
+  for insert to authenticated
+  with check (
+    public.current_user_role() in ('franchisor_admin', 'broker')
+    and exists (
+      select 1 from public.documents d
+      where d.id = document_id and public.can_view_market(d.market_id)
+    )
+  );
+
+-- Insert a version numbered one past the newest. Locks the document so two
+-- uploads at once can't take the same number. Runs as the caller, so the
+-- policies above still decide who may do it.
+create or replace function public.add_document_version(target_document_id uuid, file jsonb)
+returns public.document_versions
+language plpgsql
+security invoker
+set search_path = public
+as $$
+declare
+  saved public.document_versions;
+begin
+  perform 1 from public.documents
+  where id = target_document_id and deleted_at is null
+  for update;
+
+  if not found then
+    raise exception 'Document not found' using errcode = 'P0002';
+  end if;
+
+  insert into public.document_versions (
+    document_id, version, bucket, path, file_name, content_type, size_bytes, uploaded_by, uploaded_by_name
+  )
+  select
+    target_document_id,
+    coalesce((select max(v.version) from public.document_versions v where v.document_id = target_document_id), 0) + 1,
+    file->>'bucket',
+    file->>'path',
+    file->>'file_name',
+    file->>'content_type',
+    (file->>'size_bytes')::bigint,
+    auth.uid(),
+    (select coalesce(u.full_name, u.email) from public.users u where u.id = auth.uid())
+  returning * into saved;
+
+  update public.documents set updated_at = now() where id = target_document_id;
+
+  return saved;
+end
+$$;
+
+-- Create a document with its first version in one transaction
+create or replace function public.create_document(document jsonb, file jsonb)
+returns jsonb
+language plpgsql
+security invoker
+set search_path = public
+as $$
+declare
+  saved public.documents;
+  first_version public.document_versions;
+begin
+  insert into public.documents (market_id, property_id, category, title)
+  values (
+    (document->>'market_id')::uuid,
+    (document->>'property_id')::uuid,
+    document->>'category',
+    document->>'title'
+  )
+  returning * into saved;
+
+  first_version := public.add_document_version(saved.id, file);
+
+  return to_jsonb(saved) || jsonb_build_object('versions', jsonb_build_array(to_jsonb(first_version)));
+end
+$$;
+
+grant execute on function public.add_document_version(uuid, jsonb) to authenticated;
+grant execute on function public.create_document(jsonb, jsonb) to authenticated;
+
+-- Private: files are opened through signed links, and only by people who can
+-- see the market named by the first folder of the path
+insert into storage.buckets (id, name, public)
+values ('market-documents', 'market-documents', false)
+on conflict (id) do nothing;
+
+drop policy if exists "market_documents_select" on storage.objects;
+create policy "market_documents_select" on storage.objects
+  for select to authenticated
+  using (
+    bucket_id = 'market-documents'
+    and exists (
+      select 1 from public.markets m
+      where m.id::text = (storage.foldername(name))[1] and public.can_view_market(m.id)
+    )
+  );
+
+drop policy if exists "market_documents_insert" on storage.objects;
+create policy "market_documents_insert" on storage.objects
+  for insert to authenticated
+  with check (
+    bucket_id = 'market-documents'
+    and public.current_user_role() in ('franchisor_admin', 'broker')
+    and exists (
+      select 1 from public.markets m
+      where m.id::text = (storage.foldername(name))[1] and public.can_view_market(m.id)
+    )
+  );
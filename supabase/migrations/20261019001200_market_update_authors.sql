@@ -0,0 +1,80 @@
+-- Market updates record who posted them. The thread shows the poster's name,
+-- organization and avatar from their user row; the author text column stays
+-- as the name at posting time and for updates from before this change.
+
+alter table public.users add column if not exists organization text;
+
+alter table public.market_updates
+  add column if not exists author_id uuid references public.users(id) on delete set null;
+
+create index if not exists market_updates_author_id_idx
+  on public.market_updates (author_id);
+
+-- The author is always the signed-in user, whatever the client sends
+create or replace function public.set_market_update_author()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  new.author_id := auth.uid();
+  new.author := coalesce(
+    (select coalesce(u.full_name, u.email) from public.users u where u.id = auth.uid()),
+    new.author
+  );
+  return new;
+end;
+$$;
+
+drop trigger if exists market_updates_set_author on public.market_updates;
+create trigger market_updates_set_author
+  before insert on public.market_updates
+  for each row execute function public.set_market_update_author();
+
+-- Authorship can't be reassigned after posting
+create or replace function public.keep_market_update_author()
+returns trigger
+language plpgsql
+as $$
+begin
+  new.author_id := old.author_id;
+  new.author := old.author;
+  return new;
+end;
+$$;
+
+drop trigger if exists market_updates_keep_author on public.market_updates;
+create trigger market_updates_keep_author
+  before update on public.market_updates
+  for each row execute function public.keep_market_update_author();
+
+-- Posters can post to markets they can see; only the author or an admin can
+-- change or remove an update
+drop policy if exists "market_updates_write" on public.market_updates;
+
+create policy "market_updates_insert" on public.market_updates
+  for insert to authenticated
+  with check (
+    public.current_user_role() in ('franchisor_admin', 'broker')
+    and public.can_view_market(market_id)
+    and author_id = auth.uid()
+  );
+
+create policy "market_updates_update" on public.market_updates
+  for update to authenticated
+  using (
+    author_id = auth.uid()
+    or (public.current_user_role() = 'franchisor_admin' and public.can_view_market(market_id))
+  )
+  with check (
+    author_id = auth.uid()
+    or (public.current_user_role() = 'franchisor_admin' and public.can_view_market(market_id))
+  );
+
+create policy "market_updates_delete" on public.market_updates
+  for delete to authenticated
+  using (
+    author_id = auth.uid()
+    or (public.current_user_role() = 'franchisor_admin' and public.can_view_market(market_id))
+  );
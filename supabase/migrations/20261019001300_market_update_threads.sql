@@ -0,0 +1,228 @@
+-- Threads on market updates: replies to an update, @mentions of people linked
+-- to the market, and emoji acknowledgements. Mentions and replies notify the
+-- people concerned through the notifications table.
+
+-- Replies are updates with a parent; they don't nest further
+alter table public.market_updates
+  add column if not exists parent_id uuid references public.market_updates(id) on delete cascade,
+  -- Users mentioned in the message, all linked to the market
+  add column if not exists mentions uuid[] not null default '{}';
+
+create index if not exists market_updates_parent_id_idx
+  on public.market_updates (parent_id)
+  where parent_id is not null;
+
+-- A reply goes on a top-level update in the same market
+create or replace function public.check_market_update_parent()
+returns trigger
+language plpgsql
+as $$
+declare
+  parent public.market_updates;
+begin
+  if new.parent_id is null then
+    return new;
+  end if;
+
+  select * into parent from public.market_updates where id = new.parent_id;
+  if parent.id is null or parent.market_id <> new.market_id then
+    raise exception 'Replies must be to an update in the same market' using errcode = '23514';
+  end if;
+  if parent.parent_id is not null then
+    raise exception 'Replies can''t be replied to' using errcode = '23514';
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists market_updates_check_parent on public.market_updates;
+create trigger market_updates_check_parent
+  before insert on public.market_updates
+  for each row execute function public.check_market_update_parent();
+
+-- Only people linked to the market can be mentioned; anyone else is dropped
+create or replace function public.filter_market_update_mentions()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  new.mentions := coalesce(array(
+    select distinct mu.user_id
+    from public.market_users mu
+    where mu.market_id = new.market_id
+      and mu.user_id = any(new.mentions)
+  ), '{}');
+  return new;
+end;
+$$;
+
+drop trigger if exists market_updates_filter_mentions on public.market_updates;
+create trigger market_updates_filter_mentions
+  before insert or update of mentions on public.market_updates
+  for each row execute function public.filter_market_update_mentions();
+
+-- Replying keeps the thread out of the markets list's latest update
+create or replace view public.market_summaries
+with (security_invoker = true)
+as
+select
+  m.id as market_id,
+  m.client_id,
+  coalesce(p.property_count, 0) as property_count,
+  coalesce(p.phases, '{}') as phases,
+  u.message as latest_update_message,
+  u.created_at as latest_update_at
+from public.markets m
+left join lateral (
+  select
+    count(*)::int as property_count,
+    array_agg(distinct pr.phase) filter (where pr.phase is not null) as phases
+  from public.properties pr
+  where pr.market_id = m.id
+    and pr.deleted_at is null
+) p on true
+left join lateral (
+  select mu.message, mu.created_at
+  from public.market_updates mu
+  where mu.market_id = m.id
+    and mu.parent_id is null
+  order by mu.created_at desc
+  limit 1
+) u on true;
+
+-- Anyone who can see a market can reply; only staff and brokers start threads
+drop policy if exists "market_updates_insert" on public.market_updates;
+
+create policy "market_updates_insert" on public.market_updates
+  for insert to authenticated
+  with check (
+    public.can_view_market(market_id)
+    and author_id = auth.uid()
+    and (parent_id is not null or public.current_user_role() in ('franchisor_admin', 'broker'))
+  );
+
+-- Reactions
+create table if not exists public.market_update_reactions (
+  update_id uuid not null references public.market_updates(id) on delete cascade,
+  -- Copied from the update, for policies and realtime filters
+  market_id uuid not null references public.markets(id) on delete cascade,
+  user_id uuid not null references public.users(id) on delete cascade,
+  user_name text,
+  emoji text not null check (emoji in ('👍', '✅', '👀', '🎉')),
+  created_at timestamptz not null default now(),
+  primary key (update_id, user_id, emoji)
+);
+
+create index if not exists market_update_reactions_market_id_idx
+  on public.market_update_reactions (market_id);
+
+create or replace function public.set_market_update_reaction_fields()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  new.user_id := auth.uid();
+  new.user_name := (select coalesce(u.full_name, u.email) from public.users u where u.id = auth.uid());
+  new.market_id := (select mu.market_id from public.market_updates mu where mu.id = new.update_id);
+  return new;
+end;
+$$;
+
+drop trigger if exists market_update_reactions_set_fields on public.market_update_reactions;
+create trigger market_update_reactions_set_fields
+  before insert on public.market_update_reactions
+  for each row execute function public.set_market_update_reaction_fields();
+
+alter table public.market_update_reactions enable row level security;
+
+create policy "market_update_reactions_select" on public.market_update_reactions
+  for select to authenticated
+  using (public.can_view_market(market_id));
+
+create policy "market_update_reactions_insert" on public.market_update_reactions
+  for insert to authenticated
+  with check (user_id = auth.uid() and public.can_view_market(market_id));
+
+create policy "market_update_reactions_delete" on public.market_update_reactions
+  for delete to authenticated
+  using (user_id = auth.uid());
+
+-- Notifications
+create table if not exists public.notifications (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references public.users(id) on delete cascade,
+  kind text not null check (kind in ('mention', 'reply')),
+  market_id uuid not null references public.markets(id) on delete cascade,
+  update_id uuid not null references public.market_updates(id) on delete cascade,
+  actor_id uuid references public.users(id) on delete set null,
+  actor_name text,
+  excerpt text not null,
+  read_at timestamptz,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists notifications_user_id_created_at_idx
+  on public.notifications (user_id, created_at desc);
+
+alter table public.notifications enable row level security;
+
+-- Rows are written by the trigger below; people only read and dismiss their own
+create policy "notifications_select" on public.notifications
+  for select to authenticated
+  using (user_id = auth.uid());
+
+create policy "notifications_update" on public.notifications
+  for update to authenticated
+  using (user_id = auth.uid())
+  with check (user_id = auth.uid());
+
+-- Tells newly mentioned people, and the author of the update being replied
+-- to, unless they wrote the message themselves
+create or replace function public.notify_market_update()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  excerpt text := left(new.message, 140);
+  previous uuid[] := case when tg_op = 'UPDATE' then old.mentions else '{}' end;
+  parent_author uuid;
+begin
+  insert into public.notifications (user_id, kind, market_id, update_id, actor_id, actor_name, excerpt)
+  select mentioned, 'mention', new.market_id, new.id, new.author_id, new.author, excerpt
+  from unnest(new.mentions) as mentioned
+  where mentioned <> all(previous)
+    and mentioned is distinct from new.author_id;
+
+  if tg_op = 'INSERT' and new.parent_id is not null then
+    select mu.author_id into parent_author from public.market_updates mu where mu.id = new.parent_id;
+    if parent_author is not null
+      and parent_author is distinct from new.author_id
+      and parent_author <> all(new.mentions) then
+      insert into public.notifications (user_id, kind, market_id, update_id, actor_id, actor_name, excerpt)
+      values (parent_author, 'reply', new.market_id, new.id, new.author_id, new.author, excerpt);
+    end if;
+  end if;
+
+  return null;
+end;
+$$;
+
+drop trigger if exists market_updates_notify on public.market_updates;
+create trigger market_updates_notify
+  after insert or update of mentions on public.market_updates
+  for each row execute function public.notify_market_update();
+
+-- The portal listens for reactions and notifications as they happen
+do $$
+begin
+  if exists (select 1 from pg_publication where pubname = 'supabase_realtime') then
+    alter publication supabase_realtime add table public.market_update_reactions, public.notifications;
+  end if;
+end;
+$$;
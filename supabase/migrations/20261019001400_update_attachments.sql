@@ -0,0 +1,59 @@
+-- Attachments on market updates (src/lib/market-updates.ts): photos and files
+-- posted with an update. The files live in the private update-attachments
+-- bucket under <market_id>/; the update keeps a list of them.
+
+-- [{ bucket, path, file_name, content_type, size_bytes }]
+alter table public.market_updates
+  add column if not exists attachments jsonb not null default '[]'
+    check (jsonb_typeof(attachments) = 'array');
+
+-- Attachments have to be files in the update's own market folder, so the
+-- storage policies below cover whoever can see the update
+create or replace function public.check_market_update_attachments()
+returns trigger
+language plpgsql
+as $$
+begin
+  if exists (
+    select 1 from jsonb_array_elements(new.attachments) a
+    where (a->>'path') is null or (a->>'path') not like new.market_id::text || '/%'
+  ) then
+    raise exception 'Attachments must be uploaded to the update''s market'
+      using errcode = '23514';
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists check_market_update_attachments on public.market_updates;
+create trigger check_market_update_attachments
+  before insert or update of attachments on public.market_updates
+  for each row execute function public.check_market_update_attachments();
+
+-- Private: files are opened through signed links. Anyone who can see the
+-- market can read them, and upload with their own updates and replies.
+insert into storage.buckets (id, name, public)
+values ('update-attachments', 'update-attachments', false)
+on conflict (id) do nothing;
+
+drop policy if exists "update_attachments_select" on storage.objects;
+create policy "update_attachments_select" on storage.objects
+  for select to authenticated
+  using (
+    bucket_id = 'update-attachments'
+    and exists (
+      select 1 from public.markets m
+      where m.id::text = (storage.foldername(name))[1] and public.can_view_market(m.id)
+    )
+  );
+
+drop policy if exists "update_attachments_insert" on storage.objects;
+create policy "update_attachments_insert" on storage.objects
+  for insert to authenticated
+  with check (
+    bucket_id = 'update-attachments'
+    and exists (
+      select 1 from public.markets m
+      where m.id::text = (storage.foldername(name))[1] and public.can_view_market(m.id)
+    )
+  );
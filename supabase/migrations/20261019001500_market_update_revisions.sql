@@ -0,0 +1,189 @@
+-- Audit trail for market updates. Editing an update copies the message it
+-- replaced to market_update_revisions, and deleting one leaves a tombstone
+-- that admins can restore, so there's always a record of what was said.
+-- The thread still shows a deleted update as deleted, but what it said moves
+-- to market_update_deleted_content, which only admins can read, until it's
+-- restored.
+
+alter table public.market_updates
+  -- Set whenever the message changes
+  add column if not exists edited_at timestamptz,
+  add column if not exists deleted_at timestamptz,
+  add column if not exists deleted_by uuid references public.users(id) on delete set null,
+  -- Kept as written so the tombstone still reads right if the user is removed
+  add column if not exists deleted_by_name text;
+
+create table if not exists public.market_update_revisions (
+  id uuid primary key default gen_random_uuid(),
+  update_id uuid not null references public.market_updates(id) on delete cascade,
+  market_id uuid not null references public.markets(id) on delete cascade,
+  -- The message and mentions as they were before the edit
+  message text not null,
+  mentions uuid[] not null default '{}',
+  edited_by uuid references public.users(id) on delete set null,
+  edited_by_name text,
+  edited_at timestamptz not null default now()
+);
+
+create index if not exists market_update_revisions_update_idx
+  on public.market_update_revisions (update_id, edited_at);
+
+-- The message and attachments of a deleted update. The update itself keeps
+-- an empty message and no attachments while it's deleted.
+create table if not exists public.market_update_deleted_content (
+  update_id uuid primary key references public.market_updates(id) on delete cascade,
+  market_id uuid not null references public.markets(id) on delete cascade,
+  message text not null,
+  attachments jsonb not null default '[]'
+);
+
+-- Runs as the table owner so revisions and deleted content can be written
+-- without a write policy; nobody edits history directly. Also stamps
+-- deletes, sets aside what a deleted update said and keeps restoring to
+-- admins.
+create or replace function public.record_market_update_revision()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  editor_name text := (select coalesce(u.full_name, u.email) from public.users u where u.id = auth.uid());
+  stashed public.market_update_deleted_content;
+begin
+  if old.deleted_at is not null and new.deleted_at is not null and new.message is distinct from old.message then
+    raise exception 'Restore the update before editing it' using errcode = '23514';
+  end if;
+
+  -- Deleting and restoring move the message rather than edit it
+  if old.deleted_at is null and new.deleted_at is not null then
+    insert into public.market_update_deleted_content (update_id, market_id, message, attachments)
+    values (old.id, old.market_id, old.message, old.attachments)
+    on conflict (update_id) do update
+      set message = excluded.message, attachments = excluded.attachments;
+    -- Notifications quote the message
+    delete from public.notifications where update_id = old.id;
+
+    new.message := '';
+    new.attachments := '[]';
+    new.edited_at := old.edited_at;
+    new.deleted_at := now();
+    new.deleted_by := auth.uid();
+    new.deleted_by_name := editor_name;
+  elsif old.deleted_at is not null and new.deleted_at is null then
+    if public.current_user_role() <> 'franchisor_admin' then
+      raise exception 'Only an admin can restore deleted updates' using errcode = '42501';
+    end if;
+
+    delete from public.market_update_deleted_content
+    where update_id = old.id
+    returning * into stashed;
+
+    new.message := coalesce(stashed.message, old.message);
+    new.attachments := coalesce(stashed.attachments, old.attachments);
+    new.edited_at := old.edited_at;
+    new.deleted_by := null;
+    new.deleted_by_name := null;
+  else
+    if new.message is distinct from old.message then
+      insert into public.market_update_revisions (update_id, market_id, message, mentions, edited_by, edited_by_name)
+      values (old.id, old.market_id, old.message, old.mentions, auth.uid(), editor_name);
+      new.edited_at := now();
+    else
+      new.edited_at := old.edited_at;
+    end if;
+
+    new.deleted_at := old.deleted_at;
+    new.deleted_by := old.deleted_by;
+    new.deleted_by_name := old.deleted_by_name;
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists market_updates_record_revision on public.market_updates;
+create trigger market_updates_record_revision
+  before update on public.market_updates
+  for each row execute function public.record_market_update_revision();
+
+alter table public.market_update_revisions enable row level security;
+
+-- Earlier wording of a deleted update is as hidden as its message
+create policy "market_update_revisions_select" on public.market_update_revisions
+  for select to authenticated
+  using (
+    public.can_view_market(market_id)
+    and (
+      public.current_user_role() = 'franchisor_admin'
+      or exists (
+        select 1 from public.market_updates mu
+        where mu.id = update_id and mu.deleted_at is null
+      )
+    )
+  );
+
+alter table public.market_update_deleted_content enable row level security;
+
+create policy "market_update_deleted_content_select" on public.market_update_deleted_content
+  for select to authenticated
+  using (public.current_user_role() = 'franchisor_admin' and public.can_view_market(market_id));
+
+-- Updates are never removed outright: deleting sets deleted_at through the
+-- update policy. Rows still go when their market does.
+drop policy if exists "market_updates_delete" on public.market_updates;
+
+-- Deleted updates can't be replied to
+create or replace function public.check_market_update_parent()
+returns trigger
+language plpgsql
+as $$
+declare
+  parent public.market_updates;
+begin
+  if new.parent_id is null then
+    return new;
+  end if;
+
+  select * into parent from public.market_updates where id = new.parent_id;
+  if parent.id is null or parent.market_id <> new.market_id then
+    raise exception 'Replies must be to an update in the same market' using errcode = '23514';
+  end if;
+  if parent.parent_id is not null then
+    raise exception 'Replies can''t be replied to' using errcode = '23514';
+  end if;
+  if parent.deleted_at is not null then
+    raise exception 'Deleted updates can''t be replied to' using errcode = '23514';
+  end if;
+  return new;
+end;
+$$;
+
+-- Deleted updates drop out of the markets list's latest update
+create or replace view public.market_summaries
+with (security_invoker = true)
+as
+select
+  m.id as market_id,
+  m.client_id,
+  coalesce(p.property_count, 0) as property_count,
+  coalesce(p.phases, '{}') as phases,
+  u.message as latest_update_message,
+  u.created_at as latest_update_at
+from public.markets m
+left join lateral (
+  select
+    count(*)::int as property_count,
+    array_agg(distinct pr.phase) filter (where pr.phase is not null) as phases
+  from public.properties pr
+  where pr.market_id = m.id
+    and pr.deleted_at is null
+) p on true
+left join lateral (
+  select mu.message, mu.created_at
+  from public.market_updates mu
+  where mu.market_id = m.id
+    and mu.parent_id is null
+    and mu.deleted_at is null
+  order by mu.created_at desc
+  limit 1
+) u on true;
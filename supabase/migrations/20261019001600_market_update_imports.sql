@@ -0,0 +1,51 @@
+-- Historical market updates imported from brokers' spreadsheets
+-- (src/lib/update-import.ts). Imported rows keep the date from the file as
+-- created_at and carry a key made from that day and the wording, unique
+-- within the market, so importing the same file again adds nothing.
+
+alter table public.market_updates
+  add column if not exists import_key text;
+
+-- Nulls don't clash, so updates posted in the portal are unaffected
+alter table public.market_updates
+  drop constraint if exists market_updates_import_key;
+alter table public.market_updates
+  add constraint market_updates_import_key unique (market_id, import_key);
+
+-- Only imports can be backdated; everything else is stamped with the time it
+-- was posted. Imports can't be dated in the future.
+create or replace function public.keep_market_update_created_at()
+returns trigger
+language plpgsql
+as $$
+begin
+  if new.import_key is null or new.created_at is null then
+    new.created_at := now();
+  elsif new.created_at > now() then
+    raise exception 'Imported updates can''t be dated in the future' using errcode = '23514';
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists market_updates_keep_created_at on public.market_updates;
+create trigger market_updates_keep_created_at
+  before insert on public.market_updates
+  for each row execute function public.keep_market_update_created_at();
+
+-- The date and key are fixed once imported
+create or replace function public.keep_market_update_import()
+returns trigger
+language plpgsql
+as $$
+begin
+  new.created_at := old.created_at;
+  new.import_key := old.import_key;
+  return new;
+end;
+$$;
+
+drop trigger if exists market_updates_keep_import on public.market_updates;
+create trigger market_updates_keep_import
+  before update on public.market_updates
+  for each row execute function public.keep_market_update_import();
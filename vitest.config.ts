@@ -0,0 +1,20 @@
+import { fileURLToPath } from 'node:url'
+import { defineConfig } from 'vitest/config'
+
+export default defineConfig({
+  resolve: {
+    alias: { '@': fileURLToPath(new URL('./src', import.meta.url)) },
+  },
+  test: {
+    environment: 'node',
+    restoreMocks: true,
+    include: ['src/**/*.test.ts'],
+    // src/lib/config.ts validates these on import; tests never reach the network
+    env: {
+      NEXT_PUBLIC_APP_ENV: 'development',
+      NEXT_PUBLIC_DATA_BACKEND: 'supabase',
+      NEXT_PUBLIC_SUPABASE_URL: 'https://project.supabase.test',
+      NEXT_PUBLIC_SUPABASE_ANON_KEY: 'test-anon-key',
+    },
+  },
+})